@@ -12,6 +12,7 @@ import {
 import { AdminService } from './admin.service';
 import { CreateAdminDto, UpdateAdminDto } from './dto';
 import { JwtAuthGuard } from '@heidi/jwt';
+import { PaginationMode } from '@heidi/contracts';
 
 @Controller()
 @UseGuards(JwtAuthGuard)
@@ -19,8 +20,13 @@ export class AdminController {
   constructor(private readonly adminService: AdminService) {}
 
   @Get()
-  async findAll(@Query('page') page = 1, @Query('limit') limit = 10) {
-    return this.adminService.findAll(+page, +limit);
+  async findAll(
+    @Query('page') page = 1,
+    @Query('limit') limit = 10,
+    @Query('pagination') pagination?: PaginationMode,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.adminService.findAll(+page, +limit, { pagination, cursor });
   }
 
   @Get(':id')
@@ -1,18 +1,41 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaAdminService } from '@heidi/prisma';
 import { LoggerService } from '@heidi/logger';
+import { ConfigService } from '@heidi/config';
+import {
+  CursorCodec,
+  CursorPaginationQueryDto,
+  CursorSort,
+  cursorOrderBy,
+  cursorWhere,
+  isCursorMode,
+} from '@heidi/contracts';
 import { CreateAdminDto, UpdateAdminDto } from './dto';
 
+/** Cursor pages list the newest admin users first */
+const CURSOR_SORT: CursorSort = { field: 'createdAt', direction: 'desc' };
+
 @Injectable()
 export class AdminService {
+  private readonly cursorCodec: CursorCodec;
+
   constructor(
     private readonly prisma: PrismaAdminService,
     private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
   ) {
     this.logger.setContext('AdminService');
+    this.cursorCodec = new CursorCodec(
+      this.configService.get<string>('pagination.cursorSecret') ??
+        this.configService.get<string>('jwt.secret', ''),
+    );
   }
 
-  async findAll(page = 1, limit = 10) {
+  async findAll(page = 1, limit = 10, paging: CursorPaginationQueryDto = {}) {
+    if (isCursorMode(paging)) {
+      return this.findAllByCursor(Math.min(Math.max(limit, 1), 100), paging.cursor);
+    }
+
     const skip = (page - 1) * limit;
     const [admins, total] = await Promise.all([
       this.prisma.adminUser.findMany({
@@ -37,6 +60,30 @@ export class AdminService {
     return { admins, total, page, limit, pages: Math.ceil(total / limit) };
   }
 
+  private async findAllByCursor(limit: number, cursor?: string) {
+    const position = cursor ? this.cursorCodec.decode(cursor, CURSOR_SORT, {}) : null;
+    const admins = await this.prisma.adminUser.findMany({
+      where: { deletedAt: null, ...cursorWhere(CURSOR_SORT, position) },
+      orderBy: cursorOrderBy(CURSOR_SORT),
+      take: limit + 1,
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        firstName: true,
+        lastName: true,
+        isActive: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    this.logger.log(
+      `AdminService: Retrieved ${Math.min(admins.length, limit)} admin users by cursor`,
+    );
+    return this.cursorCodec.page(admins, limit, CURSOR_SORT, {});
+  }
+
   async findOne(id: string) {
     const admin = await this.prisma.adminUser.findFirst({
       where: { id, deletedAt: null },
@@ -0,0 +1,97 @@
+import { Inject, Injectable } from '@nestjs/common';
+import {
+  AttemptBlock,
+  AttemptLimiterService,
+  AttemptLockout,
+  AttemptSubjects,
+  RedisService,
+} from '@heidi/redis';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import { randomBytes } from 'crypto';
+
+const LOGIN_ATTEMPTS = 'login';
+
+interface UnlockToken {
+  userId: string;
+  email: string;
+}
+
+/**
+ * Brute-force protection of the login: failed attempts per account, device and IP
+ * address, and the unlock links emailed to locked accounts
+ */
+@Injectable()
+export class AccountLockoutService {
+  constructor(
+    private readonly limiter: AttemptLimiterService,
+    private readonly redis: RedisService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(AccountLockoutService.name);
+  }
+
+  check(subjects: AttemptSubjects): Promise<AttemptBlock | null> {
+    return this.limiter.check(LOGIN_ATTEMPTS, subjects);
+  }
+
+  recordFailure(subjects: AttemptSubjects): Promise<AttemptLockout[]> {
+    return this.limiter.recordFailure(LOGIN_ATTEMPTS, subjects);
+  }
+
+  /** Forgets the failures of the account and device, not of the IP address */
+  reset(email: string, deviceId?: string | null): Promise<void> {
+    return this.limiter.reset(LOGIN_ATTEMPTS, { account: email, device: deviceId });
+  }
+
+  toException(block: AttemptBlock) {
+    return this.limiter.toException(block);
+  }
+
+  /** Returns false if the account was not locked */
+  unlock(email: string): Promise<boolean> {
+    return this.limiter.unlock(LOGIN_ATTEMPTS, { account: email });
+  }
+
+  /**
+   * Email the user a link that ends the lockout. The link is valid as long as the lockout.
+   */
+  async sendUnlockEmail(user: any, lockedUntil: Date): Promise<void> {
+    const unlockToken = randomBytes(32).toString('hex');
+    await this.redis.set(
+      `account_unlock:${unlockToken}`,
+      { userId: user.id, email: user.email } satisfies UnlockToken,
+      this.limiter.lockoutSeconds,
+    );
+
+    this.client.emit(RabbitMQPatterns.ACCOUNT_LOCKED, {
+      userId: user.id,
+      email: user.email,
+      unlockToken,
+      lockedUntil: lockedUntil.toISOString(),
+      metadata: {
+        firstName: user.firstName,
+        preferredLanguage: user.preferredLanguage,
+        cityId: user.cityId,
+      },
+    });
+    this.logger.log(`Account locked email queued for user: ${user.id}`);
+  }
+
+  /**
+   * Consume an unlock token and end the lockout of its account. Returns null if the
+   * token is unknown or expired.
+   */
+  async unlockWithToken(token: string): Promise<UnlockToken | null> {
+    const key = `account_unlock:${token}`;
+    const unlock = await this.redis.get<UnlockToken>(key);
+    if (!unlock) {
+      return null;
+    }
+
+    await this.redis.del(key);
+    await this.unlock(unlock.email);
+    return unlock;
+  }
+}
@@ -46,8 +46,11 @@ import {
   ConflictErrorResponseDto,
   GuestValidationErrorResponseDto,
   EmailVerificationRequiredErrorResponseDto,
+  VerifyTwoFactorLoginDto,
+  UnlockAccountDto,
+  UnlockAccountResultDto,
 } from '@heidi/contracts';
-import { Public, JwtAuthGuard, GetCurrentUser } from '@heidi/jwt';
+import { Public, JwtAuthGuard, GetCurrentUser, AllowWithoutTwoFactor } from '@heidi/jwt';
 import { SuperAdminOnly, AdminOnlyGuard } from '@heidi/rbac';
 
 @ApiTags('auth')
@@ -61,7 +64,7 @@ export class AuthController {
   @ApiOperation({
     summary: 'User login',
     description:
-      "Authenticate user with email and password. If the user's email is not verified, a 403 response will be returned with instructions to verify the email. Use the 'rememberMe' field to extend session duration to 30 days (default is 7 days).",
+      "Authenticate user with email and password. If the user's email is not verified, a 403 response will be returned with instructions to verify the email. Use the 'rememberMe' field to extend session duration to 30 days (default is 7 days). Accounts with two-factor authentication get a challenge token instead of tokens, to be completed at POST /login/2fa.",
   })
   @ApiBody({
     type: LoginDto,
@@ -87,7 +90,8 @@ export class AuthController {
   })
   @ApiResponse({
     status: 200,
-    description: 'Login successful',
+    description:
+      'Login successful, or a two-factor challenge (twoFactorRequired, challengeToken, expiresIn) for accounts with 2FA',
     type: LoginResponseDto,
   })
   @ApiResponse({
@@ -148,6 +152,11 @@ export class AuthController {
       'Email verification required - user must verify their email address before logging in',
     type: EmailVerificationRequiredErrorResponseDto,
   })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many failed attempts - ACCOUNT_LOCKED while the account is locked, TOO_MANY_ATTEMPTS while the device or IP address is locked or has to wait (retryAfterSeconds)',
+  })
   @HttpCode(HttpStatus.OK)
   async login(@Body() dto: LoginDto, @Req() req: Request) {
     const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
@@ -155,11 +164,41 @@ export class AuthController {
     return this.authService.login(dto, ipAddress as string, userAgent);
   }
 
+  @Post('login/2fa')
+  @Public()
+  @ApiOperation({
+    summary: 'Complete login with second factor',
+    description:
+      'Exchange the challenge token of POST /login and a 6-digit TOTP code (or an unused recovery code) for tokens. The challenge is dropped after 5 wrong codes.',
+  })
+  @ApiBody({ type: VerifyTwoFactorLoginDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful',
+    type: LoginResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid code or expired challenge',
+    type: AuthUnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'Too many failed attempts, see POST /login',
+  })
+  @HttpCode(HttpStatus.OK)
+  async verifyTwoFactorLogin(@Body() dto: VerifyTwoFactorLoginDto, @Req() req: Request) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.verifyTwoFactorLogin(dto, ipAddress as string, userAgent);
+  }
+
   @Post('logout')
+  @AllowWithoutTwoFactor()
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'User logout',
-    description: 'Log out the current user and invalidate session',
+    description: 'Log out the current user and revoke the session of the access token',
   })
   @ApiResponse({
     status: 200,
@@ -172,17 +211,22 @@ export class AuthController {
     type: AuthUnauthorizedErrorResponseDto,
   })
   @HttpCode(HttpStatus.OK)
-  async logout(@GetCurrentUser('userId') userId: string, @Req() req: Request) {
+  async logout(
+    @GetCurrentUser('userId') userId: string,
+    @GetCurrentUser('sessionId') sessionId: string | undefined,
+    @Req() req: Request,
+  ) {
     const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
     const userAgent = req.headers['user-agent'];
-    return this.authService.logout(userId, ipAddress as string, userAgent);
+    return this.authService.logout(userId, sessionId, ipAddress as string, userAgent);
   }
 
   @Post('refresh')
   @Public()
   @ApiOperation({
     summary: 'Refresh access token',
-    description: 'Get a new access token using refresh token',
+    description:
+      'Get a new token pair using the refresh token. The refresh token is rotated: the presented token becomes invalid, and presenting it again revokes every session of its family.',
   })
   @ApiBody({ type: RefreshTokenDto })
   @ApiResponse({
@@ -201,8 +245,10 @@ export class AuthController {
     type: RefreshTokenUnauthorizedErrorResponseDto,
   })
   @HttpCode(HttpStatus.OK)
-  async refresh(@Body() dto: RefreshTokenDto) {
-    return this.authService.refreshTokens(dto.refreshToken);
+  async refresh(@Body() dto: RefreshTokenDto, @Req() req: Request) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.refreshTokens(dto.refreshToken, ipAddress as string, userAgent);
   }
 
   @Post('validate')
@@ -335,7 +381,8 @@ export class AuthController {
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({
     summary: 'Get user sessions',
-    description: 'Get all active sessions for the current user',
+    description:
+      'Get the active sessions (one per signed-in device) of the current user; the session of the access token is marked as current',
   })
   @ApiResponse({
     status: 200,
@@ -348,13 +395,19 @@ export class AuthController {
     type: AuthUnauthorizedErrorResponseDto,
   })
   @HttpCode(HttpStatus.OK)
-  async getSessions(@GetCurrentUser('userId') userId: string) {
-    return this.authService.getSessions(userId);
+  async getSessions(
+    @GetCurrentUser('userId') userId: string,
+    @GetCurrentUser('sessionId') sessionId?: string,
+  ) {
+    return this.authService.getSessions(userId, sessionId);
   }
 
   @Post('sessions/:sessionId/revoke')
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Revoke session', description: 'Revoke a specific session by ID' })
+  @ApiOperation({
+    summary: 'Revoke session',
+    description: 'Revoke a specific session by ID, ending its refresh token family',
+  })
   @ApiParam({ name: 'sessionId', description: 'Session ID to revoke' })
   @ApiResponse({
     status: 200,
@@ -400,6 +453,70 @@ export class AuthController {
     return this.authService.revokeAllSessions(userId);
   }
 
+  @Post('accounts/unlock')
+  @Public()
+  @ApiOperation({
+    summary: 'Unlock account',
+    description:
+      'End the lockout after too many failed logins with the token of the account locked email',
+  })
+  @ApiBody({ type: UnlockAccountDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Account unlocked',
+    type: UnlockAccountResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid or expired unlock token',
+    type: ValidationErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async unlockAccountWithToken(@Body() dto: UnlockAccountDto, @Req() req: Request) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.unlockAccountWithToken(dto.token, ipAddress as string, userAgent);
+  }
+
+  @Post('accounts/:userId/unlock')
+  @SuperAdminOnly()
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Unlock account (Super Admin only)',
+    description: 'End the lockout of an account after too many failed logins before it expires',
+  })
+  @ApiParam({ name: 'userId', description: 'ID of the locked user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Lockout ended; unlocked is false if the account was not locked',
+    type: UnlockAccountResultDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized',
+    type: AuthUnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Super Admin only',
+    type: AuthForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'User not found',
+    type: AuthNotFoundErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async unlockAccount(
+    @Param('userId') userId: string,
+    @GetCurrentUser('userId') adminId: string,
+    @Req() req: Request,
+  ) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.unlockAccount(userId, adminId, ipAddress as string, userAgent);
+  }
+
   @Post('guest')
   @Public()
   @ApiOperation({
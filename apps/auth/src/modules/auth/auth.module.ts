@@ -1,7 +1,15 @@
 import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
-import { PrismaAuthModule } from '@heidi/prisma';
+import { TwoFactorController } from './two-factor.controller';
+import { TwoFactorService } from './two-factor.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { OAuthController } from './oauth.controller';
+import { OAuthService } from './oauth.service';
+import { BundIdController } from './bundid.controller';
+import { BundIdService } from './bundid.service';
+import { PrismaAuthModule, PrismaAuthService } from '@heidi/prisma';
 import { RBACModule } from '@heidi/rbac';
 import { SagaModule } from '@heidi/saga';
 
@@ -9,10 +17,11 @@ import { SagaModule } from '@heidi/saga';
   imports: [
     PrismaAuthModule, // For sessions and audit logs (own database)
     RBACModule,
-    SagaModule, // Saga orchestrator for distributed transactions
+    SagaModule.forRoot({ prismaService: PrismaAuthService }), // Saga orchestrator (sagas in own database)
+    HttpModule, // Token and profile requests to social login providers
   ],
-  controllers: [AuthController],
-  providers: [AuthService],
+  controllers: [AuthController, TwoFactorController, OAuthController, BundIdController],
+  providers: [AuthService, TwoFactorService, AccountLockoutService, OAuthService, BundIdService],
   exports: [AuthService],
 })
 export class AuthModule {}
@@ -0,0 +1,246 @@
+import { HttpException, HttpStatus, UnauthorizedException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { of } from 'rxjs';
+import { createHash } from 'crypto';
+import { PrismaAuthService } from '@heidi/prisma';
+import { PermissionService } from '@heidi/rbac';
+import { JwtTokenService } from '@heidi/jwt';
+import { RedisService } from '@heidi/redis';
+import { RABBITMQ_CLIENT, RabbitMQPatterns } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import { SagaOrchestratorService } from '@heidi/saga';
+import { AuthAction, Session, TokenType } from '@prisma/client-auth';
+import { AuthService } from './auth.service';
+import { TwoFactorService } from './two-factor.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { OAuthService } from './oauth.service';
+import { BundIdService } from './bundid.service';
+
+const REFRESH_TOKEN = 'refresh-token';
+
+function buildSession(overrides: Partial<Session> = {}): Session {
+  return {
+    id: 'session-1',
+    userId: 'user-1',
+    tokenType: TokenType.REFRESH,
+    tokenHash: createHash('sha256').update(REFRESH_TOKEN).digest('hex'),
+    provider: 'LOCAL',
+    metadata: null,
+    deviceId: null,
+    devicePlatform: null,
+    familyId: 'family-1',
+    replacedById: null,
+    trustLevel: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    revokedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as Session;
+}
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let tx: { session: { updateMany: jest.Mock; create: jest.Mock } };
+  let prisma: {
+    session: { findFirst: jest.Mock; updateMany: jest.Mock };
+    authAuditLog: { create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let jwtService: { verifyRefreshToken: jest.Mock; generateTokenPair: jest.Mock };
+  let twoFactor: { isEnabled: jest.Mock; getChallenge: jest.Mock; completeChallenge: jest.Mock };
+  let accountLockout: { check: jest.Mock; recordFailure: jest.Mock; toException: jest.Mock };
+
+  beforeEach(async () => {
+    tx = {
+      session: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn().mockResolvedValue({}),
+      },
+    };
+    prisma = {
+      session: {
+        findFirst: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 2 }),
+      },
+      authAuditLog: { create: jest.fn().mockResolvedValue({}) },
+      $transaction: jest.fn((run: (client: typeof tx) => Promise<unknown>) => run(tx)),
+    };
+    jwtService = {
+      verifyRefreshToken: jest.fn().mockResolvedValue({ sub: 'user-1', sid: 'session-1' }),
+      generateTokenPair: jest
+        .fn()
+        .mockResolvedValue({ accessToken: 'access', refreshToken: 'rotated-refresh-token' }),
+    };
+
+    twoFactor = {
+      isEnabled: jest.fn().mockResolvedValue(false),
+      getChallenge: jest.fn(),
+      completeChallenge: jest.fn(),
+    };
+    accountLockout = {
+      check: jest.fn().mockResolvedValue(null),
+      recordFailure: jest.fn().mockResolvedValue([]),
+      toException: jest.fn(() => new HttpException('Locked', HttpStatus.TOO_MANY_REQUESTS)),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: PrismaAuthService, useValue: prisma },
+        { provide: JwtTokenService, useValue: jwtService },
+        {
+          provide: PermissionService,
+          useValue: { getUserPermissions: jest.fn().mockResolvedValue([]) },
+        },
+        { provide: RedisService, useValue: { get: jest.fn(), del: jest.fn() } },
+        {
+          provide: RABBITMQ_CLIENT,
+          useValue: {
+            send: jest.fn((pattern: string) =>
+              of(
+                pattern === RabbitMQPatterns.CORE_GET_USER_ASSIGNMENTS
+                  ? []
+                  : { id: 'user-1', email: 'jane@example.com', role: 'CITIZEN', isActive: true },
+              ),
+            ),
+          },
+        },
+        { provide: SagaOrchestratorService, useValue: {} },
+        { provide: TwoFactorService, useValue: twoFactor },
+        { provide: AccountLockoutService, useValue: accountLockout },
+        { provide: OAuthService, useValue: {} },
+        { provide: BundIdService, useValue: {} },
+        {
+          provide: LoggerService,
+          useValue: { setContext: jest.fn(), log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(AuthService);
+  });
+
+  describe('refreshTokens', () => {
+    it('rotates the session within its token family', async () => {
+      prisma.session.findFirst.mockResolvedValue(buildSession());
+
+      const tokens = await service.refreshTokens(REFRESH_TOKEN);
+
+      expect(tokens.refreshToken).toBe('rotated-refresh-token');
+      expect(tx.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', revokedAt: null },
+        data: expect.objectContaining({ revokedAt: expect.any(Date) }),
+      });
+      const successor = tx.session.create.mock.calls[0][0].data;
+      expect(successor.familyId).toBe('family-1');
+      expect(successor.tokenHash).toBe(
+        createHash('sha256').update('rotated-refresh-token').digest('hex'),
+      );
+      expect(tx.session.updateMany.mock.calls[0][0].data.replacedById).toBe(successor.id);
+    });
+
+    it('revokes the whole family when a rotated token is presented again', async () => {
+      prisma.session.findFirst.mockResolvedValue(
+        buildSession({ revokedAt: new Date(), replacedById: 'session-2' }),
+      );
+
+      await expect(service.refreshTokens(REFRESH_TOKEN)).rejects.toThrow(UnauthorizedException);
+
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          OR: [{ id: 'session-1' }, { familyId: 'family-1' }],
+          revokedAt: null,
+        },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(prisma.authAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: AuthAction.SESSION_REVOKE,
+          metadata: expect.objectContaining({ reason: 'refresh_token_reuse' }),
+        }),
+      });
+      expect(jwtService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('rejects a logged out session without revoking its family', async () => {
+      prisma.session.findFirst.mockResolvedValue(buildSession({ revokedAt: new Date() }));
+
+      await expect(service.refreshTokens(REFRESH_TOKEN)).rejects.toThrow(UnauthorizedException);
+
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects a token that does not match the session', async () => {
+      prisma.session.findFirst.mockResolvedValue(buildSession());
+
+      await expect(service.refreshTokens('another-token')).rejects.toThrow(UnauthorizedException);
+
+      expect(jwtService.generateTokenPair).not.toHaveBeenCalled();
+    });
+
+    it('revokes the family when a concurrent refresh rotated the session first', async () => {
+      prisma.session.findFirst.mockResolvedValue(buildSession());
+      tx.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.refreshTokens(REFRESH_TOKEN)).rejects.toThrow(UnauthorizedException);
+
+      expect(tx.session.create).not.toHaveBeenCalled();
+      expect(prisma.session.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ OR: [{ id: 'session-1' }, { familyId: 'family-1' }] }),
+        }),
+      );
+    });
+  });
+
+  describe('verifyTwoFactorLogin', () => {
+    const dto = { challengeToken: 'challenge-token', code: '123456' };
+
+    beforeEach(() => {
+      twoFactor.getChallenge.mockResolvedValue({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        rememberMe: false,
+        deviceId: 'device-1',
+      });
+    });
+
+    it('rejects locked out subjects before checking the code or consuming the challenge', async () => {
+      accountLockout.check.mockResolvedValue({ subject: 'account', reason: 'locked' });
+
+      await expect(service.verifyTwoFactorLogin(dto, '203.0.113.7')).rejects.toThrow(HttpException);
+
+      expect(accountLockout.check).toHaveBeenCalledWith({
+        account: 'jane@example.com',
+        device: 'device-1',
+        ip: '203.0.113.7',
+      });
+      expect(twoFactor.completeChallenge).not.toHaveBeenCalled();
+    });
+
+    it('counts a wrong code as a failed login', async () => {
+      twoFactor.completeChallenge.mockResolvedValue(null);
+
+      await expect(service.verifyTwoFactorLogin(dto, '203.0.113.7')).rejects.toThrow(
+        UnauthorizedException,
+      );
+
+      expect(twoFactor.completeChallenge).toHaveBeenCalledWith(
+        'challenge-token',
+        expect.objectContaining({ userId: 'user-1' }),
+        '123456',
+      );
+      expect(accountLockout.recordFailure).toHaveBeenCalled();
+    });
+
+    it('rejects an unknown or expired challenge', async () => {
+      twoFactor.getChallenge.mockResolvedValue(null);
+
+      await expect(service.verifyTwoFactorLogin(dto)).rejects.toThrow(UnauthorizedException);
+
+      expect(accountLockout.check).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import {
+  BadRequestException,
+  ConflictException,
   Injectable,
   UnauthorizedException,
   ForbiddenException,
@@ -9,15 +11,51 @@ import {
 import { firstValueFrom, timeout } from 'rxjs';
 import { PrismaAuthService } from '@heidi/prisma';
 import { PermissionService, roleToNumber, numberToRole } from '@heidi/rbac';
-import { JwtTokenService, CityAssignment } from '@heidi/jwt';
-import { RedisService } from '@heidi/redis';
+import { JwtTokenService, CityAssignment, TokenPair } from '@heidi/jwt';
+import { AttemptSubjects, RedisService } from '@heidi/redis';
 import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
 import { LoggerService } from '@heidi/logger';
 import { UserRole } from '@prisma/client-core';
-import { AuthAction, AuthProvider, TokenType } from '@prisma/client-auth';
+import {
+  AuthAction,
+  AuthProvider,
+  Prisma,
+  Session,
+  TokenType,
+  TrustLevel,
+} from '@prisma/client-auth';
 import * as bcrypt from 'bcrypt';
-import { LoginDto, AssignCityAdminDto, GuestLoginDto, ConvertGuestDto } from '@heidi/contracts';
-import { SagaOrchestratorService } from '@heidi/saga';
+import { createHash, randomUUID } from 'crypto';
+import {
+  LoginDto,
+  AssignCityAdminDto,
+  GuestLoginDto,
+  ConvertGuestDto,
+  VerifyTwoFactorLoginDto,
+  DisableTwoFactorDto,
+  OAuthAuthorizeDto,
+  OAuthCallbackDto,
+  OAuthProvider,
+  BundIdAuthorizeDto,
+  BundIdAssertionDto,
+  BundIdLoginDto,
+} from '@heidi/contracts';
+import { SagaOrchestratorService, SagaExecutionError } from '@heidi/saga';
+import { TwoFactorMethod, TwoFactorService } from './two-factor.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { OAuthProfile, OAuthService, OAuthState } from './oauth.service';
+import { BundIdProfile, BundIdService } from './bundid.service';
+
+interface RefreshSessionData {
+  userId: string;
+  tokenType: TokenType;
+  expiresAt: Date;
+  provider?: AuthProvider;
+  trustLevel?: TrustLevel | null;
+  metadata?: Record<string, any>;
+  deviceId?: string | null;
+  devicePlatform?: string | null;
+}
 
 @Injectable()
 export class AuthService {
@@ -30,6 +68,10 @@ export class AuthService {
     private readonly redis: RedisService,
     @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
     private readonly sagaOrchestrator: SagaOrchestratorService,
+    private readonly twoFactor: TwoFactorService,
+    private readonly accountLockout: AccountLockoutService,
+    private readonly oauth: OAuthService,
+    private readonly bundId: BundIdService,
     logger: LoggerService,
   ) {
     this.logger = logger;
@@ -67,33 +109,80 @@ export class AuthService {
   }
 
   /**
-   * Store session (for future OAuth/BIND_ID support)
+   * Store the session a refresh token is bound to. A login starts a new token family;
+   * a refresh passes the session it rotates, which is revoked in the same transaction.
+   * Returns false if that session was already rotated or revoked meanwhile.
    */
   private async storeSession(
-    userId: string,
-    tokenType: TokenType,
-    expiresAt: Date,
-    provider: AuthProvider = AuthProvider.LOCAL,
-    metadata?: Record<string, any>,
-    deviceId?: string,
-    devicePlatform?: string,
-  ) {
-    try {
-      await this.prismaAuth.session.create({
+    sessionId: string,
+    refreshToken: string,
+    data: RefreshSessionData,
+    rotated?: Session,
+  ): Promise<boolean> {
+    return this.prismaAuth.$transaction(async (tx) => {
+      if (rotated) {
+        const { count } = await tx.session.updateMany({
+          where: { id: rotated.id, revokedAt: null },
+          data: { revokedAt: new Date(), replacedById: sessionId },
+        });
+        if (count === 0) {
+          return false;
+        }
+      }
+
+      await tx.session.create({
         data: {
-          userId,
-          tokenType,
-          expiresAt,
-          provider,
-          metadata: metadata ? metadata : undefined,
-          deviceId: deviceId || null,
-          devicePlatform: (devicePlatform as any) || null,
+          id: sessionId,
+          userId: data.userId,
+          tokenType: data.tokenType,
+          tokenHash: this.hashToken(refreshToken),
+          familyId: rotated ? (rotated.familyId ?? rotated.id) : sessionId,
+          expiresAt: data.expiresAt,
+          provider: data.provider ?? AuthProvider.LOCAL,
+          trustLevel: data.trustLevel ?? null,
+          metadata: data.metadata ? data.metadata : undefined,
+          deviceId: data.deviceId || null,
+          devicePlatform: data.devicePlatform || null,
         },
       });
-    } catch (error) {
-      this.logger.error('Failed to store session', error);
-      // Don't throw - session storage failure shouldn't break auth flow
-    }
+      return true;
+    });
+  }
+
+  /**
+   * Revoke every session of the family the given session belongs to
+   */
+  private async revokeSessionFamily(
+    session: Session,
+    reason: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const familyId = session.familyId ?? session.id;
+    const result = await this.prismaAuth.session.updateMany({
+      where: {
+        userId: session.userId,
+        OR: [{ id: session.id }, { familyId }],
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.createAuditLog(
+      session.userId,
+      AuthAction.SESSION_REVOKE,
+      true,
+      undefined,
+      ipAddress,
+      userAgent,
+      { sessionId: session.id, familyId, reason, sessionsRevoked: result.count },
+    );
+
+    return result.count;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
   }
 
   /**
@@ -173,6 +262,75 @@ export class AuthService {
     }
   }
 
+  /**
+   * Reject a login attempt while the account, device or IP address is locked or has to
+   * wait after previous failures
+   */
+  private async assertLoginAllowed(
+    subjects: AttemptSubjects,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const block = await this.accountLockout.check(subjects);
+    if (!block) {
+      return;
+    }
+
+    this.logger.warn(
+      `Login blocked - ${block.subject} ${block.reason} for email: ${subjects.account}`,
+    );
+    await this.createAuditLog(
+      null,
+      AuthAction.LOGIN,
+      false,
+      block.reason === 'locked'
+        ? `Login blocked - ${block.subject} is locked`
+        : `Login throttled - ${block.subject} has to wait after failed attempts`,
+      ipAddress,
+      userAgent,
+      { email: subjects.account, lockout: block },
+    );
+    throw this.accountLockout.toException(block);
+  }
+
+  /**
+   * Count a failed login. Subjects that reach their limit are locked; a locked account
+   * gets an email with an unlock link.
+   */
+  private async recordLoginFailure(
+    user: any,
+    subjects: AttemptSubjects,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const lockouts = await this.accountLockout.recordFailure(subjects);
+
+    for (const lockout of lockouts) {
+      this.logger.warn(
+        `Login locked - ${lockout.subject} after ${lockout.failures} failed attempts for email: ${subjects.account}`,
+      );
+      await this.createAuditLog(
+        lockout.subject === 'account' ? (user?.id ?? null) : null,
+        AuthAction.ACCOUNT_LOCK,
+        true,
+        undefined,
+        ipAddress,
+        userAgent,
+        {
+          email: subjects.account,
+          subject: lockout.subject,
+          reason: `${lockout.failures} failed login attempts`,
+          failures: lockout.failures,
+          lockedUntil: lockout.lockedUntil,
+        },
+      );
+
+      if (lockout.subject === 'account' && user?.email) {
+        await this.accountLockout.sendUnlockEmail(user, lockout.lockedUntil);
+      }
+    }
+  }
+
   /**
    * Login user - Using Saga pattern for distributed transaction
    * Login is now email-only since username is optional
@@ -180,6 +338,9 @@ export class AuthService {
   async login(dto: LoginDto, ipAddress?: string, userAgent?: string) {
     this.logger.log(`Login attempt for email: ${dto.email}`);
 
+    const attemptSubjects = { account: dto.email, device: dto.deviceId, ip: ipAddress };
+    await this.assertLoginAllowed(attemptSubjects, ipAddress, userAgent);
+
     let failureReason: string | undefined;
 
     try {
@@ -211,6 +372,7 @@ export class AuthService {
           userAgent,
           { email: dto.email },
         );
+        await this.recordLoginFailure(null, attemptSubjects, ipAddress, userAgent);
         throw new UnauthorizedException({
           errorCode: 'ACCOUNT_NOT_FOUND',
           message: `No account found with email address: ${dto.email}. Please check your email or register for a new account.`,
@@ -276,7 +438,9 @@ export class AuthService {
       }
 
       // Verify password (only if email is verified or user has no email)
-      const isPasswordValid = await bcrypt.compare(dto.password, user.password);
+      // Social login accounts have no password and cannot log in with one
+      const isPasswordValid =
+        !!user.password && (await bcrypt.compare(dto.password, user.password));
       if (!isPasswordValid) {
         failureReason = `Invalid password for email: ${dto.email}`;
         this.logger.warn(
@@ -291,6 +455,7 @@ export class AuthService {
           userAgent,
           { email: dto.email },
         );
+        await this.recordLoginFailure(user, attemptSubjects, ipAddress, userAgent);
         throw new UnauthorizedException({
           errorCode: 'INVALID_CREDENTIALS',
           message: 'Invalid email or password. Please check your credentials and try again.',
@@ -298,135 +463,846 @@ export class AuthService {
         });
       }
 
-      // Step 2: Load user's city assignments from core service via RabbitMQ
-      const dbAssignments = await firstValueFrom(
+      // Accounts with 2FA get a challenge instead of tokens
+      if (await this.twoFactor.isEnabled(user.id)) {
+        this.logger.log(`Two-factor challenge issued for user: ${user.id}`);
+        const challenge = await this.twoFactor.createChallenge({
+          userId: user.id,
+          email: user.email,
+          rememberMe: dto.rememberMe || false,
+          deviceId: dto.deviceId,
+          devicePlatform: dto.devicePlatform,
+        });
+        return { twoFactorRequired: true, ...challenge };
+      }
+
+      return await this.completeLogin(
+        user,
+        {
+          rememberMe: dto.rememberMe || false,
+          deviceId: dto.deviceId,
+          devicePlatform: dto.devicePlatform,
+        },
+        ipAddress,
+        userAgent,
+      );
+    } catch (error) {
+      // Re-throw HTTP exceptions (UnauthorizedException, ForbiddenException) as-is
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      // Log and convert other errors to UnauthorizedException
+      failureReason = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Login error for email: ${dto.email}`, error);
+      await this.createAuditLog(
+        null,
+        AuthAction.LOGIN,
+        false,
+        failureReason,
+        ipAddress,
+        userAgent,
+        { email: dto.email },
+      );
+      throw new UnauthorizedException({
+        errorCode: 'LOGIN_ERROR',
+        message: 'An error occurred during login. Please try again later.',
+        email: dto.email,
+      });
+    }
+  }
+
+  /**
+   * Issue tokens and the session of a login whose credentials (and second factor) were verified
+   */
+  private async completeLogin(
+    user: any,
+    options: {
+      rememberMe: boolean;
+      deviceId?: string;
+      devicePlatform?: string;
+      twoFactorMethod?: TwoFactorMethod;
+      oauth?: { provider: AuthProvider; tokens: string };
+      bundId?: { trustLevel: TrustLevel; nameId: string; sessionIndex?: string };
+    },
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    // Failures of the account and device are forgotten once the login has fully succeeded
+    await this.accountLockout.reset(user.email, options.deviceId);
+
+    // Load user's city assignments from core service via RabbitMQ
+    const dbAssignments = await firstValueFrom(
+      this.client
+        .send<
+          Array<{ cityId: string; role: UserRole; canManageAdmins: boolean }>,
+          { userId: string }
+        >(RabbitMQPatterns.CORE_GET_USER_ASSIGNMENTS, { userId: user.id })
+        .pipe(timeout(10000)),
+    );
+
+    const cityAssignments: CityAssignment[] = dbAssignments.map((a) => ({
+      cityId: a.cityId,
+      role: roleToNumber(a.role),
+      canManageAdmins: a.canManageAdmins,
+    }));
+
+    // Determine highest role for permissions (use auth role or highest assignment role)
+    const roleHierarchy = [UserRole.SUPER_ADMIN, UserRole.CITY_ADMIN, UserRole.CITIZEN];
+    const userRoleIndex = roleHierarchy.indexOf(user.role as UserRole);
+    const assignmentRoles = dbAssignments.map((a) => a.role);
+    const highestAssignmentIndex =
+      assignmentRoles.length > 0
+        ? Math.min(...assignmentRoles.map((r) => roleHierarchy.indexOf(r)))
+        : roleHierarchy.length - 1;
+
+    const effectiveRole =
+      userRoleIndex >= 0 && userRoleIndex < highestAssignmentIndex
+        ? user.role
+        : assignmentRoles.length > 0
+          ? roleHierarchy[highestAssignmentIndex]
+          : UserRole.CITIZEN;
+
+    const permissions = await this.permissionService.getUserPermissions(effectiveRole as UserRole);
+
+    // Generate tokens with city context and permissions, bound to a new session
+    const sessionId = randomUUID();
+    const selectedCityId = cityAssignments.length > 0 ? cityAssignments[0].cityId : undefined;
+    const tokens = await this.jwtService.generateTokenPair(user.id, user.email, user.role, {
+      selectedCityId,
+      cityAssignments: cityAssignments.length > 0 ? cityAssignments : undefined,
+      permissions: permissions.length > 0 ? permissions : undefined,
+      sessionId,
+      twoFactorVerified: !!options.twoFactorMethod,
+      trustLevel: options.bundId?.trustLevel,
+    });
+
+    // Use 30 days if rememberMe is true, otherwise 7 days
+    const refreshTokenExpiry = options.rememberMe
+      ? 30 * 24 * 60 * 60 // 30 days for remember me
+      : 7 * 24 * 60 * 60; // 7 days for regular login
+
+    // Store the session the refresh token is bound to
+    const expiresAt = new Date(Date.now() + refreshTokenExpiry * 1000);
+    await this.storeSession(sessionId, tokens.refreshToken, {
+      userId: user.id,
+      tokenType: options.bundId ? TokenType.BIND_ID : TokenType.JWT,
+      expiresAt,
+      provider: options.bundId ? AuthProvider.BIND_ID : options.oauth?.provider,
+      trustLevel: options.bundId?.trustLevel,
+      metadata: {
+        rememberMe: options.rememberMe,
+        twoFactor: !!options.twoFactorMethod,
+        ...(options.oauth && { oauth: options.oauth }),
+        ...(options.bundId && {
+          bundId: { nameId: options.bundId.nameId, sessionIndex: options.bundId.sessionIndex },
+        }),
+      },
+      deviceId: options.deviceId,
+      devicePlatform: options.devicePlatform,
+    });
+
+    // Create audit log for successful login
+    await this.createAuditLog(user.id, AuthAction.LOGIN, true, undefined, ipAddress, userAgent, {
+      tokenType: 'JWT',
+      rememberMe: options.rememberMe,
+      refreshTokenExpiry: refreshTokenExpiry,
+      sessionId,
+      ...(options.twoFactorMethod && { twoFactorMethod: options.twoFactorMethod }),
+      ...(options.oauth && { provider: options.oauth.provider }),
+      ...(options.bundId && {
+        provider: AuthProvider.BIND_ID,
+        trustLevel: options.bundId.trustLevel,
+      }),
+    });
+
+    this.logger.log(`User logged in successfully: ${user.id}`);
+
+    // Check terms acceptance status (non-blocking - don't fail login if terms service is slow)
+    const finalTermsInfo = await this.checkTermsAcceptance(user.id, cityAssignments);
+
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        role: roleToNumber(user.role),
+        userType: 'REGISTERED',
+        firstName: user.firstName,
+        lastName: user.lastName,
+      },
+      ...tokens,
+      ...finalTermsInfo,
+      // Roles under the 2FA policy can only enrol until they sign in with a second factor
+      twoFactorSetupRequired:
+        !options.twoFactorMethod &&
+        this.twoFactor.isRequired([user.role, ...cityAssignments.map((a) => a.role)]),
+    };
+  }
+
+  /**
+   * Second login step of accounts with 2FA: exchange the challenge and a TOTP or recovery code
+   * for tokens
+   */
+  async verifyTwoFactorLogin(dto: VerifyTwoFactorLoginDto, ipAddress?: string, userAgent?: string) {
+    const challenge = await this.twoFactor.getChallenge(dto.challengeToken);
+    if (!challenge) {
+      throw new UnauthorizedException({
+        errorCode: 'TWO_FACTOR_CHALLENGE_INVALID',
+        message: 'The login challenge is invalid or expired. Please log in again.',
+      });
+    }
+
+    // Wrong codes count like wrong passwords, so the second factor cannot be guessed either.
+    // Locked-out subjects are rejected before their code is checked or the challenge consumed.
+    const attemptSubjects = {
+      account: challenge.email,
+      device: challenge.deviceId,
+      ip: ipAddress,
+    };
+    await this.assertLoginAllowed(attemptSubjects, ipAddress, userAgent);
+
+    const method = await this.twoFactor.completeChallenge(dto.challengeToken, challenge, dto.code);
+    if (!method) {
+      this.logger.warn(`Login failed - Invalid two-factor code for userId: ${challenge.userId}`);
+      await this.createAuditLog(
+        challenge.userId,
+        AuthAction.LOGIN,
+        false,
+        'Invalid two-factor code',
+        ipAddress,
+        userAgent,
+        { email: challenge.email },
+      );
+      await this.recordLoginFailure(
+        { id: challenge.userId, email: challenge.email },
+        attemptSubjects,
+        ipAddress,
+        userAgent,
+      );
+      throw new UnauthorizedException({
+        errorCode: 'INVALID_TWO_FACTOR_CODE',
+        message: 'The two-factor code is invalid or expired.',
+      });
+    }
+
+    try {
+      // Load the user again, the account may have changed since the password step
+      const user = await firstValueFrom(
         this.client
-          .send<
-            Array<{ cityId: string; role: UserRole; canManageAdmins: boolean }>,
-            { userId: string }
-          >(RabbitMQPatterns.CORE_GET_USER_ASSIGNMENTS, { userId: user.id })
+          .send<any, { email: string }>(RabbitMQPatterns.USER_FIND_BY_EMAIL, {
+            email: challenge.email,
+          })
           .pipe(timeout(10000)),
       );
+      if (!user || user.id !== challenge.userId || !user.isActive) {
+        throw new UnauthorizedException({
+          errorCode: 'ACCOUNT_INACTIVE',
+          message: 'Your account is inactive. Please contact support for assistance.',
+        });
+      }
 
-      const cityAssignments: CityAssignment[] = dbAssignments.map((a) => ({
-        cityId: a.cityId,
-        role: roleToNumber(a.role),
-        canManageAdmins: a.canManageAdmins,
-      }));
-
-      // Determine highest role for permissions (use auth role or highest assignment role)
-      const roleHierarchy = [UserRole.SUPER_ADMIN, UserRole.CITY_ADMIN, UserRole.CITIZEN];
-      const userRoleIndex = roleHierarchy.indexOf(user.role as UserRole);
-      const assignmentRoles = dbAssignments.map((a) => a.role);
-      const highestAssignmentIndex =
-        assignmentRoles.length > 0
-          ? Math.min(...assignmentRoles.map((r) => roleHierarchy.indexOf(r)))
-          : roleHierarchy.length - 1;
-
-      const effectiveRole =
-        userRoleIndex >= 0 && userRoleIndex < highestAssignmentIndex
-          ? user.role
-          : assignmentRoles.length > 0
-            ? roleHierarchy[highestAssignmentIndex]
-            : UserRole.CITIZEN;
-
-      const permissions = await this.permissionService.getUserPermissions(
-        effectiveRole as UserRole,
+      return await this.completeLogin(
+        user,
+        {
+          rememberMe: challenge.rememberMe,
+          deviceId: challenge.deviceId,
+          devicePlatform: challenge.devicePlatform,
+          twoFactorMethod: method,
+          oauth: challenge.oauth,
+          bundId: challenge.bundId,
+        },
+        ipAddress,
+        userAgent,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`Two-factor login error for userId: ${challenge.userId}`, error);
+      await this.createAuditLog(
+        challenge.userId,
+        AuthAction.LOGIN,
+        false,
+        error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+        userAgent,
       );
+      throw new UnauthorizedException({
+        errorCode: 'LOGIN_ERROR',
+        message: 'An error occurred during login. Please try again later.',
+      });
+    }
+  }
 
-      // Generate tokens with city context and permissions
-      const selectedCityId = cityAssignments.length > 0 ? cityAssignments[0].cityId : undefined;
-      const tokens = await this.jwtService.generateTokenPair(user.id, user.email, user.role, {
-        selectedCityId,
-        cityAssignments: cityAssignments.length > 0 ? cityAssignments : undefined,
-        permissions: permissions.length > 0 ? permissions : undefined,
+  /**
+   * Start a social login with the given provider
+   */
+  async createOAuthAuthorization(provider: OAuthProvider, dto: OAuthAuthorizeDto) {
+    return this.oauth.createAuthorization(provider, dto);
+  }
+
+  /**
+   * Complete a social login: exchange the provider's authorization code and sign in the user
+   * linked to the provider account. An unlinked provider account converts the guest that
+   * started the sign-in, is linked to the user with the same verified email, or gets a new user.
+   */
+  async loginWithOAuth(
+    provider: OAuthProvider,
+    dto: OAuthCallbackDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const authProvider = this.oauth.toAuthProvider(provider);
+    const state = await this.oauth.consumeState(provider, dto.state);
+    if (!state) {
+      throw new UnauthorizedException({
+        errorCode: 'OAUTH_STATE_INVALID',
+        message: 'The sign-in is invalid or expired. Please start again.',
       });
+    }
 
-      // Store refresh token in Redis
-      // Use 30 days if rememberMe is true, otherwise 7 days
-      const refreshTokenExpiry = dto.rememberMe
-        ? 30 * 24 * 60 * 60 // 30 days for remember me
-        : 7 * 24 * 60 * 60; // 7 days for regular login
-      await this.redis.set(`refresh_token:${user.id}`, tokens.refreshToken, refreshTokenExpiry);
+    let profile: OAuthProfile;
+    let tokens: string;
+    try {
+      const result = await this.oauth.exchangeCode(state, dto.code);
+      profile = result.profile;
+      tokens = this.oauth.encryptTokens(result.tokens);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.warn(`Login failed - ${provider} code exchange failed: ${error.message}`);
+      await this.createAuditLog(
+        null,
+        AuthAction.LOGIN,
+        false,
+        `${provider} code exchange failed`,
+        ipAddress,
+        userAgent,
+        { provider: authProvider },
+      );
+      throw new UnauthorizedException({
+        errorCode: 'OAUTH_EXCHANGE_FAILED',
+        message: `Sign-in with ${provider} failed. Please try again.`,
+      });
+    }
 
-      // Store session in auth database (for audit and future OAuth/BIND_ID)
-      const expiresAt = new Date(Date.now() + refreshTokenExpiry * 1000);
-      await this.storeSession(user.id, TokenType.JWT, expiresAt, AuthProvider.LOCAL, {
-        rememberMe: dto.rememberMe || false,
+    const oauth = { provider: authProvider, tokens };
+
+    try {
+      const identity = await this.oauth.findIdentity(provider, profile.id);
+      if (!identity && state.guestUserId) {
+        return await this.convertGuestWithOAuth(
+          provider,
+          state,
+          profile,
+          oauth,
+          ipAddress,
+          userAgent,
+        );
+      }
+
+      let user: any;
+      if (identity) {
+        user = await this.findUserForOAuth(identity.userId);
+        await this.oauth.touchIdentity(identity);
+      } else {
+        user = await this.findOrCreateOAuthUser(provider, profile);
+        await this.oauth.linkIdentity(user.id, provider, profile);
+        this.logger.log(`Linked ${provider} account to user: ${user.id}`);
+      }
+
+      if (!user || !user.isActive) {
+        await this.createAuditLog(
+          user?.id ?? identity?.userId ?? null,
+          AuthAction.LOGIN,
+          false,
+          'Account is inactive',
+          ipAddress,
+          userAgent,
+          { provider: authProvider },
+        );
+        throw new UnauthorizedException({
+          errorCode: 'ACCOUNT_INACTIVE',
+          message: 'Your account is inactive. Please contact support for assistance.',
+        });
+      }
+
+      // Accounts with 2FA get a challenge instead of tokens, like password logins
+      if (await this.twoFactor.isEnabled(user.id)) {
+        this.logger.log(`Two-factor challenge issued for user: ${user.id}`);
+        const challenge = await this.twoFactor.createChallenge({
+          userId: user.id,
+          email: user.email,
+          rememberMe: state.rememberMe,
+          deviceId: state.deviceId,
+          devicePlatform: state.devicePlatform,
+          oauth,
+        });
+        return { twoFactorRequired: true, ...challenge };
+      }
+
+      return await this.completeLogin(
+        user,
+        {
+          rememberMe: state.rememberMe,
+          deviceId: state.deviceId,
+          devicePlatform: state.devicePlatform,
+          oauth,
+        },
+        ipAddress,
+        userAgent,
+      );
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`${provider} login error for provider user: ${profile.id}`, error);
+      await this.createAuditLog(
+        null,
+        AuthAction.LOGIN,
+        false,
+        error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+        userAgent,
+        { provider: authProvider, email: profile.email },
+      );
+      throw new UnauthorizedException({
+        errorCode: 'LOGIN_ERROR',
+        message: 'An error occurred during login. Please try again later.',
+      });
+    }
+  }
+
+  /**
+   * Load the user a provider account is linked to, with the fields a login needs
+   */
+  private async findUserForOAuth(userId: string) {
+    const found = await firstValueFrom(
+      this.client
+        .send<any, { id: string }>(RabbitMQPatterns.USER_FIND_BY_ID, { id: userId })
+        .pipe(timeout(10000)),
+    );
+    if (!found?.email) {
+      return null;
+    }
+
+    const user = await firstValueFrom(
+      this.client
+        .send<any, { email: string }>(RabbitMQPatterns.USER_FIND_BY_EMAIL, { email: found.email })
+        .pipe(timeout(10000)),
+    );
+    return user?.id === userId ? user : null;
+  }
+
+  /**
+   * Find the user with the provider's verified email, or create one
+   */
+  private async findOrCreateOAuthUser(provider: string, profile: OAuthProfile) {
+    const email = this.requireVerifiedEmail(provider, profile);
+
+    const existing = await firstValueFrom(
+      this.client
+        .send<any, { email: string }>(RabbitMQPatterns.USER_FIND_BY_EMAIL, { email })
+        .pipe(timeout(10000)),
+    );
+    if (existing) {
+      // Whoever registered an unverified address could otherwise keep access to the account
+      if (existing.emailVerified !== true) {
+        throw new ForbiddenException({
+          errorCode: 'EMAIL_VERIFICATION_REQUIRED',
+          message: `Please verify your email address before signing in with ${provider}.`,
+          details: {
+            email,
+            resendVerificationEndpoint: '/api/notification/verification/resend',
+          },
+        });
+      }
+      return existing;
+    }
+
+    return firstValueFrom(
+      this.client
+        .send<
+          any,
+          { email: string; firstName: string | null; lastName: string | null; provider: string }
+        >(RabbitMQPatterns.USER_CREATE_OAUTH, {
+          email,
+          firstName: profile.firstName,
+          lastName: profile.lastName,
+          provider,
+        })
+        .pipe(timeout(10000)),
+    );
+  }
+
+  private requireVerifiedEmail(provider: string, profile: OAuthProfile): string {
+    if (!profile.email || !profile.emailVerified) {
+      throw new UnauthorizedException({
+        errorCode: 'OAUTH_EMAIL_NOT_VERIFIED',
+        message: `Your ${provider} account has no verified email address. Please verify it with ${provider} or register with email and password.`,
       });
+    }
+    return profile.email;
+  }
+
+  /**
+   * Convert the guest that started a social login into a registered user with the provider
+   * account, like convertGuestToRegistered. The conversion is reverted if the login fails.
+   */
+  private async convertGuestWithOAuth(
+    provider: OAuthProvider,
+    state: OAuthState,
+    profile: OAuthProfile,
+    oauth: { provider: AuthProvider; tokens: string },
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const email = this.requireVerifiedEmail(provider, profile);
+    this.logger.log(`Converting guest to registered user with ${provider}: ${state.guestUserId}`);
+
+    const guestUser = await firstValueFrom(
+      this.client
+        .send<any, { id: string }>(RabbitMQPatterns.USER_FIND_BY_ID, { id: state.guestUserId! })
+        .pipe(timeout(10000)),
+    );
+    if (!guestUser || guestUser.userType !== 'GUEST') {
+      throw new UnauthorizedException('Invalid guest user');
+    }
 
-      // Create audit log for successful login
-      await this.createAuditLog(user.id, AuthAction.LOGIN, true, undefined, ipAddress, userAgent, {
-        tokenType: 'JWT',
-        rememberMe: dto.rememberMe || false,
-        refreshTokenExpiry: refreshTokenExpiry,
+    const existing = await firstValueFrom(
+      this.client
+        .send<any, { email: string }>(RabbitMQPatterns.USER_FIND_BY_EMAIL, { email })
+        .pipe(timeout(10000)),
+    );
+    if (existing) {
+      throw new ConflictException({
+        errorCode: 'OAUTH_ACCOUNT_EXISTS',
+        message: `An account with the email of your ${provider} account exists already. Please sign in to it instead.`,
+      });
+    }
+
+    const saga = await this.sagaOrchestrator.execute(
+      'GUEST_CONVERSION',
+      [
+        {
+          stepId: 'CONVERT_GUEST',
+          service: 'users',
+          action: RabbitMQPatterns.USER_CONVERT_GUEST,
+          payload: {
+            guestUserId: state.guestUserId,
+            email,
+            username: null,
+            firstName: profile.firstName,
+            lastName: profile.lastName,
+            emailVerified: true,
+          },
+          timeoutMs: 15000,
+          maxRetries: 0, // Conversion is not idempotent
+          compensation: {
+            action: RabbitMQPatterns.USER_REVERT_GUEST_CONVERSION,
+            payload: { userId: state.guestUserId },
+          },
+        },
+      ],
+      { guestUserId: state.guestUserId, provider },
+    );
+    const registeredUser = saga.steps[0].result;
+
+    let result: Awaited<ReturnType<AuthService['completeLogin']>>;
+    try {
+      // Replace the guest sessions, whose tokens still carry the guest flag
+      const guestSessions = await this.prismaAuth.session.findMany({
+        where: { userId: registeredUser.id, revokedAt: null },
+        select: { id: true },
       });
 
-      this.logger.log(`User logged in successfully: ${user.id}`);
+      await this.oauth.linkIdentity(registeredUser.id, provider, profile);
+      result = await this.completeLogin(
+        registeredUser,
+        {
+          rememberMe: state.rememberMe,
+          deviceId: state.deviceId ?? guestUser.deviceId,
+          devicePlatform: state.devicePlatform ?? guestUser.devicePlatform,
+          oauth,
+        },
+        ipAddress,
+        userAgent,
+      );
+
+      await this.prismaAuth.session.updateMany({
+        where: { id: { in: guestSessions.map((session) => session.id) }, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      await this.redis.del(`refresh_token:${registeredUser.id}`);
+    } catch (error) {
+      // Roll back the conversion so the guest can retry
+      await this.oauth.unlinkIdentity(registeredUser.id, provider);
+      await this.sagaOrchestrator.abort(saga.sagaId, `Session creation failed: ${error.message}`);
+      throw error;
+    }
+
+    await this.createAuditLog(
+      registeredUser.id,
+      AuthAction.REGISTRATION_ATTEMPT,
+      true,
+      undefined,
+      ipAddress,
+      userAgent,
+      {
+        action: 'GUEST_TO_USER_CONVERSION',
+        migratedFromGuestId: registeredUser.migratedFromGuestId,
+        provider: oauth.provider,
+      },
+    );
+
+    this.logger.log(`Guest converted to registered user with ${provider}: ${registeredUser.id}`);
+
+    return {
+      ...result,
+      user: {
+        ...result.user,
+        userType: registeredUser.userType,
+        migratedFromGuestId: registeredUser.migratedFromGuestId,
+      },
+      dataMigrated: true, // All data automatically migrated
+    };
+  }
+
+  /**
+   * SAML metadata of the BundID service provider
+   */
+  getBundIdMetadata() {
+    return this.bundId.getMetadata();
+  }
+
+  /**
+   * Start a BundID login at the requested minimum trust level
+   */
+  async createBundIdAuthorization(dto: BundIdAuthorizeDto) {
+    return this.bundId.createAuthorization(dto);
+  }
+
+  /**
+   * Assertion consumer service: validate the SAML response BundID posted and find or create
+   * the user of the BundID identity. Returns the URL of the app's redirect page with a
+   * one-time code for POST /bundid/token, or with the error code of a failed login.
+   */
+  async handleBundIdResponse(
+    dto: BundIdAssertionDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<string> {
+    const state = await this.bundId.consumeState(dto.RelayState);
+    if (!state) {
+      throw new UnauthorizedException({
+        errorCode: 'BUNDID_STATE_INVALID',
+        message: 'The login is invalid or expired. Please start again.',
+      });
+    }
+    const redirect = (params: Record<string, string>) =>
+      this.bundId.buildRedirect(state.redirectUri, { ...params, state: dto.RelayState! });
+
+    let profile: BundIdProfile;
+    try {
+      profile = await this.bundId.validateResponse(dto.SAMLResponse, state);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.warn(`Login failed - BundID response rejected: ${error.message}`);
+      await this.createAuditLog(
+        null,
+        AuthAction.LOGIN,
+        false,
+        `BundID response rejected: ${error.message}`,
+        ipAddress,
+        userAgent,
+        { provider: AuthProvider.BIND_ID },
+      );
+      return redirect({ error: 'BUNDID_RESPONSE_INVALID' });
+    }
+
+    try {
+      let userId: string;
+      const identity = await this.bundId.findIdentity(profile.nameId);
+      if (identity) {
+        userId = identity.userId;
+        await this.bundId.touchIdentity(identity);
+      } else {
+        // BundID only releases email addresses its users have confirmed
+        const user = await this.findOrCreateOAuthUser('BundID', {
+          id: profile.nameId,
+          email: profile.email,
+          emailVerified: !!profile.email,
+          firstName: profile.firstName,
+          lastName: profile.lastName,
+        });
+        await this.bundId.linkIdentity(user.id, profile);
+        this.logger.log(`Linked BundID identity to user: ${user.id}`);
+        userId = user.id;
+      }
+
+      const code = await this.bundId.createLoginCode({
+        userId,
+        trustLevel: profile.trustLevel,
+        nameId: profile.nameId,
+        sessionIndex: profile.sessionIndex,
+        rememberMe: state.rememberMe,
+        deviceId: state.deviceId,
+        devicePlatform: state.devicePlatform,
+      });
+      return redirect({ code });
+    } catch (error) {
+      const errorCode =
+        (error instanceof HttpException && (error.getResponse() as any)?.errorCode) ||
+        'LOGIN_ERROR';
+      this.logger.warn(`Login failed - BundID user could not be resolved: ${error.message}`);
+      await this.createAuditLog(
+        null,
+        AuthAction.LOGIN,
+        false,
+        error instanceof Error ? error.message : 'Unknown error',
+        ipAddress,
+        userAgent,
+        { provider: AuthProvider.BIND_ID, email: profile.email },
+      );
+      return redirect({ error: errorCode });
+    }
+  }
+
+  /**
+   * Exchange the one-time code of a BundID login for tokens. The session carries the
+   * trust level of the login.
+   */
+  async loginWithBundId(dto: BundIdLoginDto, ipAddress?: string, userAgent?: string) {
+    const login = await this.bundId.consumeLoginCode(dto.code);
+    if (!login) {
+      throw new UnauthorizedException({
+        errorCode: 'BUNDID_CODE_INVALID',
+        message: 'The login code is invalid or expired. Please log in again.',
+      });
+    }
+
+    const bundId = {
+      trustLevel: login.trustLevel,
+      nameId: login.nameId,
+      sessionIndex: login.sessionIndex,
+    };
 
-      // Check terms acceptance status (non-blocking - don't fail login if terms service is slow)
-      const finalTermsInfo = await this.checkTermsAcceptance(user.id, cityAssignments);
+    try {
+      const user = await this.findUserForOAuth(login.userId);
+      if (!user || !user.isActive) {
+        await this.createAuditLog(
+          login.userId,
+          AuthAction.LOGIN,
+          false,
+          'Account is inactive',
+          ipAddress,
+          userAgent,
+          { provider: AuthProvider.BIND_ID },
+        );
+        throw new UnauthorizedException({
+          errorCode: 'ACCOUNT_INACTIVE',
+          message: 'Your account is inactive. Please contact support for assistance.',
+        });
+      }
 
-      return {
-        user: {
-          id: user.id,
+      if (await this.twoFactor.isEnabled(user.id)) {
+        this.logger.log(`Two-factor challenge issued for user: ${user.id}`);
+        const challenge = await this.twoFactor.createChallenge({
+          userId: user.id,
           email: user.email,
-          username: user.username,
-          role: roleToNumber(user.role),
-          userType: 'REGISTERED',
-          firstName: user.firstName,
-          lastName: user.lastName,
+          rememberMe: login.rememberMe,
+          deviceId: login.deviceId,
+          devicePlatform: login.devicePlatform,
+          bundId,
+        });
+        return { twoFactorRequired: true, ...challenge };
+      }
+
+      return await this.completeLogin(
+        user,
+        {
+          rememberMe: login.rememberMe,
+          deviceId: login.deviceId,
+          devicePlatform: login.devicePlatform,
+          bundId,
         },
-        ...tokens,
-        ...finalTermsInfo,
-      };
+        ipAddress,
+        userAgent,
+      );
     } catch (error) {
-      // Re-throw HTTP exceptions (UnauthorizedException, ForbiddenException) as-is
       if (error instanceof HttpException) {
         throw error;
       }
-      // Log and convert other errors to UnauthorizedException
-      failureReason = error instanceof Error ? error.message : 'Unknown error';
-      this.logger.error(`Login error for email: ${dto.email}`, error);
+      this.logger.error(`BundID login error for userId: ${login.userId}`, error);
       await this.createAuditLog(
-        null,
+        login.userId,
         AuthAction.LOGIN,
         false,
-        failureReason,
+        error instanceof Error ? error.message : 'Unknown error',
         ipAddress,
         userAgent,
-        { email: dto.email },
+        { provider: AuthProvider.BIND_ID },
       );
       throw new UnauthorizedException({
         errorCode: 'LOGIN_ERROR',
         message: 'An error occurred during login. Please try again later.',
-        email: dto.email,
       });
     }
   }
 
   /**
-   * Logout user
+   * Logout user from the session of the access token. Tokens issued before sessions
+   * were bound to refresh tokens carry no session, so all sessions are ended.
    */
-  async logout(userId: string, ipAddress?: string, userAgent?: string) {
+  async logout(userId: string, sessionId?: string, ipAddress?: string, userAgent?: string) {
     this.logger.log(`Logging out user: ${userId}`);
 
-    // Remove refresh token from Redis
-    await this.redis.del(`refresh_token:${userId}`);
+    if (sessionId) {
+      const session = await this.prismaAuth.session.findFirst({
+        where: { id: sessionId, userId },
+        select: { familyId: true },
+      });
+      const familyId = session?.familyId ?? sessionId;
 
-    // Revoke active sessions
-    await this.prismaAuth.session.updateMany({
-      where: {
-        userId,
-        revokedAt: null,
-      },
-      data: {
-        revokedAt: new Date(),
-      },
-    });
+      await this.prismaAuth.session.updateMany({
+        where: {
+          userId,
+          OR: [{ id: sessionId }, { familyId }],
+          revokedAt: null,
+        },
+        data: {
+          revokedAt: new Date(),
+        },
+      });
+    } else {
+      // Remove legacy refresh token from Redis
+      await this.redis.del(`refresh_token:${userId}`);
+
+      // Revoke active sessions
+      await this.prismaAuth.session.updateMany({
+        where: {
+          userId,
+          revokedAt: null,
+        },
+        data: {
+          revokedAt: new Date(),
+        },
+      });
+    }
 
     // Create audit log
-    await this.createAuditLog(userId, AuthAction.LOGOUT, true, undefined, ipAddress, userAgent);
+    await this.createAuditLog(
+      userId,
+      AuthAction.LOGOUT,
+      true,
+      undefined,
+      ipAddress,
+      userAgent,
+      sessionId ? { sessionId } : undefined,
+    );
 
     // Could also add access token to blacklist here
     // await this.redis.set(`blacklist:${accessToken}`, '1', tokenTtl);
@@ -437,17 +1313,44 @@ export class AuthService {
   }
 
   /**
-   * Refresh tokens
+   * Refresh tokens. Every refresh rotates the session: the presented token is revoked and
+   * the new pair is bound to a successor session of the same family. Presenting a token
+   * that was already rotated means it leaked, so the whole family is revoked.
    */
-  async refreshTokens(refreshToken: string) {
+  async refreshTokens(refreshToken: string, ipAddress?: string, userAgent?: string) {
     try {
       // Verify refresh token
       const payload = await this.jwtService.verifyRefreshToken(refreshToken);
 
-      // Check if refresh token exists in Redis
-      const storedToken = await this.redis.get<string>(`refresh_token:${payload.sub}`);
-      if (!storedToken || storedToken !== refreshToken) {
-        throw new UnauthorizedException('Invalid refresh token');
+      let session: Session | null = null;
+      if (payload.sid) {
+        session = await this.prismaAuth.session.findFirst({
+          where: { id: payload.sid, userId: payload.sub },
+        });
+        if (!session) {
+          throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        if (session.revokedAt) {
+          if (session.replacedById) {
+            this.logger.warn(
+              `Refresh token reuse detected for session ${session.id} of user: ${session.userId}`,
+            );
+            await this.revokeSessionFamily(session, 'refresh_token_reuse', ipAddress, userAgent);
+          }
+          throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        if (session.tokenHash !== this.hashToken(refreshToken) || session.expiresAt <= new Date()) {
+          throw new UnauthorizedException('Invalid refresh token');
+        }
+      } else {
+        // Tokens issued before sessions were bound to refresh tokens are kept in Redis
+        const storedToken = await this.redis.get<string>(`refresh_token:${payload.sub}`);
+        if (!storedToken || storedToken !== refreshToken) {
+          throw new UnauthorizedException('Invalid refresh token');
+        }
+        await this.redis.del(`refresh_token:${payload.sub}`);
       }
 
       // Get user from users service via RabbitMQ
@@ -511,7 +1414,13 @@ export class AuthService {
         selectedCityId = cityAssignments.length > 0 ? cityAssignments[0].cityId : undefined;
       }
 
-      // Generate new tokens with appropriate flags
+      // The second factor of the login carries over while 2FA stays enabled
+      const metadata = (session?.metadata ?? undefined) as Record<string, any> | undefined;
+      const twoFactorVerified =
+        metadata?.twoFactor === true && (await this.twoFactor.isEnabled(user.id));
+
+      // Generate new tokens with appropriate flags, bound to the successor session
+      const sessionId = randomUUID();
       const tokens = await this.jwtService.generateTokenPair(
         user.id,
         user.email || null, // Can be null for guest users
@@ -522,28 +1431,52 @@ export class AuthService {
           selectedCityId,
           cityAssignments: cityAssignments.length > 0 ? cityAssignments : undefined,
           permissions: permissions.length > 0 ? permissions : undefined,
+          sessionId,
+          twoFactorVerified,
+          trustLevel: session?.trustLevel ?? undefined,
         },
       );
 
-      // Update refresh token in Redis
-      // Guest users get 30 days, registered users get 7 days
-      const refreshTokenExpiry = isGuest ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60;
-      await this.redis.set(`refresh_token:${user.id}`, tokens.refreshToken, refreshTokenExpiry);
+      // Guest users and remembered logins get 30 days, registered users get 7 days
+      const refreshTokenExpiry =
+        isGuest || metadata?.rememberMe ? 30 * 24 * 60 * 60 : 7 * 24 * 60 * 60;
 
-      // Update session expiry
+      // Rotate the session
       const expiresAt = new Date(Date.now() + refreshTokenExpiry * 1000);
-      await this.storeSession(
-        user.id,
-        TokenType.REFRESH,
-        expiresAt,
-        AuthProvider.LOCAL,
-        undefined,
-        user.deviceId,
-        user.devicePlatform,
+      const rotated = await this.storeSession(
+        sessionId,
+        tokens.refreshToken,
+        {
+          userId: user.id,
+          tokenType: TokenType.REFRESH,
+          expiresAt,
+          provider: session?.provider,
+          trustLevel: session?.trustLevel,
+          metadata,
+          deviceId: session ? session.deviceId : user.deviceId,
+          devicePlatform: session ? session.devicePlatform : user.devicePlatform,
+        },
+        session ?? undefined,
       );
+      if (!rotated && session) {
+        // Another refresh with the same token won the race
+        this.logger.warn(
+          `Refresh token reuse detected for session ${session.id} of user: ${session.userId}`,
+        );
+        await this.revokeSessionFamily(session, 'refresh_token_reuse', ipAddress, userAgent);
+        throw new UnauthorizedException('Invalid refresh token');
+      }
 
       // Create audit log
-      await this.createAuditLog(user.id, AuthAction.TOKEN_REFRESH, true);
+      await this.createAuditLog(
+        user.id,
+        AuthAction.TOKEN_REFRESH,
+        true,
+        undefined,
+        ipAddress,
+        userAgent,
+        { sessionId, familyId: session ? (session.familyId ?? session.id) : sessionId },
+      );
 
       this.logger.log(`Tokens refreshed for user: ${user.id}`);
 
@@ -564,8 +1497,7 @@ export class AuthService {
     let normalizedRole: UserRole;
     if (requesterRole !== undefined) {
       const roleNumber = typeof requesterRole === 'number' ? requesterRole : null;
-      normalizedRole =
-        roleNumber !== null ? numberToRole(roleNumber) : (requesterRole as UserRole);
+      normalizedRole = roleNumber !== null ? numberToRole(roleNumber) : (requesterRole as UserRole);
     } else {
       // Fallback: fetch from database if role not provided (shouldn't happen with updated controller)
       const requester = await firstValueFrom(
@@ -642,7 +1574,7 @@ export class AuthService {
           assignedBy: requesterId,
           canGrantManageAdmins,
         })
-        .pipe(timeout(15000)),
+        .pipe(timeout(30000)), // Core runs the assignment as a saga (retries + compensation)
     );
 
     this.logger.log(`City admin assigned successfully: ${assignment.id}`);
@@ -689,18 +1621,22 @@ export class AuthService {
   /**
    * Get user's active sessions
    */
-  async getSessions(userId: string) {
+  async getSessions(userId: string, currentSessionId?: string) {
     this.logger.log(`Getting sessions for user: ${userId}`);
 
     const sessions = await this.prismaAuth.session.findMany({
       where: {
         userId,
         revokedAt: null,
+        expiresAt: { gt: new Date() },
       },
       select: {
         id: true,
         tokenType: true,
         provider: true,
+        trustLevel: true,
+        deviceId: true,
+        devicePlatform: true,
         expiresAt: true,
         createdAt: true,
         metadata: true,
@@ -710,7 +1646,25 @@ export class AuthService {
       },
     });
 
-    return sessions;
+    return sessions.map((session) => ({
+      ...session,
+      metadata: this.withoutProviderTokens(session.metadata),
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Session metadata without the provider tokens of social logins and the BundID subject,
+   * which never leave the service
+   */
+  private withoutProviderTokens(metadata: Prisma.JsonValue) {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return metadata;
+    }
+
+    const { oauth, ...rest } = metadata as Record<string, any>;
+    delete rest.bundId;
+    return oauth ? { ...rest, oauth: { provider: oauth.provider } } : rest;
   }
 
   /**
@@ -732,14 +1686,21 @@ export class AuthService {
       throw new NotFoundException('Session not found or already revoked');
     }
 
-    // Revoke session
-    await this.prismaAuth.session.update({
-      where: { id: sessionId },
+    // Revoke the session and its refresh token family
+    await this.prismaAuth.session.updateMany({
+      where: {
+        userId,
+        OR: [{ id: sessionId }, { familyId: session.familyId ?? sessionId }],
+        revokedAt: null,
+      },
       data: { revokedAt: new Date() },
     });
 
-    // If it's a refresh token session, remove from Redis
-    if (session.tokenType === TokenType.JWT || session.tokenType === TokenType.REFRESH) {
+    // Sessions created before token families only have the legacy refresh token in Redis
+    if (
+      !session.familyId &&
+      (session.tokenType === TokenType.JWT || session.tokenType === TokenType.REFRESH)
+    ) {
       await this.redis.del(`refresh_token:${userId}`);
     }
 
@@ -771,7 +1732,7 @@ export class AuthService {
       },
     });
 
-    // Remove refresh token from Redis
+    // Remove legacy refresh token from Redis
     await this.redis.del(`refresh_token:${userId}`);
 
     // Create audit log
@@ -788,6 +1749,66 @@ export class AuthService {
     };
   }
 
+  /**
+   * End a lockout with the link of the account locked email
+   */
+  async unlockAccountWithToken(token: string, ipAddress?: string, userAgent?: string) {
+    const unlock = await this.accountLockout.unlockWithToken(token);
+    if (!unlock) {
+      throw new BadRequestException({
+        errorCode: 'UNLOCK_TOKEN_INVALID',
+        message: 'The unlock link is invalid or expired.',
+      });
+    }
+
+    this.logger.log(`Account unlocked by email link for user: ${unlock.userId}`);
+    await this.createAuditLog(
+      unlock.userId,
+      AuthAction.ACCOUNT_UNLOCK,
+      true,
+      undefined,
+      ipAddress,
+      userAgent,
+      { email: unlock.email, reason: 'unlock_link' },
+    );
+
+    return { unlocked: true };
+  }
+
+  /**
+   * End the lockout of an account before it expires (admin)
+   */
+  async unlockAccount(userId: string, adminId: string, ipAddress?: string, userAgent?: string) {
+    const user = await firstValueFrom(
+      this.client
+        .send<any, { id: string }>(RabbitMQPatterns.USER_FIND_BY_ID, { id: userId })
+        .pipe(timeout(10000)),
+    );
+    if (!user?.email) {
+      throw new NotFoundException({
+        errorCode: 'USER_NOT_FOUND',
+        message: 'User not found',
+      });
+    }
+
+    const unlocked = await this.accountLockout.unlock(user.email);
+
+    this.logger.log(
+      `Account of user ${userId} unlocked by admin ${adminId} (was locked: ${unlocked})`,
+    );
+    await this.createAuditLog(
+      userId,
+      AuthAction.ACCOUNT_UNLOCK,
+      true,
+      undefined,
+      ipAddress,
+      userAgent,
+      { email: user.email, reason: 'admin', unlockedBy: adminId, wasLocked: unlocked },
+    );
+
+    return { unlocked };
+  }
+
   /**
    * Create guest session for mobile app
    * Checks for existing guest with same deviceId and devicePlatform, creates if not exists
@@ -826,6 +1847,7 @@ export class AuthService {
       }
 
       // Generate tokens with guest flag
+      const sessionId = randomUUID();
       const tokens = await this.jwtService.generateTokenPair(
         guestUser.id,
         null, // No email for guests
@@ -833,30 +1855,23 @@ export class AuthService {
         {
           isGuest: true,
           deviceId: guestUser.deviceId,
+          sessionId,
         },
       );
 
-      // Store refresh token in Redis
-      const refreshTokenExpiry = 30 * 24 * 60 * 60; // 30 days for guest sessions
-      await this.redis.set(
-        `refresh_token:${guestUser.id}`,
-        tokens.refreshToken,
-        refreshTokenExpiry,
-      );
-
       // Store session in auth database with device info
+      const refreshTokenExpiry = 30 * 24 * 60 * 60; // 30 days for guest sessions
       const expiresAt = new Date(Date.now() + refreshTokenExpiry * 1000);
-      await this.storeSession(
-        guestUser.id,
-        TokenType.JWT,
+      await this.storeSession(sessionId, tokens.refreshToken, {
+        userId: guestUser.id,
+        tokenType: TokenType.JWT,
         expiresAt,
-        AuthProvider.LOCAL,
-        {
+        metadata: {
           ...dto.deviceMetadata,
         },
-        dto.deviceId,
-        dto.devicePlatform,
-      );
+        deviceId: dto.deviceId,
+        devicePlatform: dto.devicePlatform,
+      });
 
       // Create audit log
       await this.createAuditLog(
@@ -911,84 +1926,103 @@ export class AuthService {
         throw new UnauthorizedException('Invalid guest user');
       }
 
-      // Convert guest to registered user via users service
-      const registeredUser = await firstValueFrom(
-        this.client
-          .send<
-            any,
-            {
-              guestUserId: string;
-              email: string;
-              username?: string | null;
-              password: string;
-              firstName?: string | null;
-              lastName?: string | null;
-              cityId?: string;
-            }
-          >(RabbitMQPatterns.USER_CONVERT_GUEST, {
-            guestUserId: dto.guestUserId,
-            email: dto.email,
-            username: dto.username || null,
-            password: dto.password,
-            firstName: dto.firstName || null,
-            lastName: dto.lastName || null,
-            cityId: dto.cityId,
-          })
-          .pipe(timeout(15000)),
+      // Convert guest to registered user via users service as a saga, so the conversion
+      // is reverted if issuing the session below fails. The password is hashed here so
+      // no plaintext credentials end up in the persisted saga state.
+      const hashedPassword = await bcrypt.hash(dto.password, 10);
+      const saga = await this.sagaOrchestrator.execute(
+        'GUEST_CONVERSION',
+        [
+          {
+            stepId: 'CONVERT_GUEST',
+            service: 'users',
+            action: RabbitMQPatterns.USER_CONVERT_GUEST,
+            payload: {
+              guestUserId: dto.guestUserId,
+              email: dto.email,
+              username: dto.username || null,
+              hashedPassword,
+              firstName: dto.firstName || null,
+              lastName: dto.lastName || null,
+              cityId: dto.cityId,
+            },
+            timeoutMs: 15000,
+            maxRetries: 0, // Conversion is not idempotent
+            compensation: {
+              action: RabbitMQPatterns.USER_REVERT_GUEST_CONVERSION,
+              payload: { userId: dto.guestUserId },
+            },
+          },
+        ],
+        { guestUserId: dto.guestUserId },
       );
+      const registeredUser = saga.steps[0].result;
 
-      // Load user's city assignments from core service (if any)
-      let cityAssignments: CityAssignment[] = [];
+      let tokens: TokenPair;
       try {
-        const dbAssignments = await firstValueFrom(
-          this.client
-            .send<
-              Array<{ cityId: string; role: UserRole; canManageAdmins: boolean }>,
-              { userId: string }
-            >(RabbitMQPatterns.CORE_GET_USER_ASSIGNMENTS, { userId: registeredUser.id })
-            .pipe(timeout(10000)),
-        );
-
-        cityAssignments = dbAssignments.map((a) => ({
-          cityId: a.cityId,
-          role: roleToNumber(a.role),
-          canManageAdmins: a.canManageAdmins,
-        }));
-      } catch (error) {
-        // No city assignments, that's fine
-        this.logger.debug('No city assignments found for converted user');
-      }
+        // Load user's city assignments from core service (if any)
+        let cityAssignments: CityAssignment[] = [];
+        try {
+          const dbAssignments = await firstValueFrom(
+            this.client
+              .send<
+                Array<{ cityId: string; role: UserRole; canManageAdmins: boolean }>,
+                { userId: string }
+              >(RabbitMQPatterns.CORE_GET_USER_ASSIGNMENTS, { userId: registeredUser.id })
+              .pipe(timeout(10000)),
+          );
 
-      // Get permissions
-      const permissions = await this.permissionService.getUserPermissions(
-        registeredUser.role as UserRole,
-      );
+          cityAssignments = dbAssignments.map((a) => ({
+            cityId: a.cityId,
+            role: roleToNumber(a.role),
+            canManageAdmins: a.canManageAdmins,
+          }));
+        } catch (error) {
+          // No city assignments, that's fine
+          this.logger.debug('No city assignments found for converted user');
+        }
 
-      // Generate new tokens for registered user
-      const selectedCityId = cityAssignments.length > 0 ? cityAssignments[0].cityId : undefined;
-      const tokens = await this.jwtService.generateTokenPair(
-        registeredUser.id,
-        registeredUser.email,
-        registeredUser.role,
-        {
-          isGuest: false,
-          selectedCityId,
-          cityAssignments: cityAssignments.length > 0 ? cityAssignments : undefined,
-          permissions: permissions.length > 0 ? permissions : undefined,
-        },
-      );
+        // Get permissions
+        const permissions = await this.permissionService.getUserPermissions(
+          registeredUser.role as UserRole,
+        );
 
-      // Update refresh token in Redis
-      const refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days for registered users
-      await this.redis.set(
-        `refresh_token:${registeredUser.id}`,
-        tokens.refreshToken,
-        refreshTokenExpiry,
-      );
+        // Generate new tokens for registered user
+        const sessionId = randomUUID();
+        const selectedCityId = cityAssignments.length > 0 ? cityAssignments[0].cityId : undefined;
+        tokens = await this.jwtService.generateTokenPair(
+          registeredUser.id,
+          registeredUser.email,
+          registeredUser.role,
+          {
+            isGuest: false,
+            selectedCityId,
+            cityAssignments: cityAssignments.length > 0 ? cityAssignments : undefined,
+            permissions: permissions.length > 0 ? permissions : undefined,
+            sessionId,
+          },
+        );
 
-      // Update session expiry
-      const expiresAt = new Date(Date.now() + refreshTokenExpiry * 1000);
-      await this.storeSession(registeredUser.id, TokenType.JWT, expiresAt, AuthProvider.LOCAL);
+        // Replace the guest sessions, whose tokens still carry the guest flag
+        const refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days for registered users
+        const expiresAt = new Date(Date.now() + refreshTokenExpiry * 1000);
+        await this.storeSession(sessionId, tokens.refreshToken, {
+          userId: registeredUser.id,
+          tokenType: TokenType.JWT,
+          expiresAt,
+          deviceId: guestUser.deviceId,
+          devicePlatform: guestUser.devicePlatform,
+        });
+        await this.prismaAuth.session.updateMany({
+          where: { userId: registeredUser.id, revokedAt: null, id: { not: sessionId } },
+          data: { revokedAt: new Date() },
+        });
+        await this.redis.del(`refresh_token:${registeredUser.id}`);
+      } catch (error) {
+        // Roll back the conversion so the guest can retry
+        await this.sagaOrchestrator.abort(saga.sagaId, `Session creation failed: ${error.message}`);
+        throw error;
+      }
 
       // Create audit log
       await this.createAuditLog(
@@ -1022,10 +2056,174 @@ export class AuthService {
       };
     } catch (error) {
       this.logger.error('Failed to convert guest to registered user', error);
+      if (error instanceof SagaExecutionError) {
+        this.logger.warn(`Guest conversion rolled back (saga ${error.saga.sagaId})`);
+      }
       if (error instanceof UnauthorizedException) {
         throw error;
       }
       throw new UnauthorizedException('Failed to convert guest user');
     }
   }
+
+  /**
+   * 2FA status of the current user
+   */
+  async getTwoFactorStatus(user: {
+    userId: string;
+    role: string | number;
+    cityAssignments?: CityAssignment[];
+  }) {
+    const status = await this.twoFactor.getStatus(user.userId);
+    return {
+      ...status,
+      required: this.twoFactor.isRequired([
+        user.role,
+        ...(user.cityAssignments ?? []).map((assignment) => assignment.role),
+      ]),
+    };
+  }
+
+  /**
+   * Start 2FA enrolment: returns the secret and the otpauth URI for authenticator apps
+   */
+  async setupTwoFactor(userId: string, email?: string) {
+    this.logger.log(`Starting two-factor setup for user: ${userId}`);
+    return this.twoFactor.createSecret(userId, email || userId);
+  }
+
+  /**
+   * Confirm 2FA enrolment with a code. The current session counts as verified with a second
+   * factor from its next token refresh on.
+   */
+  async enableTwoFactor(
+    userId: string,
+    sessionId: string | undefined,
+    code: string,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    const recoveryCodes = await this.twoFactor.confirm(userId, code);
+
+    if (sessionId) {
+      const session = await this.prismaAuth.session.findFirst({
+        where: { id: sessionId, userId, revokedAt: null },
+        select: { metadata: true },
+      });
+      if (session) {
+        await this.prismaAuth.session.update({
+          where: { id: sessionId },
+          data: {
+            metadata: { ...((session.metadata as Record<string, any>) ?? {}), twoFactor: true },
+          },
+        });
+      }
+    }
+
+    await this.createAuditLog(
+      userId,
+      AuthAction.TWO_FACTOR_ENABLE,
+      true,
+      undefined,
+      ipAddress,
+      userAgent,
+    );
+    this.logger.log(`Two-factor authentication enabled for user: ${userId}`);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Replace the recovery codes; requires a current TOTP or recovery code
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.ensureTwoFactorEnabled(userId);
+    if (!(await this.twoFactor.verify(userId, code))) {
+      throw new UnauthorizedException({
+        errorCode: 'INVALID_TWO_FACTOR_CODE',
+        message: 'The two-factor code is invalid or expired.',
+      });
+    }
+
+    return { recoveryCodes: await this.twoFactor.regenerateRecoveryCodes(userId) };
+  }
+
+  /**
+   * Disable 2FA after re-authentication with password and a TOTP or recovery code
+   */
+  async disableTwoFactor(
+    userId: string,
+    dto: DisableTwoFactorDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ) {
+    await this.ensureTwoFactorEnabled(userId);
+
+    const profile = await firstValueFrom(
+      this.client
+        .send<any, { id: string }>(RabbitMQPatterns.USER_FIND_BY_ID, { id: userId })
+        .pipe(timeout(10000)),
+    );
+    const user = profile?.email
+      ? await firstValueFrom(
+          this.client
+            .send<any, { email: string }>(RabbitMQPatterns.USER_FIND_BY_EMAIL, {
+              email: profile.email,
+            })
+            .pipe(timeout(10000)),
+        )
+      : null;
+
+    if (!user?.password || !(await bcrypt.compare(dto.password, user.password))) {
+      await this.createAuditLog(
+        userId,
+        AuthAction.TWO_FACTOR_DISABLE,
+        false,
+        'Invalid password',
+        ipAddress,
+        userAgent,
+      );
+      throw new UnauthorizedException({
+        errorCode: 'INVALID_CREDENTIALS',
+        message: 'The password is incorrect.',
+      });
+    }
+
+    if (!(await this.twoFactor.verify(userId, dto.code))) {
+      await this.createAuditLog(
+        userId,
+        AuthAction.TWO_FACTOR_DISABLE,
+        false,
+        'Invalid two-factor code',
+        ipAddress,
+        userAgent,
+      );
+      throw new UnauthorizedException({
+        errorCode: 'INVALID_TWO_FACTOR_CODE',
+        message: 'The two-factor code is invalid or expired.',
+      });
+    }
+
+    await this.twoFactor.disable(userId);
+    await this.createAuditLog(
+      userId,
+      AuthAction.TWO_FACTOR_DISABLE,
+      true,
+      undefined,
+      ipAddress,
+      userAgent,
+    );
+    this.logger.log(`Two-factor authentication disabled for user: ${userId}`);
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  private async ensureTwoFactorEnabled(userId: string) {
+    if (!(await this.twoFactor.isEnabled(userId))) {
+      throw new BadRequestException({
+        errorCode: 'TWO_FACTOR_NOT_ENABLED',
+        message: 'Two-factor authentication is not enabled',
+      });
+    }
+  }
 }
@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Body,
+  Header,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiConsumes } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { AuthService } from './auth.service';
+import {
+  AuthNotFoundErrorResponseDto,
+  AuthUnauthorizedErrorResponseDto,
+  BundIdAssertionDto,
+  BundIdAuthorizationDto,
+  BundIdAuthorizeDto,
+  BundIdLoginDto,
+  LoginResponseDto,
+  ValidationErrorResponseDto,
+} from '@heidi/contracts';
+import { Public, JwtAuthGuard } from '@heidi/jwt';
+
+@ApiTags('auth')
+@Controller('bundid')
+@UseGuards(JwtAuthGuard)
+export class BundIdController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Get('metadata')
+  @Public()
+  @Header('Content-Type', 'application/samlmetadata+xml')
+  @ApiOperation({
+    summary: 'BundID service provider metadata',
+    description:
+      'SAML 2.0 metadata (entity ID, assertion consumer service, certificate) to register with BundID',
+  })
+  @ApiResponse({ status: 200, description: 'SAML metadata (XML)' })
+  @ApiResponse({
+    status: 404,
+    description: 'BundID not enabled',
+    type: AuthNotFoundErrorResponseDto,
+  })
+  getMetadata() {
+    return this.authService.getBundIdMetadata();
+  }
+
+  @Post('authorize')
+  @Public()
+  @ApiOperation({
+    summary: 'Start BundID login',
+    description:
+      'Create a signed SAML AuthnRequest for the requested minimum trust level. Open the returned URL in the browser; after the login, the result is redirected to the redirect URI with a one-time code (or an error code) and the state. Exchange the code at POST /bundid/token.',
+  })
+  @ApiBody({ type: BundIdAuthorizeDto })
+  @ApiResponse({ status: 200, description: 'Login started', type: BundIdAuthorizationDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or redirect URI not allowed',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'BundID not enabled',
+    type: AuthNotFoundErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async authorize(@Body() dto: BundIdAuthorizeDto) {
+    return this.authService.createBundIdAuthorization(dto);
+  }
+
+  @Post('acs')
+  @Public()
+  @ApiConsumes('application/x-www-form-urlencoded')
+  @ApiOperation({
+    summary: 'BundID assertion consumer service',
+    description:
+      'Receives the SAML response BundID posts from the browser (HTTP-POST binding), validates it and redirects to the redirect URI of the login with code and state, or with error and state.',
+  })
+  @ApiBody({ type: BundIdAssertionDto })
+  @ApiResponse({ status: 303, description: 'Redirect to the app with the login result' })
+  @ApiResponse({
+    status: 401,
+    description: 'Unknown or expired login state',
+    type: AuthUnauthorizedErrorResponseDto,
+  })
+  async assertionConsumerService(
+    @Body() dto: BundIdAssertionDto,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    const redirectUrl = await this.authService.handleBundIdResponse(
+      dto,
+      ipAddress as string,
+      userAgent,
+    );
+    res.redirect(HttpStatus.SEE_OTHER, redirectUrl);
+  }
+
+  @Post('token')
+  @Public()
+  @ApiOperation({
+    summary: 'Complete BundID login',
+    description:
+      'Exchange the one-time code passed to the redirect URI for tokens. The session and access token carry the trust level of the login. Accounts with two-factor authentication get a challenge token, to be completed at POST /login/2fa.',
+  })
+  @ApiBody({ type: BundIdLoginDto })
+  @ApiResponse({ status: 200, description: 'Login successful', type: LoginResponseDto })
+  @ApiResponse({
+    status: 401,
+    description: 'BUNDID_CODE_INVALID or ACCOUNT_INACTIVE',
+    type: AuthUnauthorizedErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async token(@Body() dto: BundIdLoginDto, @Req() req: Request) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.loginWithBundId(dto, ipAddress as string, userAgent);
+  }
+}
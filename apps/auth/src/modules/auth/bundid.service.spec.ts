@@ -0,0 +1,170 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { inflateRawSync } from 'zlib';
+import { SAML } from '@node-saml/node-saml';
+import { PrismaAuthService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { BundIdAuthorizeDto } from '@heidi/contracts';
+import { TrustLevel } from '@prisma/client-auth';
+import { BundIdService, BundIdState } from './bundid.service';
+
+const REDIRECT_URI = 'heidi://bundid/callback';
+const TRUST_LEVEL_ATTRIBUTE = 'urn:oid:1.2.40.0.10.2.1.1.261.94';
+const BPK2_ATTRIBUTE = 'urn:oid:1.3.6.1.4.1.25484.494450.3';
+
+const BUNDID_CONFIG = {
+  idpEntryPoint: 'https://int.id.bund.de/idp/profile/SAML2/Redirect/SSO',
+  idpCert: 'MIIC-test-certificate',
+  entityId: 'https://heidi.example/bundid',
+  acsUrl: 'https://heidi.example/api/auth/bundid/acs',
+  acceptedClockSkewMs: 5000,
+  defaultTrustLevel: 'LOW',
+  allowedRedirectUris: [REDIRECT_URI],
+};
+
+function buildState(trustLevel: TrustLevel): BundIdState {
+  return { redirectUri: REDIRECT_URI, trustLevel, rememberMe: false };
+}
+
+/** Profile node-saml returns for a response whose signature it accepted */
+function buildProfile(attributes: Record<string, unknown>, authnContextClassRef?: string) {
+  return {
+    profile: {
+      issuer: BUNDID_CONFIG.idpEntryPoint,
+      nameID: 'transient-name-id',
+      nameIDFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+      sessionIndex: 'session-index',
+      getAssertion: () => ({
+        Assertion: {
+          AuthnStatement: [{ AuthnContext: [{ AuthnContextClassRef: [authnContextClassRef] }] }],
+        },
+      }),
+      getAssertionXml: () => '',
+      getSamlResponseXml: () => '',
+      [BPK2_ATTRIBUTE]: 'bpk2-pseudonym',
+      'urn:oid:0.9.2342.19200300.100.1.3': 'Jane@Example.com',
+      ...attributes,
+    },
+    loggedOut: false,
+  };
+}
+
+describe('BundIdService', () => {
+  let service: BundIdService;
+  let validatePostResponse: jest.SpyInstance;
+
+  beforeEach(async () => {
+    validatePostResponse = jest.spyOn(SAML.prototype, 'validatePostResponseAsync');
+
+    const module = await Test.createTestingModule({
+      providers: [
+        BundIdService,
+        { provide: PrismaAuthService, useValue: {} },
+        { provide: RedisService, useValue: { set: jest.fn(), get: jest.fn(), del: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'bundid' ? BUNDID_CONFIG : defaultValue,
+            ),
+          },
+        },
+        { provide: LoggerService, useValue: { setContext: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(BundIdService);
+  });
+
+  afterEach(() => {
+    validatePostResponse.mockRestore();
+  });
+
+  describe('createAuthorization', () => {
+    async function requestedContext(trustLevel?: TrustLevel): Promise<string> {
+      const { authorizationUrl } = await service.createAuthorization({
+        redirectUri: REDIRECT_URI,
+        trustLevel,
+      } as BundIdAuthorizeDto);
+      const request = new URL(authorizationUrl).searchParams.get('SAMLRequest')!;
+      const xml = inflateRawSync(Buffer.from(request, 'base64')).toString('utf8');
+      return xml.match(/AuthnContextClassRef[^>]*>([^<]+)</)![1];
+    }
+
+    it('requests the authentication context of the trust level', async () => {
+      await expect(requestedContext(TrustLevel.SUBSTANTIAL)).resolves.toBe('STORK-QAA-Level-3');
+      await expect(requestedContext(TrustLevel.HIGH)).resolves.toBe('STORK-QAA-Level-4');
+    });
+
+    it('falls back to the configured default trust level', async () => {
+      await expect(requestedContext()).resolves.toBe('STORK-QAA-Level-1');
+    });
+
+    it('rejects redirect URIs that are not allowed', async () => {
+      await expect(
+        service.createAuthorization({
+          redirectUri: 'https://attacker.example',
+        } as BundIdAuthorizeDto),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('validateResponse', () => {
+    it('accepts a trust level above the requested one', async () => {
+      validatePostResponse.mockResolvedValue(
+        buildProfile({ [TRUST_LEVEL_ATTRIBUTE]: 'STORK-QAA-Level-4' }),
+      );
+
+      await expect(
+        service.validateResponse('saml-response', buildState(TrustLevel.SUBSTANTIAL)),
+      ).resolves.toEqual({
+        nameId: 'bpk2-pseudonym',
+        sessionIndex: 'session-index',
+        email: 'jane@example.com',
+        firstName: null,
+        lastName: null,
+        trustLevel: TrustLevel.HIGH,
+      });
+    });
+
+    it('rejects a trust level below the requested one', async () => {
+      validatePostResponse.mockResolvedValue(
+        buildProfile({ [TRUST_LEVEL_ATTRIBUTE]: 'STORK-QAA-Level-2' }),
+      );
+
+      await expect(
+        service.validateResponse('saml-response', buildState(TrustLevel.SUBSTANTIAL)),
+      ).rejects.toThrow('Trust level LOW is below the requested SUBSTANTIAL');
+    });
+
+    it('reads the eIDAS level of the authentication context without the attribute', async () => {
+      validatePostResponse.mockResolvedValue(
+        buildProfile({}, 'http://eidas.europa.eu/LoA/substantial'),
+      );
+
+      await expect(
+        service.validateResponse('saml-response', buildState(TrustLevel.SUBSTANTIAL)),
+      ).resolves.toMatchObject({ trustLevel: TrustLevel.SUBSTANTIAL });
+    });
+
+    it('rejects unknown trust levels', async () => {
+      validatePostResponse.mockResolvedValue(
+        buildProfile({ [TRUST_LEVEL_ATTRIBUTE]: 'urn:example:level-9' }),
+      );
+
+      await expect(
+        service.validateResponse('saml-response', buildState(TrustLevel.LOW)),
+      ).rejects.toThrow('Unknown trust level');
+    });
+
+    it('rejects responses node-saml could not validate', async () => {
+      validatePostResponse.mockRejectedValue(new Error('Invalid signature'));
+
+      await expect(
+        service.validateResponse('saml-response', buildState(TrustLevel.LOW)),
+      ).rejects.toThrow('Invalid signature');
+    });
+  });
+});
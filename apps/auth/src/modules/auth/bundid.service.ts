@@ -0,0 +1,379 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import {
+  CacheItem,
+  CacheProvider,
+  SAML,
+  ValidateInResponseTo,
+  generateServiceProviderMetadata,
+} from '@node-saml/node-saml';
+import { PrismaAuthService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { BundIdAuthorizationDto, BundIdAuthorizeDto } from '@heidi/contracts';
+import { AuthProvider, OAuthIdentity, Prisma, TrustLevel } from '@prisma/client-auth';
+
+// Attributes BundID releases (OIDs of its SAML interface)
+const BUNDID_ATTRIBUTES = {
+  bpk2: 'urn:oid:1.3.6.1.4.1.25484.494450.3',
+  givenName: 'urn:oid:2.5.4.42',
+  surname: 'urn:oid:2.5.4.4',
+  email: 'urn:oid:0.9.2342.19200300.100.1.3',
+  trustLevel: 'urn:oid:1.2.40.0.10.2.1.1.261.94',
+};
+
+// Authentication context requested per trust level. BundID names its levels after STORK:
+// 1 is a BundID account, 3 an ELSTER certificate and 4 the eID card.
+const TRUST_LEVEL_CONTEXTS: Record<TrustLevel, string> = {
+  [TrustLevel.LOW]: 'STORK-QAA-Level-1',
+  [TrustLevel.SUBSTANTIAL]: 'STORK-QAA-Level-3',
+  [TrustLevel.HIGH]: 'STORK-QAA-Level-4',
+};
+
+const TRUST_LEVEL_VALUES: Record<string, TrustLevel> = {
+  'STORK-QAA-Level-1': TrustLevel.LOW,
+  'STORK-QAA-Level-2': TrustLevel.LOW,
+  'STORK-QAA-Level-3': TrustLevel.SUBSTANTIAL,
+  'STORK-QAA-Level-4': TrustLevel.HIGH,
+  'http://eidas.europa.eu/LoA/low': TrustLevel.LOW,
+  'http://eidas.europa.eu/LoA/substantial': TrustLevel.SUBSTANTIAL,
+  'http://eidas.europa.eu/LoA/high': TrustLevel.HIGH,
+};
+
+const TRUST_LEVEL_ORDER: TrustLevel[] = [TrustLevel.LOW, TrustLevel.SUBSTANTIAL, TrustLevel.HIGH];
+
+const LOGIN_CODE_TTL_SECONDS = 120;
+
+interface BundIdConfig {
+  idpEntryPoint?: string;
+  idpEntityId?: string;
+  idpCert?: string;
+  entityId: string;
+  acsUrl: string;
+  privateKey?: string;
+  certificate?: string;
+  acceptedClockSkewMs: number;
+  defaultTrustLevel: string;
+  allowedRedirectUris: string[];
+}
+
+/** Login state kept between the AuthnRequest and the SAML response */
+export interface BundIdState {
+  redirectUri: string;
+  trustLevel: TrustLevel;
+  rememberMe: boolean;
+  deviceId?: string;
+  devicePlatform?: string;
+}
+
+/** User data of a validated assertion */
+export interface BundIdProfile {
+  nameId: string;
+  sessionIndex?: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  trustLevel: TrustLevel;
+}
+
+/** Validated login waiting for the app to exchange its one-time code */
+export interface BundIdPendingLogin {
+  userId: string;
+  trustLevel: TrustLevel;
+  nameId: string;
+  sessionIndex?: string;
+  rememberMe: boolean;
+  deviceId?: string;
+  devicePlatform?: string;
+}
+
+/**
+ * IDs of sent AuthnRequests, kept in Redis so any instance can check the InResponseTo
+ * of the response
+ */
+class RedisRequestIdCache implements CacheProvider {
+  constructor(
+    private readonly redis: RedisService,
+    private readonly ttlSeconds: number,
+  ) {}
+
+  async saveAsync(key: string, value: string): Promise<CacheItem | null> {
+    await this.redis.set(`bundid_request:${key}`, value, this.ttlSeconds);
+    return { value, createdAt: Date.now() };
+  }
+
+  getAsync(key: string): Promise<string | null> {
+    return this.redis.get<string>(`bundid_request:${key}`);
+  }
+
+  async removeAsync(key: string | null): Promise<string | null> {
+    if (!key) {
+      return null;
+    }
+    await this.redis.del(`bundid_request:${key}`);
+    return key;
+  }
+}
+
+/**
+ * SAML 2.0 service provider for BundID, the German government eID login: metadata, signed
+ * AuthnRequests and validation of the responses (signature, audience, InResponseTo and
+ * validity with clock skew), and the mapping of the released attributes.
+ */
+@Injectable()
+export class BundIdService {
+  private readonly stateTtlSeconds: number;
+  private readonly requestIdCache: RedisRequestIdCache;
+
+  constructor(
+    private readonly prismaAuth: PrismaAuthService,
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(BundIdService.name);
+    this.stateTtlSeconds = this.configService.get<number>('bundid.stateTtlSeconds', 600);
+    this.requestIdCache = new RedisRequestIdCache(this.redis, this.stateTtlSeconds);
+  }
+
+  /**
+   * Metadata of the service provider to register with BundID
+   */
+  getMetadata(): string {
+    const config = this.getConfig();
+    return generateServiceProviderMetadata({
+      issuer: config.entityId,
+      callbackUrl: config.acsUrl,
+      identifierFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+      wantAssertionsSigned: true,
+      privateKey: config.privateKey,
+      publicCerts: config.certificate,
+      decryptionPvk: config.privateKey,
+      decryptionCert: config.certificate,
+      signatureAlgorithm: 'sha256',
+      signMetadata: !!config.privateKey,
+    });
+  }
+
+  /**
+   * Start a login: returns the BundID URL with a signed AuthnRequest for the trust level
+   */
+  async createAuthorization(dto: BundIdAuthorizeDto): Promise<BundIdAuthorizationDto> {
+    const config = this.getConfig();
+    if (!config.allowedRedirectUris.includes(dto.redirectUri)) {
+      throw new BadRequestException({
+        errorCode: 'BUNDID_REDIRECT_URI_NOT_ALLOWED',
+        message: 'The redirect URI is not allowed.',
+      });
+    }
+
+    const trustLevel =
+      dto.trustLevel ??
+      (TRUST_LEVEL_ORDER.includes(config.defaultTrustLevel as TrustLevel)
+        ? (config.defaultTrustLevel as TrustLevel)
+        : TrustLevel.LOW);
+
+    const state = randomBytes(24).toString('base64url');
+    await this.redis.set(
+      `bundid_state:${state}`,
+      {
+        redirectUri: dto.redirectUri,
+        trustLevel,
+        rememberMe: dto.rememberMe || false,
+        deviceId: dto.deviceId,
+        devicePlatform: dto.devicePlatform,
+      } satisfies BundIdState,
+      this.stateTtlSeconds,
+    );
+
+    const authorizationUrl = await this.createSaml(config, trustLevel).getAuthorizeUrlAsync(
+      state,
+      undefined,
+      {},
+    );
+    return { authorizationUrl, state, expiresIn: this.stateTtlSeconds };
+  }
+
+  /**
+   * Take the state of a login; it can be used once
+   */
+  async consumeState(state: string | undefined): Promise<BundIdState | null> {
+    if (!state) {
+      return null;
+    }
+
+    const key = `bundid_state:${state}`;
+    const stored = await this.redis.get<BundIdState>(key);
+    if (stored) {
+      await this.redis.del(key);
+    }
+    return stored;
+  }
+
+  /**
+   * Validate a SAML response and map its attributes. Throws if the response is invalid or
+   * the trust level is below the requested one.
+   */
+  async validateResponse(samlResponse: string, state: BundIdState): Promise<BundIdProfile> {
+    const config = this.getConfig();
+    const { profile } = await this.createSaml(config, state.trustLevel).validatePostResponseAsync({
+      SAMLResponse: samlResponse,
+    });
+    if (!profile?.nameID) {
+      throw new Error('The assertion has no subject');
+    }
+
+    const attribute = (name: string): string | null => {
+      const value = profile[name];
+      const first = Array.isArray(value) ? value[0] : value;
+      return typeof first === 'string' && first.trim() ? first.trim() : null;
+    };
+
+    const assertion = profile.getAssertion?.() as any;
+    const classRef =
+      assertion?.Assertion?.AuthnStatement?.[0]?.AuthnContext?.[0]?.AuthnContextClassRef?.[0];
+    const trustLevelValue =
+      attribute(BUNDID_ATTRIBUTES.trustLevel) ??
+      (typeof classRef === 'string' ? classRef : classRef?._);
+    const trustLevel = trustLevelValue ? TRUST_LEVEL_VALUES[trustLevelValue.trim()] : undefined;
+    if (!trustLevel) {
+      throw new Error(`Unknown trust level: ${trustLevelValue}`);
+    }
+    if (TRUST_LEVEL_ORDER.indexOf(trustLevel) < TRUST_LEVEL_ORDER.indexOf(state.trustLevel)) {
+      throw new Error(`Trust level ${trustLevel} is below the requested ${state.trustLevel}`);
+    }
+
+    return {
+      // bPK2 is the stable pseudonym of the citizen for this service provider
+      nameId: attribute(BUNDID_ATTRIBUTES.bpk2) ?? profile.nameID,
+      sessionIndex: profile.sessionIndex,
+      email: attribute(BUNDID_ATTRIBUTES.email)?.toLowerCase() ?? null,
+      firstName: attribute(BUNDID_ATTRIBUTES.givenName),
+      lastName: attribute(BUNDID_ATTRIBUTES.surname),
+      trustLevel,
+    };
+  }
+
+  async createLoginCode(login: BundIdPendingLogin): Promise<string> {
+    const code = randomBytes(24).toString('base64url');
+    await this.redis.set(`bundid_login:${code}`, login, LOGIN_CODE_TTL_SECONDS);
+    return code;
+  }
+
+  async consumeLoginCode(code: string): Promise<BundIdPendingLogin | null> {
+    const key = `bundid_login:${code}`;
+    const login = await this.redis.get<BundIdPendingLogin>(key);
+    if (login) {
+      await this.redis.del(key);
+    }
+    return login;
+  }
+
+  findIdentity(nameId: string): Promise<OAuthIdentity | null> {
+    return this.prismaAuth.oAuthIdentity.findUnique({
+      where: {
+        provider_providerUserId: { provider: AuthProvider.BIND_ID, providerUserId: nameId },
+      },
+    });
+  }
+
+  /**
+   * Link a BundID identity to a user; a user can link one BundID identity
+   */
+  async linkIdentity(userId: string, profile: BundIdProfile): Promise<OAuthIdentity> {
+    try {
+      return await this.prismaAuth.oAuthIdentity.create({
+        data: {
+          userId,
+          provider: AuthProvider.BIND_ID,
+          providerUserId: profile.nameId,
+          email: profile.email,
+          lastLoginAt: new Date(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException({
+          errorCode: 'BUNDID_ALREADY_LINKED',
+          message: 'Another BundID identity is already linked to this user.',
+        });
+      }
+      throw error;
+    }
+  }
+
+  async touchIdentity(identity: OAuthIdentity): Promise<void> {
+    await this.prismaAuth.oAuthIdentity.update({
+      where: { id: identity.id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+
+  /**
+   * URL of the app's redirect page with the login result
+   */
+  buildRedirect(redirectUri: string, params: Record<string, string>): string {
+    const url = new URL(redirectUri);
+    for (const [name, value] of Object.entries(params)) {
+      url.searchParams.set(name, value);
+    }
+    return url.toString();
+  }
+
+  private getConfig(): BundIdConfig {
+    const config = this.configService.get<BundIdConfig>('bundid');
+    if (!config?.idpEntryPoint || !config.idpCert) {
+      throw new NotFoundException({
+        errorCode: 'BUNDID_NOT_ENABLED',
+        message: 'Login with BundID is not enabled.',
+      });
+    }
+    return config;
+  }
+
+  private createSaml(config: BundIdConfig, trustLevel: TrustLevel): SAML {
+    return new SAML({
+      entryPoint: config.idpEntryPoint,
+      idpCert: config.idpCert!,
+      idpIssuer: config.idpEntityId || undefined,
+      issuer: config.entityId,
+      audience: config.entityId,
+      callbackUrl: config.acsUrl,
+      privateKey: config.privateKey,
+      publicCert: config.certificate,
+      decryptionPvk: config.privateKey,
+      signatureAlgorithm: 'sha256',
+      identifierFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+      authnContext: [TRUST_LEVEL_CONTEXTS[trustLevel]],
+      racComparison: 'minimum',
+      // BundID signs the assertions, not necessarily the response around them
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: false,
+      acceptedClockSkewMs: config.acceptedClockSkewMs,
+      validateInResponseTo: ValidateInResponseTo.always,
+      requestIdExpirationPeriodMs: this.stateTtlSeconds * 1000,
+      cacheProvider: this.requestIdCache,
+      // Attributes to release, in the request extension of the BundID interface
+      samlAuthnRequestExtensions: {
+        'akdb:AuthenticationRequest': {
+          '@xmlns:akdb': 'https://www.akdb.de/request/2018/09',
+          '@Version': '2',
+          'akdb:RequestedAttributes': {
+            'akdb:RequestedAttribute': [
+              { '@Name': BUNDID_ATTRIBUTES.bpk2, '@RequiredAttribute': 'true' },
+              { '@Name': BUNDID_ATTRIBUTES.email, '@RequiredAttribute': 'true' },
+              { '@Name': BUNDID_ATTRIBUTES.givenName, '@RequiredAttribute': 'false' },
+              { '@Name': BUNDID_ATTRIBUTES.surname, '@RequiredAttribute': 'false' },
+            ],
+          },
+        },
+      },
+    });
+  }
+}
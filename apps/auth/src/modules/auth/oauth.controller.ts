@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Req,
+  Param,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiParam } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+import {
+  AuthNotFoundErrorResponseDto,
+  AuthUnauthorizedErrorResponseDto,
+  ConflictErrorResponseDto,
+  EmailVerificationRequiredErrorResponseDto,
+  LoginResponseDto,
+  OAuthAuthorizationDto,
+  OAuthAuthorizeDto,
+  OAuthCallbackDto,
+  OAuthProvider,
+  ValidationErrorResponseDto,
+} from '@heidi/contracts';
+import { Public, JwtAuthGuard } from '@heidi/jwt';
+
+@ApiTags('auth')
+@Controller('oauth')
+@UseGuards(JwtAuthGuard)
+export class OAuthController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Post(':provider/authorize')
+  @Public()
+  @ApiOperation({
+    summary: 'Start social login',
+    description:
+      'Start signing in with Google, GitHub or Facebook (authorization code flow with PKCE). Open the returned URL in the browser; the provider redirects to the redirect URI with code and state, to be sent to POST /oauth/{provider}/callback. Pass guestUserId to convert a guest into a registered user.',
+  })
+  @ApiParam({ name: 'provider', enum: OAuthProvider })
+  @ApiBody({ type: OAuthAuthorizeDto })
+  @ApiResponse({ status: 200, description: 'Sign-in started', type: OAuthAuthorizationDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation error or redirect URI not allowed',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Provider not enabled',
+    type: AuthNotFoundErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async authorize(
+    @Param('provider', new ParseEnumPipe(OAuthProvider)) provider: OAuthProvider,
+    @Body() dto: OAuthAuthorizeDto,
+  ) {
+    return this.authService.createOAuthAuthorization(provider, dto);
+  }
+
+  @Post(':provider/callback')
+  @Public()
+  @ApiOperation({
+    summary: 'Complete social login',
+    description:
+      'Exchange the code and state the provider passed to the redirect URI for tokens. The provider account is linked to the user with the same verified email, or a new user is created. Accounts with two-factor authentication get a challenge token, to be completed at POST /login/2fa.',
+  })
+  @ApiParam({ name: 'provider', enum: OAuthProvider })
+  @ApiBody({ type: OAuthCallbackDto })
+  @ApiResponse({ status: 200, description: 'Login successful', type: LoginResponseDto })
+  @ApiResponse({
+    status: 401,
+    description:
+      'OAUTH_STATE_INVALID, OAUTH_EXCHANGE_FAILED, OAUTH_EMAIL_NOT_VERIFIED or ACCOUNT_INACTIVE',
+    type: AuthUnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'The existing account with this email has to be verified first',
+    type: EmailVerificationRequiredErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description:
+      'OAUTH_ACCOUNT_EXISTS when converting a guest whose email is registered already, OAUTH_PROVIDER_ALREADY_LINKED',
+    type: ConflictErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async callback(
+    @Param('provider', new ParseEnumPipe(OAuthProvider)) provider: OAuthProvider,
+    @Body() dto: OAuthCallbackDto,
+    @Req() req: Request,
+  ) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.loginWithOAuth(provider, dto, ipAddress as string, userAgent);
+  }
+}
@@ -0,0 +1,179 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { Test } from '@nestjs/testing';
+import { of } from 'rxjs';
+import { createHash } from 'crypto';
+import { PrismaAuthService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { OAuthAuthorizeDto, OAuthProvider } from '@heidi/contracts';
+import { OAuthService, OAuthState } from './oauth.service';
+
+const REDIRECT_URI = 'heidi://oauth/callback';
+
+const CONFIG: Record<string, unknown> = {
+  'oauth.allowedRedirectUris': [REDIRECT_URI],
+  'oauth.providers.google': {
+    clientId: 'google-client',
+    clientSecret: 'google-secret',
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    userInfoUrl: 'https://openidconnect.googleapis.com/v1/userinfo',
+    scopes: 'openid email profile',
+  },
+  'jwt.secret': 'test-secret',
+};
+
+describe('OAuthService', () => {
+  let service: OAuthService;
+  let store: Map<string, unknown>;
+  let http: { post: jest.Mock; get: jest.Mock };
+
+  const authorize = (overrides: Partial<OAuthAuthorizeDto> = {}) =>
+    service.createAuthorization(OAuthProvider.GOOGLE, {
+      redirectUri: REDIRECT_URI,
+      rememberMe: true,
+      ...overrides,
+    } as OAuthAuthorizeDto);
+
+  beforeEach(async () => {
+    store = new Map();
+    http = {
+      post: jest.fn().mockReturnValue(of({ data: { access_token: 'provider-access-token' } })),
+      get: jest.fn().mockReturnValue(
+        of({
+          data: {
+            sub: 'google-user-1',
+            email: 'jane@example.com',
+            email_verified: true,
+            name: 'Jane Doe',
+          },
+        }),
+      ),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        OAuthService,
+        { provide: PrismaAuthService, useValue: {} },
+        {
+          provide: RedisService,
+          useValue: {
+            set: jest.fn(async (key: string, value: unknown) => void store.set(key, value)),
+            get: jest.fn(async (key: string) => store.get(key) ?? null),
+            del: jest.fn(async (key: string) => store.delete(key)),
+          },
+        },
+        { provide: HttpService, useValue: http },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) => CONFIG[key] ?? defaultValue),
+          },
+        },
+        { provide: LoggerService, useValue: { setContext: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(OAuthService);
+  });
+
+  describe('createAuthorization', () => {
+    it('sends the S256 challenge of a verifier that stays on the server', async () => {
+      const { authorizationUrl, state } = await authorize();
+
+      const url = new URL(authorizationUrl);
+      const stored = store.get(`oauth_state:${state}`) as OAuthState;
+      expect(url.searchParams.get('state')).toBe(state);
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).toBe(
+        createHash('sha256').update(stored.codeVerifier).digest('base64url'),
+      );
+      expect(authorizationUrl).not.toContain(stored.codeVerifier);
+      expect(stored).toMatchObject({
+        provider: OAuthProvider.GOOGLE,
+        redirectUri: REDIRECT_URI,
+        rememberMe: true,
+      });
+    });
+
+    it('issues a new state and verifier for every sign-in', async () => {
+      const first = await authorize();
+      const second = await authorize();
+
+      expect(first.state).not.toBe(second.state);
+      expect((store.get(`oauth_state:${first.state}`) as OAuthState).codeVerifier).not.toBe(
+        (store.get(`oauth_state:${second.state}`) as OAuthState).codeVerifier,
+      );
+    });
+
+    it('rejects redirect URIs that are not allowed', async () => {
+      await expect(authorize({ redirectUri: 'https://attacker.example' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(store.size).toBe(0);
+    });
+
+    it('rejects providers that are not configured', async () => {
+      await expect(
+        service.createAuthorization(OAuthProvider.GITHUB, {
+          redirectUri: REDIRECT_URI,
+        } as OAuthAuthorizeDto),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('consumeState', () => {
+    it('returns the state only once', async () => {
+      const { state } = await authorize();
+
+      await expect(service.consumeState(OAuthProvider.GOOGLE, state)).resolves.toMatchObject({
+        provider: OAuthProvider.GOOGLE,
+      });
+      await expect(service.consumeState(OAuthProvider.GOOGLE, state)).resolves.toBeNull();
+    });
+
+    it('rejects and discards a state issued for another provider', async () => {
+      const { state } = await authorize();
+
+      await expect(service.consumeState(OAuthProvider.GITHUB, state)).resolves.toBeNull();
+      await expect(service.consumeState(OAuthProvider.GOOGLE, state)).resolves.toBeNull();
+    });
+
+    it('rejects unknown states', async () => {
+      await expect(service.consumeState(OAuthProvider.GOOGLE, 'forged-state')).resolves.toBeNull();
+    });
+  });
+
+  describe('exchangeCode', () => {
+    it('redeems the code with the stored verifier and redirect URI', async () => {
+      const { state } = await authorize();
+      const stored = (await service.consumeState(OAuthProvider.GOOGLE, state))!;
+
+      const { profile, tokens } = await service.exchangeCode(stored, 'authorization-code');
+
+      const body = new URLSearchParams(http.post.mock.calls[0][1]);
+      expect(http.post.mock.calls[0][0]).toBe('https://oauth2.googleapis.com/token');
+      expect(body.get('code')).toBe('authorization-code');
+      expect(body.get('code_verifier')).toBe(stored.codeVerifier);
+      expect(body.get('redirect_uri')).toBe(REDIRECT_URI);
+      expect(tokens.accessToken).toBe('provider-access-token');
+      expect(profile).toEqual({
+        id: 'google-user-1',
+        email: 'jane@example.com',
+        emailVerified: true,
+        firstName: 'Jane',
+        lastName: 'Doe',
+      });
+    });
+
+    it('fails when the provider returns no access token', async () => {
+      const { state } = await authorize();
+      const stored = (await service.consumeState(OAuthProvider.GOOGLE, state))!;
+      http.post.mockReturnValue(of({ data: { error: 'invalid_grant' } }));
+
+      await expect(service.exchangeCode(stored, 'reused-code')).rejects.toThrow('invalid_grant');
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import { PrismaAuthService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { OAuthAuthorizationDto, OAuthAuthorizeDto, OAuthProvider } from '@heidi/contracts';
+import { AuthProvider, OAuthIdentity, Prisma } from '@prisma/client-auth';
+
+const HTTP_TIMEOUT_MS = 10000;
+
+const AUTH_PROVIDERS: Record<OAuthProvider, AuthProvider> = {
+  [OAuthProvider.GOOGLE]: AuthProvider.OAUTH_GOOGLE,
+  [OAuthProvider.GITHUB]: AuthProvider.OAUTH_GITHUB,
+  [OAuthProvider.FACEBOOK]: AuthProvider.OAUTH_FACEBOOK,
+};
+
+interface ProviderConfig {
+  clientId?: string;
+  clientSecret?: string;
+  authorizationUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  emailsUrl?: string;
+  scopes: string;
+}
+
+/** Sign-in state kept between the redirect to the provider and the callback */
+export interface OAuthState {
+  provider: OAuthProvider;
+  codeVerifier: string;
+  redirectUri: string;
+  rememberMe: boolean;
+  deviceId?: string;
+  devicePlatform?: string;
+  guestUserId?: string;
+}
+
+export interface OAuthProfile {
+  id: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  scope?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Social login with Google, GitHub and Facebook: authorization code flow with PKCE,
+ * provider profiles and the identities linked to users. The code verifier never leaves
+ * the server; provider tokens are AES-256-GCM encrypted before they are stored.
+ */
+@Injectable()
+export class OAuthService {
+  private readonly stateTtlSeconds: number;
+  private readonly allowedRedirectUris: string[];
+  private readonly encryptionKey: Buffer;
+
+  constructor(
+    private readonly prismaAuth: PrismaAuthService,
+    private readonly redis: RedisService,
+    private readonly http: HttpService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(OAuthService.name);
+    this.stateTtlSeconds = this.configService.get<number>('oauth.stateTtlSeconds', 600);
+    this.allowedRedirectUris = this.configService.get<string[]>('oauth.allowedRedirectUris', []);
+    this.encryptionKey = scryptSync(
+      this.configService.get<string>('oauth.tokenEncryptionKey') ??
+        this.configService.get<string>('jwt.secret', ''),
+      'heidi-oauth-tokens',
+      32,
+    );
+  }
+
+  toAuthProvider(provider: OAuthProvider): AuthProvider {
+    return AUTH_PROVIDERS[provider];
+  }
+
+  /**
+   * Start a sign-in: returns the provider URL to open, with state and PKCE challenge
+   */
+  async createAuthorization(
+    provider: OAuthProvider,
+    dto: OAuthAuthorizeDto,
+  ): Promise<OAuthAuthorizationDto> {
+    const config = this.getProviderConfig(provider);
+    if (!this.allowedRedirectUris.includes(dto.redirectUri)) {
+      throw new BadRequestException({
+        errorCode: 'OAUTH_REDIRECT_URI_NOT_ALLOWED',
+        message: 'The redirect URI is not allowed.',
+      });
+    }
+
+    const state = randomBytes(24).toString('base64url');
+    const codeVerifier = randomBytes(32).toString('base64url');
+    await this.redis.set(
+      `oauth_state:${state}`,
+      {
+        provider,
+        codeVerifier,
+        redirectUri: dto.redirectUri,
+        rememberMe: dto.rememberMe || false,
+        deviceId: dto.deviceId,
+        devicePlatform: dto.devicePlatform,
+        guestUserId: dto.guestUserId,
+      } satisfies OAuthState,
+      this.stateTtlSeconds,
+    );
+
+    const url = new URL(config.authorizationUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId!);
+    url.searchParams.set('redirect_uri', dto.redirectUri);
+    url.searchParams.set('scope', config.scopes);
+    url.searchParams.set('state', state);
+    url.searchParams.set(
+      'code_challenge',
+      createHash('sha256').update(codeVerifier).digest('base64url'),
+    );
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { authorizationUrl: url.toString(), state, expiresIn: this.stateTtlSeconds };
+  }
+
+  /**
+   * Take the state of a sign-in; it can be used once. Returns null if it is unknown,
+   * expired or was issued for another provider.
+   */
+  async consumeState(provider: OAuthProvider, state: string): Promise<OAuthState | null> {
+    const key = `oauth_state:${state}`;
+    const stored = await this.redis.get<OAuthState>(key);
+    if (!stored) {
+      return null;
+    }
+
+    await this.redis.del(key);
+    return stored.provider === provider ? stored : null;
+  }
+
+  /**
+   * Exchange the authorization code for provider tokens and load the user's profile
+   */
+  async exchangeCode(
+    state: OAuthState,
+    code: string,
+  ): Promise<{ profile: OAuthProfile; tokens: OAuthTokens }> {
+    const config = this.getProviderConfig(state.provider);
+
+    const response = await firstValueFrom(
+      this.http.post(
+        config.tokenUrl,
+        new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: state.redirectUri,
+          client_id: config.clientId!,
+          client_secret: config.clientSecret ?? '',
+          code_verifier: state.codeVerifier,
+        }).toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json',
+          },
+          timeout: HTTP_TIMEOUT_MS,
+        },
+      ),
+    );
+
+    // GitHub answers errors with status 200
+    const data = response.data ?? {};
+    if (!data.access_token) {
+      throw new Error(
+        `Token exchange failed: ${data.error_description || data.error || 'no token'}`,
+      );
+    }
+
+    const tokens: OAuthTokens = {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      idToken: data.id_token,
+      scope: data.scope,
+      expiresAt: data.expires_in
+        ? new Date(Date.now() + Number(data.expires_in) * 1000).toISOString()
+        : undefined,
+    };
+    const profile = await this.fetchProfile(state.provider, config, tokens.accessToken);
+    return { profile, tokens };
+  }
+
+  findIdentity(provider: OAuthProvider, providerUserId: string): Promise<OAuthIdentity | null> {
+    return this.prismaAuth.oAuthIdentity.findUnique({
+      where: {
+        provider_providerUserId: { provider: this.toAuthProvider(provider), providerUserId },
+      },
+    });
+  }
+
+  /**
+   * Link a provider account to a user; a user can link one account per provider
+   */
+  async linkIdentity(
+    userId: string,
+    provider: OAuthProvider,
+    profile: OAuthProfile,
+  ): Promise<OAuthIdentity> {
+    try {
+      return await this.prismaAuth.oAuthIdentity.create({
+        data: {
+          userId,
+          provider: this.toAuthProvider(provider),
+          providerUserId: profile.id,
+          email: profile.email,
+          lastLoginAt: new Date(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException({
+          errorCode: 'OAUTH_PROVIDER_ALREADY_LINKED',
+          message: `Another ${provider} account is already linked to this user.`,
+        });
+      }
+      throw error;
+    }
+  }
+
+  async unlinkIdentity(userId: string, provider: OAuthProvider): Promise<void> {
+    await this.prismaAuth.oAuthIdentity.deleteMany({
+      where: { userId, provider: this.toAuthProvider(provider) },
+    });
+  }
+
+  async touchIdentity(identity: OAuthIdentity): Promise<void> {
+    await this.prismaAuth.oAuthIdentity.update({
+      where: { id: identity.id },
+      data: { lastLoginAt: new Date() },
+    });
+  }
+
+  encryptTokens(tokens: OAuthTokens): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(JSON.stringify(tokens), 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+  }
+
+  decryptTokens(value: string): OAuthTokens {
+    const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return JSON.parse(
+      Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8'),
+    );
+  }
+
+  private getProviderConfig(provider: OAuthProvider): ProviderConfig {
+    const config = this.configService.get<ProviderConfig>(`oauth.providers.${provider}`);
+    if (!config?.clientId) {
+      throw new NotFoundException({
+        errorCode: 'OAUTH_PROVIDER_NOT_ENABLED',
+        message: `Sign-in with ${provider} is not enabled.`,
+      });
+    }
+    return config;
+  }
+
+  /**
+   * Map the provider's profile to the fields we use. Standard OIDC claims are accepted
+   * for every provider, so all of them can be tested against an OIDC mock IdP.
+   */
+  private async fetchProfile(
+    provider: OAuthProvider,
+    config: ProviderConfig,
+    accessToken: string,
+  ): Promise<OAuthProfile> {
+    const { data } = await firstValueFrom(
+      this.http.get(config.userInfoUrl, {
+        headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+        timeout: HTTP_TIMEOUT_MS,
+      }),
+    );
+
+    const id = data.sub ?? data.id;
+    if (id === undefined || id === null) {
+      throw new Error(`The ${provider} profile has no user ID`);
+    }
+
+    const [nameFirst, ...nameRest] = (data.name ?? '').trim().split(/\s+/);
+    const profile: OAuthProfile = {
+      id: String(id),
+      email: data.email ?? null,
+      emailVerified: data.email_verified === true || data.email_verified === 'true',
+      firstName: data.given_name ?? data.first_name ?? (nameFirst || null),
+      lastName: data.family_name ?? data.last_name ?? (nameRest.join(' ') || null),
+    };
+
+    if (provider === OAuthProvider.FACEBOOK && data.email_verified === undefined) {
+      // Facebook only returns confirmed email addresses
+      profile.emailVerified = !!profile.email;
+    }
+
+    if (provider === OAuthProvider.GITHUB && data.email_verified === undefined) {
+      // The profile shows the public email only; the verified primary one is listed separately
+      const { data: emails } = await firstValueFrom(
+        this.http.get<{ email: string; primary: boolean; verified: boolean }[]>(config.emailsUrl!, {
+          headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/json' },
+          timeout: HTTP_TIMEOUT_MS,
+        }),
+      );
+      const primary = emails.find((email) => email.primary && email.verified);
+      profile.email = primary?.email ?? null;
+      profile.emailVerified = !!primary;
+    }
+
+    return profile;
+  }
+}
@@ -0,0 +1,123 @@
+import { Controller, Post, Get, Body, HttpCode, HttpStatus, UseGuards, Req } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
+import { Request } from 'express';
+import { AuthService } from './auth.service';
+import {
+  AuthUnauthorizedErrorResponseDto,
+  ConflictErrorResponseDto,
+  DisableTwoFactorDto,
+  TwoFactorCodeDto,
+  TwoFactorRecoveryCodesDto,
+  TwoFactorSetupDto,
+  TwoFactorStatusDto,
+  ValidationErrorResponseDto,
+} from '@heidi/contracts';
+import { JwtAuthGuard, GetCurrentUser, AllowWithoutTwoFactor } from '@heidi/jwt';
+
+@ApiTags('auth')
+@ApiBearerAuth('JWT-auth')
+@Controller('2fa')
+@UseGuards(JwtAuthGuard)
+export class TwoFactorController {
+  constructor(private readonly authService: AuthService) {}
+
+  @Get()
+  @AllowWithoutTwoFactor()
+  @ApiOperation({
+    summary: 'Get 2FA status',
+    description: 'Whether 2FA is enabled, unused recovery codes and whether the role requires 2FA',
+  })
+  @ApiResponse({ status: 200, description: '2FA status', type: TwoFactorStatusDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized', type: AuthUnauthorizedErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async getStatus(@GetCurrentUser() user: any) {
+    return this.authService.getTwoFactorStatus(user);
+  }
+
+  @Post('setup')
+  @AllowWithoutTwoFactor()
+  @ApiOperation({
+    summary: 'Start 2FA setup',
+    description:
+      'Create a TOTP secret and otpauth URI for an authenticator app. 2FA is enabled once a code is confirmed at POST /2fa/enable.',
+  })
+  @ApiResponse({ status: 200, description: 'Secret created', type: TwoFactorSetupDto })
+  @ApiResponse({ status: 401, description: 'Unauthorized', type: AuthUnauthorizedErrorResponseDto })
+  @ApiResponse({ status: 409, description: '2FA already enabled', type: ConflictErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async setup(@GetCurrentUser() user: any) {
+    return this.authService.setupTwoFactor(user.userId, user.email);
+  }
+
+  @Post('enable')
+  @AllowWithoutTwoFactor()
+  @ApiOperation({
+    summary: 'Enable 2FA',
+    description:
+      'Confirm the setup with a code of the authenticator app. Returns one-time recovery codes; refresh the tokens to continue with a verified session.',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, description: '2FA enabled', type: TwoFactorRecoveryCodesDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid code or no pending setup',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized', type: AuthUnauthorizedErrorResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async enable(@GetCurrentUser() user: any, @Body() dto: TwoFactorCodeDto, @Req() req: Request) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.enableTwoFactor(
+      user.userId,
+      user.sessionId,
+      dto.code,
+      ipAddress as string,
+      userAgent,
+    );
+  }
+
+  @Post('recovery-codes')
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description: 'Replace all recovery codes; requires a current TOTP or recovery code',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: 200, description: 'New recovery codes', type: TwoFactorRecoveryCodesDto })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized or invalid code',
+    type: AuthUnauthorizedErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @GetCurrentUser('userId') userId: string,
+    @Body() dto: TwoFactorCodeDto,
+  ) {
+    return this.authService.regenerateRecoveryCodes(userId, dto.code);
+  }
+
+  @Post('disable')
+  @ApiOperation({
+    summary: 'Disable 2FA',
+    description:
+      'Disable 2FA after re-authentication with the password and a TOTP or recovery code',
+  })
+  @ApiBody({ type: DisableTwoFactorDto })
+  @ApiResponse({ status: 200, description: '2FA disabled' })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized, wrong password or invalid code',
+    type: AuthUnauthorizedErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async disable(
+    @GetCurrentUser('userId') userId: string,
+    @Body() dto: DisableTwoFactorDto,
+    @Req() req: Request,
+  ) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    const userAgent = req.headers['user-agent'];
+    return this.authService.disableTwoFactor(userId, dto, ipAddress as string, userAgent);
+  }
+}
@@ -0,0 +1,226 @@
+import { Test } from '@nestjs/testing';
+import { createHash, createHmac } from 'crypto';
+import { PrismaAuthService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { TwoFactorChallenge, TwoFactorService } from './two-factor.service';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** Reference RFC 6238 code (SHA-1, 6 digits, 30 seconds) of a base32 secret */
+function totpCode(secret: string, time: number): string {
+  const bits = Array.from(secret, (char) =>
+    BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'),
+  ).join('');
+  const key = Buffer.from(
+    Array.from({ length: Math.floor(bits.length / 8) }, (_, i) =>
+      parseInt(bits.slice(i * 8, i * 8 + 8), 2),
+    ),
+  );
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(time / 1000 / 30)));
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return ((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).toString().padStart(6, '0');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace('-', '')).digest('hex');
+}
+
+describe('TwoFactorService', () => {
+  const now = new Date('2026-10-18T12:00:00.000Z').getTime();
+
+  let service: TwoFactorService;
+  let prisma: {
+    twoFactorAuth: {
+      findUnique: jest.Mock;
+      upsert: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    twoFactorRecoveryCode: { updateMany: jest.Mock; deleteMany: jest.Mock; createMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let redis: { get: jest.Mock; set: jest.Mock; del: jest.Mock; incr: jest.Mock; expire: jest.Mock };
+
+  /** Enrol a secret and return it with the record the service stored for it */
+  async function enrol(enabledAt: Date | null = new Date(now)) {
+    prisma.twoFactorAuth.findUnique.mockResolvedValueOnce(null);
+    const { secret } = await service.createSecret('user-1', 'jane@example.com');
+    const record = {
+      userId: 'user-1',
+      secret: prisma.twoFactorAuth.upsert.mock.calls[0][0].create.secret,
+      enabledAt,
+      lastUsedStep: null,
+    };
+    prisma.twoFactorAuth.findUnique.mockResolvedValue(record);
+    return { secret, record };
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+
+    prisma = {
+      twoFactorAuth: {
+        findUnique: jest.fn(),
+        upsert: jest.fn().mockResolvedValue({}),
+        update: jest.fn().mockResolvedValue({}),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      twoFactorRecoveryCode: {
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        deleteMany: jest.fn().mockResolvedValue({}),
+        createMany: jest.fn().mockResolvedValue({}),
+      },
+      $transaction: jest.fn((operations: unknown[]) => Promise.all(operations)),
+    };
+    redis = {
+      get: jest.fn(),
+      set: jest.fn(),
+      del: jest.fn(),
+      incr: jest.fn(),
+      expire: jest.fn(),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: PrismaAuthService, useValue: prisma },
+        { provide: RedisService, useValue: redis },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: unknown) =>
+              key === 'jwt.secret' ? 'test-secret' : defaultValue,
+            ),
+          },
+        },
+        {
+          provide: LoggerService,
+          useValue: { setContext: jest.fn(), warn: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TwoFactorService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores the secret encrypted', async () => {
+    const { secret, record } = await enrol();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(record.secret).not.toContain(secret);
+  });
+
+  describe('TOTP codes', () => {
+    it('accepts the current code once and records its time step', async () => {
+      const { secret } = await enrol();
+
+      await expect(service.verify('user-1', totpCode(secret, now))).resolves.toBe('totp');
+
+      const step = Math.floor(now / 1000 / 30);
+      expect(prisma.twoFactorAuth.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+        data: { lastUsedStep: step },
+      });
+    });
+
+    it('rejects a replayed code whose step was already used', async () => {
+      const { secret } = await enrol();
+      prisma.twoFactorAuth.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.verify('user-1', totpCode(secret, now))).resolves.toBeNull();
+      expect(prisma.twoFactorRecoveryCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('accepts codes of the adjacent steps for clock drift', async () => {
+      const { secret } = await enrol();
+
+      await expect(service.verify('user-1', totpCode(secret, now - 30_000))).resolves.toBe('totp');
+      await expect(service.verify('user-1', totpCode(secret, now + 30_000))).resolves.toBe('totp');
+    });
+
+    it('rejects codes outside the drift window', async () => {
+      const { secret } = await enrol();
+
+      await expect(service.verify('user-1', totpCode(secret, now - 90_000))).resolves.toBeNull();
+      expect(prisma.twoFactorAuth.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects codes before enrolment is confirmed', async () => {
+      const { secret } = await enrol(null);
+
+      await expect(service.verify('user-1', totpCode(secret, now))).resolves.toBeNull();
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('issues ten codes on confirmation and stores only their hashes', async () => {
+      const { secret } = await enrol(null);
+
+      const codes = await service.confirm('user-1', totpCode(secret, now));
+
+      expect(codes).toHaveLength(10);
+      codes.forEach((code) => expect(code).toMatch(/^[a-z2-9]{4}-[a-z2-9]{4}$/));
+      const stored = prisma.twoFactorRecoveryCode.createMany.mock.calls[0][0].data;
+      expect(stored.map((row: { codeHash: string }) => row.codeHash)).toEqual(
+        codes.map(hashRecoveryCode),
+      );
+    });
+
+    it('consumes an unused code regardless of case and separator', async () => {
+      await enrol();
+      prisma.twoFactorRecoveryCode.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.verify('user-1', 'ABCD EFGH')).resolves.toBe('recovery_code');
+
+      expect(prisma.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', codeHash: hashRecoveryCode('abcd-efgh'), usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('rejects a code that was already used', async () => {
+      await enrol();
+
+      await expect(service.verify('user-1', 'abcd-efgh')).resolves.toBeNull();
+      expect(prisma.twoFactorRecoveryCode.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ usedAt: null }) }),
+      );
+    });
+  });
+
+  describe('login challenges', () => {
+    const challenge: TwoFactorChallenge = {
+      userId: 'user-1',
+      email: 'jane@example.com',
+      rememberMe: false,
+    };
+
+    it('consumes the challenge after a valid code', async () => {
+      const { secret } = await enrol();
+
+      await expect(
+        service.completeChallenge('token', challenge, totpCode(secret, now)),
+      ).resolves.toBe('totp');
+      expect(redis.del).toHaveBeenCalledWith('2fa_challenge:token');
+    });
+
+    it('drops the challenge after five wrong codes', async () => {
+      await enrol();
+      redis.incr.mockResolvedValueOnce(4).mockResolvedValueOnce(5);
+
+      await service.completeChallenge('token', challenge, 'wrong-code');
+      expect(redis.del).not.toHaveBeenCalled();
+
+      await expect(service.completeChallenge('token', challenge, 'wrong-code')).resolves.toBeNull();
+      expect(redis.del).toHaveBeenCalledWith('2fa_challenge:token');
+    });
+  });
+});
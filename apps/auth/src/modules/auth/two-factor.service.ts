@@ -0,0 +1,346 @@
+import { BadRequestException, ConflictException, Injectable } from '@nestjs/common';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  randomInt,
+  scryptSync,
+  timingSafeEqual,
+} from 'crypto';
+import { PrismaAuthService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { roleToNumber } from '@heidi/rbac';
+import { UserRole } from '@prisma/client-core';
+import { AuthProvider, TrustLevel } from '@prisma/client-auth';
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // Steps accepted before and after the current one (clock drift)
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+/** Login state kept while the second factor is pending */
+export interface TwoFactorChallenge {
+  userId: string;
+  email: string;
+  rememberMe: boolean;
+  deviceId?: string;
+  devicePlatform?: string;
+  // Social logins keep the provider and its encrypted tokens for the session
+  oauth?: { provider: AuthProvider; tokens: string };
+  // BundID logins keep the trust level and subject for the session
+  bundId?: { trustLevel: TrustLevel; nameId: string; sessionIndex?: string };
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+/**
+ * TOTP (RFC 6238, SHA-1, 6 digits, 30 seconds) enrolment and verification, recovery codes
+ * and the login challenges of accounts with 2FA. Secrets are stored AES-256-GCM encrypted.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly issuer: string;
+  private readonly encryptionKey: Buffer;
+  private readonly challengeTtlSeconds: number;
+  private readonly enforcedRoles: number[];
+
+  constructor(
+    private readonly prismaAuth: PrismaAuthService,
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(TwoFactorService.name);
+    this.issuer = this.configService.get<string>('twoFactor.issuer', 'HEIDI');
+    this.encryptionKey = scryptSync(
+      this.configService.get<string>('twoFactor.encryptionKey') ??
+        this.configService.get<string>('jwt.secret', ''),
+      'heidi-two-factor',
+      32,
+    );
+    this.challengeTtlSeconds = this.configService.get<number>('twoFactor.challengeTtlSeconds', 300);
+    this.enforcedRoles = this.configService
+      .get<string[]>('twoFactor.enforcedRoles', [])
+      .filter((role) => Object.values(UserRole).includes(role as UserRole))
+      .map((role) => roleToNumber(role));
+  }
+
+  /**
+   * Whether the 2FA policy applies to a user with the given role and city assignment roles
+   */
+  isRequired(roles: (string | number)[]): boolean {
+    return roles.some((role) =>
+      this.enforcedRoles.includes(typeof role === 'number' ? role : roleToNumber(role)),
+    );
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const record = await this.prismaAuth.twoFactorAuth.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+    return !!record?.enabledAt;
+  }
+
+  async getStatus(userId: string) {
+    const [record, recoveryCodesRemaining] = await Promise.all([
+      this.prismaAuth.twoFactorAuth.findUnique({ where: { userId } }),
+      this.prismaAuth.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+    ]);
+
+    return {
+      enabled: !!record?.enabledAt,
+      enabledAt: record?.enabledAt?.toISOString() ?? null,
+      recoveryCodesRemaining: record?.enabledAt ? recoveryCodesRemaining : 0,
+    };
+  }
+
+  /**
+   * Start enrolment with a new secret. A pending, unconfirmed secret is replaced.
+   */
+  async createSecret(userId: string, accountName: string) {
+    if (await this.isEnabled(userId)) {
+      throw new ConflictException({
+        errorCode: 'TWO_FACTOR_ALREADY_ENABLED',
+        message: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    const secret = this.toBase32(randomBytes(SECRET_BYTES));
+    await this.prismaAuth.twoFactorAuth.upsert({
+      where: { userId },
+      create: { userId, secret: this.encrypt(secret) },
+      update: { secret: this.encrypt(secret), enabledAt: null, lastUsedStep: null },
+    });
+
+    const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.issuer,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS),
+    });
+
+    return { secret, otpauthUri: `otpauth://totp/${label}?${params.toString()}` };
+  }
+
+  /**
+   * Confirm enrolment with a code of the pending secret. Returns the recovery codes.
+   */
+  async confirm(userId: string, code: string): Promise<string[]> {
+    const record = await this.prismaAuth.twoFactorAuth.findUnique({ where: { userId } });
+    if (!record || record.enabledAt) {
+      throw new BadRequestException({
+        errorCode: 'TWO_FACTOR_SETUP_NOT_STARTED',
+        message: 'No pending two-factor setup. Start with POST /2fa/setup.',
+      });
+    }
+
+    const step = this.matchTotp(this.decrypt(record.secret), code);
+    if (step === null) {
+      throw new BadRequestException({
+        errorCode: 'INVALID_TWO_FACTOR_CODE',
+        message: 'The code is invalid or expired',
+      });
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prismaAuth.$transaction([
+      this.prismaAuth.twoFactorAuth.update({
+        where: { userId },
+        data: { enabledAt: new Date(), lastUsedStep: step },
+      }),
+      this.prismaAuth.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prismaAuth.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map((recoveryCode) => ({
+          userId,
+          codeHash: this.hashRecoveryCode(recoveryCode),
+        })),
+      }),
+    ]);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a TOTP code or consume a recovery code. A TOTP code is accepted once.
+   */
+  async verify(userId: string, code: string): Promise<TwoFactorMethod | null> {
+    const record = await this.prismaAuth.twoFactorAuth.findUnique({ where: { userId } });
+    if (!record?.enabledAt) {
+      return null;
+    }
+
+    const step = this.matchTotp(this.decrypt(record.secret), code);
+    if (step !== null) {
+      const { count } = await this.prismaAuth.twoFactorAuth.updateMany({
+        where: { userId, OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }] },
+        data: { lastUsedStep: step },
+      });
+      return count === 1 ? 'totp' : null;
+    }
+
+    const { count } = await this.prismaAuth.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash: this.hashRecoveryCode(code), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    return count > 0 ? 'recovery_code' : null;
+  }
+
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.prismaAuth.$transaction([
+      this.prismaAuth.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      this.prismaAuth.twoFactorRecoveryCode.createMany({
+        data: recoveryCodes.map((recoveryCode) => ({
+          userId,
+          codeHash: this.hashRecoveryCode(recoveryCode),
+        })),
+      }),
+    ]);
+    return recoveryCodes;
+  }
+
+  async disable(userId: string): Promise<void> {
+    await this.prismaAuth.$transaction([
+      this.prismaAuth.twoFactorAuth.deleteMany({ where: { userId } }),
+      this.prismaAuth.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+  }
+
+  async createChallenge(challenge: TwoFactorChallenge) {
+    const challengeToken = randomBytes(24).toString('hex');
+    await this.redis.set(`2fa_challenge:${challengeToken}`, challenge, this.challengeTtlSeconds);
+    return { challengeToken, expiresIn: this.challengeTtlSeconds };
+  }
+
+  /**
+   * Look up a login challenge without verifying or consuming it; null if it is unknown or
+   * expired
+   */
+  async getChallenge(challengeToken: string): Promise<TwoFactorChallenge | null> {
+    return this.redis.get<TwoFactorChallenge>(`2fa_challenge:${challengeToken}`);
+  }
+
+  /**
+   * Verify the code of a login challenge loaded with getChallenge(). The challenge is consumed
+   * on success and dropped after too many wrong codes.
+   */
+  async completeChallenge(
+    challengeToken: string,
+    challenge: TwoFactorChallenge,
+    code: string,
+  ): Promise<TwoFactorMethod | null> {
+    const key = `2fa_challenge:${challengeToken}`;
+    const attemptsKey = `2fa_challenge_attempts:${challengeToken}`;
+
+    const method = await this.verify(challenge.userId, code);
+    if (!method) {
+      const attempts = await this.redis.incr(attemptsKey);
+      await this.redis.expire(attemptsKey, this.challengeTtlSeconds);
+      if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+        this.logger.warn(`Two-factor challenge dropped after ${attempts} wrong codes`);
+        await Promise.all([this.redis.del(key), this.redis.del(attemptsKey)]);
+      }
+      return null;
+    }
+
+    await Promise.all([this.redis.del(key), this.redis.del(attemptsKey)]);
+    return method;
+  }
+
+  /** Returns the matching time step, or null */
+  private matchTotp(secret: string, code: string): number | null {
+    const normalized = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const key = this.fromBase32(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+    for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+      if (timingSafeEqual(Buffer.from(this.totp(key, step)), Buffer.from(normalized))) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  private totp(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const chars = Array.from(
+        { length: 8 },
+        () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)],
+      );
+      return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private encrypt(value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64url')).join('.');
+  }
+
+  private decrypt(value: string): string {
+    const [iv, tag, encrypted] = value.split('.').map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  private toBase32(buffer: Buffer): string {
+    let bits = '';
+    for (const byte of buffer) {
+      bits += byte.toString(2).padStart(8, '0');
+    }
+
+    let encoded = '';
+    for (let i = 0; i < bits.length; i += 5) {
+      encoded += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return encoded;
+  }
+
+  private fromBase32(value: string): Buffer {
+    let bits = '';
+    for (const char of value.replace(/=+$/, '').toUpperCase()) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index >= 0) {
+        bits += index.toString(2).padStart(5, '0');
+      }
+    }
+
+    const bytes: number[] = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+      bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+  }
+}
@@ -33,6 +33,8 @@ import {
   CreateCityDto,
   UpdateCityDto,
   ListCitiesResponseDto,
+  ListNearbyCitiesResponseDto,
+  NearbyCitiesQueryDto,
   GetCityResponseDto,
   CreateCityResponseDto,
   UpdateCityResponseDto,
@@ -85,34 +87,12 @@ export class CityController {
   @ApiOperation({
     summary: 'Find nearby cities',
     description:
-      'Find cities within a specified radius (in kilometers) from given coordinates using the Haversine formula.',
-  })
-  @ApiQuery({
-    name: 'lat',
-    required: true,
-    description: 'Latitude coordinate (decimal degrees)',
-    example: 54.3233,
-    type: Number,
-  })
-  @ApiQuery({
-    name: 'lng',
-    required: true,
-    description: 'Longitude coordinate (decimal degrees)',
-    example: 10.1394,
-    type: Number,
-  })
-  @ApiQuery({
-    name: 'radius',
-    required: false,
-    description: 'Search radius in kilometers',
-    example: 50,
-    type: Number,
-    default: 50,
+      'Find active cities within a radius (in kilometers) from given coordinates, nearest first, with the distance of each city. Supports pagination, restricting to top-level cities and embedding child cities.',
   })
   @ApiResponse({
     status: 200,
     description: 'Nearby cities retrieved successfully',
-    type: ListCitiesResponseDto,
+    type: ListNearbyCitiesResponseDto,
   })
   @ApiResponse({
     status: 400,
@@ -120,12 +100,8 @@ export class CityController {
     type: ValidationErrorResponseDto,
   })
   @HttpCode(HttpStatus.OK)
-  async findNearby(
-    @Query('lat') lat: number,
-    @Query('lng') lng: number,
-    @Query('radius') radius: number = 50,
-  ) {
-    return this.cityService.findNearby(+lat, +lng, +radius);
+  async findNearby(@Query() query: NearbyCitiesQueryDto) {
+    return this.cityService.findNearby(query);
   }
 
   @Get(':id')
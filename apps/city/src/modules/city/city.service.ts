@@ -1,7 +1,12 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaCityService } from '@heidi/prisma';
 import { LoggerService } from '@heidi/logger';
-import { CreateCityDto, UpdateCityDto } from '@heidi/contracts';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
+import { CreateCityDto, NearbyCitiesQueryDto, UpdateCityDto } from '@heidi/contracts';
+import { City, Prisma } from '@prisma/client-city';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
 
 @Injectable()
 export class CityService {
@@ -9,6 +14,7 @@ export class CityService {
 
   constructor(
     private readonly prisma: PrismaCityService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
     logger: LoggerService,
   ) {
     this.logger = logger;
@@ -45,6 +51,13 @@ export class CityService {
     await this.findOne(id);
     const city = await this.prisma.city.update({ where: { id }, data: dto });
     this.logger.log(`City updated: ${id}`);
+
+    this.client.emit(RabbitMQPatterns.CITY_UPDATED, {
+      cityId: id,
+      city,
+      timestamp: new Date().toISOString(),
+    });
+
     return city;
   }
 
@@ -55,21 +68,92 @@ export class CityService {
     return { message: 'City deleted successfully' };
   }
 
-  async findNearby(lat: number, lng: number, radiusKm: number) {
-    // Simple distance calculation (Haversine formula can be implemented)
+  /**
+   * Active cities within the radius, nearest first. Candidates come from the
+   * GiST index on `location` (a bounding box around the radius) before the
+   * exact distance is computed.
+   */
+  async findNearby(query: NearbyCitiesQueryDto) {
+    const { lat, lng } = query;
+    const radiusKm = query.radius ?? 50;
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    const lngDelta =
+      radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(this.deg2rad(lat)), 0.01));
+    const distance = Prisma.sql`(${EARTH_RADIUS_KM} * 2 * asin(sqrt(least(1,
+      power(sin(radians("latitude" - ${lat}::double precision) / 2), 2)
+      + cos(radians(${lat}::double precision)) * cos(radians("latitude"))
+      * power(sin(radians("longitude" - ${lng}::double precision) / 2), 2)
+    ))))`;
+
+    const conditions = [
+      Prisma.sql`"isActive" = true`,
+      Prisma.sql`"location" <@ box(
+        point(${lng - lngDelta}::double precision, ${lat - latDelta}::double precision),
+        point(${lng + lngDelta}::double precision, ${lat + latDelta}::double precision)
+      )`,
+      Prisma.sql`${distance} <= ${radiusKm}::double precision`,
+    ];
+    if (query.topLevelOnly) {
+      conditions.push(Prisma.sql`"parentCityId" IS NULL`);
+    }
+    const where = Prisma.join(conditions, ' AND ');
+
+    const [matches, [{ total }]] = await Promise.all([
+      this.prisma.$queryRaw<{ id: string; distanceKm: number }[]>`
+        SELECT "id", ${distance} AS "distanceKm"
+        FROM "cities"
+        WHERE ${where}
+        ORDER BY "distanceKm" ASC, "name" ASC
+        LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+      `,
+      this.prisma.$queryRaw<{ total: number }[]>`
+        SELECT COUNT(*)::int AS "total" FROM "cities" WHERE ${where}
+      `,
+    ]);
+
+    const ids = matches.map((match) => match.id);
     const cities = await this.prisma.city.findMany({
-      where: { isActive: true },
+      where: { id: { in: ids } },
+      include: query.includeChildren
+        ? { childCities: { where: { isActive: true }, orderBy: { name: 'asc' } } }
+        : undefined,
     });
+    const citiesById = new Map(cities.map((city) => [city.id, city]));
 
-    const nearbyCities = cities.filter((city) => {
-      const distance = this.calculateDistance(lat, lng, city.latitude, city.longitude);
-      return distance <= radiusKm;
+    const items = matches.flatMap((match) => {
+      const city = citiesById.get(match.id);
+      if (!city) {
+        return [];
+      }
+      const { childCities, ...rest } = city as typeof city & { childCities?: City[] };
+      return [
+        {
+          ...rest,
+          distanceKm: Number(match.distanceKm),
+          childCities: childCities?.map((child) => ({
+            ...child,
+            distanceKm: this.calculateDistance(lat, lng, child.latitude, child.longitude),
+          })),
+        },
+      ];
     });
-    return { items: nearbyCities };
+
+    return {
+      items,
+      meta: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      },
+    };
   }
 
   private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371; // Earth radius in km
+    const R = EARTH_RADIUS_KM;
     const dLat = this.deg2rad(lat2 - lat1);
     const dLon = this.deg2rad(lon2 - lon1);
     const a =
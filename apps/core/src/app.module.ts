@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { APP_INTERCEPTOR, APP_GUARD } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule, ConfigService } from '@heidi/config';
 import { PrismaCoreModule } from '@heidi/prisma';
 import { LoggerModule } from '@heidi/logger';
@@ -17,6 +18,9 @@ import { CoreModule } from './modules/core/core.module';
 import { ListingsModule } from './modules/listings/listings.module';
 import { CategoriesModule } from './modules/categories/categories.module';
 import { TilesModule } from './modules/tiles/tiles.module';
+import { ModerationModule } from './modules/moderation/moderation.module';
+import { ContentLifecycleModule } from './modules/lifecycle/content-lifecycle.module';
+import { EngagementModule } from './modules/engagement/engagement.module';
 import { HealthController } from './health.controller';
 import { JwtModule } from '@heidi/jwt';
 import { RBACModule } from '@heidi/rbac';
@@ -36,6 +40,7 @@ import { TenancyModule } from '@heidi/tenancy';
       useFactory: () => ({ serviceName: 'core' }),
     }),
     RedisModule,
+    ScheduleModule.forRoot(),
     MetricsModule,
     I18nModule,
     JwtModule.register(),
@@ -46,6 +51,9 @@ import { TenancyModule } from '@heidi/tenancy';
     ListingsModule,
     CategoriesModule,
     TilesModule,
+    ModerationModule,
+    ContentLifecycleModule,
+    EngagementModule,
   ],
   controllers: [HealthController],
   providers: [
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LoggerModule } from '@heidi/logger';
+import { ContentCacheService } from './content-cache.service';
+
+@Module({
+  imports: [LoggerModule],
+  providers: [ContentCacheService],
+  exports: [ContentCacheService],
+})
+export class ContentCacheModule {}
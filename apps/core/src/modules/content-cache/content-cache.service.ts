@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+
+export type ContentCacheScope = 'listings' | 'tiles';
+
+/**
+ * Short-lived cache of public listing and tile lists. Every scope has a
+ * version counter that is part of the keys, so invalidating a scope is a
+ * single increment; entries of older versions simply expire. Lists that depend
+ * on the current time must carry a time bucket in their params, as writes are
+ * the only invalidation.
+ */
+@Injectable()
+export class ContentCacheService {
+  private readonly ttlSeconds: number;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ContentCacheService.name);
+    this.ttlSeconds = this.configService.get<number>('core.listCacheTtlSeconds', 60);
+  }
+
+  async wrap<T>(scope: ContentCacheScope, params: unknown, load: () => Promise<T>): Promise<T> {
+    if (this.ttlSeconds <= 0) {
+      return load();
+    }
+
+    const version = (await this.redis.get<number>(this.versionKey(scope))) ?? 0;
+    const hash = createHash('sha1')
+      .update(JSON.stringify(params ?? {}))
+      .digest('hex');
+    const key = `core:cache:${scope}:${version}:${hash}`;
+
+    const cached = await this.redis.get<T>(key);
+    if (cached) {
+      return cached;
+    }
+
+    const value = await load();
+    await this.redis.set(key, value, this.ttlSeconds);
+    return value;
+  }
+
+  async invalidate(...scopes: ContentCacheScope[]): Promise<void> {
+    try {
+      for (const scope of scopes) {
+        await this.redis.incr(this.versionKey(scope));
+      }
+      this.logger.debug(`Invalidated cached ${scopes.join(', ')} lists`);
+    } catch (error) {
+      // Writes must not fail because of the cache; stale lists expire with their TTL
+      this.logger.error(`Failed to invalidate cached ${scopes.join(', ')} lists`, error);
+    }
+  }
+
+  private versionKey(scope: ContentCacheScope) {
+    return `core:cache:${scope}:version`;
+  }
+}
@@ -3,6 +3,7 @@ import { MessagePattern, Payload } from '@nestjs/microservices';
 import { CoreService } from './core.service';
 import { RabbitMQPatterns } from '@heidi/rabbitmq';
 import { LoggerService } from '@heidi/logger';
+import { ListingReconcileRequest } from '@heidi/contracts';
 
 @Controller()
 export class CoreMessageController {
@@ -124,14 +125,23 @@ export class CoreMessageController {
 
   @MessagePattern(RabbitMQPatterns.INTEGRATION_SYNC_LISTING)
   async syncListingFromIntegration(
-    @Payload() data: { integrationId: string; listingData: any; timestamp: string },
+    @Payload()
+    data: {
+      integrationId: string;
+      runId?: string;
+      listingData: any;
+      timestamp: string;
+    },
   ) {
     this.logger.log(
       `Received message: ${RabbitMQPatterns.INTEGRATION_SYNC_LISTING} for integrationId: ${data.integrationId}, externalId: ${data.listingData?.externalId}`,
     );
 
     try {
-      const result = await this.coreService.syncListingFromIntegration(data.listingData);
+      const result = await this.coreService.syncListingFromIntegration(
+        data.listingData,
+        data.runId,
+      );
       this.logger.debug(
         `Successfully processed message: ${RabbitMQPatterns.INTEGRATION_SYNC_LISTING} for externalId: ${data.listingData?.externalId} (will ACK)`,
       );
@@ -145,6 +155,27 @@ export class CoreMessageController {
     }
   }
 
+  @MessagePattern(RabbitMQPatterns.INTEGRATION_RECONCILE_LISTINGS)
+  async reconcileIntegrationListings(@Payload() data: ListingReconcileRequest) {
+    this.logger.log(
+      `Received message: ${RabbitMQPatterns.INTEGRATION_RECONCILE_LISTINGS} for integrationId: ${data.integrationId}, runId: ${data.runId}`,
+    );
+
+    try {
+      const result = await this.coreService.reconcileIntegrationListings(data);
+      this.logger.debug(
+        `Successfully processed message: ${RabbitMQPatterns.INTEGRATION_RECONCILE_LISTINGS} for runId: ${data.runId} (will ACK)`,
+      );
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error processing message: ${RabbitMQPatterns.INTEGRATION_RECONCILE_LISTINGS} for runId: ${data.runId} (will NACK)`,
+        error,
+      );
+      throw error; // Throwing error causes NestJS to NACK the message
+    }
+  }
+
   @MessagePattern(RabbitMQPatterns.PARKING_SPACE_SYNC)
   async handleParkingSpaceSync(
     @Payload() data: { integrationId: string; cityId: string; parkingData: any; timestamp: string },
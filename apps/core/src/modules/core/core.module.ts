@@ -3,10 +3,19 @@ import { CoreController } from './core.controller';
 import { CoreMessageController } from './core-message.controller';
 import { CoreService } from './core.service';
 import { LoggerModule } from '@heidi/logger';
-import { PrismaCoreModule } from '@heidi/prisma';
+import { PrismaCoreModule, PrismaCoreService } from '@heidi/prisma';
+import { SagaModule } from '@heidi/saga';
+import { ListingsModule } from '../listings/listings.module';
+import { ContentCacheModule } from '../content-cache/content-cache.module';
 
 @Module({
-  imports: [LoggerModule, PrismaCoreModule], // For message controller logging
+  imports: [
+    LoggerModule, // For message controller logging
+    PrismaCoreModule,
+    SagaModule.forRoot({ prismaService: PrismaCoreService }), // Saga orchestrator (sagas in own database)
+    ListingsModule, // Listing revisions of integration syncs
+    ContentCacheModule, // Synced listings invalidate cached listing lists
+  ],
   controllers: [CoreController, CoreMessageController],
   providers: [CoreService],
 })
@@ -8,13 +8,33 @@ import {
   ListingStatus,
   ListingModerationStatus,
   ListingSourceType,
-  ListingRecurrenceFreq,
+  ListingRevisionAction,
   CategoryType,
   Prisma,
 } from '@prisma/client-core';
-import { CoreOperationRequestDto, CoreOperationResponseDto } from '@heidi/contracts';
+import {
+  CoreOperationRequestDto,
+  CoreOperationResponseDto,
+  IntegrationListingData,
+  ListingReconcileRequest,
+  ListingReconcileResult,
+} from '@heidi/contracts';
 import { roleToNumber } from '@heidi/rbac';
 import { firstValueFrom } from 'rxjs';
+import { SagaOrchestratorService } from '@heidi/saga';
+import { ConfigService } from '@heidi/config';
+import { ListingRevisionsService } from '../listings/listing-revisions.service';
+import { ContentCacheService } from '../content-cache/content-cache.service';
+
+/** archivedBy marker for listings archived because their source dropped them */
+const SYNC_ARCHIVED_BY = 'integration';
+
+/** Service listing revisions of integration syncs are attributed to */
+const SYNC_SERVICE = 'integration';
+
+/** Saga actions of assignCityAdmin that run in-process (registered as local actions) */
+const UPSERT_CITY_ASSIGNMENT_ACTION = 'core.upsertCityAssignment';
+const RESTORE_CITY_ASSIGNMENT_ACTION = 'core.restoreCityAssignment';
 
 @Injectable()
 export class CoreService implements OnModuleInit {
@@ -22,12 +42,29 @@ export class CoreService implements OnModuleInit {
     @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
     private readonly redis: RedisService,
     private readonly prisma: PrismaCoreService,
+    private readonly sagaOrchestrator: SagaOrchestratorService,
+    private readonly configService: ConfigService,
+    private readonly listingRevisionsService: ListingRevisionsService,
+    private readonly contentCache: ContentCacheService,
     private readonly logger: LoggerService,
   ) {
     this.logger.setContext(CoreService.name);
   }
 
   async onModuleInit() {
+    this.sagaOrchestrator.registerLocalAction(UPSERT_CITY_ASSIGNMENT_ACTION, (data) =>
+      this.upsertCityAssignment(
+        data.userId,
+        data.cityId,
+        data.role,
+        data.canManageAdmins,
+        data.assignedBy,
+      ),
+    );
+    this.sagaOrchestrator.registerLocalAction(RESTORE_CITY_ASSIGNMENT_ACTION, (data) =>
+      this.restoreCityAssignment(data.userId, data.cityId, data.previous),
+    );
+
     this.logger.log('Core service initialized - listening to events');
   }
 
@@ -169,8 +206,76 @@ export class CoreService implements OnModuleInit {
       normalizedRole = role.toUpperCase() as UserRole;
     }
 
-    // Create or update the city assignment
-    const assignment = await this.prisma.userCityAssignment.upsert({
+    // Snapshot the current assignment so the saga can restore it on failure
+    const previous = await this.prisma.userCityAssignment.findUnique({
+      where: { userId_cityId: { userId, cityId } },
+      select: { role: true, canManageAdmins: true, isActive: true, assignedBy: true },
+    });
+
+    // Upsert the assignment and update the user's role in the users table as one saga,
+    // so a failed role update no longer leaves the assignment half-applied
+    const saga = await this.sagaOrchestrator.execute(
+      'ASSIGN_CITY_ADMIN',
+      [
+        {
+          stepId: 'UPSERT_ASSIGNMENT',
+          service: 'core',
+          action: UPSERT_CITY_ASSIGNMENT_ACTION,
+          payload: {
+            userId,
+            cityId,
+            role: normalizedRole,
+            canManageAdmins: canManageAdmins ?? true,
+            assignedBy,
+          },
+          timeoutMs: 5000,
+          maxRetries: 1,
+          compensation: {
+            action: RESTORE_CITY_ASSIGNMENT_ACTION,
+            payload: { userId, cityId, previous },
+          },
+        },
+        {
+          // Always update user's role in the users table to match the assignment
+          // This ensures the role is updated even when changing back to CITIZEN
+          stepId: 'UPDATE_USER_ROLE',
+          service: 'users',
+          action: RabbitMQPatterns.USER_UPDATE_ROLE,
+          payload: { userId, role: normalizedRole, updatedBy: assignedBy },
+          timeoutMs: 5000,
+          maxRetries: 1,
+          compensation: {
+            action: RabbitMQPatterns.USER_UPDATE_ROLE,
+            payload: { userId, role: '{{result.previousRole}}', updatedBy: assignedBy },
+          },
+        },
+      ],
+      { userId, cityId, assignedBy },
+    );
+
+    const assignment = saga.steps[0].result;
+    this.logger.log(`City admin assigned via saga ${saga.sagaId}: userId=${userId}`);
+
+    return {
+      success: true,
+      assignment: {
+        ...assignment,
+        role: roleToNumber(assignment.role), // Convert enum string to number
+      },
+    };
+  }
+
+  /**
+   * Create or update a user city assignment (saga step of assignCityAdmin)
+   */
+  async upsertCityAssignment(
+    userId: string,
+    cityId: string,
+    role: UserRole,
+    canManageAdmins: boolean,
+    assignedBy: string,
+  ) {
+    return this.prisma.userCityAssignment.upsert({
       where: {
         userId_cityId: {
           userId,
@@ -178,16 +283,16 @@ export class CoreService implements OnModuleInit {
         },
       },
       update: {
-        role: normalizedRole,
-        canManageAdmins: canManageAdmins ?? true,
+        role,
+        canManageAdmins,
         isActive: true,
         assignedBy,
       },
       create: {
         userId,
         cityId,
-        role: normalizedRole,
-        canManageAdmins: canManageAdmins ?? true,
+        role,
+        canManageAdmins,
         assignedBy,
       },
       select: {
@@ -200,69 +305,42 @@ export class CoreService implements OnModuleInit {
         createdAt: true,
       },
     });
+  }
 
-    // Always update user's role in the users table to match the assignment
-    // This ensures the role is updated even when changing back to CITIZEN
-    try {
-      this.logger.log(
-        `Updating user role in users table: userId=${userId}, role=${normalizedRole}`,
-      );
-
-      // Emit event to users service to update the role
-      await firstValueFrom(
-        this.client.send(RabbitMQPatterns.USER_UPDATE_ROLE, {
-          userId,
-          role: normalizedRole,
-          updatedBy: assignedBy,
-        }),
-      );
+  /**
+   * Restore a user city assignment to a previous snapshot (saga compensation).
+   * Removes the assignment if it did not exist before.
+   */
+  async restoreCityAssignment(
+    userId: string,
+    cityId: string,
+    previous: {
+      role: UserRole;
+      canManageAdmins: boolean;
+      isActive: boolean;
+      assignedBy: string | null;
+    } | null,
+  ) {
+    this.logger.log(`Restoring city assignment: userId=${userId}, cityId=${cityId}`);
 
-      this.logger.log(`User role updated successfully in users table: userId=${userId}`);
-    } catch (error) {
-      this.logger.error(`Failed to update user role in users table: userId=${userId}`, error);
-      // Don't fail the assignment if role update fails
-      // The assignment is still created, just log the error
+    if (!previous) {
+      await this.prisma.userCityAssignment.deleteMany({ where: { userId, cityId } });
+      return { success: true, removed: true };
     }
 
-    return {
-      success: true,
-      assignment: {
-        ...assignment,
-        role: roleToNumber(assignment.role), // Convert enum string to number
-      },
-    };
+    await this.prisma.userCityAssignment.update({
+      where: { userId_cityId: { userId, cityId } },
+      data: previous,
+    });
+    return { success: true, removed: false };
   }
 
-  async syncListingFromIntegration(listingData: {
-    title: string;
-    summary?: string;
-    content: string;
-    slug: string;
-    externalSource: string;
-    externalId: string;
-    syncHash: string;
-    sourceType: 'API_IMPORT';
-    primaryCityId: string;
-    venueName?: string;
-    address?: string;
-    geoLat?: number;
-    geoLng?: number;
-    timezone?: string;
-    contactPhone?: string;
-    contactEmail?: string;
-    website?: string;
-    heroImageUrl?: string;
-    categorySlugs: string[];
-    timeIntervals?: Array<{
-      weekdays: string[];
-      start: string;
-      end: string;
-      tz: string;
-      freq: ListingRecurrenceFreq;
-      interval: number;
-    }>;
-  }): Promise<{ action: string; listingId: string }> {
+  async syncListingFromIntegration(
+    listingData: IntegrationListingData,
+    runId?: string,
+  ): Promise<{ action: string; listingId: string }> {
     this.logger.log(`Syncing listing from integration: ${listingData.externalId}`);
+    const now = new Date();
 
     // Resolve category IDs from slugs
     const categoryIds: string[] = [];
@@ -288,9 +366,14 @@ export class CoreService implements OnModuleInit {
     });
 
     if (existing) {
+      // The source lists the item again after it was archived as removed
+      const restore = existing.isArchived && existing.archivedBy === SYNC_ARCHIVED_BY;
+
       // Update if syncHash changed
-      if (existing.syncHash !== listingData.syncHash) {
-        this.logger.log(`Updating existing listing ${existing.id} (syncHash changed)`);
+      if (existing.syncHash !== listingData.syncHash || restore) {
+        this.logger.log(
+          `Updating existing listing ${existing.id} (${restore ? 'restored by source' : 'syncHash changed'})`,
+        );
 
         // Update categories
         if (categoryIds.length > 0) {
@@ -326,6 +409,7 @@ export class CoreService implements OnModuleInit {
                 tz: ti.tz,
                 freq: ti.freq,
                 interval: ti.interval,
+                repeatUntil: ti.repeatUntil ? new Date(ti.repeatUntil) : undefined,
               })),
             });
           }
@@ -339,7 +423,18 @@ export class CoreService implements OnModuleInit {
             summary: listingData.summary,
             content: listingData.content,
             syncHash: listingData.syncHash,
-            lastSyncedAt: new Date(),
+            lastSyncedAt: now,
+            lastSeenAt: now,
+            lastSyncRunId: runId,
+            ...(restore
+              ? {
+                  status: ListingStatus.APPROVED,
+                  moderationStatus: ListingModerationStatus.APPROVED,
+                  isArchived: false,
+                  archivedAt: null,
+                  archivedBy: null,
+                }
+              : {}),
             venueName: listingData.venueName,
             address: listingData.address,
             geoLat: listingData.geoLat ? new Prisma.Decimal(listingData.geoLat) : undefined,
@@ -349,13 +444,30 @@ export class CoreService implements OnModuleInit {
             contactEmail: listingData.contactEmail,
             website: listingData.website,
             heroImageUrl: listingData.heroImageUrl,
+            sourceUrl: listingData.sourceUrl,
+            languageCode: listingData.languageCode,
+            eventStart: listingData.eventStart ? new Date(listingData.eventStart) : undefined,
+            eventEnd: listingData.eventEnd ? new Date(listingData.eventEnd) : undefined,
+            isAllDay: listingData.isAllDay,
           },
         });
 
+        await this.listingRevisionsService.record(
+          this.prisma,
+          existing.id,
+          ListingRevisionAction.SYNC,
+          { service: SYNC_SERVICE, note: restore ? 'Listed again by source' : null },
+        );
+
+        await this.contentCache.invalidate('listings');
         return { action: 'updated', listingId: existing.id };
       }
 
       this.logger.log(`Skipping listing ${existing.id} (syncHash unchanged)`);
+      await this.prisma.listing.update({
+        where: { id: existing.id },
+        data: { lastSeenAt: now, lastSyncRunId: runId },
+      });
       return { action: 'skipped', listingId: existing.id };
     }
 
@@ -374,8 +486,10 @@ export class CoreService implements OnModuleInit {
         externalSource: listingData.externalSource,
         externalId: listingData.externalId,
         syncHash: listingData.syncHash,
-        lastSyncedAt: new Date(),
-        ingestedAt: new Date(),
+        lastSyncedAt: now,
+        lastSeenAt: now,
+        lastSyncRunId: runId,
+        ingestedAt: now,
         ingestedByService: 'integration',
         primaryCityId: listingData.primaryCityId,
         venueName: listingData.venueName,
@@ -387,6 +501,11 @@ export class CoreService implements OnModuleInit {
         contactEmail: listingData.contactEmail,
         website: listingData.website,
         heroImageUrl: listingData.heroImageUrl,
+        sourceUrl: listingData.sourceUrl,
+        languageCode: listingData.languageCode,
+        eventStart: listingData.eventStart ? new Date(listingData.eventStart) : undefined,
+        eventEnd: listingData.eventEnd ? new Date(listingData.eventEnd) : undefined,
+        isAllDay: listingData.isAllDay ?? false,
         categories:
           categoryIds.length > 0
             ? {
@@ -415,15 +534,105 @@ export class CoreService implements OnModuleInit {
                   tz: ti.tz,
                   freq: ti.freq,
                   interval: ti.interval,
+                  repeatUntil: ti.repeatUntil ? new Date(ti.repeatUntil) : undefined,
                 })),
               }
             : undefined,
       },
     });
 
+    await this.listingRevisionsService.record(this.prisma, listing.id, ListingRevisionAction.SYNC, {
+      service: SYNC_SERVICE,
+    });
+
+    await this.contentCache.invalidate('listings');
     return { action: 'created', listingId: listing.id };
   }
 
+  /**
+   * Archive listings of a source and city that a complete sync run no longer
+   * returned. Listings are only archived once they have been missing for the
+   * grace period, and the run is aborted when it would archive a suspicious
+   * share of the source (e.g. after the provider returned an empty feed).
+   */
+  async reconcileIntegrationListings(
+    request: ListingReconcileRequest,
+  ): Promise<ListingReconcileResult> {
+    const { runId, externalSource, cityId } = request;
+    const graceHours = this.configService.get<number>('core.listingSync.archiveGraceHours', 48);
+    const maxArchiveRatio = this.configService.get<number>('core.listingSync.maxArchiveRatio', 0.2);
+    const safetyMinCount = this.configService.get<number>(
+      'core.listingSync.archiveSafetyMinCount',
+      5,
+    );
+
+    const active = await this.prisma.listing.findMany({
+      where: {
+        externalSource,
+        primaryCityId: cityId,
+        sourceType: ListingSourceType.API_IMPORT,
+        isArchived: false,
+      },
+      select: { id: true, externalId: true, lastSeenAt: true, lastSyncedAt: true, createdAt: true },
+    });
+
+    const seen = new Set(request.seenExternalIds);
+    const cutoff = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+    const unseen = active.filter((listing) => !listing.externalId || !seen.has(listing.externalId));
+    const expired = unseen.filter(
+      (listing) => (listing.lastSeenAt ?? listing.lastSyncedAt ?? listing.createdAt) < cutoff,
+    );
+
+    const result: ListingReconcileResult = {
+      runId,
+      status: 'COMPLETED',
+      unseen: unseen.length,
+      withinGracePeriod: unseen.length - expired.length,
+      archived: 0,
+    };
+
+    if (expired.length > safetyMinCount && expired.length > active.length * maxArchiveRatio) {
+      this.logger.warn(
+        `Aborting reconciliation of ${externalSource} in city ${cityId} (run ${runId}): ${expired.length} of ${active.length} listings would be archived`,
+      );
+      return {
+        ...result,
+        status: 'ABORTED',
+        reason: `Safety threshold exceeded: ${expired.length} of ${active.length} listings would be archived`,
+      };
+    }
+
+    if (expired.length > 0) {
+      const { count } = await this.prisma.listing.updateMany({
+        where: { id: { in: expired.map((listing) => listing.id) }, isArchived: false },
+        data: {
+          status: ListingStatus.DELETED,
+          moderationStatus: ListingModerationStatus.ARCHIVED,
+          isArchived: true,
+          archivedAt: new Date(),
+          archivedBy: SYNC_ARCHIVED_BY,
+        },
+      });
+      result.archived = count;
+      await this.contentCache.invalidate('listings');
+
+      for (const listing of expired) {
+        await this.listingRevisionsService.record(
+          this.prisma,
+          listing.id,
+          ListingRevisionAction.SYNC,
+          { service: SYNC_SERVICE, note: `Missing from source since run ${runId}` },
+        );
+      }
+    }
+
+    this.logger.log(
+      `Reconciled ${externalSource} in city ${cityId} (run ${runId}): ${result.unseen} unseen, ${result.archived} archived, ${result.withinGracePeriod} within grace period`,
+    );
+
+    return result;
+  }
+
   /**
    * Maps Destination One item types to root category slugs and CategoryType
    * Must match the mapping in destination-one.service.ts
@@ -730,6 +939,18 @@ export class CoreService implements OnModuleInit {
 
       // Invalidate cache for this city
       await this.redis.del(`parking:spaces:${data.cityId}`);
+
+      this.client.emit(RabbitMQPatterns.PARKING_UPDATED, {
+        integrationId: data.integrationId,
+        cityId: data.cityId,
+        parkingSiteId,
+        name: parking.name || null,
+        status,
+        totalSpotNumber: totalSpotNumber > 0 ? totalSpotNumber : null,
+        availableSpotNumber,
+        occupancy,
+        timestamp: new Date().toISOString(),
+      });
     } catch (error: any) {
       this.logger.error(`Failed to sync parking space ${parkingSiteId}: ${error?.message}`, error);
       throw error;
@@ -0,0 +1,136 @@
+import { Controller, ForbiddenException, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  CityEngagementAnalyticsDto,
+  CityEngagementAnalyticsQueryDto,
+  EngagementAnalyticsQueryDto,
+  ForbiddenErrorResponseDto,
+  ListingEngagementAnalyticsDto,
+  ListingNotFoundErrorResponseDto,
+  UnauthorizedErrorResponseDto,
+  ValidationErrorResponseDto,
+} from '@heidi/contracts';
+import { CurrentUser, GetCurrentUser, JwtAuthGuard } from '@heidi/jwt';
+import { numberToRole } from '@heidi/rbac';
+import { UserRole } from '@prisma/client-core';
+import { EngagementAnalyticsService } from './engagement-analytics.service';
+
+@ApiTags('analytics')
+@Controller('analytics')
+@UseGuards(JwtAuthGuard)
+export class AnalyticsController {
+  constructor(private readonly analyticsService: EngagementAnalyticsService) {}
+
+  private getRoles(role?: string | number): UserRole[] {
+    if (!role) {
+      return [];
+    }
+
+    if (typeof role === 'number') {
+      const roleEnum = numberToRole(role);
+      return roleEnum ? [roleEnum] : [];
+    }
+
+    const normalized = role.toUpperCase() as keyof typeof UserRole;
+    const mapped = UserRole[normalized];
+
+    return mapped ? [mapped] : [];
+  }
+
+  private ensureAdminRole(role?: string): UserRole[] {
+    const roles = this.getRoles(role);
+
+    if (!roles.some((r) => r === UserRole.SUPER_ADMIN || r === UserRole.CITY_ADMIN)) {
+      throw new ForbiddenException('Admin privileges required');
+    }
+
+    return roles;
+  }
+
+  @Get('listings/:listingId')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get engagement of a listing',
+    description:
+      'Daily views, likes, shares and favorites added or removed in the period, with totals. Requires Super Admin or City Admin role for a city of the listing.',
+  })
+  @ApiParam({
+    name: 'listingId',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Listing engagement retrieved successfully',
+    type: ListingEngagementAnalyticsDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid period',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges or city assignment required',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  async getListingAnalytics(
+    @Param('listingId') listingId: string,
+    @GetCurrentUser() user: CurrentUser,
+    @Query() query: EngagementAnalyticsQueryDto,
+  ) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.analyticsService.getListingAnalytics(listingId, user.userId, roles, query);
+  }
+
+  @Get('cities/:cityId')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get engagement of a city',
+    description:
+      'Daily engagement of all listings of the city in the period, with totals and the best performing listings by the chosen metric. Requires Super Admin or City Admin role for the city.',
+  })
+  @ApiParam({
+    name: 'cityId',
+    description: 'City identifier',
+    example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'City engagement retrieved successfully',
+    type: CityEngagementAnalyticsDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid period',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges or city assignment required',
+    type: ForbiddenErrorResponseDto,
+  })
+  async getCityAnalytics(
+    @Param('cityId') cityId: string,
+    @GetCurrentUser() user: CurrentUser,
+    @Query() query: CityEngagementAnalyticsQueryDto,
+  ) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.analyticsService.getCityAnalytics(cityId, user.userId, roles, query);
+  }
+}
@@ -0,0 +1,214 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { UserContextService } from '@heidi/rbac';
+import {
+  CityEngagementAnalyticsDto,
+  CityEngagementAnalyticsQueryDto,
+  EngagementAnalyticsQueryDto,
+  EngagementDayDto,
+  EngagementMetric,
+  EngagementMetricsDto,
+  ListingEngagementAnalyticsDto,
+} from '@heidi/contracts';
+import { Prisma, UserRole } from '@prisma/client-core';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+const DEFAULT_TOP_LIMIT = 10;
+
+const METRICS = Object.values(EngagementMetric);
+
+/** Cities the admin may see; null means all cities */
+type AnalyticsScope = string[] | null;
+
+type MetricSums = Partial<Record<EngagementMetric, number | null>>;
+
+/**
+ * Daily engagement of listings for city admins. Counts still buffered in
+ * Redis show up after the next flush.
+ */
+@Injectable()
+export class EngagementAnalyticsService {
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly userContext: UserContextService,
+  ) {}
+
+  async getListingAnalytics(
+    listingId: string,
+    userId: string,
+    roles: UserRole[],
+    query: EngagementAnalyticsQueryDto,
+  ): Promise<ListingEngagementAnalyticsDto> {
+    const { from, to } = this.getPeriod(query);
+    const scope = await this.getScope(userId, roles);
+
+    const listing = await this.prisma.listing.findFirst({
+      where: {
+        id: listingId,
+        ...(scope ? { cities: { some: { cityId: { in: scope } } } } : {}),
+      },
+      select: { id: true, title: true },
+    });
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    const rows = await this.prisma.listingEngagementDaily.findMany({
+      where: { listingId, date: { gte: from, lte: to } },
+      orderBy: { date: 'asc' },
+    });
+
+    const series = this.toSeries(from, to, rows);
+    return {
+      listingId: listing.id,
+      title: listing.title,
+      from: this.formatDate(from),
+      to: this.formatDate(to),
+      totals: this.sumSeries(series),
+      series,
+    };
+  }
+
+  async getCityAnalytics(
+    cityId: string,
+    userId: string,
+    roles: UserRole[],
+    query: CityEngagementAnalyticsQueryDto,
+  ): Promise<CityEngagementAnalyticsDto> {
+    const { from, to } = this.getPeriod(query);
+    const scope = await this.getScope(userId, roles);
+    if (scope && !scope.includes(cityId)) {
+      throw new ForbiddenException('City is not managed by the current user');
+    }
+
+    const metric = query.metric ?? EngagementMetric.VIEWS;
+    const where: Prisma.ListingEngagementDailyWhereInput = {
+      date: { gte: from, lte: to },
+      listing: { cities: { some: { cityId } } },
+    };
+    const sum = Object.fromEntries(METRICS.map((m) => [m, true])) as Record<EngagementMetric, true>;
+
+    const [days, top] = await Promise.all([
+      this.prisma.listingEngagementDaily.groupBy({
+        by: ['date'],
+        where,
+        _sum: sum,
+        orderBy: { date: 'asc' },
+      }),
+      this.prisma.listingEngagementDaily.groupBy({
+        by: ['listingId'],
+        where,
+        _sum: sum,
+        orderBy: [{ _sum: { [metric]: 'desc' } }, { listingId: 'asc' }],
+        take: query.limit ?? DEFAULT_TOP_LIMIT,
+      }),
+    ]);
+
+    const listings = await this.prisma.listing.findMany({
+      where: { id: { in: top.map((row) => row.listingId) } },
+      select: { id: true, slug: true, title: true },
+    });
+    const listingsById = new Map(listings.map((listing) => [listing.id, listing]));
+
+    const series = this.toSeries(
+      from,
+      to,
+      days.map((day) => ({ date: day.date, ...this.toMetrics(day._sum) })),
+    );
+    return {
+      cityId,
+      from: this.formatDate(from),
+      to: this.formatDate(to),
+      totals: this.sumSeries(series),
+      series,
+      topListings: top.flatMap((row) => {
+        const listing = listingsById.get(row.listingId);
+        return listing
+          ? [
+              {
+                listingId: listing.id,
+                slug: listing.slug,
+                title: listing.title,
+                ...this.toMetrics(row._sum),
+              },
+            ]
+          : [];
+      }),
+    };
+  }
+
+  private async getScope(userId: string, roles: UserRole[]): Promise<AnalyticsScope> {
+    if (roles.includes(UserRole.SUPER_ADMIN)) {
+      return null;
+    }
+
+    const managedCities = await this.userContext.getUserManagedCities(userId);
+    if (managedCities.length === 0) {
+      throw new ForbiddenException('No cities assigned');
+    }
+    return managedCities;
+  }
+
+  /** Whole UTC days from `from` to `to`, both included */
+  private getPeriod(query: EngagementAnalyticsQueryDto): { from: Date; to: Date } {
+    const to = this.startOfDay(query.to ? new Date(query.to) : new Date());
+    const from = query.from
+      ? this.startOfDay(new Date(query.from))
+      : new Date(to.getTime() - (DEFAULT_DAYS - 1) * DAY_MS);
+
+    if (from > to) {
+      throw new BadRequestException('from must not be after to');
+    }
+    if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MAX_DAYS) {
+      throw new BadRequestException(`The period must not exceed ${MAX_DAYS} days`);
+    }
+    return { from, to };
+  }
+
+  private toSeries(
+    from: Date,
+    to: Date,
+    rows: (EngagementMetricsDto & { date: Date })[],
+  ): EngagementDayDto[] {
+    const byDate = new Map(rows.map((row) => [this.formatDate(row.date), row]));
+    const series: EngagementDayDto[] = [];
+
+    for (let day = from.getTime(); day <= to.getTime(); day += DAY_MS) {
+      const date = this.formatDate(new Date(day));
+      const row = byDate.get(date);
+      series.push({ date, ...this.toMetrics(row ?? {}) });
+    }
+    return series;
+  }
+
+  private sumSeries(series: EngagementDayDto[]): EngagementMetricsDto {
+    const totals = this.toMetrics({});
+    for (const day of series) {
+      for (const metric of METRICS) {
+        totals[metric] += day[metric];
+      }
+    }
+    return totals;
+  }
+
+  private toMetrics(values: MetricSums): EngagementMetricsDto {
+    return Object.fromEntries(
+      METRICS.map((metric) => [metric, values[metric] ?? 0]),
+    ) as unknown as EngagementMetricsDto;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
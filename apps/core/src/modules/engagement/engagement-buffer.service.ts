@@ -0,0 +1,168 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaCoreService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { LoggerService } from '@heidi/logger';
+import { EngagementMetric } from '@heidi/contracts';
+import { Prisma } from '@prisma/client-core';
+
+const BUFFER_KEY = 'core:engagement:buffer';
+const FLUSHING_KEY = 'core:engagement:flushing';
+const FLUSH_LOCK_KEY = 'core:engagement:flush-lock';
+const FLUSH_LOCK_TTL_SECONDS = 120;
+const FLUSH_BATCH_SIZE = 500;
+
+const METRICS = Object.values(EngagementMetric);
+
+interface EngagementCounts extends Record<EngagementMetric, number> {
+  listingId: string;
+  date: string;
+}
+
+/**
+ * Engagement counters are incremented in a Redis hash (one field per listing,
+ * day and metric) and written to Postgres in batches. A flush renames the hash
+ * first, so counts arriving meanwhile go to a fresh buffer; a batch that failed
+ * to write stays under the flushing key and is retried before new counts.
+ */
+@Injectable()
+export class EngagementBufferService {
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly redis: RedisService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(EngagementBufferService.name);
+  }
+
+  async increment(
+    counts: { listingId: string; metric: EngagementMetric }[],
+    at: Date = new Date(),
+  ): Promise<void> {
+    if (counts.length === 0) {
+      return;
+    }
+
+    const date = at.toISOString().slice(0, 10);
+    try {
+      const pipeline = this.redis.getClient().pipeline();
+      for (const { listingId, metric } of counts) {
+        pipeline.hincrby(BUFFER_KEY, `${listingId}|${date}|${metric}`, 1);
+      }
+      await pipeline.exec();
+    } catch (error) {
+      // Engagement is best effort and must not fail the request
+      this.logger.error(`Failed to buffer ${counts.length} engagement counts`, error);
+    }
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async flush(): Promise<number> {
+    if (!(await this.redis.acquireLock(FLUSH_LOCK_KEY, FLUSH_LOCK_TTL_SECONDS))) {
+      return 0;
+    }
+
+    try {
+      const client = this.redis.getClient();
+      if (!(await client.exists(FLUSHING_KEY))) {
+        if (!(await client.exists(BUFFER_KEY))) {
+          return 0;
+        }
+        await client.rename(BUFFER_KEY, FLUSHING_KEY);
+      }
+
+      const rows = this.aggregate(await client.hgetall(FLUSHING_KEY));
+      const batches: EngagementCounts[][] = [];
+      for (let i = 0; i < rows.length; i += FLUSH_BATCH_SIZE) {
+        batches.push(rows.slice(i, i + FLUSH_BATCH_SIZE));
+      }
+
+      // One transaction, so a retried batch is never counted twice
+      await this.prisma.$transaction(
+        batches.flatMap((batch) => [this.upsertDaily(batch), this.updateCounters(batch)]),
+      );
+      await client.del(FLUSHING_KEY);
+
+      this.logger.log(`Flushed engagement of ${rows.length} listing days`);
+      return rows.length;
+    } catch (error) {
+      this.logger.error('Failed to flush engagement counters', error);
+      return 0;
+    } finally {
+      await this.redis.releaseLock(FLUSH_LOCK_KEY);
+    }
+  }
+
+  private aggregate(buffered: Record<string, string>): EngagementCounts[] {
+    const rows = new Map<string, EngagementCounts>();
+
+    for (const [field, value] of Object.entries(buffered)) {
+      const [listingId, date, metric] = field.split('|');
+      const count = parseInt(value, 10);
+      if (!listingId || !date || !METRICS.includes(metric as EngagementMetric) || !count) {
+        continue;
+      }
+
+      const key = `${listingId}|${date}`;
+      const row =
+        rows.get(key) ??
+        ({
+          listingId,
+          date,
+          ...Object.fromEntries(METRICS.map((m) => [m, 0])),
+        } as EngagementCounts);
+      row[metric as EngagementMetric] += count;
+      rows.set(key, row);
+    }
+
+    return Array.from(rows.values());
+  }
+
+  /** Adds the counts to the daily rows; counts of deleted listings are dropped */
+  private upsertDaily(batch: EngagementCounts[]) {
+    return this.prisma.$executeRaw`
+      INSERT INTO "listing_engagement_daily"
+        ("listingId", "date", "views", "likes", "shares", "favoritesAdded", "favoritesRemoved", "updatedAt")
+      SELECT v."listingId", v."date"::date, v."views", v."likes", v."shares",
+        v."favoritesAdded", v."favoritesRemoved", now()
+      FROM ${this.unnest(batch)}
+      JOIN "listings" l ON l."id" = v."listingId"
+      ON CONFLICT ("listingId", "date") DO UPDATE SET
+        "views" = "listing_engagement_daily"."views" + EXCLUDED."views",
+        "likes" = "listing_engagement_daily"."likes" + EXCLUDED."likes",
+        "shares" = "listing_engagement_daily"."shares" + EXCLUDED."shares",
+        "favoritesAdded" = "listing_engagement_daily"."favoritesAdded" + EXCLUDED."favoritesAdded",
+        "favoritesRemoved" = "listing_engagement_daily"."favoritesRemoved" + EXCLUDED."favoritesRemoved",
+        "updatedAt" = now()
+    `;
+  }
+
+  /** Adds the counts to the lifetime counters shown on listings */
+  private updateCounters(batch: EngagementCounts[]) {
+    return this.prisma.$executeRaw`
+      UPDATE "listings" l SET
+        "viewCount" = l."viewCount" + t."views",
+        "likeCount" = l."likeCount" + t."likes",
+        "shareCount" = l."shareCount" + t."shares"
+      FROM (
+        SELECT v."listingId", sum(v."views")::int AS "views", sum(v."likes")::int AS "likes",
+          sum(v."shares")::int AS "shares"
+        FROM ${this.unnest(batch)}
+        GROUP BY v."listingId"
+      ) t
+      WHERE l."id" = t."listingId" AND (t."views" > 0 OR t."likes" > 0 OR t."shares" > 0)
+    `;
+  }
+
+  private unnest(batch: EngagementCounts[]): Prisma.Sql {
+    return Prisma.sql`unnest(
+      ${batch.map((row) => row.listingId)}::text[],
+      ${batch.map((row) => row.date)}::text[],
+      ${batch.map((row) => row.views)}::int[],
+      ${batch.map((row) => row.likes)}::int[],
+      ${batch.map((row) => row.shares)}::int[],
+      ${batch.map((row) => row.favoritesAdded)}::int[],
+      ${batch.map((row) => row.favoritesRemoved)}::int[]
+    ) AS v("listingId", "date", "views", "likes", "shares", "favoritesAdded", "favoritesRemoved")`;
+  }
+}
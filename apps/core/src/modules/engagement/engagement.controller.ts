@@ -0,0 +1,54 @@
+import { Body, Controller, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  EngagementType,
+  RecordEngagementDto,
+  RecordEngagementResultDto,
+  ValidationErrorResponseDto,
+} from '@heidi/contracts';
+import { GetCurrentUser, JwtAuthGuard, Public } from '@heidi/jwt';
+import { EngagementService } from './engagement.service';
+
+@ApiTags('engagement')
+@Controller('engagement')
+@UseGuards(JwtAuthGuard)
+export class EngagementController {
+  constructor(private readonly engagementService: EngagementService) {}
+
+  @Public()
+  @Post('events')
+  @ApiOperation({
+    summary: 'Record listing views, likes and shares',
+    description:
+      'Counts up to 50 events at once. An event counts once per user or device and listing within CORE_ENGAGEMENT_DEDUP_WINDOW_SECONDS; callers without a token pass their deviceId or guestId. Counters are updated in batches about once a minute.',
+  })
+  @ApiBody({
+    type: RecordEngagementDto,
+    examples: {
+      views: {
+        summary: 'Listings viewed on a device',
+        value: {
+          events: [
+            { listingId: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4', type: EngagementType.VIEW },
+            { listingId: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW5', type: EngagementType.SHARE },
+          ],
+          deviceId: 'device-123',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 202,
+    description: 'Events accepted',
+    type: RecordEngagementResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or caller not identified',
+    type: ValidationErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.ACCEPTED)
+  async recordEvents(@Body() dto: RecordEngagementDto, @GetCurrentUser('userId') userId?: string) {
+    return this.engagementService.record(dto, userId);
+  }
+}
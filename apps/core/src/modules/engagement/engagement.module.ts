@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { LoggerModule } from '@heidi/logger';
+import { PrismaCoreModule } from '@heidi/prisma';
+import { EngagementController } from './engagement.controller';
+import { AnalyticsController } from './analytics.controller';
+import { EngagementService } from './engagement.service';
+import { EngagementBufferService } from './engagement-buffer.service';
+import { EngagementAnalyticsService } from './engagement-analytics.service';
+
+@Module({
+  imports: [LoggerModule, PrismaCoreModule],
+  controllers: [EngagementController, AnalyticsController],
+  providers: [EngagementService, EngagementBufferService, EngagementAnalyticsService],
+  exports: [EngagementService],
+})
+export class EngagementModule {}
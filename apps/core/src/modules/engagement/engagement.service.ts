@@ -0,0 +1,116 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import {
+  EngagementMetric,
+  EngagementType,
+  RecordEngagementDto,
+  RecordEngagementResultDto,
+} from '@heidi/contracts';
+import { ListingModerationStatus, ListingStatus } from '@prisma/client-core';
+import { EngagementBufferService } from './engagement-buffer.service';
+
+const METRIC_BY_TYPE: Record<EngagementType, EngagementMetric> = {
+  [EngagementType.VIEW]: EngagementMetric.VIEWS,
+  [EngagementType.LIKE]: EngagementMetric.LIKES,
+  [EngagementType.SHARE]: EngagementMetric.SHARES,
+};
+
+/**
+ * Ingestion of views, likes and shares. Each event counts once per user or
+ * device and listing within the dedup window.
+ */
+@Injectable()
+export class EngagementService {
+  private readonly dedupWindowSeconds: number;
+
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly redis: RedisService,
+    private readonly buffer: EngagementBufferService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(EngagementService.name);
+    this.dedupWindowSeconds = this.configService.get<number>(
+      'core.engagement.dedupWindowSeconds',
+      1800,
+    );
+  }
+
+  async record(dto: RecordEngagementDto, userId?: string): Promise<RecordEngagementResultDto> {
+    const actor = userId
+      ? `user:${userId}`
+      : dto.deviceId
+        ? `device:${dto.deviceId}`
+        : dto.guestId
+          ? `guest:${dto.guestId}`
+          : null;
+    if (!actor) {
+      throw new BadRequestException('deviceId or guestId is required without authentication');
+    }
+
+    const published = await this.prisma.listing.findMany({
+      where: {
+        id: { in: Array.from(new Set(dto.events.map((event) => event.listingId))) },
+        status: ListingStatus.APPROVED,
+        moderationStatus: ListingModerationStatus.APPROVED,
+        isArchived: false,
+      },
+      select: { id: true },
+    });
+    const publishedIds = new Set(published.map((listing) => listing.id));
+
+    const counts: { listingId: string; metric: EngagementMetric }[] = [];
+    let duplicates = 0;
+    let ignored = 0;
+    for (const event of dto.events) {
+      if (!publishedIds.has(event.listingId)) {
+        ignored++;
+      } else if (await this.claim(actor, event.type, event.listingId)) {
+        counts.push({ listingId: event.listingId, metric: METRIC_BY_TYPE[event.type] });
+      } else {
+        duplicates++;
+      }
+    }
+
+    await this.buffer.increment(counts);
+    return { accepted: counts.length, duplicates, ignored };
+  }
+
+  /**
+   * Favorite changes are counted as they happen, without deduplication
+   */
+  async recordFavorite(listingId: string, added: boolean): Promise<void> {
+    await this.buffer.increment([
+      {
+        listingId,
+        metric: added ? EngagementMetric.FAVORITES_ADDED : EngagementMetric.FAVORITES_REMOVED,
+      },
+    ]);
+  }
+
+  /**
+   * Returns false if the event was already counted in the window. When Redis
+   * is unavailable the event is counted rather than dropped.
+   */
+  private async claim(actor: string, type: EngagementType, listingId: string): Promise<boolean> {
+    try {
+      const result = await this.redis
+        .getClient()
+        .set(
+          `core:engagement:dedup:${type}:${listingId}:${actor}`,
+          '1',
+          'EX',
+          this.dedupWindowSeconds,
+          'NX',
+        );
+      return result === 'OK';
+    } catch (error) {
+      this.logger.warn(`Could not deduplicate ${type} of listing ${listingId}: ${error.message}`);
+      return true;
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Controller } from '@nestjs/common';
+import { EventPattern, Payload } from '@nestjs/microservices';
+import { RabbitMQPatterns } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import { ContentLifecycleService, ContentLifecycleTrigger } from './content-lifecycle.service';
+
+@Controller()
+export class ContentLifecycleMessageController {
+  private readonly logger: LoggerService;
+
+  constructor(
+    private readonly contentLifecycleService: ContentLifecycleService,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(ContentLifecycleMessageController.name);
+  }
+
+  @EventPattern(RabbitMQPatterns.CONTENT_LIFECYCLE_RUN)
+  async handleRun(@Payload() data: ContentLifecycleTrigger) {
+    this.logger.debug(
+      `Received event: ${RabbitMQPatterns.CONTENT_LIFECYCLE_RUN} for runId: ${data?.runId ?? '-'}`,
+    );
+
+    try {
+      await this.contentLifecycleService.run(data ?? {});
+    } catch (error) {
+      this.logger.error(`Error processing event: ${RabbitMQPatterns.CONTENT_LIFECYCLE_RUN}`, error);
+      // Note: For @EventPattern, errors are logged but don't NACK since it's fire-and-forget
+      // The failure was reported to the scheduler and the next tick retries
+    }
+  }
+}
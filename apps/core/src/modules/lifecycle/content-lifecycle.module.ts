@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { LoggerModule } from '@heidi/logger';
+import { PrismaCoreModule } from '@heidi/prisma';
+import { ListingsModule } from '../listings/listings.module';
+import { ContentCacheModule } from '../content-cache/content-cache.module';
+import { ContentLifecycleMessageController } from './content-lifecycle-message.controller';
+import { ContentLifecycleService } from './content-lifecycle.service';
+
+@Module({
+  imports: [LoggerModule, PrismaCoreModule, ListingsModule, ContentCacheModule],
+  controllers: [ContentLifecycleMessageController],
+  providers: [ContentLifecycleService],
+})
+export class ContentLifecycleModule {}
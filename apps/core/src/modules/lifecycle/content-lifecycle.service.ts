@@ -0,0 +1,340 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
+import { RedisService } from '@heidi/redis';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { ScheduleRunResult, ScheduleRunResultStatus } from '@heidi/contracts';
+import {
+  ListingModerationStatus,
+  ListingRecurrenceFreq,
+  ListingRevisionAction,
+  ListingStatus,
+  Prisma,
+} from '@prisma/client-core';
+import { ListingRevisionsService } from '../listings/listing-revisions.service';
+import { ContentCacheService } from '../content-cache/content-cache.service';
+
+const LIFECYCLE_SERVICE = 'lifecycle';
+const LOCK_KEY = 'core:content-lifecycle:lock';
+const TILES_CHECKED_AT_KEY = 'core:content-lifecycle:tiles-checked-at';
+const BATCH_SIZE = 200;
+// Window of tile publish/expire times looked at when the previous run is unknown
+const INITIAL_TILE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const lifecycleListing = Prisma.validator<Prisma.ListingDefaultArgs>()({
+  select: {
+    id: true,
+    slug: true,
+    title: true,
+    primaryCityId: true,
+    publishAt: true,
+    expireAt: true,
+    featuredUntil: true,
+    eventEnd: true,
+    cities: { select: { cityId: true } },
+  },
+});
+
+type LifecycleListing = Prisma.ListingGetPayload<typeof lifecycleListing>;
+
+interface ListingTransition {
+  name: string;
+  event: string;
+  note: string;
+  where: Prisma.ListingWhereInput;
+  data: Prisma.ListingUpdateManyMutationInput;
+  /** Field of the listing whose time triggered the transition */
+  at: 'publishAt' | 'expireAt' | 'featuredUntil' | 'eventEnd';
+}
+
+export interface ContentLifecycleTrigger {
+  taskId?: string;
+  runId?: string;
+}
+
+export type ContentLifecycleCounts = Record<
+  'published' | 'expired' | 'unfeatured' | 'archived' | 'tilesPublished' | 'tilesExpired',
+  number
+>;
+
+/**
+ * Applies time-based state changes that were previously only read-time
+ * filters: publishes approved listings at publishAt, expires them at
+ * expireAt, stops featuring at featuredUntil and archives events after
+ * eventEnd; tiles are (de)activated at publishAt/expireAt. Every transition
+ * emits an event and invalidates cached lists. Triggered by the scheduler.
+ */
+@Injectable()
+export class ContentLifecycleService {
+  private readonly archiveAfterHours: number;
+
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly listingRevisionsService: ListingRevisionsService,
+    private readonly contentCache: ContentCacheService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ContentLifecycleService.name);
+    this.archiveAfterHours = this.configService.get<number>('core.lifecycle.archiveAfterHours', 0);
+  }
+
+  async run(trigger: ContentLifecycleTrigger = {}): Promise<ContentLifecycleCounts | null> {
+    // Runs of slow ticks must not overlap across replicas
+    const acquired = await this.redis.acquireLock(LOCK_KEY, 300);
+    if (!acquired) {
+      this.logger.debug('Content lifecycle run already in progress, skipping');
+      this.reportRunResult(trigger, ScheduleRunResultStatus.SUCCESS, { skipped: 1 });
+      return null;
+    }
+
+    try {
+      const counts = await this.applyTransitions(new Date());
+      this.reportRunResult(trigger, ScheduleRunResultStatus.SUCCESS, counts);
+      return counts;
+    } catch (error: any) {
+      this.reportRunResult(trigger, ScheduleRunResultStatus.FAILED, undefined, error?.message);
+      throw error;
+    } finally {
+      await this.redis.releaseLock(LOCK_KEY);
+    }
+  }
+
+  private async applyTransitions(now: Date): Promise<ContentLifecycleCounts> {
+    const archiveCutoff = new Date(now.getTime() - this.archiveAfterHours * 60 * 60 * 1000);
+    const notExpired: Prisma.ListingWhereInput = {
+      OR: [{ expireAt: null }, { expireAt: { gt: now } }],
+    };
+
+    const counts: ContentLifecycleCounts = {
+      published: await this.transitionListings(now, {
+        name: 'publish',
+        event: RabbitMQPatterns.LISTING_PUBLISHED,
+        note: 'Published at publishAt',
+        // Approved listings held back until their publish time
+        where: {
+          status: ListingStatus.PENDING,
+          moderationStatus: ListingModerationStatus.APPROVED,
+          isArchived: false,
+          publishAt: { lte: now },
+          ...notExpired,
+        },
+        data: { status: ListingStatus.APPROVED },
+        at: 'publishAt',
+      }),
+      expired: await this.transitionListings(now, {
+        name: 'expire',
+        event: RabbitMQPatterns.LISTING_EXPIRED,
+        note: 'Expired at expireAt',
+        where: { status: ListingStatus.APPROVED, expireAt: { lte: now } },
+        data: { status: ListingStatus.EXPIRED },
+        at: 'expireAt',
+      }),
+      unfeatured: await this.transitionListings(now, {
+        name: 'unfeature',
+        event: RabbitMQPatterns.LISTING_UNFEATURED,
+        note: 'No longer featured after featuredUntil',
+        where: { isFeatured: true, featuredUntil: { lte: now } },
+        data: { isFeatured: false },
+        at: 'featuredUntil',
+      }),
+      archived: await this.transitionListings(now, {
+        name: 'archive',
+        event: RabbitMQPatterns.LISTING_ARCHIVED,
+        note: 'Archived after the event ended',
+        where: {
+          isArchived: false,
+          eventEnd: { lte: archiveCutoff },
+          // Recurring listings end with their last occurrence, not with eventEnd
+          NOT: {
+            timeIntervals: {
+              some: {
+                OR: [
+                  { end: { gt: archiveCutoff } },
+                  {
+                    freq: { not: ListingRecurrenceFreq.NONE },
+                    OR: [{ repeatUntil: null }, { repeatUntil: { gt: archiveCutoff } }],
+                  },
+                ],
+              },
+            },
+          },
+        },
+        data: {
+          status: ListingStatus.DELETED,
+          moderationStatus: ListingModerationStatus.ARCHIVED,
+          isArchived: true,
+          archivedAt: now,
+          archivedBy: LIFECYCLE_SERVICE,
+        },
+        at: 'eventEnd',
+      }),
+      ...(await this.transitionTiles(now)),
+    };
+
+    const listingsChanged =
+      counts.published + counts.expired + counts.unfeatured + counts.archived > 0;
+    const tilesChanged = counts.tilesPublished + counts.tilesExpired > 0;
+    if (listingsChanged || tilesChanged) {
+      await this.contentCache.invalidate(
+        ...(listingsChanged ? (['listings'] as const) : []),
+        ...(tilesChanged ? (['tiles'] as const) : []),
+      );
+      this.logger.log(
+        `Content lifecycle: ${Object.entries(counts)
+          .map(([key, count]) => `${count} ${key}`)
+          .join(', ')}`,
+      );
+    }
+
+    return counts;
+  }
+
+  /**
+   * Applies one listing transition in batches. Updated listings no longer
+   * match the condition, so every batch picks up the next ones.
+   */
+  private async transitionListings(now: Date, transition: ListingTransition): Promise<number> {
+    let total = 0;
+
+    for (;;) {
+      const candidates = await this.prisma.listing.findMany({
+        where: transition.where,
+        select: lifecycleListing.select,
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+      });
+      if (candidates.length === 0) {
+        break;
+      }
+
+      const ids = candidates.map((listing) => listing.id);
+      const { count } = await this.prisma.listing.updateMany({
+        where: { AND: [{ id: { in: ids } }, transition.where] },
+        data: transition.data,
+      });
+      total += count;
+
+      for (const listing of candidates) {
+        await this.listingRevisionsService.record(
+          this.prisma,
+          listing.id,
+          ListingRevisionAction.LIFECYCLE,
+          { service: LIFECYCLE_SERVICE, note: transition.note },
+        );
+        this.emitListingEvent(transition, listing, now);
+      }
+
+      if (candidates.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (total > 0) {
+      this.logger.log(`Lifecycle ${transition.name}: ${total} listing(s)`);
+    }
+    return total;
+  }
+
+  /**
+   * Tiles have no state besides isActive, so they are switched when their
+   * publish or expire time falls between the previous run and now. Tiles an
+   * admin deactivated by hand are not switched on again later.
+   */
+  private async transitionTiles(
+    now: Date,
+  ): Promise<Pick<ContentLifecycleCounts, 'tilesPublished' | 'tilesExpired'>> {
+    const checkedAt = await this.redis.get<string>(TILES_CHECKED_AT_KEY);
+    const since = checkedAt
+      ? new Date(checkedAt)
+      : new Date(now.getTime() - INITIAL_TILE_WINDOW_MS);
+
+    const toPublish = await this.prisma.tile.findMany({
+      where: {
+        isActive: false,
+        publishAt: { gt: since, lte: now },
+        OR: [{ expireAt: null }, { expireAt: { gt: now } }],
+      },
+      select: { id: true, slug: true, publishAt: true, cities: { select: { cityId: true } } },
+    });
+    const toExpire = await this.prisma.tile.findMany({
+      where: { isActive: true, expireAt: { gt: since, lte: now } },
+      select: { id: true, slug: true, expireAt: true, cities: { select: { cityId: true } } },
+    });
+
+    if (toPublish.length > 0) {
+      await this.prisma.tile.updateMany({
+        where: { id: { in: toPublish.map((tile) => tile.id) } },
+        data: { isActive: true },
+      });
+    }
+    if (toExpire.length > 0) {
+      await this.prisma.tile.updateMany({
+        where: { id: { in: toExpire.map((tile) => tile.id) } },
+        data: { isActive: false },
+      });
+    }
+
+    for (const tile of toPublish) {
+      this.client.emit(RabbitMQPatterns.TILE_PUBLISHED, {
+        tileId: tile.id,
+        slug: tile.slug,
+        cityIds: tile.cities.map((city) => city.cityId),
+        publishAt: tile.publishAt?.toISOString() ?? null,
+        timestamp: now.toISOString(),
+      });
+    }
+    for (const tile of toExpire) {
+      this.client.emit(RabbitMQPatterns.TILE_EXPIRED, {
+        tileId: tile.id,
+        slug: tile.slug,
+        cityIds: tile.cities.map((city) => city.cityId),
+        expireAt: tile.expireAt?.toISOString() ?? null,
+        timestamp: now.toISOString(),
+      });
+    }
+
+    await this.redis.set(TILES_CHECKED_AT_KEY, now.toISOString());
+
+    return { tilesPublished: toPublish.length, tilesExpired: toExpire.length };
+  }
+
+  private emitListingEvent(transition: ListingTransition, listing: LifecycleListing, now: Date) {
+    this.client.emit(transition.event, {
+      listingId: listing.id,
+      slug: listing.slug,
+      title: listing.title,
+      primaryCityId: listing.primaryCityId,
+      cityIds: listing.cities.map((city) => city.cityId),
+      [transition.at]: listing[transition.at]?.toISOString() ?? null,
+      timestamp: now.toISOString(),
+    });
+  }
+
+  /**
+   * Report the outcome of a scheduler-triggered run back to the scheduler
+   */
+  private reportRunResult(
+    trigger: ContentLifecycleTrigger,
+    status: ScheduleRunResultStatus,
+    counts?: Record<string, number>,
+    error?: string,
+  ) {
+    if (!trigger.runId) {
+      return; // Not triggered by a scheduled run
+    }
+
+    const report: ScheduleRunResult = {
+      runId: trigger.runId,
+      taskId: trigger.taskId,
+      status,
+      counts,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    this.client.emit(RabbitMQPatterns.SCHEDULE_RUN_RESULT, report);
+  }
+}
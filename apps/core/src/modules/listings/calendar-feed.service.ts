@@ -0,0 +1,92 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrismaCoreService } from '@heidi/prisma';
+import { ConfigService } from '@heidi/config';
+import { CalendarFeedDto } from '@heidi/contracts';
+
+/**
+ * Tokens of the subscribable favorites calendar. Calendar apps poll the feed
+ * without a JWT, so the token is the id of a stored row signed with an HMAC:
+ * the signature makes tokens unguessable, deleting the row revokes them.
+ */
+@Injectable()
+export class CalendarFeedService {
+  private readonly secret: string;
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly configService: ConfigService,
+  ) {
+    this.secret =
+      this.configService.get<string>('core.calendarFeed.secret') ??
+      this.configService.get<string>('jwt.secret', '');
+
+    // Use API gateway URL if configured, otherwise fallback to direct service URL
+    const apiGatewayBaseUrl = this.configService.get<string>('apiGatewayBaseUrl');
+    const apiPrefix = this.configService.get<string>('apiPrefix', 'api');
+    if (apiGatewayBaseUrl) {
+      this.baseUrl = `${apiGatewayBaseUrl}/${apiPrefix}/core`;
+    } else {
+      const corePort = this.configService.get<number>('core.port', 3004);
+      const host = process.env.CORE_HOST || 'localhost';
+      const protocol = process.env.NODE_ENV === 'production' ? 'https' : 'http';
+      this.baseUrl = `${protocol}://${host}:${corePort}`;
+    }
+  }
+
+  /**
+   * Issues a feed token for the user, revoking the previous one
+   */
+  async issue(userId: string): Promise<CalendarFeedDto> {
+    const feedToken = await this.prisma.$transaction(async (tx) => {
+      await tx.calendarFeedToken.deleteMany({ where: { userId } });
+      return tx.calendarFeedToken.create({ data: { userId } });
+    });
+
+    const token = `${feedToken.id}.${this.sign(feedToken.id, userId)}`;
+    return {
+      url: `${this.baseUrl}/favorites/calendar.ics?token=${encodeURIComponent(token)}`,
+      token,
+      createdAt: feedToken.createdAt.toISOString(),
+    };
+  }
+
+  async revoke(userId: string): Promise<boolean> {
+    const { count } = await this.prisma.calendarFeedToken.deleteMany({ where: { userId } });
+    return count > 0;
+  }
+
+  /**
+   * User the token was issued to; throws for tampered or revoked tokens
+   */
+  async resolveUserId(token: string): Promise<string> {
+    const [id, signature] = token.split('.');
+    const feedToken = id && signature ? await this.findToken(id) : null;
+
+    if (!feedToken || !this.verify(signature, this.sign(feedToken.id, feedToken.userId))) {
+      throw new UnauthorizedException('Invalid or revoked calendar feed token');
+    }
+
+    await this.prisma.calendarFeedToken.update({
+      where: { id: feedToken.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return feedToken.userId;
+  }
+
+  private findToken(id: string) {
+    return this.prisma.calendarFeedToken.findUnique({ where: { id } });
+  }
+
+  private sign(id: string, userId: string): string {
+    return createHmac('sha256', this.secret).update(`${id}.${userId}`).digest('base64url');
+  }
+
+  private verify(signature: string, expected: string): boolean {
+    const actual = Buffer.from(signature);
+    const wanted = Buffer.from(expected);
+    return actual.length === wanted.length && timingSafeEqual(actual, wanted);
+  }
+}
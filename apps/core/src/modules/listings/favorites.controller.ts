@@ -1,12 +1,34 @@
-import { Body, Controller, Get, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
-import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
-import { GetCurrentUser, JwtAuthGuard } from '@heidi/jwt';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { GetCurrentUser, JwtAuthGuard, Public } from '@heidi/jwt';
 import {
   AddFavoriteDto,
   AddFavoriteResponseDto,
+  CalendarFeedDto,
+  CalendarFeedQueryDto,
   FavoriteListingDto,
   ListingNotFoundErrorResponseDto,
   RemoveFavoriteResponseDto,
+  RevokeCalendarFeedResponseDto,
   UnauthorizedErrorResponseDto,
   ValidationErrorResponseDto,
 } from '@heidi/contracts';
@@ -116,4 +138,60 @@ export class FavoritesController {
   async getUserFavorites(@GetCurrentUser('userId') userId: string) {
     return this.listingsService.getUserFavorites(userId);
   }
+
+  @Post('calendar-feed')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Issue favorites calendar feed',
+    description:
+      'Issue a signed token and subscription URL for a calendar feed of the favorited events. Calendar apps poll the URL without a JWT; issuing a new token revokes the previous one.',
+  })
+  @ApiResponse({ status: 201, type: CalendarFeedDto })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  async issueCalendarFeed(@GetCurrentUser('userId') userId: string) {
+    return this.listingsService.issueFavoritesCalendarFeed(userId);
+  }
+
+  @Delete('calendar-feed')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Revoke favorites calendar feed',
+    description: 'Revoke the calendar feed token of the current user',
+  })
+  @ApiResponse({ status: 200, type: RevokeCalendarFeedResponseDto })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async revokeCalendarFeed(@GetCurrentUser('userId') userId: string) {
+    return this.listingsService.revokeFavoritesCalendarFeed(userId);
+  }
+
+  @Public()
+  @Get('calendar.ics')
+  @ApiOperation({
+    summary: 'Favorites calendar feed',
+    description:
+      'iCalendar feed of the favorited listings with dates, authenticated by the feed token instead of a JWT',
+  })
+  @ApiProduces('text/calendar')
+  @ApiResponse({ status: 200, description: 'iCalendar feed' })
+  @ApiResponse({
+    status: 401,
+    description: 'Invalid or revoked feed token',
+    type: UnauthorizedErrorResponseDto,
+  })
+  async getCalendarFeed(@Query() query: CalendarFeedQueryDto, @Res() res: Response) {
+    const calendar = await this.listingsService.getFavoritesCalendar(query.token);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Cache-Control', 'private, max-age=900');
+    res.send(calendar);
+  }
 }
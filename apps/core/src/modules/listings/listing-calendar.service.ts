@@ -0,0 +1,423 @@
+import { Injectable } from '@nestjs/common';
+import { DateTime } from 'luxon';
+import { ListingRecurrenceFreq } from '@prisma/client-core';
+import {
+  ListingResponseDto,
+  ListingTimeIntervalDto,
+  ListingTimeIntervalExceptionDto,
+} from '@heidi/contracts';
+
+const DEFAULT_TIMEZONE = 'Europe/Berlin';
+const PRODUCT_ID = '-//HEIDI//Listings//EN';
+const UID_DOMAIN = 'listings.heidi';
+
+/** Longest content line in octets before it is folded (RFC 5545, 3.1) */
+const MAX_LINE_OCTETS = 75;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_CODES: Record<string, string> = {
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+  sunday: 'SU',
+};
+
+const LUXON_WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export interface CalendarOptions {
+  name?: string;
+  /** Suggested polling interval for subscribed calendars */
+  refreshInterval?: string;
+}
+
+interface ZoneTransition {
+  at: number;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+/**
+ * Renders listings as iCalendar (RFC 5545). Recurring time intervals become
+ * events with an RRULE in the interval's timezone, closed days and days with
+ * special hours are excluded with EXDATE, and special hours get events of
+ * their own. Every timezone used is described by a VTIMEZONE.
+ */
+@Injectable()
+export class ListingCalendarService {
+  /**
+   * Whether the listing has dates that can be put into a calendar
+   */
+  hasDates(listing: ListingResponseDto): boolean {
+    return listing.timeIntervals.length > 0 || Boolean(listing.eventStart);
+  }
+
+  render(listings: ListingResponseDto[], options: CalendarOptions = {}): string {
+    const zones = new Map<string, number>();
+    const events: string[][] = [];
+
+    for (const listing of listings) {
+      for (const event of this.listingEvents(listing)) {
+        events.push(event.lines);
+        if (event.zone) {
+          zones.set(event.zone, Math.min(zones.get(event.zone) ?? Infinity, event.year));
+        }
+      }
+    }
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      `PRODID:${PRODUCT_ID}`,
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+    ];
+    if (options.name) {
+      lines.push(`X-WR-CALNAME:${this.escapeText(options.name)}`);
+    }
+    if (options.refreshInterval) {
+      lines.push(
+        `REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`,
+        `X-PUBLISHED-TTL:${options.refreshInterval}`,
+      );
+    }
+    for (const [zone, year] of zones) {
+      lines.push(...this.timezone(zone, year));
+    }
+    for (const event of events) {
+      lines.push(...event);
+    }
+    lines.push('END:VCALENDAR');
+
+    return lines.map((line) => this.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  private listingEvents(
+    listing: ListingResponseDto,
+  ): { lines: string[]; zone: string | null; year: number }[] {
+    const timezone = this.resolveZone(listing.timezone ?? listing.timeIntervals[0]?.tz);
+    const exceptions = listing.timeIntervalExceptions.filter(
+      (exception) => exception.isClosed || (exception.opensAt && exception.closesAt),
+    );
+    const exceptionDates = new Set(exceptions.map((exception) => exception.date.slice(0, 10)));
+    const events: { lines: string[]; zone: string | null; year: number }[] = [];
+
+    if (listing.timeIntervals.length > 0) {
+      for (const interval of listing.timeIntervals) {
+        const zone = this.resolveZone(interval.tz, timezone);
+        const start = DateTime.fromISO(interval.start, { zone });
+        if (
+          interval.freq === ListingRecurrenceFreq.NONE &&
+          exceptionDates.has(start.toISODate() ?? '')
+        ) {
+          continue;
+        }
+        events.push({
+          lines: this.intervalEvent(listing, interval, zone, exceptionDates),
+          zone,
+          year: start.year,
+        });
+      }
+    } else if (listing.eventStart) {
+      const start = DateTime.fromISO(listing.eventStart, { zone: timezone });
+      if (!exceptionDates.has(start.toISODate() ?? '')) {
+        events.push({
+          lines: this.singleEvent(listing, timezone),
+          zone: listing.isAllDay ? null : timezone,
+          year: start.year,
+        });
+      }
+    }
+
+    for (const exception of exceptions) {
+      if (exception.isClosed) {
+        continue;
+      }
+      events.push({
+        lines: this.exceptionEvent(listing, exception, timezone),
+        zone: timezone,
+        year: DateTime.fromISO(exception.date, { zone: timezone }).year,
+      });
+    }
+
+    return events;
+  }
+
+  private intervalEvent(
+    listing: ListingResponseDto,
+    interval: ListingTimeIntervalDto,
+    zone: string,
+    exceptionDates: Set<string>,
+  ): string[] {
+    const start = DateTime.fromISO(interval.start, { zone });
+    const end = DateTime.fromISO(interval.end, { zone });
+    const lines = [
+      `DTSTART;TZID=${zone}:${this.formatLocal(start)}`,
+      `DTEND;TZID=${zone}:${this.formatLocal(end)}`,
+    ];
+
+    if (interval.freq !== ListingRecurrenceFreq.NONE) {
+      lines.push(`RRULE:${this.recurrenceRule(interval, start)}`);
+
+      // Exceptions replace every occurrence on their date
+      const excluded = Array.from(exceptionDates)
+        .map((date) =>
+          DateTime.fromISO(date, { zone }).set({
+            hour: start.hour,
+            minute: start.minute,
+            second: start.second,
+          }),
+        )
+        .filter((occurrence) => occurrence > start)
+        .sort((a, b) => a.toMillis() - b.toMillis());
+      if (excluded.length > 0) {
+        lines.push(
+          `EXDATE;TZID=${zone}:${excluded.map((occurrence) => this.formatLocal(occurrence)).join(',')}`,
+        );
+      }
+    }
+
+    return this.event(listing, `${listing.id}-${interval.id}`, lines);
+  }
+
+  private singleEvent(listing: ListingResponseDto, zone: string): string[] {
+    const start = DateTime.fromISO(listing.eventStart as string, { zone });
+    const end = listing.eventEnd ? DateTime.fromISO(listing.eventEnd, { zone }) : start;
+
+    const lines = listing.isAllDay
+      ? [
+          `DTSTART;VALUE=DATE:${start.toFormat('yyyyLLdd')}`,
+          // The end date of all-day events is exclusive
+          `DTEND;VALUE=DATE:${DateTime.max(end, start).plus({ days: 1 }).toFormat('yyyyLLdd')}`,
+        ]
+      : [
+          `DTSTART;TZID=${zone}:${this.formatLocal(start)}`,
+          `DTEND;TZID=${zone}:${this.formatLocal(DateTime.max(end, start))}`,
+        ];
+
+    return this.event(listing, listing.id, lines);
+  }
+
+  private exceptionEvent(
+    listing: ListingResponseDto,
+    exception: ListingTimeIntervalExceptionDto,
+    zone: string,
+  ): string[] {
+    const date = exception.date.slice(0, 10);
+    const start = DateTime.fromISO(`${date}T${exception.opensAt}`, { zone });
+    let end = DateTime.fromISO(`${date}T${exception.closesAt}`, { zone });
+    if (end <= start) {
+      end = end.plus({ days: 1 });
+    }
+
+    return this.event(listing, `${listing.id}-${exception.id}`, [
+      `DTSTART;TZID=${zone}:${this.formatLocal(start)}`,
+      `DTEND;TZID=${zone}:${this.formatLocal(end)}`,
+    ]);
+  }
+
+  private event(listing: ListingResponseDto, uid: string, dates: string[]): string[] {
+    const lines = [
+      'BEGIN:VEVENT',
+      `UID:${uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${this.formatUtc(DateTime.utc())}`,
+      `LAST-MODIFIED:${this.formatUtc(DateTime.fromISO(listing.updatedAt))}`,
+      ...dates,
+      `SUMMARY:${this.escapeText(listing.title)}`,
+    ];
+
+    const description = listing.summary || this.stripHtml(listing.content);
+    if (description) {
+      lines.push(`DESCRIPTION:${this.escapeText(description)}`);
+    }
+
+    const location = [listing.venueName, listing.address].filter(Boolean).join(', ');
+    if (location) {
+      lines.push(`LOCATION:${this.escapeText(location)}`);
+    }
+    if (typeof listing.geoLat === 'number' && typeof listing.geoLng === 'number') {
+      lines.push(`GEO:${listing.geoLat};${listing.geoLng}`);
+    }
+
+    const url = listing.website || listing.registrationUrl || listing.sourceUrl;
+    if (url) {
+      lines.push(`URL:${url}`);
+    }
+    // ORGANIZER needs an address, so it is left out when the organizer has no email
+    const organizerEmail = [listing.organizerContact, listing.contactEmail].find((contact) =>
+      contact?.includes('@'),
+    );
+    if (listing.organizerName && organizerEmail) {
+      lines.push(`ORGANIZER;CN=${this.quoteParam(listing.organizerName)}:mailto:${organizerEmail}`);
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+  }
+
+  private recurrenceRule(interval: ListingTimeIntervalDto, start: DateTime): string {
+    const parts = [`FREQ=${interval.freq}`];
+    if (interval.interval > 1) {
+      parts.push(`INTERVAL=${interval.interval}`);
+    }
+
+    if (interval.freq === ListingRecurrenceFreq.WEEKLY) {
+      const weekdays = (interval.weekdays ?? [])
+        .map((weekday) => WEEKDAY_CODES[weekday.toLowerCase()])
+        .filter(Boolean);
+      parts.push(
+        `BYDAY=${(weekdays.length > 0 ? weekdays : [LUXON_WEEKDAY_CODES[start.weekday - 1]]).join(',')}`,
+        // Weeks start on Monday, like when occurrences are expanded
+        'WKST=MO',
+      );
+    }
+
+    if (interval.repeatUntil) {
+      parts.push(`UNTIL=${this.formatUtc(DateTime.fromISO(interval.repeatUntil))}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * VTIMEZONE with the zone's offset changes in `year`, repeated yearly on
+   * the same weekday of the month (e.g. the last Sunday in March)
+   */
+  private timezone(zone: string, year: number): string[] {
+    const lines = ['BEGIN:VTIMEZONE', `TZID:${zone}`];
+    const transitions = this.zoneTransitions(zone, year);
+
+    if (transitions.length === 0) {
+      const offset = this.formatOffset(DateTime.fromObject({ year }, { zone }).offset);
+      lines.push(
+        'BEGIN:STANDARD',
+        'DTSTART:19700101T000000',
+        `TZOFFSETFROM:${offset}`,
+        `TZOFFSETTO:${offset}`,
+        'END:STANDARD',
+      );
+    }
+
+    for (const transition of transitions) {
+      const kind = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+      // Transitions are given in the local time that was in effect before them
+      const local = DateTime.fromMillis(transition.at + transition.offsetFrom * 60_000, {
+        zone: 'utc',
+      });
+      const nth = local.day + 7 > (local.daysInMonth ?? 31) ? -1 : Math.ceil(local.day / 7);
+
+      lines.push(
+        `BEGIN:${kind}`,
+        `DTSTART:${this.formatLocal(local)}`,
+        `RRULE:FREQ=YEARLY;BYMONTH=${local.month};BYDAY=${nth}${LUXON_WEEKDAY_CODES[local.weekday - 1]}`,
+        `TZOFFSETFROM:${this.formatOffset(transition.offsetFrom)}`,
+        `TZOFFSETTO:${this.formatOffset(transition.offsetTo)}`,
+        `END:${kind}`,
+      );
+    }
+
+    lines.push('END:VTIMEZONE');
+    return lines;
+  }
+
+  /**
+   * Offset changes of the zone within the year
+   */
+  private zoneTransitions(zone: string, year: number): ZoneTransition[] {
+    const offsetAt = (millis: number) => DateTime.fromMillis(millis, { zone }).offset;
+    const yearStart = Date.UTC(year, 0, 1);
+    const yearEnd = Date.UTC(year + 1, 0, 1);
+    const transitions: ZoneTransition[] = [];
+
+    for (let day = yearStart; day < yearEnd; day += DAY_MS) {
+      const offsetFrom = offsetAt(day);
+      const offsetTo = offsetAt(day + DAY_MS);
+      if (offsetFrom === offsetTo) {
+        continue;
+      }
+
+      let before = day;
+      let after = day + DAY_MS;
+      while (after - before > 1) {
+        const middle = before + Math.floor((after - before) / 2);
+        if (offsetAt(middle) === offsetFrom) {
+          before = middle;
+        } else {
+          after = middle;
+        }
+      }
+      transitions.push({ at: after, offsetFrom, offsetTo });
+    }
+
+    return transitions;
+  }
+
+  private resolveZone(zone?: string | null, fallback = DEFAULT_TIMEZONE): string {
+    return zone && DateTime.local().setZone(zone).isValid ? zone : fallback;
+  }
+
+  private formatLocal(value: DateTime): string {
+    return value.toFormat("yyyyLLdd'T'HHmmss");
+  }
+
+  private formatUtc(value: DateTime): string {
+    return value.toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'");
+  }
+
+  private formatOffset(minutes: number): string {
+    const sign = minutes < 0 ? '-' : '+';
+    const absolute = Math.abs(minutes);
+    return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+  }
+
+  private stripHtml(value: string): string {
+    return value
+      .replace(/<[^>]*>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private escapeText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  private quoteParam(value: string): string {
+    return `"${value.replace(/"/g, "'")}"`;
+  }
+
+  /**
+   * Folds a content line into lines of at most 75 octets, without splitting
+   * multi-byte characters
+   */
+  private fold(line: string): string {
+    if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+      return line;
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+    for (const char of line) {
+      const octets = Buffer.byteLength(char);
+      // Continuation lines start with a space, which counts towards the limit
+      const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+      if (currentOctets + octets > limit) {
+        parts.push(current);
+        current = '';
+        currentOctets = 0;
+      }
+      current += char;
+      currentOctets += octets;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+}
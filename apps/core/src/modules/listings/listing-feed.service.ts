@@ -0,0 +1,341 @@
+import { BadRequestException, Inject, Injectable } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
+import { RedisService } from '@heidi/redis';
+import { LoggerService } from '@heidi/logger';
+import { ListingFeedQueryDto, ListingFeedReason, ListingFilterDto } from '@heidi/contracts';
+import {
+  ListingModerationStatus,
+  ListingStatus,
+  ListingVisibility,
+  Prisma,
+} from '@prisma/client-core';
+import { firstValueFrom, timeout } from 'rxjs';
+import { ListingGeoService } from './listing-geo.service';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+const VIEWER_CACHE_TTL_SECONDS = 10 * 60;
+/** Seen listings are forgotten a month after the viewer last reported any */
+const SEEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Weights of the ranking signals, each signal being between 0 and 1
+const WEIGHTS = {
+  affinity: 0.35,
+  proximity: 0.25,
+  recency: 0.2,
+  upcoming: 0.15,
+  featured: 0.1,
+};
+const RECENCY_DECAY_DAYS = 14;
+const UPCOMING_WINDOW_DAYS = 14;
+const PROXIMITY_DECAY_KM = 5;
+
+// Signal value above which it is reported as a reason
+const REASON_THRESHOLD = 0.5;
+
+export interface FeedViewer {
+  /** Key of the viewer's seen listings, null for anonymous callers */
+  key: string | null;
+  userId: string | null;
+  homeCityId: string | null;
+}
+
+export interface FeedEntry {
+  id: string;
+  score: number;
+  reasons: ListingFeedReason[];
+}
+
+export interface FeedPage {
+  entries: FeedEntry[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/** Position after the last entry of a page, with the time the feed was ranked at */
+interface FeedCursor {
+  s: number;
+  id: string;
+  t: string;
+}
+
+interface FeedRow {
+  id: string;
+  score: number;
+  affinity: number;
+  proximity: number;
+  recency: number;
+  upcoming: number;
+  featured: number;
+}
+
+/**
+ * Ranks approved listings for a user or guest. Each signal is computed in SQL
+ * and the listings are ordered by their weighted sum, so pages can continue
+ * from the last (score, id) pair. The ranking time travels with the cursor to
+ * keep scores stable while paging.
+ */
+@Injectable()
+export class ListingFeedService {
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly redis: RedisService,
+    private readonly listingGeoService: ListingGeoService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ListingFeedService.name);
+  }
+
+  /**
+   * Signed-in callers (guest tokens included) are identified by their user ID,
+   * callers without a token by their guestId
+   */
+  async resolveViewer(userId?: string, guestId?: string): Promise<FeedViewer> {
+    if (userId) {
+      const user = await this.lookupUser(`user:${userId}`, RabbitMQPatterns.USER_FIND_BY_ID, {
+        id: userId,
+      });
+      return { key: `user:${userId}`, userId, homeCityId: user?.cityId ?? null };
+    }
+
+    if (guestId) {
+      const guest = await this.lookupUser(
+        `guest:${guestId}`,
+        RabbitMQPatterns.USER_FIND_BY_GUEST_ID,
+        { guestId },
+      );
+      if (guest) {
+        return { key: `user:${guest.id}`, userId: guest.id, homeCityId: guest.cityId ?? null };
+      }
+      return { key: `guest:${guestId}`, userId: null, homeCityId: null };
+    }
+
+    return { key: null, userId: null, homeCityId: null };
+  }
+
+  async rank(viewer: FeedViewer, query: ListingFeedQueryDto): Promise<FeedPage> {
+    const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : null;
+    const rankedAt = cursor ? new Date(cursor.t) : new Date();
+
+    const [affinity, seenIds] = await Promise.all([
+      viewer.userId ? this.getCategoryAffinity(viewer.userId) : new Map<string, number>(),
+      viewer.key ? this.redis.smembers(this.seenKey(viewer.key)) : [],
+    ]);
+
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`l."status" = ${ListingStatus.APPROVED}::"ListingStatus"`,
+      Prisma.sql`l."moderationStatus" = ${ListingModerationStatus.APPROVED}::"ListingModerationStatus"`,
+      Prisma.sql`l."visibility" = ${ListingVisibility.PUBLIC}::"ListingVisibility"`,
+      Prisma.sql`l."isArchived" = false`,
+      Prisma.sql`(l."publishAt" IS NULL OR l."publishAt" <= ${rankedAt})`,
+      Prisma.sql`(l."expireAt" IS NULL OR l."expireAt" > ${rankedAt})`,
+      Prisma.sql`(l."eventEnd" IS NULL OR l."eventEnd" >= ${rankedAt})`,
+    ];
+    if (query.cityId) {
+      conditions.push(
+        Prisma.sql`EXISTS (SELECT 1 FROM "listing_cities" lc WHERE lc."listingId" = l."id" AND lc."cityId" = ${query.cityId})`,
+      );
+    }
+    if (seenIds.length > 0) {
+      conditions.push(Prisma.sql`NOT (l."id" = ANY(${seenIds}::text[]))`);
+    }
+
+    const signals = Prisma.sql`
+      ${this.affinitySignal(affinity)} AS "affinity",
+      ${this.proximitySignal(query.near, viewer.homeCityId)} AS "proximity",
+      exp(-greatest(0, extract(epoch FROM (${rankedAt}::timestamp - COALESCE(l."publishAt", l."createdAt"))))
+        / 86400.0 / ${RECENCY_DECAY_DAYS})::double precision AS "recency",
+      (CASE WHEN l."eventStart" > ${rankedAt}::timestamp
+        AND l."eventStart" <= ${rankedAt}::timestamp + make_interval(days => ${UPCOMING_WINDOW_DAYS})
+        THEN 1 ELSE 0 END)::double precision AS "upcoming",
+      (CASE WHEN l."isFeatured" AND (l."featuredUntil" IS NULL OR l."featuredUntil" > ${rankedAt})
+        THEN 1 ELSE 0 END)::double precision AS "featured"`;
+
+    const after = cursor
+      ? Prisma.sql`WHERE "score" < ${cursor.s}::double precision
+          OR ("score" = ${cursor.s}::double precision AND "id" > ${cursor.id})`
+      : Prisma.empty;
+
+    const rows = await this.prisma.$queryRaw<FeedRow[]>`
+      WITH "signals" AS (
+        SELECT l."id", ${signals}
+        FROM "listings" l
+        WHERE ${Prisma.join(conditions, ' AND ')}
+      ), "scored" AS (
+        SELECT *, (
+          ${WEIGHTS.affinity}::double precision * "affinity"
+          + ${WEIGHTS.proximity}::double precision * "proximity"
+          + ${WEIGHTS.recency}::double precision * "recency"
+          + ${WEIGHTS.upcoming}::double precision * "upcoming"
+          + ${WEIGHTS.featured}::double precision * "featured"
+        ) AS "score"
+        FROM "signals"
+      )
+      SELECT * FROM "scored"
+      ${after}
+      ORDER BY "score" DESC, "id" ASC
+      LIMIT ${limit + 1}
+    `;
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      entries: page.map((row) => ({
+        id: row.id,
+        score: Number(row.score),
+        reasons: this.reasons(row),
+      })),
+      nextCursor:
+        hasMore && last
+          ? this.encodeCursor({ s: Number(last.score), id: last.id, t: rankedAt.toISOString() })
+          : null,
+      hasMore,
+    };
+  }
+
+  /**
+   * Remembers listings the viewer has seen so later feeds skip them
+   */
+  async markSeen(viewer: FeedViewer, listingIds: string[]): Promise<void> {
+    if (!viewer.key) {
+      throw new BadRequestException('guestId is required without authentication');
+    }
+
+    const key = this.seenKey(viewer.key);
+    await this.redis.sadd(key, ...listingIds);
+    await this.redis.expire(key, SEEN_TTL_SECONDS);
+  }
+
+  /**
+   * Share of the viewer's favorites in each category, the top category being 1
+   */
+  private async getCategoryAffinity(userId: string): Promise<Map<string, number>> {
+    const counts = await this.prisma.listingCategory.groupBy({
+      by: ['categoryId'],
+      where: { listing: { favorites: { some: { userId } } } },
+      _count: { _all: true },
+    });
+
+    const max = Math.max(0, ...counts.map((count) => count._count._all));
+    return new Map(
+      max > 0 ? counts.map((count) => [count.categoryId, count._count._all / max]) : [],
+    );
+  }
+
+  private affinitySignal(affinity: Map<string, number>): Prisma.Sql {
+    if (affinity.size === 0) {
+      return Prisma.sql`0::double precision`;
+    }
+
+    const categoryIds = Array.from(affinity.keys());
+    const weights = categoryIds.map((id) => affinity.get(id) ?? 0);
+    return Prisma.sql`COALESCE((
+      SELECT max(a."weight")
+      FROM "listing_categories" lcat
+      JOIN unnest(${categoryIds}::text[], ${weights}::double precision[]) AS a("categoryId", "weight")
+        ON a."categoryId" = lcat."categoryId"
+      WHERE lcat."listingId" = l."id"
+    ), 0)::double precision`;
+  }
+
+  /**
+   * Closeness to the given position, or whether the listing belongs to the
+   * viewer's home city when no position is known
+   */
+  private proximitySignal(near: string | undefined, homeCityId: string | null): Prisma.Sql {
+    const geo = near ? this.listingGeoService.parseFilter({ near } as ListingFilterDto) : null;
+    if (geo?.near) {
+      const distance = this.listingGeoService.distanceKm(geo.near.lat, geo.near.lng);
+      return Prisma.sql`(CASE WHEN l."geoLat" IS NULL OR l."geoLng" IS NULL THEN 0
+        ELSE exp(-${distance} / ${PROXIMITY_DECAY_KM}) END)::double precision`;
+    }
+
+    if (homeCityId) {
+      return Prisma.sql`(CASE WHEN EXISTS (
+        SELECT 1 FROM "listing_cities" hc WHERE hc."listingId" = l."id" AND hc."cityId" = ${homeCityId}
+      ) THEN 1 ELSE 0 END)::double precision`;
+    }
+
+    return Prisma.sql`0::double precision`;
+  }
+
+  private reasons(row: FeedRow): ListingFeedReason[] {
+    const reasons: ListingFeedReason[] = [];
+    if (Number(row.affinity) >= REASON_THRESHOLD) {
+      reasons.push(ListingFeedReason.CATEGORY_AFFINITY);
+    }
+    if (Number(row.proximity) >= REASON_THRESHOLD) {
+      reasons.push(ListingFeedReason.NEARBY);
+    }
+    if (Number(row.recency) >= REASON_THRESHOLD) {
+      reasons.push(ListingFeedReason.RECENT);
+    }
+    if (Number(row.upcoming) > 0) {
+      reasons.push(ListingFeedReason.UPCOMING);
+    }
+    if (Number(row.featured) > 0) {
+      reasons.push(ListingFeedReason.FEATURED);
+    }
+    return reasons;
+  }
+
+  private async lookupUser(
+    cacheKey: string,
+    pattern: string,
+    payload: Record<string, string>,
+  ): Promise<{ id: string; cityId?: string | null } | null> {
+    const key = `core:feed:viewer:${cacheKey}`;
+    const cached = await this.redis.get<{ id: string; cityId?: string | null }>(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const user = await firstValueFrom(
+        this.client
+          .send<{ id: string; cityId?: string | null } | null>(pattern, payload)
+          .pipe(timeout(5000)),
+      );
+      if (!user) {
+        return null;
+      }
+      const viewer = { id: user.id, cityId: user.cityId ?? null };
+      await this.redis.set(key, viewer, VIEWER_CACHE_TTL_SECONDS);
+      return viewer;
+    } catch (error) {
+      // The feed still works without favorites or home city
+      this.logger.warn(`Could not resolve feed viewer ${cacheKey}: ${(error as Error)?.message}`);
+      return null;
+    }
+  }
+
+  private seenKey(viewerKey: string): string {
+    return `core:feed:seen:${viewerKey}`;
+  }
+
+  private encodeCursor(cursor: FeedCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(value: string): FeedCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as FeedCursor;
+      if (
+        typeof cursor.s === 'number' &&
+        typeof cursor.id === 'string' &&
+        !Number.isNaN(new Date(cursor.t).getTime())
+      ) {
+        return cursor;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new BadRequestException('Invalid feed cursor');
+  }
+}
@@ -0,0 +1,124 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { Prisma } from '@prisma/client-core';
+import { ListingFilterDto } from '@heidi/contracts';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+const DEFAULT_RADIUS_KM = 10;
+
+/**
+ * Listings (after the listing filters) considered per spatial query. Responses flag
+ * results that reached it with `meta.totalCapped`.
+ */
+export const GEO_CANDIDATE_LIMIT = 5000;
+
+export interface ListingGeoFilter {
+  near?: { lat: number; lng: number; radiusKm: number };
+  bbox?: { minLng: number; minLat: number; maxLng: number; maxLat: number };
+}
+
+@Injectable()
+export class ListingGeoService {
+  constructor(private readonly prisma: PrismaCoreService) {}
+
+  /**
+   * Spatial part of a listing filter, or null when the filter has none
+   */
+  parseFilter(filter: ListingFilterDto): ListingGeoFilter | null {
+    const geo: ListingGeoFilter = {};
+
+    if (filter.near) {
+      const [lat, lng] = filter.near.split(',').map(Number);
+      this.assertCoordinate(lat, lng, 'near');
+      geo.near = { lat, lng, radiusKm: filter.radiusKm ?? DEFAULT_RADIUS_KM };
+    }
+
+    if (filter.bbox) {
+      const [minLng, minLat, maxLng, maxLat] = filter.bbox.split(',').map(Number);
+      this.assertCoordinate(minLat, minLng, 'bbox');
+      this.assertCoordinate(maxLat, maxLng, 'bbox');
+      if (minLng > maxLng || minLat > maxLat) {
+        throw new BadRequestException('bbox must be "minLng,minLat,maxLng,maxLat"');
+      }
+      geo.bbox = { minLng, minLat, maxLng, maxLat };
+    }
+
+    return geo.near || geo.bbox ? geo : null;
+  }
+
+  /**
+   * IDs of listings matching the spatial filter and `filter`, nearest first
+   * when `near` is given, mapped to their distance in kilometers. Both spatial
+   * filters are narrowed with a box on the GiST-indexed geoPoint before
+   * distances are computed.
+   */
+  async findMatches(
+    geo: ListingGeoFilter,
+    filter: Prisma.Sql,
+  ): Promise<Map<string, number | undefined>> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`"geoPoint" IS NOT NULL`, filter];
+
+    if (geo.bbox) {
+      conditions.push(this.withinBox(geo.bbox));
+    }
+
+    let distance: Prisma.Sql = Prisma.sql`NULL::double precision`;
+    if (geo.near) {
+      const { lat, lng, radiusKm } = geo.near;
+      const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+      const lngDelta =
+        radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+
+      distance = this.distanceKm(lat, lng);
+      conditions.push(
+        this.withinBox({
+          minLng: lng - lngDelta,
+          minLat: lat - latDelta,
+          maxLng: lng + lngDelta,
+          maxLat: lat + latDelta,
+        }),
+        Prisma.sql`${distance} <= ${radiusKm}::double precision`,
+      );
+    }
+
+    const rows = await this.prisma.$queryRaw<{ id: string; distanceKm: number | null }[]>`
+      SELECT "id", ${distance} AS "distanceKm"
+      FROM "listings"
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY "distanceKm" ASC NULLS LAST, "id"
+      LIMIT ${GEO_CANDIDATE_LIMIT}
+    `;
+
+    return new Map(
+      rows.map((row) => [row.id, row.distanceKm === null ? undefined : Number(row.distanceKm)]),
+    );
+  }
+
+  private withinBox(box: NonNullable<ListingGeoFilter['bbox']>): Prisma.Sql {
+    return Prisma.sql`"geoPoint" <@ box(
+      point(${box.minLng}::double precision, ${box.minLat}::double precision),
+      point(${box.maxLng}::double precision, ${box.maxLat}::double precision)
+    )`;
+  }
+
+  /** Haversine distance between the listing and a point */
+  distanceKm(lat: number, lng: number): Prisma.Sql {
+    return Prisma.sql`(${EARTH_RADIUS_KM} * 2 * asin(sqrt(least(1,
+      power(sin(radians("geoLat"::double precision - ${lat}::double precision) / 2), 2)
+      + cos(radians(${lat}::double precision)) * cos(radians("geoLat"::double precision))
+      * power(sin(radians("geoLng"::double precision - ${lng}::double precision) / 2), 2)
+    ))))`;
+  }
+
+  private assertCoordinate(lat: number, lng: number, param: string) {
+    if (
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      throw new BadRequestException(`${param} contains an invalid coordinate`);
+    }
+  }
+}
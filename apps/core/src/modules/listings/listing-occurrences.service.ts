@@ -0,0 +1,419 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { DateTime } from 'luxon';
+import { PrismaCoreService } from '@heidi/prisma';
+import {
+  ListingRecurrenceFreq,
+  ListingTimeInterval,
+  ListingTimeIntervalException,
+  Prisma,
+} from '@prisma/client-core';
+import { ListingOccurrenceDto, ListingOccurrencesDto } from '@heidi/contracts';
+
+const DEFAULT_TIMEZONE = 'Europe/Berlin';
+const DEFAULT_WINDOW_DAYS = 7;
+const MAX_WINDOW_DAYS = 366;
+const MAX_OCCURRENCES_PER_LISTING = 1000;
+
+const WEEKDAY_NUMBERS: Record<string, number> = {
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+  sunday: 7,
+};
+
+type IntervalSource = Pick<
+  ListingTimeInterval,
+  'id' | 'weekdays' | 'start' | 'end' | 'tz' | 'freq' | 'interval' | 'repeatUntil'
+>;
+
+type ExceptionSource = Pick<
+  ListingTimeIntervalException,
+  'date' | 'opensAt' | 'closesAt' | 'isClosed'
+>;
+
+interface OccurrenceSource {
+  id: string;
+  slug: string;
+  title: string;
+  timezone: string | null;
+  eventStart: Date | null;
+  eventEnd: Date | null;
+  timeIntervals: IntervalSource[];
+  timeIntervalExceptions: ExceptionSource[];
+}
+
+interface Occurrence {
+  start: DateTime;
+  end: DateTime;
+  intervalId: string | null;
+  isException: boolean;
+}
+
+export interface OccurrenceWindow {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Expands listing time intervals into concrete occurrences. Recurrences are
+ * evaluated on the wall clock of the interval's timezone, so an event at
+ * 10:00 stays at 10:00 across DST changes. Exceptions replace the regular
+ * occurrences of their date: closed, or open with their own hours.
+ */
+@Injectable()
+export class ListingOccurrencesService {
+  constructor(private readonly prisma: PrismaCoreService) {}
+
+  resolveWindow(from?: string, to?: string): OccurrenceWindow {
+    const start = from ? new Date(from) : new Date();
+    const end = to ? new Date(to) : new Date(start.getTime() + DEFAULT_WINDOW_DAYS * 86_400_000);
+
+    if (end <= start) {
+      throw new BadRequestException('to must be after from');
+    }
+    if (end.getTime() - start.getTime() > MAX_WINDOW_DAYS * 86_400_000) {
+      throw new BadRequestException(`The window may span at most ${MAX_WINDOW_DAYS} days`);
+    }
+
+    return { from: start, to: end };
+  }
+
+  async getListingOccurrences(
+    listingId: string,
+    window: OccurrenceWindow,
+  ): Promise<ListingOccurrencesDto> {
+    const listing = await this.prisma.listing.findUnique({
+      where: { id: listingId },
+      select: this.occurrenceSelect(window),
+    });
+
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    return this.toDto(listing, this.expand(listing, window));
+  }
+
+  /**
+   * Listings matching `where` that occur within the window, in the order of
+   * their first occurrence
+   */
+  async listOccurrences(
+    where: Prisma.ListingWhereInput,
+    window: OccurrenceWindow,
+    pagination: { page: number; pageSize: number },
+  ) {
+    const listings = await this.prisma.listing.findMany({
+      where: { AND: [where, this.mayOccurWithin(window)] },
+      select: this.occurrenceSelect(window),
+    });
+
+    const matches = listings
+      .map((listing) => ({ listing, occurrences: this.expand(listing, window) }))
+      .filter((match) => match.occurrences.length > 0)
+      .sort((a, b) => a.occurrences[0].start.toMillis() - b.occurrences[0].start.toMillis());
+
+    const { page, pageSize } = pagination;
+    const total = matches.length;
+
+    return {
+      items: matches
+        .slice((page - 1) * pageSize, page * pageSize)
+        .map((match) => this.toDto(match.listing, match.occurrences)),
+      meta: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      },
+    };
+  }
+
+  /**
+   * IDs of listings matching `where` that are open (or taking place) at `at`
+   */
+  async findOpenListingIds(where: Prisma.ListingWhereInput, at: Date): Promise<Set<string>> {
+    const window = { from: at, to: new Date(at.getTime() + 1) };
+    const listings = await this.prisma.listing.findMany({
+      where: { AND: [where, this.mayOccurWithin(window)] },
+      select: this.occurrenceSelect(window),
+    });
+
+    const atMillis = at.getTime();
+    return new Set(
+      listings
+        .filter((listing) =>
+          this.expand(listing, window).some(
+            (occurrence) =>
+              occurrence.start.toMillis() <= atMillis && atMillis < occurrence.end.toMillis(),
+          ),
+        )
+        .map((listing) => listing.id),
+    );
+  }
+
+  private expand(listing: OccurrenceSource, window: OccurrenceWindow): Occurrence[] {
+    const from = DateTime.fromJSDate(window.from);
+    const to = DateTime.fromJSDate(window.to);
+    const timezone = this.resolveZone(listing.timezone ?? listing.timeIntervals[0]?.tz);
+
+    let occurrences: Occurrence[] = [];
+    if (listing.timeIntervals.length > 0) {
+      for (const interval of listing.timeIntervals) {
+        occurrences.push(...this.expandInterval(interval, from, to, timezone));
+      }
+    } else if (listing.eventStart) {
+      occurrences.push({
+        start: DateTime.fromJSDate(listing.eventStart, { zone: timezone }),
+        end: DateTime.fromJSDate(listing.eventEnd ?? listing.eventStart, { zone: timezone }),
+        intervalId: null,
+        isException: false,
+      });
+    }
+
+    const exceptions = listing.timeIntervalExceptions.filter(
+      (exception) => exception.isClosed || (exception.opensAt && exception.closesAt),
+    );
+    if (exceptions.length > 0) {
+      const exceptionDates = new Set(exceptions.map((exception) => this.dateKey(exception.date)));
+      occurrences = occurrences.filter(
+        (occurrence) => !exceptionDates.has(occurrence.start.toISODate() ?? ''),
+      );
+      for (const exception of exceptions) {
+        const special = this.exceptionOccurrence(exception, timezone);
+        if (special) {
+          occurrences.push(special);
+        }
+      }
+    }
+
+    return occurrences
+      .filter((occurrence) => occurrence.end > from && occurrence.start < to)
+      .sort((a, b) => a.start.toMillis() - b.start.toMillis())
+      .slice(0, MAX_OCCURRENCES_PER_LISTING);
+  }
+
+  private expandInterval(
+    interval: IntervalSource,
+    from: DateTime,
+    to: DateTime,
+    fallbackZone: string,
+  ): Occurrence[] {
+    const zone = this.resolveZone(interval.tz, fallbackZone);
+    const first = DateTime.fromJSDate(interval.start, { zone });
+    const firstEnd = DateTime.fromJSDate(interval.end, { zone });
+
+    if (interval.freq === ListingRecurrenceFreq.NONE) {
+      return [{ start: first, end: firstEnd, intervalId: interval.id, isException: false }];
+    }
+
+    // Occurrences keep the wall-clock times of the first one, also across DST changes
+    const firstDay = first.startOf('day');
+    const endDayOffset = Math.max(
+      0,
+      Math.round(firstEnd.startOf('day').diff(firstDay, 'days').days),
+    );
+    const startTime = { hour: first.hour, minute: first.minute, second: first.second };
+    const endTime = { hour: firstEnd.hour, minute: firstEnd.minute, second: firstEnd.second };
+    const until = interval.repeatUntil ? DateTime.fromJSDate(interval.repeatUntil) : null;
+    const step = Math.max(1, interval.interval || 1);
+
+    // Days whose occurrence may still overlap the window
+    const lower = from
+      .setZone(zone)
+      .startOf('day')
+      .minus({ days: endDayOffset + 1 });
+    const upper = to.setZone(zone).endOf('day');
+
+    const occurrences: Occurrence[] = [];
+    for (const day of this.recurrenceDays(interval, firstDay, step, lower, upper)) {
+      const start = day.set(startTime);
+      if (day < firstDay || start < first) {
+        continue;
+      }
+      if (until && start > until) {
+        break;
+      }
+
+      let end = day.plus({ days: endDayOffset }).set(endTime);
+      if (end <= start) {
+        end = start.plus(firstEnd.diff(first));
+      }
+      occurrences.push({ start, end, intervalId: interval.id, isException: false });
+
+      if (occurrences.length >= MAX_OCCURRENCES_PER_LISTING) {
+        break;
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Local days (in ascending order) on which the interval recurs, from the
+   * first recurrence at or after `lower` up to `upper`
+   */
+  private *recurrenceDays(
+    interval: IntervalSource,
+    firstDay: DateTime,
+    step: number,
+    lower: DateTime,
+    upper: DateTime,
+  ): Generator<DateTime> {
+    switch (interval.freq) {
+      case ListingRecurrenceFreq.DAILY: {
+        const skip = Math.max(0, Math.floor(lower.diff(firstDay, 'days').days / step));
+        for (let n = skip; ; n++) {
+          const day = firstDay.plus({ days: n * step });
+          if (day > upper) {
+            return;
+          }
+          yield day;
+        }
+      }
+      case ListingRecurrenceFreq.WEEKLY: {
+        const weekdays = this.weekdayNumbers(interval.weekdays, firstDay.weekday);
+        const firstWeek = firstDay.startOf('week');
+        const skip = Math.max(0, Math.floor(lower.diff(firstWeek, 'weeks').weeks / step));
+        for (let n = skip; ; n++) {
+          const week = firstWeek.plus({ weeks: n * step });
+          if (week > upper) {
+            return;
+          }
+          for (const weekday of weekdays) {
+            yield week.plus({ days: weekday - 1 });
+          }
+        }
+      }
+      case ListingRecurrenceFreq.MONTHLY:
+      case ListingRecurrenceFreq.YEARLY: {
+        const unit = interval.freq === ListingRecurrenceFreq.MONTHLY ? 'months' : 'years';
+        const skip = Math.max(0, Math.floor(lower.diff(firstDay, unit).get(unit) / step) - 1);
+        for (let n = skip; ; n++) {
+          const day = firstDay.plus({ [unit]: n * step });
+          if (day > upper) {
+            return;
+          }
+          // Months without the day (e.g. the 31st) are skipped rather than clamped
+          if (day.day === firstDay.day) {
+            yield day;
+          }
+        }
+      }
+      default:
+        return;
+    }
+  }
+
+  private exceptionOccurrence(exception: ExceptionSource, zone: string): Occurrence | null {
+    if (exception.isClosed || !exception.opensAt || !exception.closesAt) {
+      return null;
+    }
+
+    const date = this.dateKey(exception.date);
+    const start = DateTime.fromISO(`${date}T${exception.opensAt}`, { zone });
+    let end = DateTime.fromISO(`${date}T${exception.closesAt}`, { zone });
+    if (!start.isValid || !end.isValid) {
+      return null;
+    }
+    if (end <= start) {
+      end = end.plus({ days: 1 }); // Closes after midnight
+    }
+
+    return { start, end, intervalId: null, isException: true };
+  }
+
+  private weekdayNumbers(weekdays: string[], fallback: number): number[] {
+    const numbers = weekdays
+      .map((weekday) => WEEKDAY_NUMBERS[weekday.toLowerCase()])
+      .filter((weekday): weekday is number => weekday !== undefined);
+    return numbers.length > 0 ? Array.from(new Set(numbers)).sort((a, b) => a - b) : [fallback];
+  }
+
+  private resolveZone(zone?: string | null, fallback = DEFAULT_TIMEZONE): string {
+    return zone && DateTime.local().setZone(zone).isValid ? zone : fallback;
+  }
+
+  /** Exception dates are stored as midnight UTC of the local date */
+  private dateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Cheap pre-filter for listings that can have an occurrence in the window
+   */
+  private mayOccurWithin(window: OccurrenceWindow): Prisma.ListingWhereInput {
+    const dayBefore = new Date(window.from.getTime() - 86_400_000);
+    const dayAfter = new Date(window.to.getTime() + 86_400_000);
+
+    return {
+      OR: [
+        {
+          timeIntervals: {
+            some: {
+              start: { lte: window.to },
+              OR: [{ repeatUntil: null }, { repeatUntil: { gte: dayBefore } }],
+            },
+          },
+        },
+        { timeIntervalExceptions: { some: { date: { gte: dayBefore, lte: dayAfter } } } },
+        {
+          timeIntervals: { none: {} },
+          eventStart: { lte: window.to },
+          OR: [
+            { eventEnd: { gte: window.from } },
+            { eventEnd: null, eventStart: { gte: window.from } },
+          ],
+        },
+      ],
+    };
+  }
+
+  private occurrenceSelect(window: OccurrenceWindow) {
+    const dayBefore = new Date(window.from.getTime() - 86_400_000);
+    const dayAfter = new Date(window.to.getTime() + 86_400_000);
+
+    return {
+      id: true,
+      slug: true,
+      title: true,
+      timezone: true,
+      eventStart: true,
+      eventEnd: true,
+      timeIntervals: {
+        select: {
+          id: true,
+          weekdays: true,
+          start: true,
+          end: true,
+          tz: true,
+          freq: true,
+          interval: true,
+          repeatUntil: true,
+        },
+      },
+      timeIntervalExceptions: {
+        where: { date: { gte: dayBefore, lte: dayAfter } },
+        select: { date: true, opensAt: true, closesAt: true, isClosed: true },
+      },
+    } satisfies Prisma.ListingSelect;
+  }
+
+  private toDto(listing: OccurrenceSource, occurrences: Occurrence[]): ListingOccurrencesDto {
+    return {
+      listingId: listing.id,
+      slug: listing.slug,
+      title: listing.title,
+      timezone: this.resolveZone(listing.timezone ?? listing.timeIntervals[0]?.tz),
+      occurrences: occurrences.map<ListingOccurrenceDto>((occurrence) => ({
+        start: occurrence.start.toISO() ?? occurrence.start.toJSDate().toISOString(),
+        end: occurrence.end.toISO() ?? occurrence.end.toJSDate().toISOString(),
+        intervalId: occurrence.intervalId,
+        isException: occurrence.isException,
+      })),
+    };
+  }
+}
@@ -0,0 +1,366 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { ListingRevision, ListingRevisionAction, Prisma } from '@prisma/client-core';
+import {
+  ListingCategoryReferenceDto,
+  ListingCityReferenceDto,
+  ListingRevisionDiffDto,
+  ListingRevisionDto,
+  ListingRevisionSummaryDto,
+  ListingTimeIntervalExceptionInputDto,
+  ListingTimeIntervalInputDto,
+  Weekday,
+} from '@heidi/contracts';
+
+const revisionSource = Prisma.validator<Prisma.ListingDefaultArgs>()({
+  include: {
+    categories: true,
+    cities: true,
+    media: true,
+    timeIntervals: true,
+    timeIntervalExceptions: true,
+  },
+});
+
+type RevisionSource = Prisma.ListingGetPayload<typeof revisionSource>;
+
+/** Listing columns kept in revision snapshots */
+const SNAPSHOT_FIELDS = [
+  'slug',
+  'title',
+  'summary',
+  'content',
+  'status',
+  'moderationStatus',
+  'visibility',
+  'isFeatured',
+  'featuredUntil',
+  'publishAt',
+  'expireAt',
+  'languageCode',
+  'sourceUrl',
+  'heroImageUrl',
+  'metadata',
+  'reviewNotes',
+  'sourceType',
+  'externalSource',
+  'externalId',
+  'primaryCityId',
+  'venueName',
+  'address',
+  'geoLat',
+  'geoLng',
+  'timezone',
+  'contactPhone',
+  'contactEmail',
+  'website',
+  'eventStart',
+  'eventEnd',
+  'isAllDay',
+  'organizerName',
+  'organizerContact',
+  'registrationUrl',
+  'isArchived',
+] as const satisfies readonly (keyof RevisionSource)[];
+
+export interface ListingRevisionActor {
+  userId?: string | null;
+  service?: string | null;
+  note?: string | null;
+  restoredFromRevision?: number;
+}
+
+export type ListingRevisionSnapshot = Record<string, unknown>;
+
+/**
+ * Content a revision restores. Moderation state, scheduling, sync metadata
+ * and media stay as they are: media files may have been deleted from storage
+ * since the revision was taken.
+ */
+export interface ListingRevisionRestore {
+  data: Prisma.ListingUpdateInput;
+  categories: ListingCategoryReferenceDto[];
+  cities: ListingCityReferenceDto[];
+  timeIntervals: ListingTimeIntervalInputDto[];
+  timeIntervalExceptions: ListingTimeIntervalExceptionInputDto[];
+}
+
+/**
+ * Immutable revision history of listings. Each revision stores a full
+ * snapshot and the fields that changed compared to the previous revision.
+ */
+@Injectable()
+export class ListingRevisionsService {
+  constructor(private readonly prisma: PrismaCoreService) {}
+
+  /**
+   * Records the current state of the listing as a new revision. Call it
+   * within the transaction of the change. Nothing is recorded when the
+   * snapshot equals the previous revision, except for the first one.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    listingId: string,
+    action: ListingRevisionAction,
+    actor: ListingRevisionActor = {},
+  ): Promise<ListingRevision | null> {
+    const listing = await tx.listing.findUnique({
+      where: { id: listingId },
+      include: revisionSource.include,
+    });
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    const previous = await tx.listingRevision.findFirst({
+      where: { listingId },
+      orderBy: { revision: 'desc' },
+      select: { revision: true, snapshot: true },
+    });
+
+    const snapshot = this.toSnapshot(listing);
+    const changedFields = previous
+      ? this.changedFields(previous.snapshot as ListingRevisionSnapshot, snapshot)
+      : Object.keys(snapshot);
+
+    if (previous && changedFields.length === 0 && action !== ListingRevisionAction.RESTORE) {
+      return null;
+    }
+
+    return tx.listingRevision.create({
+      data: {
+        listingId,
+        revision: (previous?.revision ?? 0) + 1,
+        action,
+        snapshot: snapshot as Prisma.InputJsonObject,
+        changedFields,
+        actorUserId: actor.userId ?? null,
+        actorService: actor.service ?? null,
+        note: actor.note ?? null,
+        restoredFromRevision: actor.restoredFromRevision ?? null,
+      },
+    });
+  }
+
+  async listRevisions(listingId: string, pagination: { page: number; pageSize: number }) {
+    const { page, pageSize } = pagination;
+    const [revisions, total] = await Promise.all([
+      this.prisma.listingRevision.findMany({
+        where: { listingId },
+        orderBy: { revision: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+        omit: { snapshot: true },
+      }),
+      this.prisma.listingRevision.count({ where: { listingId } }),
+    ]);
+
+    return {
+      items: revisions.map((revision) => this.toSummary(revision)),
+      meta: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      },
+    };
+  }
+
+  async getRevision(listingId: string, revision: number): Promise<ListingRevisionDto> {
+    const found = await this.findRevision(this.prisma, listingId, revision);
+    return {
+      ...this.toSummary(found),
+      snapshot: found.snapshot as ListingRevisionSnapshot,
+    };
+  }
+
+  /**
+   * Field-level changes between two revisions, by default between the
+   * latest revision and the one before it
+   */
+  async diff(listingId: string, from?: number, to?: number): Promise<ListingRevisionDiffDto> {
+    const newer = to
+      ? await this.findRevision(this.prisma, listingId, to)
+      : await this.prisma.listingRevision.findFirst({
+          where: { listingId },
+          orderBy: { revision: 'desc' },
+        });
+    if (!newer) {
+      throw new NotFoundException('Listing has no revisions');
+    }
+
+    const older = await this.findRevision(this.prisma, listingId, from ?? newer.revision - 1);
+    const before = older.snapshot as ListingRevisionSnapshot;
+    const after = newer.snapshot as ListingRevisionSnapshot;
+
+    return {
+      listingId,
+      fromRevision: older.revision,
+      toRevision: newer.revision,
+      changes: this.changedFields(before, after).map((field) => ({
+        field,
+        before: before[field] ?? null,
+        after: after[field] ?? null,
+      })),
+    };
+  }
+
+  async getRestore(
+    tx: Prisma.TransactionClient,
+    listingId: string,
+    revision: number,
+  ): Promise<ListingRevisionRestore> {
+    const found = await this.findRevision(tx, listingId, revision);
+    const snapshot = found.snapshot as ListingRevisionSnapshot;
+    const date = (value: unknown) => (typeof value === 'string' ? new Date(value) : null);
+    const decimal = (value: unknown) =>
+      typeof value === 'number' ? new Prisma.Decimal(value) : null;
+    const text = (value: unknown) => (typeof value === 'string' ? value : null);
+
+    return {
+      data: {
+        title: snapshot.title as string,
+        summary: text(snapshot.summary),
+        content: snapshot.content as string,
+        languageCode: text(snapshot.languageCode),
+        sourceUrl: text(snapshot.sourceUrl),
+        metadata: (snapshot.metadata as Prisma.InputJsonValue | null) ?? Prisma.DbNull,
+        primaryCityId: text(snapshot.primaryCityId),
+        venueName: text(snapshot.venueName),
+        address: text(snapshot.address),
+        geoLat: decimal(snapshot.geoLat),
+        geoLng: decimal(snapshot.geoLng),
+        timezone: text(snapshot.timezone),
+        contactPhone: text(snapshot.contactPhone),
+        contactEmail: text(snapshot.contactEmail),
+        website: text(snapshot.website),
+        eventStart: date(snapshot.eventStart),
+        eventEnd: date(snapshot.eventEnd),
+        isAllDay: Boolean(snapshot.isAllDay),
+        organizerName: text(snapshot.organizerName),
+        organizerContact: text(snapshot.organizerContact),
+        registrationUrl: text(snapshot.registrationUrl),
+      },
+      categories: (snapshot.categories ?? []) as ListingCategoryReferenceDto[],
+      cities: (snapshot.cities ?? []) as ListingCityReferenceDto[],
+      timeIntervals: (
+        (snapshot.timeIntervals ?? []) as Array<
+          Omit<ListingTimeIntervalInputDto, 'weekdays'> & { weekdays: string[] }
+        >
+      ).map((interval) => ({
+        ...interval,
+        weekdays: interval.weekdays as Weekday[],
+        repeatUntil: interval.repeatUntil ?? undefined,
+        metadata: interval.metadata ?? undefined,
+      })),
+      timeIntervalExceptions: (
+        (snapshot.timeIntervalExceptions ?? []) as ListingTimeIntervalExceptionInputDto[]
+      ).map((exception) => ({
+        ...exception,
+        opensAt: exception.opensAt ?? undefined,
+        closesAt: exception.closesAt ?? undefined,
+        metadata: exception.metadata ?? undefined,
+      })),
+    };
+  }
+
+  private async findRevision(
+    client: Prisma.TransactionClient,
+    listingId: string,
+    revision: number,
+  ): Promise<ListingRevision> {
+    const found = await client.listingRevision.findUnique({
+      where: { listingId_revision: { listingId, revision } },
+    });
+    if (!found) {
+      throw new NotFoundException(`Revision ${revision} not found`);
+    }
+    return found;
+  }
+
+  /**
+   * JSON snapshot of the listing. Relations are stored without their row IDs
+   * and in a stable order, since they are recreated on some updates.
+   */
+  private toSnapshot(listing: RevisionSource): ListingRevisionSnapshot {
+    const snapshot: ListingRevisionSnapshot = {};
+    for (const field of SNAPSHOT_FIELDS) {
+      snapshot[field] = this.toJsonValue(listing[field]);
+    }
+
+    snapshot.categories = listing.categories
+      .map((category) => ({ categoryId: category.categoryId }))
+      .sort((a, b) => a.categoryId.localeCompare(b.categoryId));
+    snapshot.cities = listing.cities
+      .map((city) => ({
+        cityId: city.cityId,
+        isPrimary: city.isPrimary,
+        displayOrder: city.displayOrder,
+      }))
+      .sort((a, b) => a.displayOrder - b.displayOrder || a.cityId.localeCompare(b.cityId));
+    snapshot.media = listing.media
+      .map((media) => ({
+        type: media.type,
+        url: media.url,
+        altText: media.altText,
+        caption: media.caption,
+        order: media.order,
+      }))
+      .sort((a, b) => a.order - b.order || a.url.localeCompare(b.url));
+    snapshot.timeIntervals = listing.timeIntervals
+      .map((interval) => ({
+        weekdays: interval.weekdays,
+        start: interval.start.toISOString(),
+        end: interval.end.toISOString(),
+        tz: interval.tz,
+        freq: interval.freq,
+        interval: interval.interval,
+        repeatUntil: interval.repeatUntil?.toISOString() ?? null,
+        metadata: interval.metadata,
+      }))
+      .sort((a, b) => a.start.localeCompare(b.start));
+    snapshot.timeIntervalExceptions = listing.timeIntervalExceptions
+      .map((exception) => ({
+        date: exception.date.toISOString(),
+        opensAt: exception.opensAt,
+        closesAt: exception.closesAt,
+        isClosed: exception.isClosed,
+        metadata: exception.metadata,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return snapshot;
+  }
+
+  private toJsonValue(value: unknown): unknown {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Prisma.Decimal.isDecimal(value)) {
+      return (value as Prisma.Decimal).toNumber();
+    }
+    return value ?? null;
+  }
+
+  private changedFields(before: ListingRevisionSnapshot, after: ListingRevisionSnapshot): string[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(fields).filter(
+      (field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null),
+    );
+  }
+
+  private toSummary(revision: Omit<ListingRevision, 'snapshot'>): ListingRevisionSummaryDto {
+    return {
+      id: revision.id,
+      listingId: revision.listingId,
+      revision: revision.revision,
+      action: revision.action,
+      changedFields: revision.changedFields,
+      actorUserId: revision.actorUserId,
+      actorService: revision.actorService,
+      note: revision.note,
+      restoredFromRevision: revision.restoredFromRevision,
+      createdAt: revision.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,232 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { Prisma, ListingSourceType } from '@prisma/client-core';
+import {
+  ListingDateBucket,
+  ListingFacetBucketDto,
+  ListingSearchFacetsDto,
+  ListingSearchHighlightDto,
+} from '@heidi/contracts';
+
+/**
+ * Text search configurations listing_search_config() maps language codes to
+ * (see the add_listing_search migration). A search term is parsed with each of
+ * them so it matches documents regardless of the listing's language.
+ */
+const LISTING_SEARCH_CONFIGS = [
+  'simple',
+  'german',
+  'english',
+  'danish',
+  'norwegian',
+  'swedish',
+  'russian',
+  'turkish',
+  'arabic',
+  'french',
+  'spanish',
+  'italian',
+  'dutch',
+];
+
+/**
+ * Best filtered matches considered per search; sorting, totals and facets apply within
+ * them. Responses flag results that reached it with `meta.totalCapped`.
+ */
+export const SEARCH_CANDIDATE_LIMIT = 1000;
+
+/**
+ * Text the substring fallback matches on. Must equal the expression of the
+ * listings_search_text_trgm_idx index (see the add_listing_search_trigram migration).
+ */
+const SEARCH_TEXT = Prisma.sql`(
+  coalesce("title", '') || ' ' || coalesce("summary", '') || ' ' || coalesce("venueName", '')
+)`;
+
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const SNIPPET_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ListingSearchMatch {
+  id: string;
+  rank: number;
+}
+
+export interface ListingFacetSource {
+  id: string;
+  sourceType: ListingSourceType;
+  eventStart: Date | null;
+  eventEnd: Date | null;
+}
+
+@Injectable()
+export class ListingSearchService {
+  constructor(private readonly prisma: PrismaCoreService) {}
+
+  /**
+   * Words of a search term; every word must match, as a prefix of a
+   * (stemmed) word of the listing.
+   */
+  parseTerms(search: string): string[] {
+    return search.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  }
+
+  /**
+   * Ranked full-text matches among the listings matching `filter`. German
+   * compounds are not split by the dictionaries, so a substring match on
+   * title, summary and venue is accepted as well ("markt" finds
+   * "Weihnachtsmarkt"). Both alternatives are index-backed (GIN on the search
+   * vector, trigram GIN on the text), one ILIKE per term so each can use it.
+   */
+  async findMatches(terms: string[], filter: Prisma.Sql): Promise<ListingSearchMatch[]> {
+    const query = this.toTsQuery(terms);
+    const patterns = terms.map((term) => `%${term}%`);
+    const substringMatch = Prisma.join(
+      patterns.map((pattern) => Prisma.sql`${SEARCH_TEXT} ILIKE ${pattern}`),
+      ' AND ',
+    );
+
+    // Titles containing every term as a substring get a small boost on top
+    const rows = await this.prisma.$queryRaw<{ id: string; rank: number }[]>`
+      SELECT "id",
+        ts_rank_cd("searchVector", ${query})
+          + CASE WHEN "title" ILIKE ALL (${patterns}) THEN 0.05 ELSE 0 END AS "rank"
+      FROM "listings"
+      WHERE ("searchVector" @@ ${query} OR (${substringMatch}))
+        AND ${filter}
+      ORDER BY "rank" DESC
+      LIMIT ${SEARCH_CANDIDATE_LIMIT}
+    `;
+
+    return rows.map((row) => ({ id: row.id, rank: Number(row.rank) }));
+  }
+
+  /**
+   * Title and content fragments with the matched terms wrapped in <mark>,
+   * using each listing's own dictionary.
+   */
+  async getHighlights(
+    listingIds: string[],
+    terms: string[],
+  ): Promise<Map<string, ListingSearchHighlightDto>> {
+    if (listingIds.length === 0) {
+      return new Map();
+    }
+
+    const tsquery = this.toPrefixQuery(terms);
+    const rows = await this.prisma.$queryRaw<{ id: string; title: string; snippet: string }[]>`
+      SELECT "id",
+        ts_headline(
+          listing_search_config("languageCode"),
+          "title",
+          to_tsquery(listing_search_config("languageCode"), ${tsquery}),
+          ${TITLE_HEADLINE_OPTIONS}
+        ) AS "title",
+        ts_headline(
+          listing_search_config("languageCode"),
+          regexp_replace(concat_ws(' ', "summary", "content"), '<[^>]*>', ' ', 'g'),
+          to_tsquery(listing_search_config("languageCode"), ${tsquery}),
+          ${SNIPPET_HEADLINE_OPTIONS}
+        ) AS "snippet"
+      FROM "listings"
+      WHERE "id" IN (${Prisma.join(listingIds)})
+    `;
+
+    return new Map(rows.map((row) => [row.id, { title: row.title, snippet: row.snippet }]));
+  }
+
+  async getFacets(listings: ListingFacetSource[]): Promise<ListingSearchFacetsDto> {
+    const listingIds = listings.map((listing) => listing.id);
+
+    const [categoryCounts, cityCounts] = await Promise.all([
+      this.prisma.listingCategory.groupBy({
+        by: ['categoryId'],
+        where: { listingId: { in: listingIds } },
+        _count: { _all: true },
+      }),
+      this.prisma.listingCity.groupBy({
+        by: ['cityId'],
+        where: { listingId: { in: listingIds } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const categories = await this.prisma.category.findMany({
+      where: { id: { in: categoryCounts.map((row) => row.categoryId) } },
+      select: { id: true, name: true },
+    });
+    const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+
+    const sourceTypes = new Map<string, number>();
+    const dateBuckets = new Map<string, number>(
+      Object.values(ListingDateBucket).map((bucket) => [bucket, 0]),
+    );
+    const now = new Date();
+    for (const listing of listings) {
+      sourceTypes.set(listing.sourceType, (sourceTypes.get(listing.sourceType) ?? 0) + 1);
+      const bucket = this.getDateBucket(listing, now);
+      dateBuckets.set(bucket, (dateBuckets.get(bucket) ?? 0) + 1);
+    }
+
+    return {
+      categories: this.sortBuckets(
+        categoryCounts.map((row) => ({
+          value: row.categoryId,
+          label: categoryNames.get(row.categoryId),
+          count: row._count._all,
+        })),
+      ),
+      cities: this.sortBuckets(
+        cityCounts.map((row) => ({ value: row.cityId, count: row._count._all })),
+      ),
+      sourceTypes: this.sortBuckets(
+        Array.from(sourceTypes, ([value, count]) => ({ value, count })),
+      ),
+      // Date buckets keep their chronological order
+      dateBuckets: Array.from(dateBuckets, ([value, count]) => ({ value, count })),
+    };
+  }
+
+  private getDateBucket(listing: ListingFacetSource, now: Date): ListingDateBucket {
+    if (!listing.eventStart) {
+      return ListingDateBucket.UNDATED;
+    }
+    if ((listing.eventEnd ?? listing.eventStart) < now) {
+      return ListingDateBucket.PAST;
+    }
+
+    const startOfTomorrow = new Date(now);
+    startOfTomorrow.setHours(24, 0, 0, 0);
+
+    const start = listing.eventStart.getTime();
+    if (start < startOfTomorrow.getTime()) {
+      return ListingDateBucket.TODAY;
+    }
+    if (start < now.getTime() + 7 * DAY_MS) {
+      return ListingDateBucket.NEXT_7_DAYS;
+    }
+    if (start < now.getTime() + 30 * DAY_MS) {
+      return ListingDateBucket.NEXT_30_DAYS;
+    }
+    return ListingDateBucket.LATER;
+  }
+
+  private sortBuckets(buckets: ListingFacetBucketDto[]): ListingFacetBucketDto[] {
+    return buckets.sort((a, b) => b.count - a.count);
+  }
+
+  private toPrefixQuery(terms: string[]): string {
+    // Terms only contain letters and digits, so they cannot inject tsquery operators
+    return terms.map((term) => `${term}:*`).join(' & ');
+  }
+
+  private toTsQuery(terms: string[]): Prisma.Sql {
+    const tsquery = this.toPrefixQuery(terms);
+    const queries = LISTING_SEARCH_CONFIGS.map(
+      (config) => Prisma.sql`to_tsquery(${config}::regconfig, ${tsquery})`,
+    );
+    return Prisma.sql`(${Prisma.join(queries, ' || ')})`;
+  }
+}
@@ -7,9 +7,11 @@ import {
   HttpCode,
   HttpStatus,
   Param,
+  ParseIntPipe,
   Patch,
   Post,
   Query,
+  Res,
   UseGuards,
   UseInterceptors,
   UploadedFile,
@@ -23,12 +25,18 @@ import {
   ApiConsumes,
   ApiOperation,
   ApiParam,
+  ApiProduces,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
+import { Response } from 'express';
+import { createHash } from 'crypto';
 import {
   CreateListingDto,
+  ListingFeedQueryDto,
+  ListingFeedResponseDto,
   ListingFilterDto,
+  MarkListingsSeenDto,
   ListingModerationActionDto,
   ListingModerationDto,
   ListingResponseDto,
@@ -38,15 +46,27 @@ import {
   UnauthorizedErrorResponseDto,
   ForbiddenErrorResponseDto,
   ListingNotFoundErrorResponseDto,
+  ConflictErrorResponseDto,
   UploadHeroImageResponseDto,
   UploadMediaResponseDto,
   ListingMediaDto,
   DeleteMediaResponseDto,
+  ListingOccurrencesFilterDto,
+  ListingOccurrenceWindowDto,
+  ListingOccurrencesDto,
+  ListListingOccurrencesResponseDto,
+  ListingRevisionsQueryDto,
+  ListingRevisionDiffQueryDto,
+  ListingRevisionDto,
+  ListingRevisionDiffDto,
+  ListListingRevisionsResponseDto,
+  RestoreListingRevisionDto,
 } from '@heidi/contracts';
 import { CurrentUser, GetCurrentUser, JwtAuthGuard, Public } from '@heidi/jwt';
 import { AdminOnlyGuard, PermissionsGuard, numberToRole } from '@heidi/rbac';
 import { UserRole, ListingMediaType } from '@prisma/client-core';
 import { ListingsService } from './listings.service';
+import { ContentCacheService } from '../content-cache/content-cache.service';
 import { FileUploadService, StorageService } from '@heidi/storage';
 import { ConfigService } from '@heidi/config';
 import { LoggerService } from '@heidi/logger';
@@ -64,6 +84,7 @@ export class ListingController {
     private readonly storageService: StorageService,
     private readonly logger: LoggerService,
     private readonly prisma: PrismaCoreService,
+    private readonly contentCache: ContentCacheService,
   ) {
     this.logger.setContext(ListingController.name);
   }
@@ -101,7 +122,7 @@ export class ListingController {
   @ApiOperation({
     summary: 'List listings with filters',
     description:
-      'Retrieve listings using flexible filters including city, category, status, language, and scheduling controls. Supports pagination and sorting.',
+      'Retrieve listings using flexible filters including city, category, status, language, and scheduling controls. Supports pagination and sorting. With `search`, results are ranked by full-text relevance and include highlights and facet counts.',
   })
   @ApiResponse({
     status: 200,
@@ -236,6 +257,119 @@ export class ListingController {
     return this.listingsService.listListings(filter, userId);
   }
 
+  @Public()
+  @Get('feed')
+  @ApiOperation({
+    summary: 'Get a personalized listing feed',
+    description:
+      'Approved listings ranked for the caller by the categories of their favorites, proximity to `near` or their home city, recency, upcoming events and featured status. Expired and already seen listings are left out. Callers without a token pass their guestId. Use nextCursor to load the next page.',
+  })
+  @ApiResponse({ status: 200, type: ListingFeedResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or invalid cursor',
+    type: ValidationErrorResponseDto,
+  })
+  async getFeed(@Query() query: ListingFeedQueryDto, @GetCurrentUser('userId') userId?: string) {
+    return this.listingsService.getFeed(query, userId);
+  }
+
+  @Public()
+  @Post('feed/seen')
+  @ApiOperation({
+    summary: 'Mark listings as seen',
+    description:
+      'Seen listings are left out of later feeds for 30 days. Callers without a token pass their guestId.',
+  })
+  @ApiBody({
+    type: MarkListingsSeenDto,
+    examples: {
+      seen: {
+        summary: 'Listings shown to a guest',
+        value: {
+          listingIds: ['lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4', 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW5'],
+          guestId: 'guest_device-123_1737363600000',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 204, description: 'Listings marked as seen' })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed or caller not identified',
+    type: ValidationErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async markFeedSeen(@Body() dto: MarkListingsSeenDto, @GetCurrentUser('userId') userId?: string) {
+    await this.listingsService.markFeedListingsSeen(dto.listingIds, userId, dto.guestId);
+  }
+
+  @Public()
+  @Get('occurrences')
+  @ApiOperation({
+    summary: 'List occurrences of listings',
+    description:
+      'Expand the opening hours and event dates of the listings matching the filters into concrete occurrences within a window, with exceptions applied. Only listings occurring in the window are returned, ordered by their first occurrence.',
+  })
+  @ApiResponse({ status: 200, type: ListListingOccurrencesResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed for query parameters',
+    type: ValidationErrorResponseDto,
+  })
+  async listOccurrences(@Query() filter: ListingOccurrencesFilterDto) {
+    return this.listingsService.listOccurrences(filter);
+  }
+
+  @Public()
+  @Get(':id/occurrences')
+  @ApiOperation({
+    summary: 'Get occurrences of a listing',
+    description:
+      'Expand the opening hours or event dates of a listing into concrete occurrences within a window, with exceptions applied.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiResponse({ status: 200, type: ListingOccurrencesDto })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  async getOccurrences(@Param('id') id: string, @Query() query: ListingOccurrenceWindowDto) {
+    return this.listingsService.getListingOccurrences(id, query);
+  }
+
+  @Public()
+  @Get(':id/calendar.ics')
+  @ApiOperation({
+    summary: 'Export listing as iCalendar',
+    description:
+      'Download the event dates or opening hours of a listing as an .ics file. Recurring time intervals are exported as RRULE with EXDATE for exceptions.',
+  })
+  @ApiProduces('text/calendar')
+  @ApiParam({
+    name: 'id',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiResponse({ status: 200, description: 'iCalendar file' })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing not found or without dates',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  async getCalendar(@Param('id') id: string, @Res() res: Response) {
+    const { filename, calendar } = await this.listingsService.getListingCalendar(id);
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(calendar);
+  }
+
   @Public()
   @Get('slug/:slug')
   @ApiOperation({
@@ -550,6 +684,11 @@ export class ListingController {
     description: 'Listing not found',
     type: ListingNotFoundErrorResponseDto,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Listing is claimed by another moderator',
+    type: ConflictErrorResponseDto,
+  })
   @HttpCode(HttpStatus.OK)
   async moderate(
     @Param('id') id: string,
@@ -604,6 +743,11 @@ export class ListingController {
     description: 'Listing not found',
     type: ListingNotFoundErrorResponseDto,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Listing is claimed by another moderator',
+    type: ConflictErrorResponseDto,
+  })
   @HttpCode(HttpStatus.OK)
   async approve(
     @Param('id') id: string,
@@ -658,6 +802,11 @@ export class ListingController {
     description: 'Listing not found',
     type: ListingNotFoundErrorResponseDto,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Listing is claimed by another moderator',
+    type: ConflictErrorResponseDto,
+  })
   @HttpCode(HttpStatus.OK)
   async requestChanges(
     @Param('id') id: string,
@@ -711,6 +860,11 @@ export class ListingController {
     description: 'Listing not found',
     type: ListingNotFoundErrorResponseDto,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Listing is claimed by another moderator',
+    type: ConflictErrorResponseDto,
+  })
   @HttpCode(HttpStatus.OK)
   async reject(
     @Param('id') id: string,
@@ -764,6 +918,11 @@ export class ListingController {
     description: 'Listing not found',
     type: ListingNotFoundErrorResponseDto,
   })
+  @ApiResponse({
+    status: 409,
+    description: 'Listing is claimed by another moderator',
+    type: ConflictErrorResponseDto,
+  })
   @HttpCode(HttpStatus.OK)
   async archive(
     @Param('id') id: string,
@@ -774,6 +933,164 @@ export class ListingController {
     return this.listingsService.archiveListing(id, user.userId, body.reviewNotes);
   }
 
+  @Get(':id/revisions')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List listing revisions',
+    description:
+      'List the revision history of a listing, newest first. Available to admins and the creator of the listing.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiResponse({ status: 200, type: ListListingRevisionsResponseDto })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'User lacks permission to view this listing history',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  async listRevisions(
+    @Param('id') id: string,
+    @GetCurrentUser() user: CurrentUser,
+    @Query() query: ListingRevisionsQueryDto,
+  ) {
+    return this.listingsService.listListingRevisions(
+      id,
+      user.userId,
+      this.getRoles(user?.role),
+      query,
+    );
+  }
+
+  @Get(':id/revisions/diff')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Diff listing revisions',
+    description:
+      'Field-level changes between two revisions of a listing. Defaults to the changes of the latest revision.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiResponse({ status: 200, type: ListingRevisionDiffDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid revision range',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'User lacks permission to view this listing history',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing or revision not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  async diffRevisions(
+    @Param('id') id: string,
+    @GetCurrentUser() user: CurrentUser,
+    @Query() query: ListingRevisionDiffQueryDto,
+  ) {
+    return this.listingsService.diffListingRevisions(
+      id,
+      user.userId,
+      this.getRoles(user?.role),
+      query,
+    );
+  }
+
+  @Get(':id/revisions/:revision')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get listing revision',
+    description: 'Get a revision of a listing including its full snapshot.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiParam({ name: 'revision', description: 'Revision number', example: 3 })
+  @ApiResponse({ status: 200, type: ListingRevisionDto })
+  @ApiResponse({
+    status: 403,
+    description: 'User lacks permission to view this listing history',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing or revision not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  async getRevision(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @GetCurrentUser() user: CurrentUser,
+  ) {
+    return this.listingsService.getListingRevision(
+      id,
+      revision,
+      user.userId,
+      this.getRoles(user?.role),
+    );
+  }
+
+  @Post(':id/revisions/:revision/restore')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Restore listing revision',
+    description:
+      'Restore the content, categories, cities and time intervals of a revision. Moderation state and media are kept. Requires admin privileges.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiParam({ name: 'revision', description: 'Revision number to restore', example: 3 })
+  @ApiBody({ type: RestoreListingRevisionDto, required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Listing restored successfully',
+    type: ListingResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges required',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing or revision not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @GetCurrentUser() user: CurrentUser,
+    @Body() body: RestoreListingRevisionDto,
+  ) {
+    this.ensureAdminRole(user?.role);
+    return this.listingsService.restoreListingRevision(id, revision, user.userId, body?.note);
+  }
+
   @Post(':id/hero-image')
   @UseInterceptors(FileInterceptor('file'))
   @HttpCode(HttpStatus.OK)
@@ -867,6 +1184,7 @@ export class ListingController {
       where: { id },
       data: { heroImageUrl: imageUrl },
     });
+    await this.contentCache.invalidate('listings');
 
     // Refresh listing with relations
     const listing = await this.listingsService.getListingById(id);
@@ -1012,6 +1330,11 @@ export class ListingController {
         url,
         altText: file.originalname,
         order: i,
+        // Hash of the uploaded bytes lets screening spot images reused across listings
+        metadata: {
+          sha256: createHash('sha256').update(file.buffer).digest('hex'),
+          mimeType: finalMimeType,
+        },
       });
 
       uploadedMedia.push(mediaRecord);
@@ -1,15 +1,52 @@
 import { Module } from '@nestjs/common';
 import { ListingController } from './listing.controller';
 import { ListingsService } from './listings.service';
+import { ListingSearchService } from './listing-search.service';
+import { ListingGeoService } from './listing-geo.service';
+import { ListingFeedService } from './listing-feed.service';
+import { ListingOccurrencesService } from './listing-occurrences.service';
+import { ListingCalendarService } from './listing-calendar.service';
+import { CalendarFeedService } from './calendar-feed.service';
+import { ListingRevisionsService } from './listing-revisions.service';
+import { ListingScreeningService } from './screening/listing-screening.service';
+import {
+  LISTING_SCREENING_CHECKS,
+  ListingScreeningCheck,
+} from './screening/listing-screening-check';
+import { TermListCheck } from './screening/checks/term-list.check';
+import { LinkReputationCheck } from './screening/checks/link-reputation.check';
+import { DuplicateCheck } from './screening/checks/duplicate.check';
+import { ImageCheck } from './screening/checks/image.check';
 import { LoggerModule } from '@heidi/logger';
 import { FavoritesController } from './favorites.controller';
 import { PrismaCoreModule } from '@heidi/prisma';
 import { StorageModule } from '@heidi/storage';
+import { ContentCacheModule } from '../content-cache/content-cache.module';
+import { EngagementModule } from '../engagement/engagement.module';
 
 @Module({
-  imports: [LoggerModule, PrismaCoreModule, StorageModule],
+  imports: [LoggerModule, PrismaCoreModule, StorageModule, ContentCacheModule, EngagementModule],
   controllers: [ListingController, FavoritesController],
-  providers: [ListingsService],
-  exports: [ListingsService],
+  providers: [
+    ListingsService,
+    ListingSearchService,
+    ListingGeoService,
+    ListingFeedService,
+    ListingOccurrencesService,
+    ListingCalendarService,
+    CalendarFeedService,
+    ListingRevisionsService,
+    TermListCheck,
+    LinkReputationCheck,
+    DuplicateCheck,
+    ImageCheck,
+    {
+      provide: LISTING_SCREENING_CHECKS,
+      useFactory: (...checks: ListingScreeningCheck[]) => checks,
+      inject: [TermListCheck, LinkReputationCheck, DuplicateCheck, ImageCheck],
+    },
+    ListingScreeningService,
+  ],
+  exports: [ListingsService, ListingRevisionsService],
 })
 export class ListingsModule {}
@@ -1,18 +1,22 @@
 import {
   Injectable,
+  Inject,
   ForbiddenException,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { PrismaCoreService } from '@heidi/prisma';
 import { LoggerService } from '@heidi/logger';
 import { StorageService } from '@heidi/storage';
 import { ConfigService } from '@heidi/config';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
 import {
   Prisma,
   ListingMediaType,
   ListingModerationStatus,
   ListingRecurrenceFreq,
+  ListingRevisionAction,
   ListingSourceType,
   ListingStatus,
   ListingVisibility,
@@ -20,16 +24,27 @@ import {
 } from '@prisma/client-core';
 import {
   CreateListingDto,
+  CursorCodec,
+  CursorSort,
+  cursorOrderBy,
+  cursorWhere,
+  isCursorMode,
   ListingCategoryDto,
   ListingCategoryReferenceDto,
   ListingCityDto,
   ListingCityReferenceDto,
+  ListingFeedQueryDto,
+  ListingFeedResponseDto,
   ListingFilterDto,
   ListingMediaDto,
   ListingMediaInputDto,
   ListingModerationActionDto,
   ListingModerationDto,
+  ListingOccurrencesFilterDto,
+  ListingOccurrenceWindowDto,
   ListingResponseDto,
+  ListingRevisionDiffQueryDto,
+  ListingRevisionsQueryDto,
   ListingTimeIntervalDto,
   ListingTimeIntervalExceptionDto,
   ListingTimeIntervalExceptionInputDto,
@@ -37,6 +52,16 @@ import {
   UpdateListingDto,
   Weekday,
 } from '@heidi/contracts';
+import { ListingSearchService, SEARCH_CANDIDATE_LIMIT } from './listing-search.service';
+import { GEO_CANDIDATE_LIMIT, ListingGeoFilter, ListingGeoService } from './listing-geo.service';
+import { ListingOccurrencesService } from './listing-occurrences.service';
+import { ListingCalendarService } from './listing-calendar.service';
+import { CalendarFeedService } from './calendar-feed.service';
+import { ListingRevisionsService } from './listing-revisions.service';
+import { ListingScreeningService } from './screening/listing-screening.service';
+import { ContentCacheService } from '../content-cache/content-cache.service';
+import { ListingFeedService } from './listing-feed.service';
+import { EngagementService } from '../engagement/engagement.service';
 
 const listingWithRelations = Prisma.validator<Prisma.ListingDefaultArgs>()({
   include: {
@@ -54,15 +79,44 @@ const listingWithRelations = Prisma.validator<Prisma.ListingDefaultArgs>()({
 
 type ListingWithRelations = Prisma.ListingGetPayload<typeof listingWithRelations>;
 
+/**
+ * Moderator recorded on decisions taken by automated screening
+ */
+const SCREENING_MODERATOR_ID = 'system:screening';
+
+const MINUTE_MS = 60 * 1000;
+
+/** Sort fields that may be null; cursor pages put their nulls last */
+const NULLABLE_SORT_FIELDS = new Set(['publishAt', 'eventStart', 'featuredUntil']);
+
 @Injectable()
 export class ListingsService {
+  private readonly cursorCodec: CursorCodec;
+  private readonly claimTtlMinutes: number;
+
   constructor(
     private readonly prisma: PrismaCoreService,
     private readonly logger: LoggerService,
     private readonly storageService: StorageService,
     private readonly configService: ConfigService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+    private readonly listingSearchService: ListingSearchService,
+    private readonly listingGeoService: ListingGeoService,
+    private readonly listingOccurrencesService: ListingOccurrencesService,
+    private readonly listingCalendarService: ListingCalendarService,
+    private readonly calendarFeedService: CalendarFeedService,
+    private readonly listingRevisionsService: ListingRevisionsService,
+    private readonly listingScreeningService: ListingScreeningService,
+    private readonly contentCache: ContentCacheService,
+    private readonly listingFeedService: ListingFeedService,
+    private readonly engagementService: EngagementService,
   ) {
     this.logger.setContext(ListingsService.name);
+    this.cursorCodec = new CursorCodec(
+      this.configService.get<string>('pagination.cursorSecret') ??
+        this.configService.get<string>('jwt.secret', ''),
+    );
+    this.claimTtlMinutes = this.configService.get<number>('core.moderation.claimTtlMinutes', 30);
   }
 
   private isAdmin(roles: UserRole[] = []) {
@@ -424,6 +478,7 @@ export class ListingsService {
         metadata: this.toJson(media.metadata),
       },
     });
+    await this.contentCache.invalidate('listings');
 
     return this.mapListingMedia(created);
   }
@@ -467,6 +522,7 @@ export class ListingsService {
     await this.prisma.listingMedia.delete({
       where: { id: mediaId },
     });
+    await this.contentCache.invalidate('listings');
   }
 
   private extractKeyFromUrl(url: string): string {
@@ -648,6 +704,7 @@ export class ListingsService {
       content: dto.content,
       status: ListingStatus.PENDING,
       moderationStatus: ListingModerationStatus.PENDING,
+      moderationQueuedAt: new Date(),
       visibility,
       isFeatured,
       featuredUntil,
@@ -739,12 +796,20 @@ export class ListingsService {
         : undefined,
     };
 
-    const listing = await this.prisma.listing.create({
-      data,
-      include: listingWithRelations.include,
+    const listing = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.listing.create({
+        data,
+        include: listingWithRelations.include,
+      });
+      await this.listingRevisionsService.record(tx, created.id, ListingRevisionAction.CREATE, {
+        userId,
+      });
+      return created;
     });
+    await this.contentCache.invalidate('listings');
 
-    return this.mapListing(listing);
+    const mapped = this.mapListing(listing);
+    return isAdmin ? mapped : this.runScreening(listing.id, mapped);
   }
 
   async updateListing(listingId: string, userId: string, roles: UserRole[], dto: UpdateListingDto) {
@@ -756,7 +821,7 @@ export class ListingsService {
       dto.cities?.find((city) => city.isPrimary) ??
       (dto.cities && dto.cities.length > 0 ? { cityId: dto.cities[0].cityId } : undefined);
 
-    return this.prisma.$transaction(async (tx) => {
+    const mapped = await this.prisma.$transaction(async (tx) => {
       const existing = await tx.listing.findUnique({
         where: { id: listingId },
       });
@@ -875,14 +940,29 @@ export class ListingsService {
         if (!isAdmin) {
           throw new ForbiddenException('Only admins can set publishAt');
         }
-        updateData.publishAt = dto.publishAt ? new Date(dto.publishAt) : null;
+        const publishAt = dto.publishAt ? new Date(dto.publishAt) : null;
+        updateData.publishAt = publishAt;
+        // Moving the publish time of a published listing into the future takes it offline until then
+        if (
+          existing.status === ListingStatus.APPROVED &&
+          existing.moderationStatus === ListingModerationStatus.APPROVED &&
+          publishAt &&
+          publishAt > new Date()
+        ) {
+          updateData.status = ListingStatus.PENDING;
+        }
       }
 
       if (dto.expireAt !== undefined) {
         if (!isAdmin) {
           throw new ForbiddenException('Only admins can set expireAt');
         }
-        updateData.expireAt = dto.expireAt ? new Date(dto.expireAt) : null;
+        const expireAt = dto.expireAt ? new Date(dto.expireAt) : null;
+        updateData.expireAt = expireAt;
+        // Extending an expired listing puts it back online (an explicit status wins below)
+        if (existing.status === ListingStatus.EXPIRED && (!expireAt || expireAt > new Date())) {
+          updateData.status = ListingStatus.APPROVED;
+        }
       }
 
       if (dto.visibility !== undefined) {
@@ -906,6 +986,7 @@ export class ListingsService {
         updateData.moderationStatus = dto.moderationStatus;
       } else if (!isAdmin) {
         updateData.moderationStatus = ListingModerationStatus.PENDING;
+        Object.assign(updateData, this.enterModerationQueue(existing));
       }
 
       if (!isAdmin) {
@@ -1021,6 +1102,10 @@ export class ListingsService {
       await this.syncListingTimeIntervals(tx, listingId, dto.timeIntervals);
       await this.syncListingTimeIntervalExceptions(tx, listingId, dto.timeIntervalExceptions);
 
+      await this.listingRevisionsService.record(tx, listingId, ListingRevisionAction.UPDATE, {
+        userId,
+      });
+
       const refreshed = await tx.listing.findUnique({
         where: { id: listingId },
         include: listingWithRelations.include,
@@ -1032,6 +1117,9 @@ export class ListingsService {
 
       return this.mapListing(refreshed);
     });
+    await this.contentCache.invalidate('listings');
+
+    return isAdmin ? mapped : this.runScreening(listingId, mapped);
   }
 
   async getListingById(listingId: string, userId?: string): Promise<ListingResponseDto> {
@@ -1180,12 +1268,122 @@ export class ListingsService {
     return where;
   }
 
+  /**
+   * The filters of buildListingWhere() (except search) as a SQL condition on "listings",
+   * so raw candidate queries apply them before their LIMIT. Keep both in sync.
+   */
+  private buildListingSqlWhere(filter: ListingFilterDto): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+    const timestamp = (value: string) =>
+      Prisma.sql`(${new Date(value).toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+
+    if (filter.status) {
+      conditions.push(Prisma.sql`"status" = ${filter.status}::"ListingStatus"`);
+    }
+
+    if (filter.moderationStatus) {
+      conditions.push(
+        Prisma.sql`"moderationStatus" = ${filter.moderationStatus}::"ListingModerationStatus"`,
+      );
+    }
+
+    if (filter.visibility) {
+      conditions.push(Prisma.sql`"visibility" = ${filter.visibility}::"ListingVisibility"`);
+    }
+
+    if (filter.sourceType) {
+      conditions.push(Prisma.sql`"sourceType" = ${filter.sourceType}::"ListingSourceType"`);
+    }
+
+    if (filter.isFeatured !== undefined) {
+      conditions.push(Prisma.sql`"isFeatured" = ${filter.isFeatured}`);
+    }
+
+    if (filter.languageCodes?.length) {
+      conditions.push(Prisma.sql`"languageCode" IN (${Prisma.join(filter.languageCodes)})`);
+    }
+
+    if (filter.cityIds?.length) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "listing_cities"
+        WHERE "listing_cities"."listingId" = "listings"."id"
+          AND "listing_cities"."cityId" IN (${Prisma.join(filter.cityIds)})
+      )`);
+    }
+
+    if (filter.categoryIds?.length) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "listing_categories"
+        WHERE "listing_categories"."listingId" = "listings"."id"
+          AND "listing_categories"."categoryId" IN (${Prisma.join(filter.categoryIds)})
+      )`);
+    }
+
+    if (filter.publishAfter) {
+      conditions.push(Prisma.sql`"publishAt" >= ${timestamp(filter.publishAfter)}`);
+    }
+
+    if (filter.publishBefore) {
+      conditions.push(Prisma.sql`"publishAt" <= ${timestamp(filter.publishBefore)}`);
+    }
+
+    if (filter.upcomingAfter || filter.upcomingBefore) {
+      const eventStart: Prisma.Sql[] = [];
+      const interval: Prisma.Sql[] = [
+        Prisma.sql`"listing_time_intervals"."listingId" = "listings"."id"`,
+      ];
+
+      if (filter.upcomingAfter) {
+        eventStart.push(Prisma.sql`"eventStart" >= ${timestamp(filter.upcomingAfter)}`);
+        interval.push(
+          Prisma.sql`"listing_time_intervals"."end" >= ${timestamp(filter.upcomingAfter)}`,
+        );
+      }
+
+      if (filter.upcomingBefore) {
+        eventStart.push(Prisma.sql`"eventStart" <= ${timestamp(filter.upcomingBefore)}`);
+        interval.push(
+          Prisma.sql`"listing_time_intervals"."start" <= ${timestamp(filter.upcomingBefore)}`,
+        );
+      }
+
+      conditions.push(Prisma.sql`(
+        (${Prisma.join(eventStart, ' AND ')})
+        OR EXISTS (SELECT 1 FROM "listing_time_intervals" WHERE ${Prisma.join(interval, ' AND ')})
+      )`);
+    }
+
+    return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+  }
+
   async listListings(filter: ListingFilterDto = {} as ListingFilterDto, userId?: string) {
+    // Only guest lists are cached; signed-in users get their favorites marked
+    if (!userId) {
+      return this.contentCache.wrap('listings', this.listCacheParams(filter), () =>
+        this.queryListings(filter),
+      );
+    }
+    return this.queryListings(filter, userId);
+  }
+
+  /**
+   * Cache key parameters of a guest list. openNow and the date facets of searches are
+   * evaluated against the current time, which writes never invalidate, so those lists are
+   * keyed by the current minute (opening hours have minute precision).
+   */
+  private listCacheParams(filter: ListingFilterDto): unknown {
+    if (!filter.openNow && !filter.search) {
+      return filter;
+    }
+    const minute = Math.floor(Date.now() / (60 * 1000));
+    return { ...filter, minute };
+  }
+
+  private async queryListings(filter: ListingFilterDto, userId?: string) {
     const page = filter.page && filter.page > 0 ? filter.page : 1;
     const pageSizeCandidate = filter.pageSize && filter.pageSize > 0 ? filter.pageSize : 20;
     const pageSize = Math.min(pageSizeCandidate, 100);
     const skip = (page - 1) * pageSize;
-    const where = this.buildListingWhere(filter);
 
     const allowedSortFields = new Set([
       'createdAt',
@@ -1201,6 +1399,53 @@ export class ListingsService {
     const orderBy: Prisma.ListingOrderByWithRelationInput = {};
     (orderBy as Record<string, unknown>)[sortByField] = sortDirection;
 
+    const searchTerms = filter.search ? this.listingSearchService.parseTerms(filter.search) : [];
+    const geo = this.listingGeoService.parseFilter(filter);
+    const openAt = filter.openAt ? new Date(filter.openAt) : filter.openNow ? new Date() : null;
+    if (searchTerms.length > 0 || geo || openAt) {
+      if (isCursorMode(filter)) {
+        throw new BadRequestException(
+          'Cursor pagination is not available for search, near, bbox or openAt queries',
+        );
+      }
+
+      // Searches are ranked by relevance and near queries by distance unless a
+      // sort field was requested explicitly
+      let ranking: 'relevance' | 'distance' | undefined;
+      if (!filter.sortBy || !allowedSortFields.has(filter.sortBy)) {
+        if (filter.sortBy === 'distance' && geo?.near) {
+          ranking = 'distance';
+        } else if (searchTerms.length > 0) {
+          ranking = 'relevance';
+        } else if (geo?.near) {
+          ranking = 'distance';
+        }
+      }
+
+      return this.listMatchedListings(
+        filter,
+        { terms: searchTerms, geo, openAt },
+        { page, pageSize, skip, orderBy: ranking ? undefined : orderBy, ranking },
+        userId,
+      );
+    }
+
+    const where = this.buildListingWhere(filter);
+
+    if (isCursorMode(filter)) {
+      return this.listListingsByCursor(
+        filter,
+        where,
+        {
+          field: sortByField,
+          direction: sortDirection,
+          nullable: NULLABLE_SORT_FIELDS.has(sortByField),
+        },
+        pageSize,
+        userId,
+      );
+    }
+
     const [rows, total] = await this.prisma.$transaction([
       this.prisma.listing.findMany({
         where,
@@ -1236,6 +1481,328 @@ export class ListingsService {
     };
   }
 
+  /**
+   * Keyset page after the cursor position, without counting all matches
+   */
+  private async listListingsByCursor(
+    filter: ListingFilterDto,
+    where: Prisma.ListingWhereInput,
+    sort: CursorSort,
+    pageSize: number,
+    userId?: string,
+  ) {
+    const position = filter.cursor ? this.cursorCodec.decode(filter.cursor, sort, filter) : null;
+    const rows = await this.prisma.listing.findMany({
+      where: { AND: [where, cursorWhere(sort, position) as Prisma.ListingWhereInput] },
+      include: listingWithRelations.include,
+      orderBy: cursorOrderBy(sort) as Prisma.ListingOrderByWithRelationInput[],
+      take: pageSize + 1,
+    });
+
+    let favoriteIds: Set<string> | undefined;
+    if (userId) {
+      favoriteIds = await this.getFavoriteListingIds(
+        userId,
+        rows.map((row) => row.id),
+      );
+    }
+
+    return this.cursorCodec.page(rows, pageSize, sort, filter, (row) =>
+      this.mapListing(row, { isFavorite: favoriteIds?.has(row.id) ?? false }),
+    );
+  }
+
+  /**
+   * Listings narrowed down first (full-text matches, spatial index, expanded
+   * opening hours); the full-text and spatial queries apply the listing filters
+   * before their candidate limits
+   */
+  private async listMatchedListings(
+    filter: ListingFilterDto,
+    match: { terms: string[]; geo: ListingGeoFilter | null; openAt: Date | null },
+    options: {
+      page: number;
+      pageSize: number;
+      skip: number;
+      orderBy?: Prisma.ListingOrderByWithRelationInput;
+      ranking?: 'relevance' | 'distance';
+    },
+    userId?: string,
+  ) {
+    const { page, pageSize, skip, orderBy, ranking } = options;
+    const { terms, geo, openAt } = match;
+    const where = this.buildListingWhere({ ...filter, search: undefined });
+    const sqlWhere = this.buildListingSqlWhere(filter);
+
+    const matches =
+      terms.length > 0 ? await this.listingSearchService.findMatches(terms, sqlWhere) : undefined;
+    const ranks = matches ? new Map(matches.map((m) => [m.id, m.rank])) : undefined;
+    const distances = geo ? await this.listingGeoService.findMatches(geo, sqlWhere) : undefined;
+    const openIds = openAt
+      ? await this.listingOccurrencesService.findOpenListingIds(where, openAt)
+      : undefined;
+
+    const idSets = [ranks, distances, openIds].filter(
+      (ids): ids is NonNullable<typeof ids> => ids !== undefined,
+    );
+    const candidateIds = Array.from(idSets[0]?.keys() ?? []).filter((id) =>
+      idSets.every((ids) => ids.has(id)),
+    );
+
+    const candidates = await this.prisma.listing.findMany({
+      where: { AND: [where, { id: { in: candidateIds } }] },
+      select: { id: true, sourceType: true, eventStart: true, eventEnd: true },
+      orderBy,
+    });
+    if (ranking === 'relevance') {
+      candidates.sort((a, b) => (ranks?.get(b.id) ?? 0) - (ranks?.get(a.id) ?? 0));
+    } else if (ranking === 'distance') {
+      candidates.sort(
+        (a, b) => (distances?.get(a.id) ?? Infinity) - (distances?.get(b.id) ?? Infinity),
+      );
+    }
+
+    const pageIds = candidates.slice(skip, skip + pageSize).map((candidate) => candidate.id);
+    const [rows, highlights, facets] = await Promise.all([
+      this.prisma.listing.findMany({
+        where: { id: { in: pageIds } },
+        include: listingWithRelations.include,
+      }),
+      ranks ? this.listingSearchService.getHighlights(pageIds, terms) : undefined,
+      ranks ? this.listingSearchService.getFacets(candidates) : undefined,
+    ]);
+
+    let favoriteIds: Set<string> | undefined;
+    if (userId) {
+      favoriteIds = await this.getFavoriteListingIds(userId, pageIds);
+    }
+
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    const items = pageIds.flatMap((id) => {
+      const row = rowsById.get(id);
+      if (!row) {
+        return [];
+      }
+      return [
+        {
+          ...this.mapListing(row, { isFavorite: favoriteIds?.has(id) ?? false }),
+          searchRank: ranks?.get(id),
+          highlight: highlights?.get(id),
+          distanceKm: distances?.get(id),
+        },
+      ];
+    });
+    const total = candidates.length;
+    // More listings may match than were considered, so total and facets are lower bounds
+    const totalCapped =
+      (matches?.length ?? 0) >= SEARCH_CANDIDATE_LIMIT ||
+      (distances?.size ?? 0) >= GEO_CANDIDATE_LIMIT;
+
+    return {
+      items,
+      meta: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / pageSize)),
+        totalCapped,
+      },
+      facets,
+    };
+  }
+
+  async getFeed(query: ListingFeedQueryDto, userId?: string): Promise<ListingFeedResponseDto> {
+    const viewer = await this.listingFeedService.resolveViewer(userId, query.guestId);
+    const { entries, nextCursor, hasMore } = await this.listingFeedService.rank(viewer, query);
+    const pageIds = entries.map((entry) => entry.id);
+
+    const [rows, favoriteIds] = await Promise.all([
+      this.prisma.listing.findMany({
+        where: { id: { in: pageIds } },
+        include: listingWithRelations.include,
+      }),
+      viewer.userId ? this.getFavoriteListingIds(viewer.userId, pageIds) : undefined,
+    ]);
+
+    const rowsById = new Map(rows.map((row) => [row.id, row]));
+    const items = entries.flatMap((entry) => {
+      const row = rowsById.get(entry.id);
+      if (!row) {
+        return [];
+      }
+      return [
+        {
+          ...this.mapListing(row, { isFavorite: favoriteIds?.has(entry.id) ?? false }),
+          feedScore: entry.score,
+          feedReasons: entry.reasons,
+        },
+      ];
+    });
+
+    return { items, nextCursor, hasMore };
+  }
+
+  async markFeedListingsSeen(listingIds: string[], userId?: string, guestId?: string) {
+    const viewer = await this.listingFeedService.resolveViewer(userId, guestId);
+    await this.listingFeedService.markSeen(viewer, listingIds);
+  }
+
+  async listOccurrences(filter: ListingOccurrencesFilterDto) {
+    const page = filter.page && filter.page > 0 ? filter.page : 1;
+    const pageSizeCandidate = filter.pageSize && filter.pageSize > 0 ? filter.pageSize : 20;
+    const pageSize = Math.min(pageSizeCandidate, 100);
+    const window = this.listingOccurrencesService.resolveWindow(filter.from, filter.to);
+
+    return this.listingOccurrencesService.listOccurrences(this.buildListingWhere(filter), window, {
+      page,
+      pageSize,
+    });
+  }
+
+  async getListingOccurrences(listingId: string, query: ListingOccurrenceWindowDto) {
+    const window = this.listingOccurrencesService.resolveWindow(query.from, query.to);
+    return this.listingOccurrencesService.getListingOccurrences(listingId, window);
+  }
+
+  async getListingCalendar(listingId: string): Promise<{ filename: string; calendar: string }> {
+    const listing = await this.getListingById(listingId);
+
+    if (!this.listingCalendarService.hasDates(listing)) {
+      throw new NotFoundException('Listing has no dates to export');
+    }
+
+    return {
+      filename: `${listing.slug}.ics`,
+      calendar: this.listingCalendarService.render([listing]),
+    };
+  }
+
+  /**
+   * Favorited listings with dates of the user the feed token was issued to,
+   * as a subscribable calendar
+   */
+  async getFavoritesCalendar(token: string): Promise<string> {
+    const userId = await this.calendarFeedService.resolveUserId(token);
+    const favorites = await this.getUserFavorites(userId);
+
+    const listings = favorites
+      .map((favorite) => favorite.listing)
+      .filter(
+        (listing) =>
+          !listing.isArchived &&
+          listing.status !== ListingStatus.DELETED &&
+          this.listingCalendarService.hasDates(listing),
+      );
+
+    return this.listingCalendarService.render(listings, {
+      name: 'HEIDI Favorites',
+      refreshInterval: 'PT1H',
+    });
+  }
+
+  async issueFavoritesCalendarFeed(userId: string) {
+    this.logger.log(`Issuing favorites calendar feed for userId: ${userId}`);
+    return this.calendarFeedService.issue(userId);
+  }
+
+  async revokeFavoritesCalendarFeed(userId: string) {
+    this.logger.log(`Revoking favorites calendar feed for userId: ${userId}`);
+    return { revoked: await this.calendarFeedService.revoke(userId) };
+  }
+
+  async listListingRevisions(
+    listingId: string,
+    userId: string,
+    roles: UserRole[],
+    query: ListingRevisionsQueryDto,
+  ) {
+    await this.ensureCanViewRevisions(listingId, userId, roles);
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const pageSize = Math.min(query.pageSize && query.pageSize > 0 ? query.pageSize : 20, 100);
+
+    return this.listingRevisionsService.listRevisions(listingId, { page, pageSize });
+  }
+
+  async getListingRevision(listingId: string, revision: number, userId: string, roles: UserRole[]) {
+    await this.ensureCanViewRevisions(listingId, userId, roles);
+    return this.listingRevisionsService.getRevision(listingId, revision);
+  }
+
+  async diffListingRevisions(
+    listingId: string,
+    userId: string,
+    roles: UserRole[],
+    query: ListingRevisionDiffQueryDto,
+  ) {
+    await this.ensureCanViewRevisions(listingId, userId, roles);
+    if (query.from !== undefined && query.to !== undefined && query.from >= query.to) {
+      throw new BadRequestException('from must be an earlier revision than to');
+    }
+
+    return this.listingRevisionsService.diff(listingId, query.from, query.to);
+  }
+
+  /**
+   * Restores the content, categories, cities and time intervals of a
+   * revision, recorded as a new revision. Moderation state is kept.
+   */
+  async restoreListingRevision(
+    listingId: string,
+    revision: number,
+    moderatorId: string,
+    note?: string,
+  ): Promise<ListingResponseDto> {
+    this.logger.log(`Restoring listing ${listingId} to revision ${revision}`);
+
+    const restored = await this.prisma.$transaction(async (tx) => {
+      const restore = await this.listingRevisionsService.getRestore(tx, listingId, revision);
+
+      await tx.listing.update({
+        where: { id: listingId },
+        data: { ...restore.data, lastEditedByUserId: moderatorId },
+      });
+      await this.syncListingCategories(tx, listingId, restore.categories);
+      await this.syncListingCities(tx, listingId, restore.cities);
+      await this.syncListingTimeIntervals(tx, listingId, restore.timeIntervals);
+      await this.syncListingTimeIntervalExceptions(tx, listingId, restore.timeIntervalExceptions);
+
+      await this.listingRevisionsService.record(tx, listingId, ListingRevisionAction.RESTORE, {
+        userId: moderatorId,
+        note,
+        restoredFromRevision: revision,
+      });
+
+      const refreshed = await tx.listing.findUnique({
+        where: { id: listingId },
+        include: listingWithRelations.include,
+      });
+
+      if (!refreshed) {
+        throw new NotFoundException('Listing not found after restore');
+      }
+
+      return this.mapListing(refreshed);
+    });
+    await this.contentCache.invalidate('listings');
+
+    return restored;
+  }
+
+  private async ensureCanViewRevisions(listingId: string, userId: string, roles: UserRole[]) {
+    const listing = await this.prisma.listing.findUnique({
+      where: { id: listingId },
+      select: { createdByUserId: true },
+    });
+
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    if (!this.isAdmin(roles) && listing.createdByUserId !== userId) {
+      throw new ForbiddenException('You can only view the history of listings you created');
+    }
+  }
+
   async moderateListing(
     listingId: string,
     moderatorId: string,
@@ -1246,6 +1813,11 @@ export class ListingsService {
       where: { id: listingId },
       select: {
         publishAt: true,
+        moderationStatus: true,
+        moderationQueuedAt: true,
+        moderationClaimedBy: true,
+        moderationClaimedAt: true,
+        cities: { select: { cityId: true } },
       },
     });
 
@@ -1253,17 +1825,38 @@ export class ListingsService {
       throw new NotFoundException('Listing not found');
     }
 
+    // Claims are locks for human moderators; automatic screening decisions ignore them
+    if (
+      moderatorId !== SCREENING_MODERATOR_ID &&
+      existing.moderationClaimedBy &&
+      existing.moderationClaimedBy !== moderatorId &&
+      existing.moderationClaimedAt &&
+      existing.moderationClaimedAt.getTime() >= now.getTime() - this.claimTtlMinutes * MINUTE_MS
+    ) {
+      throw new ConflictException('Listing is claimed by another moderator');
+    }
+
     const updateData: Prisma.ListingUpdateInput = {
       moderationStatus: dto.moderationStatus,
       reviewNotes: dto.reviewNotes ?? null,
       reviewedBy: moderatorId,
       reviewedAt: now,
       lastEditedByUserId: moderatorId,
+      moderationClaimedBy: null,
+      moderationClaimedAt: null,
     };
 
     switch (dto.moderationStatus) {
       case ListingModerationStatus.APPROVED:
         updateData.status = dto.publishStatus ?? ListingStatus.APPROVED;
+        // Listings scheduled for later stay pending until the lifecycle worker publishes them
+        if (
+          updateData.status === ListingStatus.APPROVED &&
+          existing.publishAt &&
+          existing.publishAt > now
+        ) {
+          updateData.status = ListingStatus.PENDING;
+        }
         updateData.isArchived = false;
         if (
           !existing.publishAt &&
@@ -1286,15 +1879,68 @@ export class ListingsService {
         break;
       default:
         updateData.status = dto.publishStatus ?? ListingStatus.PENDING;
+        updateData.moderationQueuedAt = now;
     }
 
-    const listing = await this.prisma.listing.update({
-      where: { id: listingId },
-      data: updateData,
-      include: listingWithRelations.include,
+    const listing = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.listing.update({
+        where: { id: listingId },
+        data: updateData,
+        include: listingWithRelations.include,
+      });
+      if (dto.moderationStatus !== ListingModerationStatus.PENDING) {
+        const queuedAt = existing.moderationQueuedAt;
+        await tx.listingModerationDecision.create({
+          data: {
+            listingId,
+            moderatorId,
+            decision: dto.moderationStatus,
+            cityIds: existing.cities.map((city) => city.cityId),
+            queuedAt,
+            queueMinutes: queuedAt
+              ? Math.max(0, Math.round((now.getTime() - queuedAt.getTime()) / 60000))
+              : null,
+            decidedAt: now,
+          },
+        });
+      }
+      await this.listingRevisionsService.record(tx, listingId, ListingRevisionAction.MODERATION, {
+        userId: moderatorId,
+        note: dto.reviewNotes,
+      });
+      return updated;
     });
+    await this.contentCache.invalidate('listings');
+
+    const mapped = this.mapListing(listing);
 
-    return this.mapListing(listing);
+    if (dto.moderationStatus === ListingModerationStatus.APPROVED) {
+      this.client.emit(RabbitMQPatterns.LISTING_APPROVED, {
+        listingId,
+        cityIds: listing.cities.map((city) => city.cityId),
+        moderatorId,
+        listing: mapped,
+        timestamp: now.toISOString(),
+      });
+    }
+
+    if (existing.moderationStatus !== dto.moderationStatus) {
+      this.client.emit(RabbitMQPatterns.LISTING_MODERATED, {
+        listingId,
+        slug: listing.slug,
+        title: listing.title,
+        createdByUserId: listing.createdByUserId,
+        moderationStatus: dto.moderationStatus,
+        previousModerationStatus: existing.moderationStatus,
+        reviewNotes: dto.reviewNotes ?? null,
+        moderatorId,
+        primaryCityId: listing.primaryCityId,
+        cityIds: listing.cities.map((city) => city.cityId),
+        timestamp: now.toISOString(),
+      });
+    }
+
+    return mapped;
   }
 
   async submitListingForReview(listingId: string, userId: string): Promise<ListingResponseDto> {
@@ -1310,20 +1956,81 @@ export class ListingsService {
       throw new ForbiddenException('You can only submit your own listings');
     }
 
-    const updated = await this.prisma.listing.update({
-      where: { id: listingId },
-      data: {
-        status: ListingStatus.PENDING,
-        moderationStatus: ListingModerationStatus.PENDING,
-        reviewNotes: null,
-        reviewedBy: null,
-        reviewedAt: null,
-        lastEditedByUserId: userId,
-      },
-      include: listingWithRelations.include,
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const submitted = await tx.listing.update({
+        where: { id: listingId },
+        data: {
+          status: ListingStatus.PENDING,
+          moderationStatus: ListingModerationStatus.PENDING,
+          ...this.enterModerationQueue(listing),
+          reviewNotes: null,
+          reviewedBy: null,
+          reviewedAt: null,
+          lastEditedByUserId: userId,
+        },
+        include: listingWithRelations.include,
+      });
+      await this.listingRevisionsService.record(tx, listingId, ListingRevisionAction.MODERATION, {
+        userId,
+      });
+      return submitted;
     });
+    await this.contentCache.invalidate('listings');
 
-    return this.mapListing(updated);
+    return this.runScreening(listingId, this.mapListing(updated));
+  }
+
+  /**
+   * Screens a listing that entered the moderation queue and applies automatic
+   * decisions. Screening failures leave the listing for human review.
+   */
+  private async runScreening(
+    listingId: string,
+    listing: ListingResponseDto,
+  ): Promise<ListingResponseDto> {
+    try {
+      const result = await this.listingScreeningService.screen(listingId);
+      if (result.decision === 'REVIEW') {
+        return listing;
+      }
+
+      const reasons = result.findings.map((finding) => finding.message).join('; ');
+      return await this.moderateListing(listingId, SCREENING_MODERATOR_ID, {
+        moderationStatus:
+          result.decision === 'REJECT'
+            ? ListingModerationStatus.REJECTED
+            : ListingModerationStatus.APPROVED,
+        publishStatus: result.decision === 'APPROVE' ? ListingStatus.APPROVED : undefined,
+        reviewNotes:
+          result.decision === 'REJECT'
+            ? `Automatically rejected by content screening: ${reasons}`
+            : 'Automatically approved: trusted author with low screening risk.',
+      });
+    } catch (error) {
+      this.logger.error(`Failed to screen listing ${listingId}`, error);
+      return listing;
+    }
+  }
+
+  /**
+   * Queue fields for a listing (re)submitted for review. Listings already
+   * waiting keep their place and claim.
+   */
+  private enterModerationQueue(listing: {
+    moderationStatus: ListingModerationStatus;
+    moderationQueuedAt: Date | null;
+  }): Prisma.ListingUpdateInput {
+    if (
+      listing.moderationStatus === ListingModerationStatus.PENDING &&
+      listing.moderationQueuedAt
+    ) {
+      return {};
+    }
+    return {
+      moderationQueuedAt: new Date(),
+      moderationClaimedBy: null,
+      moderationClaimedAt: null,
+    };
   }
 
   async approveListing(listingId: string, moderatorId: string, body: ListingModerationActionDto) {
@@ -1379,6 +2086,11 @@ export class ListingsService {
 
       if (isFavorite) {
         // Add favorite
+        const existing = await this.prisma.userFavorite.findUnique({
+          where: { userId_listingId: { userId, listingId } },
+          select: { id: true },
+        });
+
         const favorite = await this.prisma.userFavorite.upsert({
           where: {
             userId_listingId: {
@@ -1398,6 +2110,10 @@ export class ListingsService {
           },
         });
 
+        if (!existing) {
+          await this.engagementService.recordFavorite(listingId, true);
+        }
+
         this.logger.log(`Favorite added successfully: ${favorite.id}`);
         return {
           id: favorite.id,
@@ -1430,6 +2146,8 @@ export class ListingsService {
           },
         });
 
+        await this.engagementService.recordFavorite(listingId, false);
+
         this.logger.log(`Favorite removed successfully`);
         return { success: true, message: 'Favorite removed successfully' };
       }
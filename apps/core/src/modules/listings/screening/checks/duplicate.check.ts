@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { ConfigService } from '@heidi/config';
+import { ListingModerationStatus, Prisma } from '@prisma/client-core';
+import {
+  ListingScreeningCheck,
+  ScreeningFinding,
+  ScreeningSubject,
+} from '../listing-screening-check';
+
+/**
+ * Listings that repeat an existing one: same content checksum, or a title
+ * similar to a listing in one of the same cities (pg_trgm similarity)
+ */
+@Injectable()
+export class DuplicateCheck implements ListingScreeningCheck {
+  readonly name = 'duplicate';
+  private readonly titleSimilarity: number;
+
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly configService: ConfigService,
+  ) {
+    this.titleSimilarity = this.configService.get<number>(
+      'core.screening.duplicateTitleSimilarity',
+      0.8,
+    );
+  }
+
+  async run(subject: ScreeningSubject): Promise<ScreeningFinding[]> {
+    const findings: ScreeningFinding[] = [];
+
+    const duplicate = await this.prisma.listing.findFirst({
+      where: {
+        id: { not: subject.listingId },
+        contentChecksum: subject.contentChecksum,
+        isArchived: false,
+        moderationStatus: { not: ListingModerationStatus.REJECTED },
+      },
+      select: { id: true, slug: true },
+    });
+    if (duplicate) {
+      findings.push({
+        check: this.name,
+        code: 'duplicate-content',
+        score: 50,
+        message: `Same content as listing ${duplicate.slug}`,
+        details: { listingId: duplicate.id },
+      });
+    }
+
+    if (subject.cityIds.length > 0) {
+      const similar = await this.prisma.$queryRaw<
+        { id: string; slug: string; similarity: number }[]
+      >`
+        SELECT l."id", l."slug", similarity(l."title", ${subject.title})::float AS similarity
+        FROM "listings" l
+        WHERE l."title" % ${subject.title}
+          AND similarity(l."title", ${subject.title}) >= ${this.titleSimilarity}
+          AND l."id" <> ${subject.listingId}
+          AND l."isArchived" = false
+          AND l."moderationStatus" <> 'REJECTED'
+          AND EXISTS (
+            SELECT 1 FROM "listing_cities" lc
+            WHERE lc."listingId" = l."id" AND lc."cityId" IN (${Prisma.join(subject.cityIds)})
+          )
+        ORDER BY similarity DESC
+        LIMIT 3
+      `;
+
+      const nearDuplicates = similar.filter((row) => row.id !== duplicate?.id);
+      if (nearDuplicates.length > 0) {
+        findings.push({
+          check: this.name,
+          code: 'similar-title',
+          score: 25,
+          message: `Title is similar to ${nearDuplicates.map((row) => row.slug).join(', ')}`,
+          details: {
+            listings: nearDuplicates.map((row) => ({
+              listingId: row.id,
+              similarity: Math.round(row.similarity * 100) / 100,
+            })),
+          },
+        });
+      }
+    }
+
+    return findings;
+  }
+}
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { ConfigService } from '@heidi/config';
+import { ListingMediaType, Prisma, ScreeningRuleType } from '@prisma/client-core';
+import {
+  hostOf,
+  ListingScreeningCheck,
+  matchesDomain,
+  ScreeningFinding,
+  ScreeningSubject,
+} from '../listing-screening-check';
+
+/**
+ * Images of the listing: hot-linked images from blocked or unknown hosts, and
+ * uploads whose content (SHA-256 recorded at upload) already appears on
+ * listings of other authors
+ */
+@Injectable()
+export class ImageCheck implements ListingScreeningCheck {
+  readonly name = 'image';
+  private readonly storageHost: string | null;
+
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly configService: ConfigService,
+  ) {
+    const endpoint = this.configService.storageConfig.endpoint;
+    this.storageHost = endpoint ? hostOf(endpoint) : null;
+  }
+
+  async run(subject: ScreeningSubject): Promise<ScreeningFinding[]> {
+    const images = subject.media.filter((media) => media.type === ListingMediaType.IMAGE);
+    const urls = [
+      ...(subject.heroImageUrl ? [subject.heroImageUrl] : []),
+      ...images.map((media) => media.url),
+    ];
+
+    return [...this.checkHosts(subject, urls), ...(await this.checkReuse(subject, images))];
+  }
+
+  private checkHosts(subject: ScreeningSubject, urls: string[]): ScreeningFinding[] {
+    const domains = (type: ScreeningRuleType) =>
+      subject.rules.filter((rule) => rule.type === type).map((rule) => rule.value);
+    const trusted = domains(ScreeningRuleType.TRUSTED_DOMAIN);
+    const blocked = domains(ScreeningRuleType.BLOCKED_DOMAIN);
+    const external = new Set<string>();
+    const findings: ScreeningFinding[] = [];
+
+    for (const host of new Set(urls.map((url) => hostOf(url)))) {
+      if (!host || (this.storageHost && matchesDomain(host, this.storageHost))) {
+        continue;
+      }
+      if (blocked.some((domain) => matchesDomain(host, domain))) {
+        findings.push({
+          check: this.name,
+          code: 'blocked-image-host',
+          score: 60,
+          message: `Image hosted on blocked domain ${host}`,
+          details: { host },
+        });
+      } else if (!trusted.some((domain) => matchesDomain(host, domain))) {
+        external.add(host);
+      }
+    }
+
+    if (external.size > 0) {
+      findings.push({
+        check: this.name,
+        code: 'external-image',
+        score: 10,
+        message: `Images hosted outside the platform: ${Array.from(external).join(', ')}`,
+        details: { hosts: Array.from(external) },
+      });
+    }
+
+    return findings;
+  }
+
+  private async checkReuse(
+    subject: ScreeningSubject,
+    images: ScreeningSubject['media'],
+  ): Promise<ScreeningFinding[]> {
+    const hashes = images
+      .map((image) => (image.metadata as Prisma.JsonObject | null)?.sha256)
+      .filter((hash): hash is string => typeof hash === 'string');
+    if (hashes.length === 0) {
+      return [];
+    }
+
+    const reused = await this.prisma.listingMedia.findMany({
+      where: {
+        listingId: { not: subject.listingId },
+        type: ListingMediaType.IMAGE,
+        OR: hashes.map((hash) => ({ metadata: { path: ['sha256'], equals: hash } })),
+        listing: subject.createdByUserId
+          ? { createdByUserId: { not: subject.createdByUserId } }
+          : undefined,
+      },
+      select: { listingId: true },
+      take: 5,
+    });
+    if (reused.length === 0) {
+      return [];
+    }
+
+    const listingIds = Array.from(new Set(reused.map((media) => media.listingId)));
+    return [
+      {
+        check: this.name,
+        code: 'reused-image',
+        score: 30,
+        message: `Images also used by ${listingIds.length} listing(s) of other authors`,
+        details: { listingIds },
+      },
+    ];
+  }
+}
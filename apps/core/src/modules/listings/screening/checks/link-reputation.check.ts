@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { isIP } from 'net';
+import { ScreeningRuleType } from '@prisma/client-core';
+import {
+  hostOf,
+  ListingScreeningCheck,
+  matchesDomain,
+  ScreeningFinding,
+  ScreeningSubject,
+} from '../listing-screening-check';
+
+const MAX_LINKS = 10;
+
+/**
+ * Reputation of the domains the listing links to, from the blocked,
+ * suspicious and trusted domain lists of its cities
+ */
+@Injectable()
+export class LinkReputationCheck implements ListingScreeningCheck {
+  readonly name = 'link-reputation';
+
+  async run(subject: ScreeningSubject): Promise<ScreeningFinding[]> {
+    const hosts = new Set(
+      subject.links.map((link) => hostOf(link)).filter((host): host is string => !!host),
+    );
+    const domains = (type: ScreeningRuleType) =>
+      subject.rules.filter((rule) => rule.type === type).map((rule) => rule.value);
+    const trusted = domains(ScreeningRuleType.TRUSTED_DOMAIN);
+    const blocked = domains(ScreeningRuleType.BLOCKED_DOMAIN);
+    const suspicious = domains(ScreeningRuleType.SUSPICIOUS_DOMAIN);
+    const findings: ScreeningFinding[] = [];
+
+    for (const host of hosts) {
+      if (trusted.some((domain) => matchesDomain(host, domain))) {
+        continue;
+      }
+      if (blocked.some((domain) => matchesDomain(host, domain))) {
+        findings.push({
+          check: this.name,
+          code: 'blocked-domain',
+          score: 60,
+          message: `Links to blocked domain ${host}`,
+          details: { host },
+        });
+      } else if (suspicious.some((domain) => matchesDomain(host, domain))) {
+        findings.push({
+          check: this.name,
+          code: 'suspicious-domain',
+          score: 20,
+          message: `Links to suspicious domain ${host}`,
+          details: { host },
+        });
+      } else if (isIP(host.replace(/^\[|\]$/g, ''))) {
+        findings.push({
+          check: this.name,
+          code: 'ip-address-link',
+          score: 20,
+          message: `Links to an IP address (${host})`,
+          details: { host },
+        });
+      }
+    }
+
+    if (hosts.size > MAX_LINKS) {
+      findings.push({
+        check: this.name,
+        code: 'many-links',
+        score: 10,
+        message: `Links to ${hosts.size} different hosts`,
+        details: { hosts: hosts.size },
+      });
+    }
+
+    return findings;
+  }
+}
@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { ScreeningRuleType } from '@prisma/client-core';
+import {
+  ListingScreeningCheck,
+  ScreeningFinding,
+  ScreeningSubject,
+} from '../listing-screening-check';
+
+const TERM_SCORES = {
+  [ScreeningRuleType.BLOCKED_TERM]: { code: 'blocked-term', score: 40, label: 'Blocked terms' },
+  [ScreeningRuleType.PROFANITY]: { code: 'profanity', score: 15, label: 'Profanity' },
+} as const;
+
+/**
+ * Blocklist and profanity dictionary of the listing's cities. Terms match
+ * whole words, case-insensitively, in the language of the listing; terms
+ * without a language apply to all listings.
+ */
+@Injectable()
+export class TermListCheck implements ListingScreeningCheck {
+  readonly name = 'term-list';
+
+  async run(subject: ScreeningSubject): Promise<ScreeningFinding[]> {
+    const text = [subject.title, subject.summary ?? '', this.stripHtml(subject.content)]
+      .join('\n')
+      .toLowerCase();
+    const findings: ScreeningFinding[] = [];
+
+    for (const type of [ScreeningRuleType.BLOCKED_TERM, ScreeningRuleType.PROFANITY] as const) {
+      const terms = new Set(
+        subject.rules
+          .filter(
+            (rule) =>
+              rule.type === type &&
+              (!rule.languageCode ||
+                !subject.languageCode ||
+                rule.languageCode === subject.languageCode),
+          )
+          .map((rule) => rule.value),
+      );
+      const matched = Array.from(terms).filter((term) => this.containsWord(text, term));
+
+      if (matched.length > 0) {
+        const { code, score, label } = TERM_SCORES[type];
+        findings.push({
+          check: this.name,
+          code,
+          score: score * matched.length,
+          message: `${label} found: ${matched.join(', ')}`,
+          details: { terms: matched },
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  private containsWord(text: string, term: string): boolean {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'u').test(text);
+  }
+
+  private stripHtml(value: string): string {
+    return value.replace(/<[^>]*>/g, ' ');
+  }
+}
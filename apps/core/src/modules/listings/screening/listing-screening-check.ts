@@ -0,0 +1,58 @@
+import { ListingMediaType, ScreeningRule } from '@prisma/client-core';
+
+/**
+ * Listing as seen by screening checks. Rules are loaded once per run for the
+ * listing's cities (plus global rules) and shared by all checks.
+ */
+export interface ScreeningSubject {
+  listingId: string;
+  title: string;
+  summary: string | null;
+  content: string;
+  languageCode: string | null;
+  createdByUserId: string | null;
+  links: string[];
+  heroImageUrl: string | null;
+  media: Array<{ type: ListingMediaType; url: string; metadata: unknown }>;
+  cityIds: string[];
+  contentChecksum: string;
+  rules: ScreeningRule[];
+}
+
+/**
+ * One reason that adds to a listing's risk score
+ */
+export interface ScreeningFinding {
+  check: string;
+  code: string;
+  score: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Step of the pre-moderation pipeline. Checks are registered under
+ * LISTING_SCREENING_CHECKS and run in order on every submission.
+ */
+export interface ListingScreeningCheck {
+  readonly name: string;
+
+  run(subject: ScreeningSubject): Promise<ScreeningFinding[]>;
+}
+
+export const LISTING_SCREENING_CHECKS = Symbol('LISTING_SCREENING_CHECKS');
+
+export function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the host is the domain or one of its subdomains
+ */
+export function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
@@ -0,0 +1,187 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaCoreService } from '@heidi/prisma';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { ListingModerationStatus, ListingSourceType, Prisma } from '@prisma/client-core';
+import {
+  LISTING_SCREENING_CHECKS,
+  ListingScreeningCheck,
+  ScreeningFinding,
+  ScreeningSubject,
+} from './listing-screening-check';
+
+const LINK_PATTERN = /https?:\/\/[^\s"'<>)]+/gi;
+const TRUSTED_AUTHOR_WINDOW_DAYS = 90;
+
+export type ScreeningDecision = 'REJECT' | 'APPROVE' | 'REVIEW';
+
+export interface ScreeningResult {
+  score: number;
+  findings: ScreeningFinding[];
+  decision: ScreeningDecision;
+}
+
+/**
+ * Runs the registered screening checks on a submitted listing, stores the
+ * risk score and reasons for moderators and decides whether the listing can
+ * skip human review. Applying the decision is left to ListingsService.
+ */
+@Injectable()
+export class ListingScreeningService {
+  private readonly autoRejectScore: number;
+  private readonly autoApproveMaxScore: number;
+  private readonly trustedAuthorMinApproved: number;
+
+  constructor(
+    @Inject(LISTING_SCREENING_CHECKS) private readonly checks: ListingScreeningCheck[],
+    private readonly prisma: PrismaCoreService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ListingScreeningService.name);
+    this.autoRejectScore = this.configService.get<number>('core.screening.autoRejectScore', 80);
+    this.autoApproveMaxScore = this.configService.get<number>(
+      'core.screening.autoApproveMaxScore',
+      10,
+    );
+    this.trustedAuthorMinApproved = this.configService.get<number>(
+      'core.screening.trustedAuthorMinApproved',
+      3,
+    );
+  }
+
+  async screen(listingId: string): Promise<ScreeningResult> {
+    const listing = await this.prisma.listing.findUnique({
+      where: { id: listingId },
+      include: {
+        cities: { select: { cityId: true } },
+        media: { select: { type: true, url: true, metadata: true } },
+      },
+    });
+
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    const cityIds = listing.cities.map((city) => city.cityId);
+    const rules = await this.prisma.screeningRule.findMany({
+      where: { OR: [{ cityId: null }, ...(cityIds.length ? [{ cityId: { in: cityIds } }] : [])] },
+    });
+    const contentChecksum = this.computeChecksum(listing.title, listing.summary, listing.content);
+
+    const subject: ScreeningSubject = {
+      listingId,
+      title: listing.title,
+      summary: listing.summary,
+      content: listing.content,
+      languageCode: listing.languageCode,
+      createdByUserId: listing.createdByUserId,
+      links: this.extractLinks([
+        listing.content,
+        listing.summary,
+        listing.website,
+        listing.registrationUrl,
+        listing.sourceUrl,
+      ]),
+      heroImageUrl: listing.heroImageUrl,
+      media: listing.media,
+      cityIds,
+      contentChecksum,
+      rules,
+    };
+
+    const findings: ScreeningFinding[] = [];
+    for (const check of this.checks) {
+      try {
+        findings.push(...(await check.run(subject)));
+      } catch (error) {
+        // A failing check must not block submissions; the listing still reaches moderators
+        this.logger.error(`Screening check ${check.name} failed for listing ${listingId}`, error);
+      }
+    }
+
+    const score = Math.min(
+      100,
+      findings.reduce((sum, finding) => sum + finding.score, 0),
+    );
+    const decision = await this.decide(score, listing.createdByUserId, listingId);
+
+    await this.prisma.listing.update({
+      where: { id: listingId },
+      data: {
+        riskScore: score,
+        riskReasons: findings as unknown as Prisma.InputJsonValue,
+        screenedAt: new Date(),
+        // Imported listings keep the checksum of their source
+        ...(listing.sourceType === ListingSourceType.MANUAL ? { contentChecksum } : {}),
+      },
+    });
+
+    this.logger.log(
+      `Screened listing ${listingId}: score ${score}, ${findings.length} finding(s), ${decision}`,
+    );
+
+    return { score, findings, decision };
+  }
+
+  private async decide(
+    score: number,
+    authorId: string | null,
+    listingId: string,
+  ): Promise<ScreeningDecision> {
+    if (score >= this.autoRejectScore) {
+      return 'REJECT';
+    }
+    if (
+      score <= this.autoApproveMaxScore &&
+      authorId &&
+      (await this.isTrustedAuthor(authorId, listingId))
+    ) {
+      return 'APPROVE';
+    }
+    return 'REVIEW';
+  }
+
+  /**
+   * Authors with enough approved listings and no rejection in the recent past
+   */
+  private async isTrustedAuthor(authorId: string, listingId: string): Promise<boolean> {
+    const since = new Date(Date.now() - TRUSTED_AUTHOR_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const [approved, rejected] = await Promise.all([
+      this.prisma.listing.count({
+        where: {
+          createdByUserId: authorId,
+          id: { not: listingId },
+          moderationStatus: ListingModerationStatus.APPROVED,
+        },
+      }),
+      this.prisma.listing.count({
+        where: {
+          createdByUserId: authorId,
+          moderationStatus: ListingModerationStatus.REJECTED,
+          updatedAt: { gte: since },
+        },
+      }),
+    ]);
+
+    return approved >= this.trustedAuthorMinApproved && rejected === 0;
+  }
+
+  private computeChecksum(title: string, summary: string | null, content: string): string {
+    const normalized = [title, summary ?? '', content]
+      .map((part) => part.toLowerCase().replace(/\s+/g, ' ').trim())
+      .join('\n');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private extractLinks(values: Array<string | null>): string[] {
+    const links = new Set<string>();
+    for (const value of values) {
+      for (const match of value?.match(LINK_PATTERN) ?? []) {
+        links.add(match.replace(/[.,;:!?]+$/, ''));
+      }
+    }
+    return Array.from(links);
+  }
+}
@@ -0,0 +1,379 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  BulkModerationDto,
+  BulkModerationResultDto,
+  ConflictErrorResponseDto,
+  CreateScreeningRuleDto,
+  ForbiddenErrorResponseDto,
+  ListingNotFoundErrorResponseDto,
+  ModerationQueueItemDto,
+  ModerationQueueQueryDto,
+  ModerationQueueResponseDto,
+  ModerationStatsDto,
+  ModerationStatsQueryDto,
+  NotFoundErrorResponseDto,
+  ScreeningRuleDto,
+  ScreeningRuleListDto,
+  ScreeningRulesQueryDto,
+  UnauthorizedErrorResponseDto,
+  ValidationErrorResponseDto,
+} from '@heidi/contracts';
+import { CurrentUser, GetCurrentUser, JwtAuthGuard } from '@heidi/jwt';
+import { numberToRole } from '@heidi/rbac';
+import { UserRole } from '@prisma/client-core';
+import { ModerationService } from './moderation.service';
+import { ScreeningRulesService } from './screening-rules.service';
+
+@ApiTags('moderation')
+@Controller('moderation')
+@UseGuards(JwtAuthGuard)
+export class ModerationController {
+  constructor(
+    private readonly moderationService: ModerationService,
+    private readonly screeningRulesService: ScreeningRulesService,
+  ) {}
+
+  private getRoles(role?: string | number): UserRole[] {
+    if (!role) {
+      return [];
+    }
+
+    if (typeof role === 'number') {
+      const roleEnum = numberToRole(role);
+      return roleEnum ? [roleEnum] : [];
+    }
+
+    const normalized = role.toUpperCase() as keyof typeof UserRole;
+    const mapped = UserRole[normalized];
+
+    return mapped ? [mapped] : [];
+  }
+
+  private ensureAdminRole(role?: string): UserRole[] {
+    const roles = this.getRoles(role);
+
+    if (!roles.some((r) => r === UserRole.SUPER_ADMIN || r === UserRole.CITY_ADMIN)) {
+      throw new ForbiddenException('Admin privileges required');
+    }
+
+    return roles;
+  }
+
+  @Get('queue')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List the moderation queue',
+    description:
+      'Listings waiting for review in the cities the moderator manages, longest waiting first, with time in queue, SLA due date and claim. Requires Super Admin or City Admin role.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Moderation queue retrieved successfully',
+    type: ModerationQueueResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges or city assignment required',
+    type: ForbiddenErrorResponseDto,
+  })
+  async getQueue(@GetCurrentUser() user: CurrentUser, @Query() query: ModerationQueueQueryDto) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.moderationService.getQueue(user.userId, roles, query);
+  }
+
+  @Post('queue/:listingId/claim')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Claim a listing for review',
+    description:
+      'Marks the listing as being reviewed by the current moderator. Claims expire after CORE_MODERATION_CLAIM_TTL_MINUTES; claiming again renews the claim.',
+  })
+  @ApiParam({
+    name: 'listingId',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Listing claimed successfully',
+    type: ModerationQueueItemDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges or city assignment required',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Listing is claimed by another moderator or not waiting for review',
+    type: ConflictErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async claim(@Param('listingId') listingId: string, @GetCurrentUser() user: CurrentUser) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.moderationService.claim(listingId, user.userId, roles);
+  }
+
+  @Delete('queue/:listingId/claim')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Release a claim',
+    description:
+      'Returns the listing to the queue. Only the claiming moderator or a Super Admin can release an active claim.',
+  })
+  @ApiParam({
+    name: 'listingId',
+    description: 'Listing identifier',
+    example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Claim released successfully',
+    type: ModerationQueueItemDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Listing is claimed by another moderator',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Listing not found',
+    type: ListingNotFoundErrorResponseDto,
+  })
+  async release(@Param('listingId') listingId: string, @GetCurrentUser() user: CurrentUser) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.moderationService.release(listingId, user.userId, roles);
+  }
+
+  @Post('queue/bulk')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Moderate listings in bulk',
+    description:
+      'Approves, rejects or requests changes for up to 100 waiting listings with shared reviewer notes. Each listing succeeds or fails on its own.',
+  })
+  @ApiBody({
+    type: BulkModerationDto,
+    examples: {
+      approve: {
+        summary: 'Approve several listings',
+        value: {
+          listingIds: ['lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4', 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW5'],
+          action: 'approve',
+          reviewNotes: 'Approved in weekly review.',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Bulk moderation processed',
+    type: BulkModerationResultDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges or city assignment required',
+    type: ForbiddenErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.OK)
+  async bulkModerate(@GetCurrentUser() user: CurrentUser, @Body() dto: BulkModerationDto) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.moderationService.bulkModerate(user.userId, roles, dto);
+  }
+
+  @Get('stats')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Get moderation statistics',
+    description:
+      'Current queue size, overdue and claimed items, and decisions per moderator in the period with their average time in queue.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Moderation statistics retrieved successfully',
+    type: ModerationStatsDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges or city assignment required',
+    type: ForbiddenErrorResponseDto,
+  })
+  async getStats(@GetCurrentUser() user: CurrentUser, @Query() query: ModerationStatsQueryDto) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.moderationService.getStats(user.userId, roles, query);
+  }
+
+  @Get('screening-rules')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'List screening rules',
+    description:
+      'Blocked terms, profanity and domain reputation rules applied to listings of the managed cities, including global rules.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Screening rules retrieved successfully',
+    type: ScreeningRuleListDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Admin privileges or city assignment required',
+    type: ForbiddenErrorResponseDto,
+  })
+  async getScreeningRules(
+    @GetCurrentUser() user: CurrentUser,
+    @Query() query: ScreeningRulesQueryDto,
+  ) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.screeningRulesService.list(user.userId, roles, query);
+  }
+
+  @Post('screening-rules')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Add a screening rule',
+    description:
+      'Adds a blocked term, profanity term or domain rule for a city. Global rules (without cityId) require Super Admin role.',
+  })
+  @ApiBody({
+    type: CreateScreeningRuleDto,
+    examples: {
+      profanity: {
+        summary: 'Profanity term in German',
+        value: {
+          type: 'PROFANITY',
+          value: 'mist',
+          cityId: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59',
+          languageCode: 'de',
+        },
+      },
+      blockedDomain: {
+        summary: 'Blocked domain for all cities',
+        value: { type: 'BLOCKED_DOMAIN', value: 'spam.example' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Screening rule created successfully',
+    type: ScreeningRuleDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Validation failed',
+    type: ValidationErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'City not managed or global rule without Super Admin role',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Screening rule already exists',
+    type: ConflictErrorResponseDto,
+  })
+  async createScreeningRule(
+    @GetCurrentUser() user: CurrentUser,
+    @Body() dto: CreateScreeningRuleDto,
+  ) {
+    const roles = this.ensureAdminRole(user?.role);
+    return this.screeningRulesService.create(user.userId, roles, dto);
+  }
+
+  @Delete('screening-rules/:id')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete a screening rule' })
+  @ApiParam({
+    name: 'id',
+    description: 'Screening rule identifier',
+    example: 'c4a760a8-dbcf-4e14-9f39-645a8e933d74',
+  })
+  @ApiResponse({ status: 204, description: 'Screening rule deleted successfully' })
+  @ApiResponse({
+    status: 401,
+    description: 'Authentication required',
+    type: UnauthorizedErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'City not managed or global rule without Super Admin role',
+    type: ForbiddenErrorResponseDto,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Screening rule not found',
+    type: NotFoundErrorResponseDto,
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteScreeningRule(@Param('id') id: string, @GetCurrentUser() user: CurrentUser) {
+    const roles = this.ensureAdminRole(user?.role);
+    await this.screeningRulesService.remove(id, user.userId, roles);
+  }
+}
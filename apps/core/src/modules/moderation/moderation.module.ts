@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { LoggerModule } from '@heidi/logger';
+import { PrismaCoreModule } from '@heidi/prisma';
+import { ListingsModule } from '../listings/listings.module';
+import { ModerationController } from './moderation.controller';
+import { ModerationService } from './moderation.service';
+import { ScreeningRulesService } from './screening-rules.service';
+
+@Module({
+  imports: [LoggerModule, PrismaCoreModule, ListingsModule],
+  controllers: [ModerationController],
+  providers: [ModerationService, ScreeningRulesService],
+})
+export class ModerationModule {}
@@ -0,0 +1,447 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { LoggerService } from '@heidi/logger';
+import { ConfigService } from '@heidi/config';
+import { UserContextService } from '@heidi/rbac';
+import { ListingModerationStatus, Prisma, UserRole } from '@prisma/client-core';
+import {
+  BulkModerationAction,
+  BulkModerationDto,
+  BulkModerationItemResultDto,
+  BulkModerationResultDto,
+  ModerationQueueClaimFilter,
+  ModerationQueueItemDto,
+  ModerationQueueQueryDto,
+  ModerationQueueResponseDto,
+  ModerationStatsDto,
+  ModerationStatsQueryDto,
+  ModeratorStatsDto,
+  ScreeningFindingDto,
+} from '@heidi/contracts';
+import { ListingsService } from '../listings/listings.service';
+
+const queueListing = Prisma.validator<Prisma.ListingDefaultArgs>()({
+  select: {
+    id: true,
+    slug: true,
+    title: true,
+    summary: true,
+    moderationStatus: true,
+    primaryCityId: true,
+    createdByUserId: true,
+    createdAt: true,
+    moderationQueuedAt: true,
+    moderationClaimedBy: true,
+    moderationClaimedAt: true,
+    riskScore: true,
+    riskReasons: true,
+    cities: { select: { cityId: true }, orderBy: { displayOrder: 'asc' } },
+  },
+});
+
+type QueueListing = Prisma.ListingGetPayload<typeof queueListing>;
+
+/** Cities the moderator may act on; null means all cities */
+type ModerationScope = string[] | null;
+
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_STATS_DAYS = 30;
+
+/**
+ * Review queue of listings waiting for moderation, limited to the cities a
+ * moderator manages. Claims are soft locks that expire after a TTL so that
+ * abandoned items return to the queue.
+ */
+@Injectable()
+export class ModerationService {
+  private readonly slaHours: number;
+  private readonly claimTtlMinutes: number;
+
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly listingsService: ListingsService,
+    private readonly userContext: UserContextService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ModerationService.name);
+    this.slaHours = this.configService.get<number>('core.moderation.slaHours', 48);
+    this.claimTtlMinutes = this.configService.get<number>('core.moderation.claimTtlMinutes', 30);
+  }
+
+  async getQueue(
+    userId: string,
+    roles: UserRole[],
+    query: ModerationQueueQueryDto,
+  ): Promise<ModerationQueueResponseDto> {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+    const now = new Date();
+    const scope = await this.getScope(userId, roles);
+
+    if (query.cityId && scope && !scope.includes(query.cityId)) {
+      throw new ForbiddenException('You do not manage this city');
+    }
+
+    const filters: Prisma.ListingWhereInput[] = [
+      this.queueWhere(query.cityId ? [query.cityId] : scope),
+    ];
+
+    if (query.claim === ModerationQueueClaimFilter.MINE) {
+      filters.push({
+        moderationClaimedBy: userId,
+        moderationClaimedAt: { gte: this.claimCutoff(now) },
+      });
+    } else if (query.claim === ModerationQueueClaimFilter.UNCLAIMED) {
+      filters.push(this.unclaimedWhere(now));
+    }
+
+    if (query.overdueOnly) {
+      filters.push({ moderationQueuedAt: { lt: this.slaCutoff(now) } });
+    }
+
+    const where: Prisma.ListingWhereInput = { AND: filters };
+    const [listings, total] = await Promise.all([
+      this.prisma.listing.findMany({
+        where,
+        select: queueListing.select,
+        orderBy: [{ moderationQueuedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      this.prisma.listing.count({ where }),
+    ]);
+
+    return {
+      items: listings.map((listing) => this.toQueueItem(listing, now)),
+      meta: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      },
+    };
+  }
+
+  /**
+   * Claims a waiting listing for the moderator. Claiming again renews the
+   * claim; claims of other moderators can only be taken over once expired.
+   */
+  async claim(
+    listingId: string,
+    userId: string,
+    roles: UserRole[],
+  ): Promise<ModerationQueueItemDto> {
+    const now = new Date();
+    const scope = await this.getScope(userId, roles);
+
+    const { count } = await this.prisma.listing.updateMany({
+      where: {
+        AND: [
+          { id: listingId },
+          this.queueWhere(scope),
+          { OR: [{ moderationClaimedBy: userId }, this.unclaimedWhere(now)] },
+        ],
+      },
+      data: { moderationClaimedBy: userId, moderationClaimedAt: now },
+    });
+
+    const listing = await this.findQueueListing(listingId, scope);
+    if (count === 0) {
+      if (listing.moderationStatus !== ListingModerationStatus.PENDING) {
+        throw new ConflictException('Listing is not waiting for review');
+      }
+      throw new ConflictException('Listing is claimed by another moderator');
+    }
+
+    this.logger.log(`Listing ${listingId} claimed by ${userId}`);
+    return this.toQueueItem(listing, now);
+  }
+
+  /**
+   * Releases a claim. Super admins may release claims of other moderators.
+   */
+  async release(
+    listingId: string,
+    userId: string,
+    roles: UserRole[],
+  ): Promise<ModerationQueueItemDto> {
+    const now = new Date();
+    const scope = await this.getScope(userId, roles);
+    const listing = await this.findQueueListing(listingId, scope);
+
+    if (
+      listing.moderationClaimedBy &&
+      listing.moderationClaimedBy !== userId &&
+      !roles.includes(UserRole.SUPER_ADMIN) &&
+      this.isClaimActive(listing, now)
+    ) {
+      throw new ForbiddenException('Listing is claimed by another moderator');
+    }
+
+    const released = await this.prisma.listing.update({
+      where: { id: listingId },
+      data: { moderationClaimedBy: null, moderationClaimedAt: null },
+      select: queueListing.select,
+    });
+
+    return this.toQueueItem(released, now);
+  }
+
+  /**
+   * Applies one moderation action with shared notes to several listings.
+   * Listings fail individually when they are outside the moderator's cities,
+   * not waiting for review or claimed by another moderator.
+   */
+  async bulkModerate(
+    userId: string,
+    roles: UserRole[],
+    dto: BulkModerationDto,
+  ): Promise<BulkModerationResultDto> {
+    const now = new Date();
+    const scope = await this.getScope(userId, roles);
+    const listingIds = Array.from(new Set(dto.listingIds));
+
+    const listings = await this.prisma.listing.findMany({
+      where: { AND: [{ id: { in: listingIds } }, this.scopeWhere(scope)] },
+      select: queueListing.select,
+    });
+    const byId = new Map(listings.map((listing) => [listing.id, listing]));
+
+    const results: BulkModerationItemResultDto[] = [];
+    for (const listingId of listingIds) {
+      const listing = byId.get(listingId);
+      let error: string | undefined;
+
+      if (!listing) {
+        error = 'Listing not found';
+      } else if (listing.moderationStatus !== ListingModerationStatus.PENDING) {
+        error = 'Listing is not waiting for review';
+      } else if (
+        listing.moderationClaimedBy &&
+        listing.moderationClaimedBy !== userId &&
+        this.isClaimActive(listing, now)
+      ) {
+        error = 'Listing is claimed by another moderator';
+      }
+
+      if (!error) {
+        try {
+          await this.applyAction(listingId, userId, dto);
+        } catch (err) {
+          error = err instanceof Error ? err.message : 'Moderation failed';
+        }
+      }
+
+      results.push(error ? { listingId, success: false, error } : { listingId, success: true });
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    this.logger.log(
+      `Bulk ${dto.action} by ${userId}: ${succeeded} succeeded, ${results.length - succeeded} failed`,
+    );
+
+    return { succeeded, failed: results.length - succeeded, results };
+  }
+
+  async getStats(
+    userId: string,
+    roles: UserRole[],
+    query: ModerationStatsQueryDto,
+  ): Promise<ModerationStatsDto> {
+    const now = new Date();
+    const to = query.to ? new Date(query.to) : now;
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_STATS_DAYS * 24 * 60 * MINUTE_MS);
+    const scope = await this.getScope(userId, roles);
+    const queueWhere = this.queueWhere(scope);
+
+    const [groups, pending, overdue, claimed] = await Promise.all([
+      this.prisma.listingModerationDecision.groupBy({
+        by: ['moderatorId', 'decision'],
+        where: {
+          decidedAt: { gte: from, lte: to },
+          ...(scope ? { cityIds: { hasSome: scope } } : {}),
+        },
+        _count: { _all: true, queueMinutes: true },
+        _sum: { queueMinutes: true },
+      }),
+      this.prisma.listing.count({ where: queueWhere }),
+      this.prisma.listing.count({
+        where: { AND: [queueWhere, { moderationQueuedAt: { lt: this.slaCutoff(now) } }] },
+      }),
+      this.prisma.listing.count({
+        where: {
+          AND: [
+            queueWhere,
+            { moderationClaimedBy: { not: null } },
+            { moderationClaimedAt: { gte: this.claimCutoff(now) } },
+          ],
+        },
+      }),
+    ]);
+
+    const moderators = new Map<string, ModeratorStatsDto & { waited: number; timed: number }>();
+    for (const group of groups) {
+      const stats = moderators.get(group.moderatorId) ?? {
+        moderatorId: group.moderatorId,
+        approved: 0,
+        rejected: 0,
+        changesRequested: 0,
+        archived: 0,
+        total: 0,
+        averageTimeInQueueHours: null,
+        waited: 0,
+        timed: 0,
+      };
+      const count = group._count._all;
+
+      switch (group.decision) {
+        case ListingModerationStatus.APPROVED:
+          stats.approved += count;
+          break;
+        case ListingModerationStatus.REJECTED:
+          stats.rejected += count;
+          break;
+        case ListingModerationStatus.CHANGES_REQUESTED:
+          stats.changesRequested += count;
+          break;
+        case ListingModerationStatus.ARCHIVED:
+          stats.archived += count;
+          break;
+      }
+      stats.total += count;
+      stats.waited += group._sum.queueMinutes ?? 0;
+      stats.timed += group._count.queueMinutes;
+      moderators.set(group.moderatorId, stats);
+    }
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      slaHours: this.slaHours,
+      queue: { pending, overdue, claimed },
+      moderators: Array.from(moderators.values())
+        .sort((a, b) => b.total - a.total || a.moderatorId.localeCompare(b.moderatorId))
+        .map(({ waited, timed, ...stats }) => ({
+          ...stats,
+          averageTimeInQueueHours: timed > 0 ? Math.round((waited / timed / 60) * 10) / 10 : null,
+        })),
+    };
+  }
+
+  private applyAction(listingId: string, userId: string, dto: BulkModerationDto) {
+    switch (dto.action) {
+      case BulkModerationAction.APPROVE:
+        return this.listingsService.approveListing(listingId, userId, {
+          reviewNotes: dto.reviewNotes,
+          publishStatus: dto.publishStatus,
+        });
+      case BulkModerationAction.REJECT:
+        return this.listingsService.rejectListing(listingId, userId, dto.reviewNotes);
+      case BulkModerationAction.REQUEST_CHANGES:
+        return this.listingsService.requestListingChanges(listingId, userId, {
+          reviewNotes: dto.reviewNotes,
+        });
+    }
+  }
+
+  private async getScope(userId: string, roles: UserRole[]): Promise<ModerationScope> {
+    if (roles.includes(UserRole.SUPER_ADMIN)) {
+      return null;
+    }
+
+    const managedCities = await this.userContext.getUserManagedCities(userId);
+    if (managedCities.length === 0) {
+      throw new ForbiddenException('No cities assigned for moderation');
+    }
+    return managedCities;
+  }
+
+  private async findQueueListing(listingId: string, scope: ModerationScope) {
+    const listing = await this.prisma.listing.findFirst({
+      where: { AND: [{ id: listingId }, this.scopeWhere(scope)] },
+      select: queueListing.select,
+    });
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+    return listing;
+  }
+
+  private scopeWhere(scope: ModerationScope): Prisma.ListingWhereInput {
+    return scope ? { cities: { some: { cityId: { in: scope } } } } : {};
+  }
+
+  private queueWhere(scope: ModerationScope): Prisma.ListingWhereInput {
+    return {
+      ...this.scopeWhere(scope),
+      moderationStatus: ListingModerationStatus.PENDING,
+      isArchived: false,
+    };
+  }
+
+  private unclaimedWhere(now: Date): Prisma.ListingWhereInput {
+    return {
+      OR: [
+        { moderationClaimedBy: null },
+        { moderationClaimedAt: null },
+        { moderationClaimedAt: { lt: this.claimCutoff(now) } },
+      ],
+    };
+  }
+
+  private claimCutoff(now: Date) {
+    return new Date(now.getTime() - this.claimTtlMinutes * MINUTE_MS);
+  }
+
+  private slaCutoff(now: Date) {
+    return new Date(now.getTime() - this.slaHours * 60 * MINUTE_MS);
+  }
+
+  private isClaimActive(listing: QueueListing, now: Date) {
+    return (
+      listing.moderationClaimedAt !== null && listing.moderationClaimedAt >= this.claimCutoff(now)
+    );
+  }
+
+  private toQueueItem(listing: QueueListing, now: Date): ModerationQueueItemDto {
+    const queuedAt = listing.moderationQueuedAt ?? listing.createdAt;
+    const dueAt = new Date(queuedAt.getTime() + this.slaHours * 60 * MINUTE_MS);
+    const isWaiting = listing.moderationStatus === ListingModerationStatus.PENDING;
+    const claimActive = this.isClaimActive(listing, now);
+
+    return {
+      listingId: listing.id,
+      slug: listing.slug,
+      title: listing.title,
+      summary: listing.summary,
+      moderationStatus: listing.moderationStatus,
+      primaryCityId: listing.primaryCityId,
+      cityIds: listing.cities.map((city) => city.cityId),
+      createdByUserId: listing.createdByUserId,
+      queuedAt: queuedAt.toISOString(),
+      timeInQueueMinutes: Math.max(0, Math.floor((now.getTime() - queuedAt.getTime()) / MINUTE_MS)),
+      dueAt: dueAt.toISOString(),
+      isOverdue: isWaiting && dueAt < now,
+      claimedBy: claimActive ? listing.moderationClaimedBy : null,
+      claimedAt: claimActive ? (listing.moderationClaimedAt?.toISOString() ?? null) : null,
+      claimExpiresAt:
+        claimActive && listing.moderationClaimedAt
+          ? new Date(
+              listing.moderationClaimedAt.getTime() + this.claimTtlMinutes * MINUTE_MS,
+            ).toISOString()
+          : null,
+      riskScore: listing.riskScore,
+      riskReasons: Array.isArray(listing.riskReasons)
+        ? (listing.riskReasons as unknown as ScreeningFindingDto[])
+        : [],
+    };
+  }
+}
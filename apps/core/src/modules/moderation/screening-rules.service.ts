@@ -0,0 +1,170 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+import { LoggerService } from '@heidi/logger';
+import { I18nService } from '@heidi/i18n';
+import { UserContextService } from '@heidi/rbac';
+import { Prisma, ScreeningRule, ScreeningRuleType, UserRole } from '@prisma/client-core';
+import {
+  CreateScreeningRuleDto,
+  ScreeningRuleDto,
+  ScreeningRuleListDto,
+  ScreeningRulesQueryDto,
+} from '@heidi/contracts';
+
+const DOMAIN_RULES: ScreeningRuleType[] = [
+  ScreeningRuleType.BLOCKED_DOMAIN,
+  ScreeningRuleType.SUSPICIOUS_DOMAIN,
+  ScreeningRuleType.TRUSTED_DOMAIN,
+];
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9-]+\.)+[a-z0-9-]{2,}$/;
+
+/**
+ * Blocklists, profanity dictionaries and domain reputation lists used by
+ * listing screening. City admins manage the rules of their cities; global
+ * rules are reserved to super admins.
+ */
+@Injectable()
+export class ScreeningRulesService {
+  constructor(
+    private readonly prisma: PrismaCoreService,
+    private readonly userContext: UserContextService,
+    private readonly i18nService: I18nService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ScreeningRulesService.name);
+  }
+
+  async list(
+    userId: string,
+    roles: UserRole[],
+    query: ScreeningRulesQueryDto,
+  ): Promise<ScreeningRuleListDto> {
+    const scope = await this.getScope(userId, roles);
+    if (query.cityId && scope && !scope.includes(query.cityId)) {
+      throw new ForbiddenException('You do not manage this city');
+    }
+
+    const cityIds = query.cityId ? [query.cityId] : scope;
+    const where: Prisma.ScreeningRuleWhereInput = cityIds
+      ? { type: query.type, OR: [{ cityId: null }, { cityId: { in: cityIds } }] }
+      : { type: query.type };
+
+    const rules = await this.prisma.screeningRule.findMany({
+      where,
+      orderBy: [{ type: 'asc' }, { value: 'asc' }],
+    });
+
+    return { items: rules.map((rule) => this.toDto(rule)) };
+  }
+
+  async create(
+    userId: string,
+    roles: UserRole[],
+    dto: CreateScreeningRuleDto,
+  ): Promise<ScreeningRuleDto> {
+    await this.ensureCanManage(userId, roles, dto.cityId ?? null);
+
+    const isDomain = DOMAIN_RULES.includes(dto.type);
+    const value = isDomain ? this.normalizeDomain(dto.value) : dto.value.trim().toLowerCase();
+    const languageCode = dto.languageCode?.toLowerCase() ?? null;
+
+    if (isDomain && languageCode) {
+      throw new BadRequestException('Domain rules do not have a language');
+    }
+    if (languageCode && !this.i18nService.getSupportedLanguages().includes(languageCode)) {
+      throw new BadRequestException(`Unsupported language: ${languageCode}`);
+    }
+
+    const existing = await this.prisma.screeningRule.findFirst({
+      where: { type: dto.type, value, cityId: dto.cityId ?? null, languageCode },
+    });
+    if (existing) {
+      throw new ConflictException('Screening rule already exists');
+    }
+
+    const rule = await this.prisma.screeningRule.create({
+      data: {
+        type: dto.type,
+        value,
+        cityId: dto.cityId ?? null,
+        languageCode,
+        createdByUserId: userId,
+      },
+    });
+
+    this.logger.log(
+      `Screening rule ${rule.id} (${rule.type} "${rule.value}") created by ${userId}`,
+    );
+    return this.toDto(rule);
+  }
+
+  async remove(ruleId: string, userId: string, roles: UserRole[]): Promise<void> {
+    const rule = await this.prisma.screeningRule.findUnique({ where: { id: ruleId } });
+    if (!rule) {
+      throw new NotFoundException('Screening rule not found');
+    }
+
+    await this.ensureCanManage(userId, roles, rule.cityId);
+    await this.prisma.screeningRule.delete({ where: { id: ruleId } });
+
+    this.logger.log(`Screening rule ${ruleId} deleted by ${userId}`);
+  }
+
+  private async getScope(userId: string, roles: UserRole[]): Promise<string[] | null> {
+    if (roles.includes(UserRole.SUPER_ADMIN)) {
+      return null;
+    }
+    return this.userContext.getUserManagedCities(userId);
+  }
+
+  private async ensureCanManage(userId: string, roles: UserRole[], cityId: string | null) {
+    const scope = await this.getScope(userId, roles);
+    if (!scope) {
+      return;
+    }
+    if (!cityId) {
+      throw new ForbiddenException('Only super admins can manage global screening rules');
+    }
+    if (!scope.includes(cityId)) {
+      throw new ForbiddenException('You do not manage this city');
+    }
+  }
+
+  /**
+   * Accepts bare domains as well as URLs and strips a leading "www."
+   */
+  private normalizeDomain(value: string): string {
+    let domain = value.trim().toLowerCase();
+    if (domain.includes('://')) {
+      try {
+        domain = new URL(domain).hostname;
+      } catch {
+        throw new BadRequestException(`Invalid domain: ${value}`);
+      }
+    }
+    domain = domain.replace(/^www\./, '').replace(/\.$/, '');
+
+    if (!DOMAIN_PATTERN.test(domain)) {
+      throw new BadRequestException(`Invalid domain: ${value}`);
+    }
+    return domain;
+  }
+
+  private toDto(rule: ScreeningRule): ScreeningRuleDto {
+    return {
+      id: rule.id,
+      type: rule.type,
+      value: rule.value,
+      cityId: rule.cityId,
+      languageCode: rule.languageCode,
+      createdByUserId: rule.createdByUserId,
+      createdAt: rule.createdAt.toISOString(),
+    };
+  }
+}
@@ -44,6 +44,7 @@ import {
 import { CurrentUser, GetCurrentUser, JwtAuthGuard, Public } from '@heidi/jwt';
 import { UserRole } from '@prisma/client-core';
 import { TilesService } from './tiles.service';
+import { ContentCacheService } from '../content-cache/content-cache.service';
 import {
   CityAdminOnly,
   AdminOnlyGuard,
@@ -67,6 +68,7 @@ export class TilesController {
     private readonly storageService: StorageService,
     private readonly logger: LoggerService,
     private readonly prisma: PrismaCoreService,
+    private readonly contentCache: ContentCacheService,
   ) {
     this.logger.setContext(TilesController.name);
   }
@@ -390,6 +392,7 @@ export class TilesController {
       where: { id },
       data: { backgroundImageUrl: imageUrl },
     });
+    await this.contentCache.invalidate('tiles');
 
     // Refresh tile with relations
     const tile = await this.tilesService.getTileById(id);
@@ -503,6 +506,7 @@ export class TilesController {
       where: { id },
       data: { iconImageUrl: imageUrl },
     });
+    await this.contentCache.invalidate('tiles');
 
     // Refresh tile with relations
     const tile = await this.tilesService.getTileById(id);
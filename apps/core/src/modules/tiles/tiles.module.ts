@@ -5,9 +5,10 @@ import { LoggerModule } from '@heidi/logger';
 import { PrismaCoreModule } from '@heidi/prisma';
 import { RBACModule } from '@heidi/rbac';
 import { StorageModule } from '@heidi/storage';
+import { ContentCacheModule } from '../content-cache/content-cache.module';
 
 @Module({
-  imports: [LoggerModule, PrismaCoreModule, RBACModule, StorageModule],
+  imports: [LoggerModule, PrismaCoreModule, RBACModule, StorageModule, ContentCacheModule],
   controllers: [TilesController],
   providers: [TilesService],
   exports: [TilesService],
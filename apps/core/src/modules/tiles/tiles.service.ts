@@ -4,6 +4,10 @@ import { LoggerService } from '@heidi/logger';
 import { Prisma, UserRole } from '@prisma/client-core';
 import {
   CreateTileDto,
+  CursorCodec,
+  cursorOrderBy,
+  cursorWhere,
+  isCursorMode,
   TileCityReferenceDto,
   TileFilterDto,
   TileResponseDto,
@@ -14,6 +18,7 @@ import {
 import { UserContextService } from '@heidi/rbac';
 import { StorageService } from '@heidi/storage';
 import { ConfigService } from '@heidi/config';
+import { ContentCacheService } from '../content-cache/content-cache.service';
 
 const tileWithRelations = Prisma.validator<Prisma.TileDefaultArgs>()({
   include: {
@@ -25,14 +30,21 @@ type TileWithRelations = Prisma.TileGetPayload<typeof tileWithRelations>;
 
 @Injectable()
 export class TilesService {
+  private readonly cursorCodec: CursorCodec;
+
   constructor(
     private readonly prisma: PrismaCoreService,
     private readonly logger: LoggerService,
     private readonly userContext: UserContextService,
     private readonly storageService: StorageService,
     private readonly configService: ConfigService,
+    private readonly contentCache: ContentCacheService,
   ) {
     this.logger.setContext(TilesService.name);
+    this.cursorCodec = new CursorCodec(
+      this.configService.get<string>('pagination.cursorSecret') ??
+        this.configService.get<string>('jwt.secret', ''),
+    );
   }
 
   private isAdmin(roles: UserRole[] = []) {
@@ -228,6 +240,7 @@ export class TilesService {
       data,
       include: tileWithRelations.include,
     });
+    await this.contentCache.invalidate('tiles');
 
     return this.mapTile(tile);
   }
@@ -242,7 +255,7 @@ export class TilesService {
       throw new ForbiddenException('Only admins can update tiles');
     }
 
-    return this.prisma.$transaction(async (tx) => {
+    const updated = await this.prisma.$transaction(async (tx) => {
       const existing = await tx.tile.findUnique({
         where: { id: tileId },
         include: { cities: true },
@@ -352,6 +365,9 @@ export class TilesService {
 
       return this.mapTile(refreshed);
     });
+    await this.contentCache.invalidate('tiles');
+
+    return updated;
   }
 
   async getTileById(tileId: string): Promise<TileResponseDto> {
@@ -438,6 +454,10 @@ export class TilesService {
   }
 
   async listTiles(filter: TileFilterDto = {} as TileFilterDto) {
+    return this.contentCache.wrap('tiles', filter, () => this.queryTiles(filter));
+  }
+
+  private async queryTiles(filter: TileFilterDto) {
     const page = filter.page && filter.page > 0 ? filter.page : 1;
     const pageSizeCandidate = filter.pageSize && filter.pageSize > 0 ? filter.pageSize : 20;
     const pageSize = Math.min(pageSizeCandidate, 100);
@@ -449,6 +469,23 @@ export class TilesService {
       filter.sortBy && allowedSortFields.has(filter.sortBy) ? filter.sortBy : 'displayOrder';
     const sortDirection = filter.sortDirection ?? TileSortDirection.ASC;
 
+    if (isCursorMode(filter)) {
+      const sort = {
+        field: sortByField,
+        direction: sortDirection,
+        nullable: sortByField === 'publishAt',
+      };
+      const position = filter.cursor ? this.cursorCodec.decode(filter.cursor, sort, filter) : null;
+      const rows = await this.prisma.tile.findMany({
+        where: { AND: [where, cursorWhere(sort, position) as Prisma.TileWhereInput] },
+        include: tileWithRelations.include,
+        orderBy: cursorOrderBy(sort) as Prisma.TileOrderByWithRelationInput[],
+        take: pageSize + 1,
+      });
+
+      return this.cursorCodec.page(rows, pageSize, sort, filter, (row) => this.mapTile(row));
+    }
+
     const orderBy: Prisma.TileOrderByWithRelationInput = {};
     (orderBy as Record<string, unknown>)[sortByField] = sortDirection;
 
@@ -540,6 +577,7 @@ export class TilesService {
     await this.prisma.tile.delete({
       where: { id: tileId },
     });
+    await this.contentCache.invalidate('tiles');
 
     return { message: 'Tile deleted successfully' };
   }
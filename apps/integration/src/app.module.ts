@@ -2,10 +2,12 @@ import { Module } from '@nestjs/common';
 import { APP_INTERCEPTOR } from '@nestjs/core';
 import { HttpModule } from '@nestjs/axios';
 import { TerminusModule } from '@nestjs/terminus';
+import { ScheduleModule } from '@nestjs/schedule';
 import { ConfigModule, ConfigService } from '@heidi/config';
 import { PrismaIntegrationModule } from '@heidi/prisma';
 import { LoggerModule } from '@heidi/logger';
 import { RmqModule } from '@heidi/rabbitmq';
+import { RedisModule } from '@heidi/redis';
 import { JwtModule } from '@heidi/jwt';
 import { MetricsModule, MetricsInterceptor } from '@heidi/metrics';
 import {
@@ -18,6 +20,7 @@ import { I18nModule, LanguageInterceptor } from '@heidi/i18n';
 import { ErrorHandlingModule } from '@heidi/errors';
 import { IntegrationModule } from './modules/integration/integration.module';
 import { DestinationOneModule } from './modules/destination-one/destination-one.module';
+import { OutboundWebhooksModule } from './modules/outbound-webhooks/outbound-webhooks.module';
 import { HealthController } from './health.controller';
 
 @Module({
@@ -25,8 +28,10 @@ import { HealthController } from './health.controller';
     ConfigModule,
     HttpModule.register({ timeout: 10000, maxRedirects: 5 }),
     TerminusModule,
+    ScheduleModule.forRoot(),
     PrismaIntegrationModule,
     LoggerModule,
+    RedisModule,
     RmqModule.forRootAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
@@ -38,6 +43,7 @@ import { HealthController } from './health.controller';
     ErrorHandlingModule,
     DestinationOneModule,
     IntegrationModule,
+    OutboundWebhooksModule,
   ],
   controllers: [HealthController],
   providers: [
@@ -9,7 +9,11 @@ import { ConfigService, getSwaggerServerUrl } from '@heidi/config';
 import { getRmqConsumerOptions } from '@heidi/rabbitmq';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, { bufferLogs: true });
+  const app = await NestFactory.create(AppModule, {
+    bufferLogs: true,
+    // Webhook signatures are computed over the exact request bytes
+    rawBody: true,
+  });
 
   const logger = await app.resolve(LoggerService);
   logger.setContext('Integration-Service');
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { DestinationOneService } from './destination-one.service';
+import { ListingImportModule } from '../listing-import/listing-import.module';
 
 @Module({
-  imports: [HttpModule],
+  imports: [HttpModule, ListingImportModule],
   providers: [DestinationOneService],
   exports: [DestinationOneService],
 })
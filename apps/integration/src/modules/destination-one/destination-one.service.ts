@@ -6,7 +6,8 @@ import { LoggerService } from '@heidi/logger';
 import { firstValueFrom } from 'rxjs';
 import { createHash } from 'crypto';
 import { ListingRecurrenceFreq, CategoryType } from '@prisma/client-core';
-import { DestinationOneConfig } from '@heidi/contracts';
+import { DestinationOneConfig, IntegrationListingData } from '@heidi/contracts';
+import { ListingSyncService } from '../listing-import/listing-sync.service';
 
 interface DestinationOneFacet {
   value: string;
@@ -72,36 +73,6 @@ interface DestinationOneResponse {
   results: DestinationOneResult[];
 }
 
-interface TransformedListingData {
-  title: string;
-  summary?: string;
-  content: string;
-  slug: string;
-  externalSource: string;
-  externalId: string;
-  syncHash: string;
-  sourceType: 'API_IMPORT';
-  primaryCityId: string;
-  venueName?: string;
-  address?: string;
-  geoLat?: number;
-  geoLng?: number;
-  timezone?: string;
-  contactPhone?: string;
-  contactEmail?: string;
-  website?: string;
-  heroImageUrl?: string;
-  categorySlugs: string[];
-  timeIntervals?: Array<{
-    weekdays: string[];
-    start: string;
-    end: string;
-    tz: string;
-    freq: ListingRecurrenceFreq;
-    interval: number;
-  }>;
-}
-
 /**
  * Maps Destination One item types to root category slugs and CategoryType
  */
@@ -122,6 +93,7 @@ export class DestinationOneService {
     private readonly prisma: PrismaIntegrationService,
     @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
     private readonly http: HttpService,
+    private readonly listingSyncService: ListingSyncService,
     logger: LoggerService,
   ) {
     this.logger = logger;
@@ -273,7 +245,7 @@ export class DestinationOneService {
   transformToListing(
     item: DestinationOneItem,
     config: DestinationOneConfig,
-  ): TransformedListingData {
+  ): IntegrationListingData {
     // Get content from texts
     // Prefer HTML "details" (rich content), then HTML "teaser", then plain-text fallbacks
     const detailsHtml =
@@ -356,7 +328,7 @@ export class DestinationOneService {
 
   async syncIntegration(
     integrationId: string,
-  ): Promise<{ created: number; updated: number; skipped: number }> {
+  ): Promise<{ created: number; updated: number; skipped: number; archived: number }> {
     const integration = await this.prisma.integration.findUnique({
       where: { id: integrationId },
     });
@@ -371,7 +343,7 @@ export class DestinationOneService {
 
     if (!integration.isActive) {
       this.logger.log(`Integration ${integrationId} is not active`);
-      return { created: 0, updated: 0, skipped: 0 };
+      return { created: 0, updated: 0, skipped: 0, archived: 0 };
     }
 
     const config = integration.config as unknown as DestinationOneConfig;
@@ -381,7 +353,7 @@ export class DestinationOneService {
 
     if (config.enabled === false) {
       this.logger.log(`Integration ${integrationId} is disabled`);
-      return { created: 0, updated: 0, skipped: 0 };
+      return { created: 0, updated: 0, skipped: 0, archived: 0 };
     }
 
     if (!config.experience || !config.licensekey || !config.cityId) {
@@ -395,6 +367,7 @@ export class DestinationOneService {
     let created = 0;
     let updated = 0;
     let skipped = 0;
+    let archived = 0;
     let errorCount = 0;
 
     try {
@@ -487,35 +460,17 @@ export class DestinationOneService {
 
       this.logger.log(`Processing ${items.length} items from destination_one API`);
 
-      for (const item of items) {
-        try {
-          const listingData = this.transformToListing(item, config);
-
-          const result = await firstValueFrom(
-            this.client.send<{ action: string; listingId: string }>(
-              RabbitMQPatterns.INTEGRATION_SYNC_LISTING,
-              {
-                integrationId,
-                listingData,
-                timestamp: new Date().toISOString(),
-              },
-            ),
-          );
-
-          if (result) {
-            if (result.action === 'created') {
-              created++;
-            } else if (result.action === 'updated') {
-              updated++;
-            } else if (result.action === 'skipped') {
-              skipped++;
-            }
-          }
-        } catch (error: any) {
-          this.logger.error(`Failed to process item ${item.id}: ${error?.message}`, error);
-          errorCount++;
-        }
-      }
+      // Every page was fetched (a failed request aborts the sync), so this run is complete
+      const { runId, counts, reconciliation } = await this.listingSyncService.syncListings(
+        integrationId,
+        items.map((item) => this.transformToListing(item, config)),
+        { externalSource: 'destination_one', cityId: config.cityId, complete: true },
+      );
+      created = counts.created;
+      updated = counts.updated;
+      skipped = counts.skipped;
+      archived = counts.archived;
+      errorCount = counts.errors;
 
       await this.prisma.integration.update({
         where: { id: integrationId },
@@ -526,17 +481,24 @@ export class DestinationOneService {
         data: {
           integrationId,
           event: 'sync_completed',
-          payload: { itemsProcessed: items.length },
-          response: { created, updated, skipped, errors: errorCount },
+          payload: { itemsProcessed: items.length, runId },
+          response: {
+            created,
+            updated,
+            skipped,
+            archived,
+            errors: errorCount,
+            reconciliation: { ...reconciliation },
+          },
           status: 'SUCCESS',
         },
       });
 
       this.logger.log(
-        `Sync completed: ${created} created, ${updated} updated, ${skipped} skipped, ${errorCount} errors`,
+        `Sync completed: ${created} created, ${updated} updated, ${skipped} skipped, ${archived} archived, ${errorCount} errors`,
       );
 
-      return { created, updated, skipped };
+      return { created, updated, skipped, archived };
     } catch (error: any) {
       this.logger.error(`Sync failed for integration ${integrationId}`, error);
 
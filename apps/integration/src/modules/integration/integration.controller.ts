@@ -7,7 +7,10 @@ import {
   HttpStatus,
   HttpCode,
   UseGuards,
+  Req,
+  RawBodyRequest,
 } from '@nestjs/common';
+import { Request } from 'express';
 import {
   ApiBearerAuth,
   ApiBody,
@@ -94,15 +97,27 @@ export class IntegrationController {
   @ApiParam({
     name: 'provider',
     description: 'Integration provider key',
-    example: 'destination-one',
+    example: 'stripe',
   })
   @ApiBody({
-    description: 'Webhook payload',
+    description: 'Webhook payload, signed according to the provider (Stripe, Slack, Twilio, HMAC)',
     schema: { example: { event: 'update', data: { id: '123' } } },
   })
-  @ApiResponse({ status: HttpStatus.OK, description: 'Webhook processed' })
-  async handleWebhook(@Param('provider') provider: string, @Body() payload: any) {
-    return this.integrationService.handleWebhook(provider, payload);
+  @HttpCode(HttpStatus.OK)
+  @ApiResponse({ status: HttpStatus.OK, description: 'Webhook processed or duplicate ignored' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Signature verification failed' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Unsupported or inactive provider' })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Body() payload: any,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    return this.integrationService.handleWebhook(provider, {
+      headers: req.headers,
+      rawBody: req.rawBody ?? Buffer.alloc(0),
+      body: payload,
+      url: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+    });
   }
 
   @Post('newsletter/subscribe')
@@ -5,7 +5,17 @@ import { IntegrationService } from './integration.service';
 import { DestinationOneModule } from '../destination-one/destination-one.module';
 import { MobilithekParkingModule } from '../mobilithek-parking/mobilithek-parking.module';
 import { KielNewsletterModule } from '../kiel-newsletter/kiel-newsletter.module';
+import { ListingImportModule } from '../listing-import/listing-import.module';
 import { RBACModule } from '@heidi/rbac';
+import {
+  WEBHOOK_VERIFIERS,
+  HmacWebhookVerifier,
+  SlackWebhookVerifier,
+  StripeWebhookVerifier,
+  TwilioWebhookVerifier,
+  WebhookVerificationService,
+  WebhookVerifier,
+} from './webhooks';
 
 @Module({
   imports: [
@@ -13,9 +23,27 @@ import { RBACModule } from '@heidi/rbac';
     DestinationOneModule,
     MobilithekParkingModule,
     KielNewsletterModule,
+    ListingImportModule,
     RBACModule,
   ],
   controllers: [IntegrationController],
-  providers: [IntegrationService],
+  providers: [
+    IntegrationService,
+    WebhookVerificationService,
+    StripeWebhookVerifier,
+    SlackWebhookVerifier,
+    HmacWebhookVerifier,
+    TwilioWebhookVerifier,
+    {
+      provide: WEBHOOK_VERIFIERS,
+      useFactory: (...verifiers: WebhookVerifier[]) => verifiers,
+      inject: [
+        StripeWebhookVerifier,
+        SlackWebhookVerifier,
+        HmacWebhookVerifier,
+        TwilioWebhookVerifier,
+      ],
+    },
+  ],
 })
 export class IntegrationModule {}
@@ -1,13 +1,17 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable, Inject, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { MessagePattern, Payload } from '@nestjs/microservices';
 import { PrismaIntegrationService } from '@heidi/prisma';
+import { IntegrationProvider } from '@prisma/client-integration';
 import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
 import { LoggerService } from '@heidi/logger';
 import { firstValueFrom } from 'rxjs';
+import { ScheduleRunResult, ScheduleRunResultStatus } from '@heidi/contracts';
 import { DestinationOneService } from '../destination-one/destination-one.service';
 import { MobilithekParkingService } from '../mobilithek-parking/mobilithek-parking.service';
 import { KielNewsletterService } from '../kiel-newsletter/kiel-newsletter.service';
+import { ListingImportService } from '../listing-import/listing-import.service';
+import { WebhookRequest, WebhookVerificationResult, WebhookVerificationService } from './webhooks';
 
 @Injectable()
 export class IntegrationService {
@@ -20,6 +24,8 @@ export class IntegrationService {
     private readonly destinationOneService: DestinationOneService,
     private readonly mobilithekParkingService: MobilithekParkingService,
     private readonly kielNewsletterService: KielNewsletterService,
+    private readonly listingImportService: ListingImportService,
+    private readonly webhookVerificationService: WebhookVerificationService,
     logger: LoggerService,
   ) {
     this.logger = logger;
@@ -50,6 +56,8 @@ export class IntegrationService {
         return this.destinationOneService.syncIntegration(integrationId);
       case 'MOBILITHEK_PARKING':
         return this.mobilithekParkingService.syncIntegration(integrationId);
+      case 'LISTING_IMPORT':
+        return this.listingImportService.syncIntegration(integrationId);
       default:
         throw new Error(`Unsupported integration provider: ${integration.provider}`);
     }
@@ -79,18 +87,22 @@ export class IntegrationService {
   }
 
   @MessagePattern(RabbitMQPatterns.INTEGRATION_SYNC)
-  async handleIntegrationSync(@Payload() data: { integrationId: string; timestamp?: string }) {
+  async handleIntegrationSync(
+    @Payload() data: { integrationId: string; taskId?: string; runId?: string; timestamp?: string },
+  ) {
     this.logger.log(
       `Received integration sync request: ${RabbitMQPatterns.INTEGRATION_SYNC} for integrationId: ${data.integrationId}`,
     );
 
     try {
       const result = await this.syncIntegration(data.integrationId);
+      this.reportRunResult(data, ScheduleRunResultStatus.SUCCESS, result);
       this.logger.debug(
         `Successfully processed integration sync for integrationId: ${data.integrationId} (will ACK)`,
       );
       return result;
     } catch (error: any) {
+      this.reportRunResult(data, ScheduleRunResultStatus.FAILED, undefined, error?.message);
       this.logger.error(
         `Error processing integration sync for integrationId: ${data.integrationId} (will NACK)`,
         error,
@@ -99,40 +111,132 @@ export class IntegrationService {
     }
   }
 
-  async handleWebhook(provider: string, payload: any) {
-    this.logger.log(`Received webhook from provider: ${provider}`);
+  /**
+   * Report the outcome of a scheduler-triggered sync back to the scheduler
+   */
+  private reportRunResult(
+    data: { taskId?: string; runId?: string },
+    status: ScheduleRunResultStatus,
+    counts?: Record<string, number>,
+    error?: string,
+  ) {
+    if (!data.runId) {
+      return; // Not triggered by a scheduled run
+    }
+
+    const report: ScheduleRunResult = {
+      runId: data.runId,
+      taskId: data.taskId,
+      status,
+      counts,
+      error,
+      timestamp: new Date().toISOString(),
+    };
+    this.client.emit(RabbitMQPatterns.SCHEDULE_RUN_RESULT, report);
+  }
+
+  async handleWebhook(providerKey: string, request: WebhookRequest) {
+    this.logger.log(`Received webhook from provider: ${providerKey}`);
 
-    // Verify webhook signature (implementation depends on provider)
-    // const isValid = this.verifyWebhookSignature(provider, payload);
+    const provider = providerKey.toUpperCase().replace(/-/g, '_') as IntegrationProvider;
+    const verifier = this.webhookVerificationService.getVerifier(provider);
+    if (!verifier) {
+      this.logger.warn(`Rejected webhook for unsupported provider: ${providerKey}`);
+      throw new NotFoundException(`Webhooks are not supported for provider ${providerKey}`);
+    }
 
-    // Log the webhook event
-    const integration = await this.prisma.integration.findFirst({
-      where: { provider: provider as any, isActive: true },
+    const integrations = await this.prisma.integration.findMany({
+      where: { provider, isActive: true },
     });
+    if (integrations.length === 0) {
+      this.logger.warn(`Rejected webhook for provider ${provider}: no active integration`);
+      throw new NotFoundException(`No active integration for provider ${providerKey}`);
+    }
+
+    // Several integrations may share a provider; the delivery belongs to the one
+    // whose credentials verify its signature.
+    const failures: { integrationId: string; reason: string }[] = [];
+    for (const integration of integrations) {
+      let verification: WebhookVerificationResult;
+      try {
+        verification = this.webhookVerificationService.verify(verifier, request, integration);
+      } catch (error) {
+        failures.push({ integrationId: integration.id, reason: error.message });
+        continue;
+      }
 
-    if (integration) {
+      return this.processVerifiedWebhook(provider, integration.id, verification, request.body);
+    }
+
+    for (const failure of failures) {
+      this.logger.warn(
+        `Rejected webhook for integration ${failure.integrationId}: ${failure.reason}`,
+      );
       await this.prisma.integrationLog.create({
         data: {
-          integrationId: integration.id,
-          event: 'webhook_received',
-          payload,
-          status: 'SUCCESS',
+          integrationId: failure.integrationId,
+          event: 'webhook_rejected',
+          payload: request.body ?? undefined,
+          status: 'FAILED',
+          errorMessage: failure.reason,
         },
       });
+    }
 
-      // Forward event to other services via RabbitMQ
-      this.client.emit(RabbitMQPatterns.INTEGRATION_WEBHOOK, {
+    throw new UnauthorizedException('Webhook signature verification failed');
+  }
+
+  private async processVerifiedWebhook(
+    provider: IntegrationProvider,
+    integrationId: string,
+    verification: WebhookVerificationResult,
+    payload: any,
+  ) {
+    const { deliveryId } = verification;
+
+    const isNew = await this.webhookVerificationService.claimDelivery(integrationId, deliveryId);
+    if (!isNew) {
+      this.logger.log(`Ignoring duplicate webhook delivery ${deliveryId} for ${integrationId}`);
+      return {
+        success: true,
+        message: 'Duplicate webhook ignored',
         provider,
-        integrationId: integration.id,
-        payload,
-        timestamp: new Date().toISOString(),
+        deliveryId,
+        duplicate: true,
+      };
+    }
+
+    try {
+      await this.prisma.integrationLog.create({
+        data: {
+          integrationId,
+          event: 'webhook_received',
+          payload,
+          response: { deliveryId, signedAt: verification.timestamp?.toISOString() ?? null },
+          status: 'SUCCESS',
+        },
       });
+    } catch (error) {
+      // Let the provider's retry be processed instead of being dropped as a duplicate
+      await this.webhookVerificationService.releaseDelivery(integrationId, deliveryId);
+      throw error;
     }
 
+    // Forward event to other services via RabbitMQ
+    this.client.emit(RabbitMQPatterns.INTEGRATION_WEBHOOK, {
+      provider,
+      integrationId,
+      deliveryId,
+      payload,
+      timestamp: new Date().toISOString(),
+    });
+
     return {
       success: true,
       message: 'Webhook processed',
       provider,
+      deliveryId,
+      duplicate: false,
     };
   }
 
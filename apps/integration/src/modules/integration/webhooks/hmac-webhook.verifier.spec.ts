@@ -0,0 +1,92 @@
+import { createHmac } from 'crypto';
+import { HmacWebhookVerifier } from './hmac-webhook.verifier';
+import { WebhookRequest, WebhookVerificationError } from './webhook-verifier';
+
+const SECRET = 'webhook-secret';
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const TIMESTAMP = String(NOW.getTime() / 1000);
+const BODY = Buffer.from('{"event":"listing.updated","data":{"title":"Café"}}');
+
+function sign(timestamp: string, body: Buffer, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex')}`;
+}
+
+function buildRequest(headers: Record<string, string>, rawBody = BODY): WebhookRequest {
+  return { headers, rawBody, body: JSON.parse(rawBody.toString()), url: 'https://example.com' };
+}
+
+describe('HmacWebhookVerifier', () => {
+  const verifier = new HmacWebhookVerifier();
+  const integration = { credentials: { webhookSecret: SECRET } };
+  const options = { toleranceSeconds: 300, now: NOW };
+
+  it('accepts a delivery signed over the timestamp and raw body', () => {
+    const request = buildRequest({
+      'x-webhook-id': 'delivery-1',
+      'x-webhook-timestamp': TIMESTAMP,
+      'x-webhook-signature': sign(TIMESTAMP, BODY),
+    });
+
+    expect(verifier.verify(request, integration, options)).toEqual({
+      deliveryId: 'delivery-1',
+      timestamp: NOW,
+    });
+  });
+
+  it('falls back to timestamp and signature as delivery ID', () => {
+    const signature = sign(TIMESTAMP, BODY);
+    const request = buildRequest({
+      'x-webhook-timestamp': TIMESTAMP,
+      'x-webhook-signature': signature,
+    });
+
+    expect(verifier.verify(request, integration, options).deliveryId).toBe(
+      `${TIMESTAMP}:${signature}`,
+    );
+  });
+
+  it('rejects a tampered body', () => {
+    const request = buildRequest(
+      { 'x-webhook-timestamp': TIMESTAMP, 'x-webhook-signature': sign(TIMESTAMP, BODY) },
+      Buffer.from('{"event":"listing.deleted","data":{"title":"Café"}}'),
+    );
+
+    expect(() => verifier.verify(request, integration, options)).toThrow(WebhookVerificationError);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const request = buildRequest({
+      'x-webhook-timestamp': TIMESTAMP,
+      'x-webhook-signature': sign(TIMESTAMP, BODY, 'other-secret'),
+    });
+
+    expect(() => verifier.verify(request, integration, options)).toThrow('signature mismatch');
+  });
+
+  it('rejects a signed timestamp outside the tolerance', () => {
+    const stale = String(NOW.getTime() / 1000 - 301);
+    const request = buildRequest({
+      'x-webhook-timestamp': stale,
+      'x-webhook-signature': sign(stale, BODY),
+    });
+
+    expect(() => verifier.verify(request, integration, options)).toThrow('outside tolerance');
+  });
+
+  it('rejects deliveries without signature headers', () => {
+    expect(() =>
+      verifier.verify(buildRequest({ 'x-webhook-timestamp': TIMESTAMP }), integration, options),
+    ).toThrow('Missing x-webhook-signature header');
+  });
+
+  it('rejects integrations without a webhook secret', () => {
+    const request = buildRequest({
+      'x-webhook-timestamp': TIMESTAMP,
+      'x-webhook-signature': sign(TIMESTAMP, BODY),
+    });
+
+    expect(() => verifier.verify(request, { credentials: {} }, options)).toThrow(
+      'missing "webhookSecret"',
+    );
+  });
+});
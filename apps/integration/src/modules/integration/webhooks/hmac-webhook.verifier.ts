@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { IntegrationProvider } from '@prisma/client-integration';
+import {
+  WebhookRequest,
+  WebhookVerificationError,
+  WebhookVerificationOptions,
+  WebhookVerificationResult,
+  WebhookVerifier,
+} from './webhook-verifier';
+import {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  assertTimestampWithinTolerance,
+  getHeader,
+  requireHeader,
+  requireSecret,
+  safeCompare,
+  signWebhookPayload,
+} from './webhook-signature.utils';
+
+/**
+ * Generic HMAC webhooks (provider WEBHOOK):
+ * `X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<X-Webhook-Timestamp>.<raw body>">`
+ * keyed with `credentials.webhookSecret`. `X-Webhook-Id` identifies the delivery.
+ */
+@Injectable()
+export class HmacWebhookVerifier implements WebhookVerifier {
+  readonly provider = IntegrationProvider.WEBHOOK;
+
+  verify(
+    request: WebhookRequest,
+    integration: { credentials: any },
+    options: WebhookVerificationOptions,
+  ): WebhookVerificationResult {
+    const secret = requireSecret(integration.credentials, 'webhookSecret');
+    const timestamp = requireHeader(request.headers, WEBHOOK_TIMESTAMP_HEADER);
+    const signature = requireHeader(request.headers, WEBHOOK_SIGNATURE_HEADER);
+
+    const expected = signWebhookPayload(secret, timestamp, request.rawBody);
+    if (!safeCompare(expected, signature)) {
+      throw new WebhookVerificationError('Webhook signature mismatch');
+    }
+
+    const signedAt = assertTimestampWithinTolerance(
+      timestamp,
+      options.toleranceSeconds,
+      options.now,
+    );
+
+    return {
+      deliveryId: getHeader(request.headers, WEBHOOK_ID_HEADER) ?? `${timestamp}:${signature}`,
+      timestamp: signedAt,
+    };
+  }
+}
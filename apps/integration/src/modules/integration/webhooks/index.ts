@@ -0,0 +1,7 @@
+export * from './webhook-verifier';
+export * from './webhook-signature.utils';
+export * from './webhook-verification.service';
+export * from './stripe-webhook.verifier';
+export * from './slack-webhook.verifier';
+export * from './hmac-webhook.verifier';
+export * from './twilio-webhook.verifier';
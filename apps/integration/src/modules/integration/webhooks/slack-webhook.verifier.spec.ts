@@ -0,0 +1,60 @@
+import { createHmac } from 'crypto';
+import { SlackWebhookVerifier } from './slack-webhook.verifier';
+import { WebhookRequest } from './webhook-verifier';
+
+const SECRET = 'slack-signing-secret';
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const TIMESTAMP = String(NOW.getTime() / 1000);
+const BODY = Buffer.from('{"event_id":"Ev123","event":{"type":"message"}}');
+
+function sign(timestamp = TIMESTAMP, body = BODY): string {
+  return `v0=${createHmac('sha256', SECRET).update(`v0:${timestamp}:`).update(body).digest('hex')}`;
+}
+
+function buildRequest(timestamp: string, signature: string, rawBody = BODY): WebhookRequest {
+  return {
+    headers: { 'x-slack-request-timestamp': timestamp, 'x-slack-signature': signature },
+    rawBody,
+    body: JSON.parse(rawBody.toString()),
+    url: 'https://example.com',
+  };
+}
+
+describe('SlackWebhookVerifier', () => {
+  const verifier = new SlackWebhookVerifier();
+  const integration = { credentials: { signingSecret: SECRET } };
+  const options = { toleranceSeconds: 300, now: NOW };
+
+  it('accepts a delivery and uses the event ID as delivery ID', () => {
+    expect(verifier.verify(buildRequest(TIMESTAMP, sign()), integration, options)).toEqual({
+      deliveryId: 'Ev123',
+      timestamp: NOW,
+    });
+  });
+
+  it('rejects a tampered body', () => {
+    const request = buildRequest(
+      TIMESTAMP,
+      sign(),
+      Buffer.from('{"event_id":"Ev123","event":{"type":"app_uninstalled"}}'),
+    );
+
+    expect(() => verifier.verify(request, integration, options)).toThrow(
+      'Slack signature mismatch',
+    );
+  });
+
+  it('rejects a replay outside the tolerance', () => {
+    const stale = String(Number(TIMESTAMP) - 301);
+
+    expect(() => verifier.verify(buildRequest(stale, sign(stale)), integration, options)).toThrow(
+      'outside tolerance',
+    );
+  });
+
+  it('rejects integrations without a signing secret', () => {
+    expect(() =>
+      verifier.verify(buildRequest(TIMESTAMP, sign()), { credentials: null }, options),
+    ).toThrow('missing "signingSecret"');
+  });
+});
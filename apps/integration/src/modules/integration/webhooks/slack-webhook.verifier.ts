@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { IntegrationProvider } from '@prisma/client-integration';
+import {
+  WebhookRequest,
+  WebhookVerificationError,
+  WebhookVerificationOptions,
+  WebhookVerificationResult,
+  WebhookVerifier,
+} from './webhook-verifier';
+import {
+  assertTimestampWithinTolerance,
+  hmacHex,
+  requireHeader,
+  requireSecret,
+  safeCompare,
+  withPrefix,
+} from './webhook-signature.utils';
+
+/**
+ * Slack: `X-Slack-Signature: v0=<hex>` where hex is HMAC-SHA256 of
+ * `v0:<X-Slack-Request-Timestamp>:<raw body>` keyed with the app signing secret
+ * (`credentials.signingSecret`).
+ */
+@Injectable()
+export class SlackWebhookVerifier implements WebhookVerifier {
+  readonly provider = IntegrationProvider.SLACK;
+
+  verify(
+    request: WebhookRequest,
+    integration: { credentials: any },
+    options: WebhookVerificationOptions,
+  ): WebhookVerificationResult {
+    const secret = requireSecret(integration.credentials, 'signingSecret');
+    const timestamp = requireHeader(request.headers, 'x-slack-request-timestamp');
+    const signature = requireHeader(request.headers, 'x-slack-signature');
+
+    const expected = `v0=${hmacHex('sha256', secret, withPrefix(`v0:${timestamp}:`, request.rawBody))}`;
+    if (!safeCompare(expected, signature)) {
+      throw new WebhookVerificationError('Slack signature mismatch');
+    }
+
+    const signedAt = assertTimestampWithinTolerance(
+      timestamp,
+      options.toleranceSeconds,
+      options.now,
+    );
+
+    // Events API deliveries carry an event_id; interactive payloads do not, but
+    // their signature is unique per timestamp and body.
+    return {
+      deliveryId: request.body?.event_id ?? `${timestamp}:${signature}`,
+      timestamp: signedAt,
+    };
+  }
+}
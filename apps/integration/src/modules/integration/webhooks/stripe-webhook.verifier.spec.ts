@@ -0,0 +1,75 @@
+import { createHmac } from 'crypto';
+import { StripeWebhookVerifier } from './stripe-webhook.verifier';
+import { WebhookRequest, WebhookVerificationError } from './webhook-verifier';
+
+const SECRET = 'whsec_test';
+const NOW = new Date('2026-10-18T12:00:00.000Z');
+const TIMESTAMP = String(NOW.getTime() / 1000);
+const BODY = Buffer.from('{"id":"evt_123","type":"payment_intent.succeeded"}');
+
+function sign(secret = SECRET, timestamp = TIMESTAMP, body = BODY): string {
+  return createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+}
+
+function buildRequest(signatureHeader: string, rawBody = BODY): WebhookRequest {
+  return {
+    headers: { 'stripe-signature': signatureHeader },
+    rawBody,
+    body: JSON.parse(rawBody.toString()),
+    url: 'https://example.com',
+  };
+}
+
+describe('StripeWebhookVerifier', () => {
+  const verifier = new StripeWebhookVerifier();
+  const integration = { credentials: { webhookSecret: SECRET } };
+  const options = { toleranceSeconds: 300, now: NOW };
+
+  it('accepts a delivery and uses the event ID as delivery ID', () => {
+    const request = buildRequest(`t=${TIMESTAMP},v1=${sign()}`);
+
+    expect(verifier.verify(request, integration, options)).toEqual({
+      deliveryId: 'evt_123',
+      timestamp: NOW,
+    });
+  });
+
+  it('accepts any matching v1 signature during secret rotation', () => {
+    const request = buildRequest(`t=${TIMESTAMP},v1=${sign('whsec_old')},v1=${sign()}`);
+
+    expect(verifier.verify(request, integration, options).deliveryId).toBe('evt_123');
+  });
+
+  it('rejects a tampered body', () => {
+    const request = buildRequest(
+      `t=${TIMESTAMP},v1=${sign()}`,
+      Buffer.from('{"id":"evt_123","type":"charge.refunded"}'),
+    );
+
+    expect(() => verifier.verify(request, integration, options)).toThrow(WebhookVerificationError);
+  });
+
+  it('rejects a timestamp that was not signed', () => {
+    const later = String(Number(TIMESTAMP) + 60);
+    const request = buildRequest(`t=${later},v1=${sign()}`);
+
+    expect(() => verifier.verify(request, integration, options)).toThrow(
+      'Stripe signature mismatch',
+    );
+  });
+
+  it('rejects a replay outside the tolerance', () => {
+    const stale = String(Number(TIMESTAMP) - 600);
+    const request = buildRequest(`t=${stale},v1=${sign(SECRET, stale)}`);
+
+    expect(() => verifier.verify(request, integration, options)).toThrow('outside tolerance');
+  });
+
+  it('rejects a header without v1 signatures', () => {
+    const request = buildRequest(`t=${TIMESTAMP},v0=${sign()}`);
+
+    expect(() => verifier.verify(request, integration, options)).toThrow(
+      'Malformed Stripe-Signature header',
+    );
+  });
+});
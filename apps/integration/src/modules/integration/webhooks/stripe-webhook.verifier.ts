@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { IntegrationProvider } from '@prisma/client-integration';
+import {
+  WebhookRequest,
+  WebhookVerificationError,
+  WebhookVerificationOptions,
+  WebhookVerificationResult,
+  WebhookVerifier,
+} from './webhook-verifier';
+import {
+  assertTimestampWithinTolerance,
+  hmacHex,
+  requireHeader,
+  requireSecret,
+  safeCompare,
+  withPrefix,
+} from './webhook-signature.utils';
+
+/**
+ * Stripe: `Stripe-Signature: t=<unix>,v1=<hex>[,v1=<hex>...]` where each v1 is
+ * HMAC-SHA256 of `<t>.<raw body>` keyed with the endpoint secret
+ * (`credentials.webhookSecret`). Several v1 entries appear during secret rotation.
+ */
+@Injectable()
+export class StripeWebhookVerifier implements WebhookVerifier {
+  readonly provider = IntegrationProvider.STRIPE;
+
+  verify(
+    request: WebhookRequest,
+    integration: { credentials: any },
+    options: WebhookVerificationOptions,
+  ): WebhookVerificationResult {
+    const secret = requireSecret(integration.credentials, 'webhookSecret');
+    const header = requireHeader(request.headers, 'stripe-signature');
+
+    let timestamp: string | undefined;
+    const signatures: string[] = [];
+    for (const part of header.split(',')) {
+      const [key, value] = part.split('=', 2).map((s) => s.trim());
+      if (key === 't') {
+        timestamp = value;
+      } else if (key === 'v1' && value) {
+        signatures.push(value);
+      }
+    }
+
+    if (!timestamp || signatures.length === 0) {
+      throw new WebhookVerificationError('Malformed Stripe-Signature header');
+    }
+
+    const expected = hmacHex('sha256', secret, withPrefix(`${timestamp}.`, request.rawBody));
+    if (!signatures.some((signature) => safeCompare(expected, signature))) {
+      throw new WebhookVerificationError('Stripe signature mismatch');
+    }
+
+    const signedAt = assertTimestampWithinTolerance(
+      timestamp,
+      options.toleranceSeconds,
+      options.now,
+    );
+
+    return {
+      deliveryId: request.body?.id ?? `${timestamp}:${signatures[0]}`,
+      timestamp: signedAt,
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { createHash, createHmac } from 'crypto';
+import { TwilioWebhookVerifier } from './twilio-webhook.verifier';
+import { WebhookRequest } from './webhook-verifier';
+
+const AUTH_TOKEN = 'twilio-auth-token';
+const WEBHOOK_URL = 'https://api.example.com/webhooks/integration-1';
+const OPTIONS = { toleranceSeconds: 300 };
+
+function sign(data: string): string {
+  return createHmac('sha1', AUTH_TOKEN).update(data).digest('base64');
+}
+
+function buildRequest(
+  signature: string,
+  body: any,
+  rawBody: Buffer,
+  url = WEBHOOK_URL,
+): WebhookRequest {
+  return { headers: { 'x-twilio-signature': signature }, rawBody, body, url };
+}
+
+describe('TwilioWebhookVerifier', () => {
+  const verifier = new TwilioWebhookVerifier();
+  const integration = { credentials: { authToken: AUTH_TOKEN }, webhookUrl: WEBHOOK_URL };
+  const form = { To: '+4930123456', MessageSid: 'SM123', MessageStatus: 'delivered' };
+  const formBody = Buffer.from(new URLSearchParams(form).toString());
+
+  it('accepts form callbacks signed over the URL and the sorted parameters', () => {
+    const signature = sign(`${WEBHOOK_URL}MessageSidSM123MessageStatusdeliveredTo+4930123456`);
+
+    expect(verifier.verify(buildRequest(signature, form, formBody), integration, OPTIONS)).toEqual({
+      deliveryId: 'SM123:delivered',
+    });
+  });
+
+  it('verifies against the configured webhook URL rather than the request URL', () => {
+    const signature = sign(`${WEBHOOK_URL}MessageSidSM123MessageStatusdeliveredTo+4930123456`);
+    const request = buildRequest(signature, form, formBody, 'http://core:3007/webhooks/1');
+
+    expect(verifier.verify(request, integration, OPTIONS).deliveryId).toBe('SM123:delivered');
+  });
+
+  it('rejects a tampered parameter', () => {
+    const signature = sign(`${WEBHOOK_URL}MessageSidSM123MessageStatusdeliveredTo+4930123456`);
+    const tampered = { ...form, MessageStatus: 'failed' };
+
+    expect(() =>
+      verifier.verify(buildRequest(signature, tampered, formBody), integration, OPTIONS),
+    ).toThrow('Twilio signature mismatch');
+  });
+
+  it('checks the body hash of JSON callbacks', () => {
+    const rawBody = Buffer.from('{"MessageSid":"SM123"}');
+    const url = `${WEBHOOK_URL}?bodySHA256=${createHash('sha256').update(rawBody).digest('hex')}`;
+    const jsonIntegration = { ...integration, webhookUrl: url };
+
+    expect(
+      verifier.verify(
+        buildRequest(sign(url), JSON.parse(rawBody.toString()), rawBody),
+        jsonIntegration,
+        OPTIONS,
+      ).deliveryId,
+    ).toBe('SM123:');
+    expect(() =>
+      verifier.verify(
+        buildRequest(sign(url), {}, Buffer.from('{"MessageSid":"SM999"}')),
+        jsonIntegration,
+        OPTIONS,
+      ),
+    ).toThrow('Twilio body hash mismatch');
+  });
+});
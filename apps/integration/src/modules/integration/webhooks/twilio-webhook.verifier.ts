@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { IntegrationProvider } from '@prisma/client-integration';
+import {
+  WebhookRequest,
+  WebhookVerificationError,
+  WebhookVerificationOptions,
+  WebhookVerificationResult,
+  WebhookVerifier,
+} from './webhook-verifier';
+import {
+  getHeader,
+  requireHeader,
+  requireSecret,
+  safeCompare,
+  sha256Hex,
+} from './webhook-signature.utils';
+
+/**
+ * Twilio: `X-Twilio-Signature` is base64 HMAC-SHA1 keyed with the account auth
+ * token (`credentials.authToken`) over the full callback URL followed by every
+ * form parameter as `<name><value>`, sorted by name. JSON callbacks instead
+ * carry a `bodySHA256` query parameter and sign the URL alone.
+ *
+ * The URL must match what Twilio was configured with, so the integration's
+ * `webhookUrl` takes precedence over the URL reconstructed from the request.
+ * Twilio does not sign a timestamp; replay protection relies on the delivery ID.
+ */
+@Injectable()
+export class TwilioWebhookVerifier implements WebhookVerifier {
+  readonly provider = IntegrationProvider.TWILIO;
+
+  verify(
+    request: WebhookRequest,
+    integration: { credentials: any; webhookUrl: string | null },
+    _options: WebhookVerificationOptions,
+  ): WebhookVerificationResult {
+    const authToken = requireSecret(integration.credentials, 'authToken');
+    const signature = requireHeader(request.headers, 'x-twilio-signature');
+    const url = integration.webhookUrl || request.url;
+
+    const bodyHash = new URL(url).searchParams.get('bodySHA256');
+    let data = url;
+    if (bodyHash) {
+      if (!safeCompare(sha256Hex(request.rawBody), bodyHash)) {
+        throw new WebhookVerificationError('Twilio body hash mismatch');
+      }
+    } else {
+      const params = request.body && typeof request.body === 'object' ? request.body : {};
+      for (const key of Object.keys(params).sort()) {
+        const values: unknown[] = Array.isArray(params[key]) ? params[key] : [params[key]];
+        data += values.map((value) => `${key}${value}`).join('');
+      }
+    }
+
+    const expected = createHmac('sha1', authToken).update(data).digest('base64');
+    if (!safeCompare(expected, signature)) {
+      throw new WebhookVerificationError('Twilio signature mismatch');
+    }
+
+    const sid = request.body?.MessageSid ?? request.body?.CallSid;
+    const status = request.body?.MessageStatus ?? request.body?.CallStatus;
+    return {
+      deliveryId:
+        getHeader(request.headers, 'i-twilio-idempotency-token') ??
+        (sid ? `${sid}:${status ?? ''}` : signature),
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { WebhookVerificationError } from './webhook-verifier';
+
+export const WEBHOOK_ID_HEADER = 'x-webhook-id';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+
+export function hmacHex(algorithm: string, secret: string, data: string | Buffer): string {
+  return createHmac(algorithm, secret).update(data).digest('hex');
+}
+
+/**
+ * Prepends a string prefix to the raw body without re-encoding the body bytes.
+ */
+export function withPrefix(prefix: string, body: string | Buffer): Buffer {
+  return Buffer.concat([Buffer.from(prefix), Buffer.isBuffer(body) ? body : Buffer.from(body)]);
+}
+
+export function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Constant-time string comparison; differing lengths compare unequal without
+ * leaking where the strings differ.
+ */
+export function safeCompare(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  if (a.length !== b.length) {
+    return false;
+  }
+  return timingSafeEqual(a, b);
+}
+
+export function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function requireHeader(headers: IncomingHttpHeaders, name: string): string {
+  const value = getHeader(headers, name);
+  if (!value) {
+    throw new WebhookVerificationError(`Missing ${name} header`);
+  }
+  return value;
+}
+
+export function requireSecret(credentials: any, key: string): string {
+  const secret = credentials?.[key];
+  if (typeof secret !== 'string' || secret.length === 0) {
+    throw new WebhookVerificationError(`Integration credentials are missing "${key}"`);
+  }
+  return secret;
+}
+
+/**
+ * Parses a UNIX timestamp (seconds) and rejects it when it lies outside the
+ * allowed tolerance window around `now`.
+ */
+export function assertTimestampWithinTolerance(
+  value: string,
+  toleranceSeconds: number,
+  now: Date = new Date(),
+): Date {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds)) {
+    throw new WebhookVerificationError('Invalid signature timestamp');
+  }
+
+  const skew = Math.abs(now.getTime() / 1000 - seconds);
+  if (skew > toleranceSeconds) {
+    throw new WebhookVerificationError(
+      `Signature timestamp outside tolerance (${Math.round(skew)}s > ${toleranceSeconds}s)`,
+    );
+  }
+
+  return new Date(seconds * 1000);
+}
+
+/**
+ * Signature for generic HMAC webhooks: `sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">`.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number | string,
+  body: string | Buffer,
+): string {
+  return `sha256=${hmacHex('sha256', secret, withPrefix(`${timestamp}.`, body))}`;
+}
@@ -0,0 +1,82 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { IntegrationProvider } from '@prisma/client-integration';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { RedisService } from '@heidi/redis';
+import {
+  WEBHOOK_VERIFIERS,
+  WebhookRequest,
+  WebhookVerificationResult,
+  WebhookVerifier,
+} from './webhook-verifier';
+
+@Injectable()
+export class WebhookVerificationService {
+  private readonly logger: LoggerService;
+  private readonly verifiers = new Map<IntegrationProvider, WebhookVerifier>();
+
+  constructor(
+    @Inject(WEBHOOK_VERIFIERS) verifiers: WebhookVerifier[],
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(WebhookVerificationService.name);
+    for (const verifier of verifiers) {
+      this.verifiers.set(verifier.provider, verifier);
+    }
+  }
+
+  getVerifier(provider: IntegrationProvider): WebhookVerifier | undefined {
+    return this.verifiers.get(provider);
+  }
+
+  /**
+   * Verify a delivery against one integration's credentials. Throws
+   * WebhookVerificationError (or any parsing error) when the delivery is not authentic.
+   */
+  verify(
+    verifier: WebhookVerifier,
+    request: WebhookRequest,
+    integration: { credentials: any; webhookUrl: string | null },
+  ): WebhookVerificationResult {
+    return verifier.verify(request, integration, {
+      toleranceSeconds: this.configService.get<number>(
+        'integration.webhooks.toleranceSeconds',
+        300,
+      ),
+    });
+  }
+
+  /**
+   * Record a delivery ID so retries and replays of the same delivery are ignored.
+   * Returns false if the delivery was already claimed. When Redis is unavailable
+   * the delivery is let through rather than dropped.
+   */
+  async claimDelivery(integrationId: string, deliveryId: string): Promise<boolean> {
+    const ttl = this.configService.get<number>('integration.webhooks.idempotencyTtlSeconds', 86400);
+    try {
+      const result = await this.redis
+        .getClient()
+        .set(this.deliveryKey(integrationId, deliveryId), '1', 'EX', ttl, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      this.logger.warn(
+        `Could not record webhook delivery ${deliveryId} for integration ${integrationId}: ${error.message}`,
+      );
+      return true;
+    }
+  }
+
+  /**
+   * Forget a claimed delivery so that the provider's retry is processed again.
+   */
+  async releaseDelivery(integrationId: string, deliveryId: string): Promise<void> {
+    await this.redis.del(this.deliveryKey(integrationId, deliveryId));
+  }
+
+  private deliveryKey(integrationId: string, deliveryId: string) {
+    return `webhook:delivery:${integrationId}:${deliveryId}`;
+  }
+}
@@ -0,0 +1,48 @@
+import { IncomingHttpHeaders } from 'http';
+import { IntegrationProvider } from '@prisma/client-integration';
+
+/**
+ * Incoming webhook delivery as seen by a verifier. `rawBody` is the exact byte
+ * sequence the provider signed; `body` is the parsed payload (JSON or form fields).
+ */
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  rawBody: Buffer;
+  body: any;
+  url: string;
+}
+
+export interface WebhookVerificationOptions {
+  toleranceSeconds: number;
+  now?: Date;
+}
+
+export interface WebhookVerificationResult {
+  /** Provider-assigned delivery/event ID used for replay protection */
+  deliveryId: string;
+  /** Signed timestamp of the delivery, if the provider sends one */
+  timestamp?: Date;
+}
+
+/**
+ * Verifies the authenticity of deliveries for one integration provider.
+ * Implementations throw WebhookVerificationError when a delivery must be rejected.
+ */
+export interface WebhookVerifier {
+  readonly provider: IntegrationProvider;
+
+  verify(
+    request: WebhookRequest,
+    integration: { credentials: any; webhookUrl: string | null },
+    options: WebhookVerificationOptions,
+  ): WebhookVerificationResult;
+}
+
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export const WEBHOOK_VERIFIERS = Symbol('WEBHOOK_VERIFIERS');
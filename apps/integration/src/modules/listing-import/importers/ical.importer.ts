@@ -0,0 +1,247 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { DateTime, Duration } from 'luxon';
+import { ListingRecurrenceFreq } from '@prisma/client-core';
+import { ListingFieldMapping, ListingImporterConfig } from '@heidi/contracts';
+import { ImportedRecord, ListingImporter } from '../listing-importer';
+import { DEFAULT_IMPORT_TIMEZONE } from '../listing-field-mapper';
+
+interface ICalProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+type ICalComponent = Record<string, ICalProperty[]>;
+
+const WEEKDAYS: Record<string, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const FREQUENCIES: Record<string, ListingRecurrenceFreq> = {
+  DAILY: ListingRecurrenceFreq.DAILY,
+  WEEKLY: ListingRecurrenceFreq.WEEKLY,
+  MONTHLY: ListingRecurrenceFreq.MONTHLY,
+  YEARLY: ListingRecurrenceFreq.YEARLY,
+};
+
+/**
+ * iCalendar (RFC 5545) feeds, e.g. municipal event calendars. Every VEVENT
+ * becomes a record; recurring events keep their RRULE as time intervals,
+ * overridden instances (RECURRENCE-ID) and cancelled events are skipped.
+ */
+@Injectable()
+export class ICalImporter implements ListingImporter {
+  readonly type = 'ical' as const;
+
+  readonly defaultFieldMapping: ListingFieldMapping = {
+    title: 'summary',
+    content: 'description',
+    venueName: 'location',
+    address: 'location',
+    geoLat: 'geo.lat',
+    geoLng: 'geo.lng',
+    timezone: 'tzid',
+    website: 'url',
+    sourceUrl: 'url',
+    heroImageUrl: 'image',
+    contactEmail: 'organizerEmail',
+    eventStart: 'start',
+    eventEnd: 'end',
+    isAllDay: 'allDay',
+    categories: 'categories',
+    timeIntervals: 'timeIntervals',
+  };
+
+  parse(document: string, context: { url: string; config: ListingImporterConfig }) {
+    const fallbackTz = context.config.timezone ?? DEFAULT_IMPORT_TIMEZONE;
+    const calendarTz = this.parseCalendarTimezone(document) ?? fallbackTz;
+
+    return this.parseEvents(document)
+      .filter((event) => !event['RECURRENCE-ID'] && this.first(event, 'STATUS') !== 'CANCELLED')
+      .map((event) => this.toRecord(event, calendarTz))
+      .filter((record): record is ImportedRecord => record !== null);
+  }
+
+  private toRecord(event: ICalComponent, defaultTz: string): ImportedRecord | null {
+    const dtstart = event.DTSTART?.[0];
+    if (!dtstart) {
+      return null;
+    }
+
+    const tzid = dtstart.params.TZID ?? defaultTz;
+    const allDay = dtstart.params.VALUE === 'DATE' || /^\d{8}$/.test(dtstart.value);
+    const start = this.parseDate(dtstart, defaultTz);
+    if (!start) {
+      return null;
+    }
+
+    let end = event.DTEND?.[0] ? this.parseDate(event.DTEND[0], defaultTz) : null;
+    const duration = this.first(event, 'DURATION');
+    if (!end && duration) {
+      const parsed = Duration.fromISO(duration);
+      end = parsed.isValid ? start.plus(parsed) : null;
+    }
+
+    const summary = this.text(this.first(event, 'SUMMARY'));
+    const uid = this.first(event, 'UID');
+    const [lat, lng] = (this.first(event, 'GEO') ?? '').split(/[;,]/).map(Number);
+    const organizer = this.first(event, 'ORGANIZER');
+    const image =
+      event.IMAGE?.[0] ?? event.ATTACH?.find((prop) => prop.params.FMTTYPE?.startsWith('image/'));
+
+    const record = {
+      uid,
+      summary,
+      description: this.text(this.first(event, 'X-ALT-DESC') ?? this.first(event, 'DESCRIPTION')),
+      location: this.text(this.first(event, 'LOCATION')),
+      url: this.first(event, 'URL'),
+      geo: Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined,
+      organizerEmail: organizer?.replace(/^mailto:/i, ''),
+      image: image?.value,
+      categories: (event.CATEGORIES ?? []).flatMap((prop) =>
+        prop.value.split(/(?<!\\),/).map((category) => this.text(category)),
+      ),
+      tzid,
+      allDay,
+      start: start.toUTC().toISO(),
+      end: end?.toUTC().toISO(),
+      timeIntervals: this.toTimeIntervals(event, start, end ?? start, tzid),
+      source: Object.fromEntries(
+        Object.entries(event).map(([name, props]) => [name, props[0].value]),
+      ),
+    };
+
+    return {
+      externalId: uid ?? createHash('sha256').update(`${summary}|${dtstart.value}`).digest('hex'),
+      record,
+    };
+  }
+
+  private toTimeIntervals(event: ICalComponent, start: DateTime, end: DateTime, tz: string) {
+    const rrule = this.first(event, 'RRULE');
+    if (!rrule) {
+      return undefined;
+    }
+
+    const rule = Object.fromEntries(
+      rrule.split(';').map((part) => part.split('=') as [string, string]),
+    );
+    const freq = FREQUENCIES[rule.FREQ];
+    if (!freq) {
+      return undefined;
+    }
+
+    const byDay = (rule.BYDAY ?? '')
+      .split(',')
+      .map((day: string) => WEEKDAYS[day.replace(/^[+-]?\d+/, '')])
+      .filter(Boolean);
+    const until = rule.UNTIL ? this.parseDate({ params: {}, value: rule.UNTIL }, tz) : null;
+
+    return [
+      {
+        weekdays: byDay.length > 0 ? byDay : [start.setZone(tz).setLocale('en').toFormat('cccc')],
+        start: start.toUTC().toISO(),
+        end: end.toUTC().toISO(),
+        tz,
+        freq,
+        interval: parseInt(rule.INTERVAL ?? '1', 10) || 1,
+        repeatUntil: until?.toUTC().toISO() ?? undefined,
+      },
+    ];
+  }
+
+  /**
+   * DATE-TIME values are UTC (`Z` suffix), bound to a TZID, or floating (local to the calendar).
+   */
+  private parseDate(prop: ICalProperty, defaultTz: string): DateTime | null {
+    const value = prop.value.trim();
+    const zone = value.endsWith('Z') ? 'utc' : (prop.params.TZID ?? defaultTz);
+    const format = /^\d{8}$/.test(value) ? 'yyyyMMdd' : "yyyyMMdd'T'HHmmss";
+    const date = DateTime.fromFormat(value.replace(/Z$/, ''), format, { zone });
+    return date.isValid ? date : null;
+  }
+
+  private parseCalendarTimezone(document: string): string | undefined {
+    const match = /^X-WR-TIMEZONE:(.+)$/m.exec(document);
+    return match?.[1].trim();
+  }
+
+  /**
+   * Unfold content lines and collect the properties of every VEVENT.
+   * Properties of nested components (VALARM) are ignored.
+   */
+  private parseEvents(document: string): ICalComponent[] {
+    const lines = document.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: ICalComponent[] = [];
+    let current: ICalComponent | null = null;
+    let nested = 0;
+
+    for (const line of lines) {
+      if (!line) {
+        continue;
+      }
+      const { name, params, value } = this.parseLine(line);
+
+      if (name === 'BEGIN') {
+        if (value === 'VEVENT') {
+          current = {};
+        } else if (current) {
+          nested++;
+        }
+      } else if (name === 'END') {
+        if (value === 'VEVENT' && current) {
+          events.push(current);
+          current = null;
+        } else if (current && nested > 0) {
+          nested--;
+        }
+      } else if (current && nested === 0) {
+        (current[name] ??= []).push({ params, value });
+      }
+    }
+
+    return events;
+  }
+
+  private parseLine(line: string): { name: string; params: Record<string, string>; value: string } {
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let separator = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') {
+        inQuotes = !inQuotes;
+      } else if (line[i] === ':' && !inQuotes) {
+        separator = i;
+        break;
+      }
+    }
+
+    const head = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1);
+    const [name, ...paramParts] = head.split(';');
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, ...rest] = part.split('=');
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+
+    return { name: name.toUpperCase(), params, value };
+  }
+
+  private first(event: ICalComponent, name: string): string | undefined {
+    return event[name]?.[0]?.value;
+  }
+
+  private text(value: string | undefined): string | undefined {
+    return value
+      ?.replace(/\\n/gi, '\n')
+      .replace(/\\([,;\\])/g, '$1')
+      .trim();
+  }
+}
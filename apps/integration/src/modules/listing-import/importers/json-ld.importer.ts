@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { ListingFieldMapping, ListingImporterConfig } from '@heidi/contracts';
+import { ImportedRecord, ListingImporter } from '../listing-importer';
+
+const LD_JSON_SCRIPT =
+  /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+/**
+ * schema.org Event objects embedded as JSON-LD in web pages (any @type ending
+ * in "Event", e.g. MusicEvent). Each configured URL is one page; a page may
+ * describe several events, also inside @graph.
+ */
+@Injectable()
+export class JsonLdEventImporter implements ListingImporter {
+  readonly type = 'jsonld' as const;
+
+  readonly defaultFieldMapping: ListingFieldMapping = {
+    title: 'name',
+    content: 'description',
+    venueName: 'locationName',
+    address: 'address',
+    geoLat: 'geo.lat',
+    geoLng: 'geo.lng',
+    website: 'url',
+    sourceUrl: 'url',
+    heroImageUrl: 'image',
+    contactEmail: 'organizer.email',
+    contactPhone: 'organizer.telephone',
+    languageCode: 'inLanguage',
+    eventStart: 'startDate',
+    eventEnd: 'endDate',
+    categories: 'keywords',
+  };
+
+  parse(document: string, context: { url: string; config: ListingImporterConfig }) {
+    const records: ImportedRecord[] = [];
+
+    for (const match of document.matchAll(LD_JSON_SCRIPT)) {
+      let data: any;
+      try {
+        data = JSON.parse(match[1].trim());
+      } catch {
+        continue; // Pages regularly contain broken JSON-LD blocks next to valid ones
+      }
+
+      for (const node of this.flatten(data)) {
+        if (this.isEvent(node)) {
+          records.push(this.toRecord(node, context.url));
+        }
+      }
+    }
+
+    return records;
+  }
+
+  private toRecord(event: any, pageUrl: string): ImportedRecord {
+    const location = Array.isArray(event.location) ? event.location[0] : event.location;
+    const place = typeof location === 'object' ? location : undefined;
+    const geo = place?.geo;
+    const image = Array.isArray(event.image) ? event.image[0] : event.image;
+    const url = event.url ?? pageUrl;
+
+    return {
+      externalId:
+        event['@id'] ??
+        (event.url
+          ? event.url
+          : createHash('sha256')
+              .update(`${pageUrl}|${event.name}|${event.startDate}`)
+              .digest('hex')),
+      record: {
+        name: event.name,
+        description: event.description,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        url,
+        image: typeof image === 'object' ? image?.url : image,
+        locationName: place?.name ?? (typeof location === 'string' ? location : undefined),
+        address: this.formatAddress(place?.address),
+        geo:
+          geo?.latitude !== undefined && geo?.longitude !== undefined
+            ? { lat: Number(geo.latitude), lng: Number(geo.longitude) }
+            : undefined,
+        organizer: Array.isArray(event.organizer) ? event.organizer[0] : event.organizer,
+        inLanguage: event.inLanguage,
+        keywords:
+          typeof event.keywords === 'string'
+            ? event.keywords.split(',').map((keyword: string) => keyword.trim())
+            : event.keywords,
+        source: event,
+      },
+    };
+  }
+
+  private formatAddress(address: any): string | undefined {
+    if (!address) {
+      return undefined;
+    }
+    if (typeof address === 'string') {
+      return address;
+    }
+    const locality = [address.postalCode, address.addressLocality].filter(Boolean).join(' ');
+    const parts = [address.streetAddress, locality].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+  }
+
+  private flatten(data: any): any[] {
+    if (Array.isArray(data)) {
+      return data.flatMap((item) => this.flatten(item));
+    }
+    if (data && typeof data === 'object' && Array.isArray(data['@graph'])) {
+      return this.flatten(data['@graph']);
+    }
+    return data && typeof data === 'object' ? [data] : [];
+  }
+
+  private isEvent(node: any): boolean {
+    const types: string[] = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    return (
+      !!node.startDate && types.some((type) => typeof type === 'string' && type.endsWith('Event'))
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { XMLParser } from 'fast-xml-parser';
+import { ListingFieldMapping, ListingImporterConfig } from '@heidi/contracts';
+import { ImportedRecord, ListingImporter } from '../listing-importer';
+
+/**
+ * RSS 2.0 and Atom news feeds, e.g. municipal press releases. Both formats are
+ * normalized to the same record shape; the original item is kept under `source`.
+ */
+@Injectable()
+export class RssImporter implements ListingImporter {
+  readonly type = 'rss' as const;
+
+  readonly defaultFieldMapping: ListingFieldMapping = {
+    title: 'title',
+    summary: 'summary',
+    content: 'content',
+    website: 'link',
+    sourceUrl: 'link',
+    heroImageUrl: 'image',
+    languageCode: 'language',
+    categories: 'categories',
+  };
+
+  private readonly parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    textNodeName: '#text',
+    isArray: (name) => ['item', 'entry', 'category', 'link', 'enclosure'].includes(name),
+  });
+
+  parse(document: string, _context: { url: string; config: ListingImporterConfig }) {
+    const xml = this.parser.parse(document);
+
+    if (xml.rss?.channel) {
+      const channel = xml.rss.channel;
+      return (channel.item ?? []).map((item: any) => this.fromRssItem(item, channel.language));
+    }
+    if (xml.feed) {
+      const feed = xml.feed;
+      return (feed.entry ?? []).map((entry: any) => this.fromAtomEntry(entry, feed['@_xml:lang']));
+    }
+
+    throw new Error('Document is neither an RSS 2.0 nor an Atom feed');
+  }
+
+  private fromRssItem(item: any, language?: string): ImportedRecord {
+    const link = this.text(item.link?.[0]);
+    const guid = this.text(item.guid);
+    const image =
+      item.enclosure?.find((enclosure: any) => enclosure['@_type']?.startsWith('image/'))?.[
+        '@_url'
+      ] ??
+      item['media:content']?.['@_url'] ??
+      item['media:thumbnail']?.['@_url'];
+
+    return {
+      externalId: guid ?? link ?? this.hash(item),
+      record: {
+        id: guid,
+        title: this.text(item.title),
+        summary: this.text(item.description),
+        content: this.text(item['content:encoded']) ?? this.text(item.description),
+        link,
+        published: this.text(item.pubDate),
+        categories: (item.category ?? []).map((category: any) => this.text(category)),
+        image,
+        language: this.text(language),
+        source: item,
+      },
+    };
+  }
+
+  private fromAtomEntry(entry: any, language?: string): ImportedRecord {
+    const links: any[] = entry.link ?? [];
+    const link = (links.find((l) => !l['@_rel'] || l['@_rel'] === 'alternate') ?? links[0])?.[
+      '@_href'
+    ];
+    const image = links.find(
+      (l) => l['@_rel'] === 'enclosure' && l['@_type']?.startsWith('image/'),
+    )?.['@_href'];
+    const id = this.text(entry.id);
+
+    return {
+      externalId: id ?? link ?? this.hash(entry),
+      record: {
+        id,
+        title: this.text(entry.title),
+        summary: this.text(entry.summary),
+        content: this.text(entry.content) ?? this.text(entry.summary),
+        link,
+        published: this.text(entry.published ?? entry.updated),
+        categories: (entry.category ?? []).map(
+          (category: any) => category['@_label'] ?? category['@_term'],
+        ),
+        image,
+        language: this.text(entry['@_xml:lang'] ?? language),
+        source: entry,
+      },
+    };
+  }
+
+  private text(value: any): string | undefined {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+    const text = typeof value === 'object' ? value['#text'] : value;
+    return text === undefined ? undefined : String(text).trim();
+  }
+
+  private hash(item: any): string {
+    return createHash('sha256').update(JSON.stringify(item)).digest('hex');
+  }
+}
@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import {
+  IntegrationListingData,
+  ListingFieldMapping,
+  ListingImportField,
+  ListingImporterConfig,
+} from '@heidi/contracts';
+import { ImportedRecord } from './listing-importer';
+
+export const DEFAULT_IMPORT_TIMEZONE = 'Europe/Berlin';
+
+const MAX_SUMMARY_LENGTH = 500;
+
+/**
+ * Resolve a dot path (`location.address.streetAddress`, `images.0`) against a record.
+ * Arrays are looked through when the next segment is not an index.
+ */
+export function getPath(record: any, path: string): any {
+  let current = record;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    if (Array.isArray(current) && !/^\d+$/.test(segment)) {
+      current = current[0];
+      if (current === null || current === undefined) {
+        return undefined;
+      }
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function stripHtml(value: string): string {
+  return value
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toText(value: any): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(value)) {
+    return toText(value[0]);
+  }
+  if (typeof value === 'object') {
+    // XML text nodes and schema.org objects commonly carry their text here
+    return toText(value['#text'] ?? value.name ?? value['@value']);
+  }
+  const text = String(value).trim();
+  return text.length > 0 ? text : undefined;
+}
+
+function toNumber(value: any): number | undefined {
+  const number = Number(toText(value));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toIsoDate(value: any): string | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value.toISOString();
+  }
+  const text = toText(value);
+  if (!text) {
+    return undefined;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toList(value: any): string[] {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map((item) => toText(item)).filter((item): item is string => !!item);
+}
+
+/**
+ * Map an importer record onto the listing payload consumed by
+ * CoreService.syncListingFromIntegration. Returns null when the record has no title.
+ */
+export function mapImportedRecord(
+  item: ImportedRecord,
+  defaultMapping: ListingFieldMapping,
+  context: { config: ListingImporterConfig; externalSource: string },
+): IntegrationListingData | null {
+  const { config, externalSource } = context;
+  const mapping: ListingFieldMapping = { ...defaultMapping, ...config.fieldMapping };
+  const get = (field: ListingImportField) => {
+    const path = mapping[field];
+    return path ? getPath(item.record, path) : undefined;
+  };
+
+  const title = toText(get('title'));
+  if (!title) {
+    return null;
+  }
+
+  const rawSummary = toText(get('summary'));
+  const content = toText(get('content')) ?? rawSummary ?? title;
+  const summary = rawSummary ? stripHtml(rawSummary).slice(0, MAX_SUMMARY_LENGTH) : undefined;
+
+  const categorySlugs = new Set(config.categorySlugs ?? []);
+  for (const category of toList(get('categories'))) {
+    const slug = config.categoryMapping?.[category] ?? config.categoryMapping?.[slugify(category)];
+    if (slug) {
+      categorySlugs.add(slug);
+    }
+  }
+
+  const isAllDay = get('isAllDay');
+  const timeIntervals = get('timeIntervals');
+
+  const data: Omit<IntegrationListingData, 'syncHash'> = {
+    title,
+    summary,
+    content,
+    slug: `${slugify(title) || 'listing'}-${hash(`${externalSource}:${item.externalId}`).slice(0, 8)}`,
+    externalSource,
+    externalId: item.externalId,
+    sourceType: 'API_IMPORT',
+    primaryCityId: config.cityId,
+    venueName: toText(get('venueName')),
+    address: toText(get('address')),
+    geoLat: toNumber(get('geoLat')),
+    geoLng: toNumber(get('geoLng')),
+    timezone: toText(get('timezone')) ?? config.timezone ?? DEFAULT_IMPORT_TIMEZONE,
+    contactPhone: toText(get('contactPhone')),
+    contactEmail: toText(get('contactEmail')),
+    website: toText(get('website')),
+    heroImageUrl: toText(get('heroImageUrl')),
+    sourceUrl: toText(get('sourceUrl')),
+    languageCode: toText(get('languageCode')) ?? config.languageCode,
+    eventStart: toIsoDate(get('eventStart')),
+    eventEnd: toIsoDate(get('eventEnd')),
+    isAllDay: isAllDay === undefined ? undefined : isAllDay === true || isAllDay === 'true',
+    categorySlugs: Array.from(categorySlugs),
+    timeIntervals: Array.isArray(timeIntervals) ? timeIntervals : undefined,
+  };
+
+  // Only content changes alter the hash, so unchanged items are skipped by Core
+  return { ...data, syncHash: hash(JSON.stringify(data)) };
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
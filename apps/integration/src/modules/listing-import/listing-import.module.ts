@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ListingImportService } from './listing-import.service';
+import { ListingSyncService } from './listing-sync.service';
+import { LISTING_IMPORTERS, ListingImporter } from './listing-importer';
+import { ICalImporter } from './importers/ical.importer';
+import { RssImporter } from './importers/rss.importer';
+import { JsonLdEventImporter } from './importers/json-ld.importer';
+
+@Module({
+  imports: [HttpModule],
+  providers: [
+    ListingImportService,
+    ListingSyncService,
+    ICalImporter,
+    RssImporter,
+    JsonLdEventImporter,
+    {
+      provide: LISTING_IMPORTERS,
+      useFactory: (...importers: ListingImporter[]) => importers,
+      inject: [ICalImporter, RssImporter, JsonLdEventImporter],
+    },
+  ],
+  exports: [ListingImportService, ListingSyncService],
+})
+export class ListingImportModule {}
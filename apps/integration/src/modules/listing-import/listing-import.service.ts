@@ -0,0 +1,158 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { PrismaIntegrationService } from '@heidi/prisma';
+import { LoggerService } from '@heidi/logger';
+import { IntegrationListingData, ListingImporterConfig } from '@heidi/contracts';
+import { LISTING_IMPORTERS, ListingImporter } from './listing-importer';
+import { mapImportedRecord } from './listing-field-mapper';
+import { ListingSyncCounts, ListingSyncService } from './listing-sync.service';
+
+@Injectable()
+export class ListingImportService {
+  private readonly logger: LoggerService;
+  private readonly importers = new Map<string, ListingImporter>();
+
+  constructor(
+    private readonly prisma: PrismaIntegrationService,
+    private readonly http: HttpService,
+    private readonly listingSyncService: ListingSyncService,
+    @Inject(LISTING_IMPORTERS) importers: ListingImporter[],
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(ListingImportService.name);
+    for (const importer of importers) {
+      this.importers.set(importer.type, importer);
+    }
+  }
+
+  async syncIntegration(integrationId: string): Promise<ListingSyncCounts> {
+    const integration = await this.prisma.integration.findUnique({
+      where: { id: integrationId },
+    });
+
+    if (!integration) {
+      throw new Error(`Integration ${integrationId} not found`);
+    }
+
+    if (integration.provider !== 'LISTING_IMPORT') {
+      throw new Error(`Integration ${integrationId} is not a LISTING_IMPORT integration`);
+    }
+
+    if (!integration.isActive) {
+      this.logger.log(`Integration ${integrationId} is not active`);
+      return { created: 0, updated: 0, skipped: 0, errors: 0, archived: 0 };
+    }
+
+    const config = integration.config as unknown as ListingImporterConfig;
+    if (!config) {
+      throw new Error(`Integration ${integrationId} has no configuration`);
+    }
+
+    if (config.enabled === false) {
+      this.logger.log(`Integration ${integrationId} is disabled`);
+      return { created: 0, updated: 0, skipped: 0, errors: 0, archived: 0 };
+    }
+
+    const importer = this.importers.get(config.importer);
+    if (!importer) {
+      throw new Error(`Integration ${integrationId} has unknown importer "${config.importer}"`);
+    }
+
+    if (!config.urls?.length || !config.cityId) {
+      throw new Error(
+        `Integration ${integrationId} has invalid configuration: missing required fields`,
+      );
+    }
+
+    this.logger.log(`Starting ${importer.type} import for integration ${integrationId}`);
+
+    const externalSource = config.externalSource ?? `${importer.type}:${integrationId}`;
+    let failedUrls = 0;
+
+    try {
+      const listings = new Map<string, IntegrationListingData>();
+
+      for (const url of config.urls) {
+        let document: string;
+        try {
+          document = await this.fetchDocument(url, config);
+        } catch (error: any) {
+          // One unreachable page should not block the rest of the source
+          this.logger.error(`Failed to fetch ${url}: ${error?.message}`, error);
+          failedUrls++;
+          continue;
+        }
+
+        for (const record of importer.parse(document, { url, config })) {
+          const listing = mapImportedRecord(record, importer.defaultFieldMapping, {
+            config,
+            externalSource,
+          });
+          if (listing && !listings.has(listing.externalId)) {
+            listings.set(listing.externalId, listing);
+          }
+        }
+      }
+
+      if (failedUrls === config.urls.length) {
+        throw new Error(`None of the ${failedUrls} source URLs could be fetched`);
+      }
+
+      this.logger.log(`Processing ${listings.size} items from ${importer.type} import`);
+
+      const { runId, counts, reconciliation } = await this.listingSyncService.syncListings(
+        integrationId,
+        Array.from(listings.values()),
+        { externalSource, cityId: config.cityId, complete: failedUrls === 0 },
+      );
+
+      await this.prisma.integration.update({
+        where: { id: integrationId },
+        data: { lastSyncAt: new Date() },
+      });
+
+      await this.prisma.integrationLog.create({
+        data: {
+          integrationId,
+          event: 'sync_completed',
+          payload: { importer: importer.type, itemsProcessed: listings.size, failedUrls, runId },
+          response: { ...counts, reconciliation: { ...reconciliation } },
+          status: 'SUCCESS',
+        },
+      });
+
+      this.logger.log(
+        `Import completed: ${counts.created} created, ${counts.updated} updated, ${counts.skipped} skipped, ${counts.archived} archived, ${counts.errors} errors`,
+      );
+
+      return counts;
+    } catch (error: any) {
+      this.logger.error(`Import failed for integration ${integrationId}`, error);
+
+      await this.prisma.integrationLog.create({
+        data: {
+          integrationId,
+          event: 'sync_failed',
+          payload: { importer: importer.type, error: error?.message },
+          status: 'FAILED',
+          errorMessage: error?.message || 'Unknown error',
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  private async fetchDocument(url: string, config: ListingImporterConfig): Promise<string> {
+    const response = await firstValueFrom(
+      this.http.get<string>(url, {
+        timeout: 30000,
+        responseType: 'text',
+        headers: config.headers,
+      }),
+    );
+    return response.data;
+  }
+}
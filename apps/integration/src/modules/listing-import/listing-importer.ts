@@ -0,0 +1,27 @@
+import { ListingFieldMapping, ListingImporterConfig, ListingImporterType } from '@heidi/contracts';
+
+/**
+ * One item read from a source document. `record` is the importer's normalized
+ * view of the item; field mappings are dot paths into it. The untouched source
+ * properties are kept under `record.source` for custom mappings.
+ */
+export interface ImportedRecord {
+  externalId: string;
+  record: Record<string, any>;
+}
+
+/**
+ * Parses one fetched source document (feed or page) into records. Importers
+ * are registered under LISTING_IMPORTERS and selected by `config.importer`.
+ */
+export interface ListingImporter {
+  readonly type: ListingImporterType;
+  readonly defaultFieldMapping: ListingFieldMapping;
+
+  parse(
+    document: string,
+    context: { url: string; config: ListingImporterConfig },
+  ): ImportedRecord[];
+}
+
+export const LISTING_IMPORTERS = Symbol('LISTING_IMPORTERS');
@@ -0,0 +1,145 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { firstValueFrom } from 'rxjs';
+import { randomUUID } from 'crypto';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import {
+  IntegrationListingData,
+  ListingReconcileRequest,
+  ListingReconcileResult,
+} from '@heidi/contracts';
+
+export interface ListingSyncCounts {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  archived: number;
+}
+
+/**
+ * The source a sync run covers. Only a complete run (every page/URL fetched)
+ * may archive listings that it did not see.
+ */
+export interface ListingSyncSource {
+  externalSource: string;
+  cityId: string;
+  complete: boolean;
+}
+
+export interface ListingSyncResult {
+  runId: string;
+  counts: ListingSyncCounts;
+  reconciliation: ListingReconcileResult;
+}
+
+/**
+ * Sends imported listings to Core (CoreService.syncListingFromIntegration).
+ * Every importer, including DestinationOne, goes through this path.
+ */
+@Injectable()
+export class ListingSyncService {
+  private readonly logger: LoggerService;
+
+  constructor(
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(ListingSyncService.name);
+  }
+
+  async syncListings(
+    integrationId: string,
+    listings: IntegrationListingData[],
+    source: ListingSyncSource,
+  ): Promise<ListingSyncResult> {
+    const runId = randomUUID();
+    const counts: ListingSyncCounts = {
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      errors: 0,
+      archived: 0,
+    };
+
+    for (const listingData of listings) {
+      try {
+        const result = await firstValueFrom(
+          this.client.send<{ action: string; listingId: string }>(
+            RabbitMQPatterns.INTEGRATION_SYNC_LISTING,
+            {
+              integrationId,
+              runId,
+              listingData,
+              timestamp: new Date().toISOString(),
+            },
+          ),
+        );
+
+        if (result) {
+          if (result.action === 'created') {
+            counts.created++;
+          } else if (result.action === 'updated') {
+            counts.updated++;
+          } else if (result.action === 'skipped') {
+            counts.skipped++;
+          }
+        }
+      } catch (error: any) {
+        this.logger.error(
+          `Failed to process item ${listingData.externalId}: ${error?.message}`,
+          error,
+        );
+        counts.errors++;
+      }
+    }
+
+    // Items that failed to sync still exist at the source, so they count as seen
+    const reconciliation = await this.reconcile(integrationId, runId, source, listings);
+    counts.archived = reconciliation.archived;
+
+    return { runId, counts, reconciliation };
+  }
+
+  private async reconcile(
+    integrationId: string,
+    runId: string,
+    source: ListingSyncSource,
+    listings: IntegrationListingData[],
+  ): Promise<ListingReconcileResult> {
+    const skipped = (reason: string): ListingReconcileResult => ({
+      runId,
+      status: 'SKIPPED',
+      unseen: 0,
+      withinGracePeriod: 0,
+      archived: 0,
+      reason,
+    });
+
+    if (!source.complete) {
+      this.logger.warn(`Skipping reconciliation for run ${runId}: source was not fully fetched`);
+      return skipped('Incomplete sync run');
+    }
+
+    const request: ListingReconcileRequest = {
+      runId,
+      integrationId,
+      externalSource: source.externalSource,
+      cityId: source.cityId,
+      seenExternalIds: listings.map((listing) => listing.externalId),
+    };
+
+    try {
+      return await firstValueFrom(
+        this.client.send<ListingReconcileResult>(
+          RabbitMQPatterns.INTEGRATION_RECONCILE_LISTINGS,
+          request,
+        ),
+      );
+    } catch (error: any) {
+      this.logger.error(`Failed to reconcile listings for run ${runId}: ${error?.message}`, error);
+      return skipped(error?.message || 'Reconciliation failed');
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Controller } from '@nestjs/common';
+import { EventPattern, Payload } from '@nestjs/microservices';
+import { RabbitMQPatterns } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import { OutboundWebhooksService } from './outbound-webhooks.service';
+
+/**
+ * Forwards platform events to outbound webhook subscriptions.
+ */
+@Controller()
+export class OutboundWebhooksMessageController {
+  private readonly logger: LoggerService;
+
+  constructor(
+    private readonly outboundWebhooksService: OutboundWebhooksService,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(OutboundWebhooksMessageController.name);
+  }
+
+  @EventPattern(RabbitMQPatterns.LISTING_APPROVED)
+  async handleListingApproved(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.LISTING_APPROVED, data, data.cityIds ?? []);
+  }
+
+  @EventPattern(RabbitMQPatterns.LISTING_PUBLISHED)
+  async handleListingPublished(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.LISTING_PUBLISHED, data, data.cityIds ?? []);
+  }
+
+  @EventPattern(RabbitMQPatterns.LISTING_EXPIRED)
+  async handleListingExpired(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.LISTING_EXPIRED, data, data.cityIds ?? []);
+  }
+
+  @EventPattern(RabbitMQPatterns.LISTING_UNFEATURED)
+  async handleListingUnfeatured(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.LISTING_UNFEATURED, data, data.cityIds ?? []);
+  }
+
+  @EventPattern(RabbitMQPatterns.LISTING_ARCHIVED)
+  async handleListingArchived(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.LISTING_ARCHIVED, data, data.cityIds ?? []);
+  }
+
+  @EventPattern(RabbitMQPatterns.TILE_PUBLISHED)
+  async handleTilePublished(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.TILE_PUBLISHED, data, data.cityIds ?? []);
+  }
+
+  @EventPattern(RabbitMQPatterns.TILE_EXPIRED)
+  async handleTileExpired(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.TILE_EXPIRED, data, data.cityIds ?? []);
+  }
+
+  @EventPattern(RabbitMQPatterns.CITY_UPDATED)
+  async handleCityUpdated(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.CITY_UPDATED, data, [data.cityId]);
+  }
+
+  @EventPattern(RabbitMQPatterns.USER_CREATED)
+  async handleUserCreated(@Payload() data: any) {
+    // Partners only receive identifiers, never the user's contact details
+    await this.forward(
+      RabbitMQPatterns.USER_CREATED,
+      { userId: data.userId, cityId: data.cityId ?? null, timestamp: data.timestamp },
+      data.cityId ? [data.cityId] : [],
+    );
+  }
+
+  @EventPattern(RabbitMQPatterns.PARKING_UPDATED)
+  async handleParkingUpdated(@Payload() data: any) {
+    await this.forward(RabbitMQPatterns.PARKING_UPDATED, data, [data.cityId]);
+  }
+
+  private async forward(event: string, data: any, cityIds: string[]) {
+    this.logger.log(`Received event: ${event} for cities: ${cityIds.join(', ') || '-'}`);
+
+    try {
+      await this.outboundWebhooksService.publish(event, data, cityIds);
+    } catch (error) {
+      this.logger.error(`Error processing event: ${event}`, error);
+      // Note: For @EventPattern, errors are logged but don't NACK since it's fire-and-forget
+    }
+  }
+}
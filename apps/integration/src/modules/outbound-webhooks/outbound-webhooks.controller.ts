@@ -0,0 +1,53 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  WebhookDeliveryDto,
+  WebhookDeliveryListQueryDto,
+  WebhookDeliveryListResponseDto,
+} from '@heidi/contracts';
+import { JwtAuthGuard } from '@heidi/jwt';
+import { SuperAdminOnly, AdminOnlyGuard } from '@heidi/rbac';
+import { OutboundWebhooksService } from './outbound-webhooks.service';
+
+@ApiTags('integration')
+@ApiBearerAuth('JWT-auth')
+@Controller('webhook-deliveries')
+@UseGuards(JwtAuthGuard, AdminOnlyGuard)
+export class OutboundWebhooksController {
+  constructor(private readonly outboundWebhooksService: OutboundWebhooksService) {}
+
+  @Get()
+  @SuperAdminOnly()
+  @ApiOperation({
+    summary: 'List outbound webhook deliveries (Super Admin only)',
+    description: 'Filter by status=DEAD_LETTER to find deliveries that exhausted their retries',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: WebhookDeliveryListResponseDto })
+  async findAll(@Query() query: WebhookDeliveryListQueryDto) {
+    return this.outboundWebhooksService.listDeliveries(query);
+  }
+
+  @Post(':id/replay')
+  @SuperAdminOnly()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replay an outbound webhook delivery (Super Admin only)',
+    description: 'Resets the attempt counter of a failed delivery and sends it again immediately',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook delivery ID' })
+  @ApiResponse({ status: HttpStatus.OK, type: WebhookDeliveryDto })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Delivery not found' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Delivery already succeeded' })
+  async replay(@Param('id') id: string) {
+    return this.outboundWebhooksService.replay(id);
+  }
+}
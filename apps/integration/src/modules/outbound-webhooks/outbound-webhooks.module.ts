@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { RBACModule } from '@heidi/rbac';
+import { OutboundWebhooksService } from './outbound-webhooks.service';
+import { OutboundWebhooksController } from './outbound-webhooks.controller';
+import { OutboundWebhooksMessageController } from './outbound-webhooks-message.controller';
+
+@Module({
+  imports: [HttpModule, RBACModule],
+  controllers: [OutboundWebhooksController, OutboundWebhooksMessageController],
+  providers: [OutboundWebhooksService],
+  exports: [OutboundWebhooksService],
+})
+export class OutboundWebhooksModule {}
@@ -0,0 +1,338 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { randomUUID } from 'crypto';
+import { firstValueFrom } from 'rxjs';
+import {
+  IntegrationProvider,
+  Prisma,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '@prisma/client-integration';
+import { PrismaIntegrationService } from '@heidi/prisma';
+import { LoggerService } from '@heidi/logger';
+import { ConfigService } from '@heidi/config';
+import {
+  OutboundWebhookConfig,
+  OutboundWebhookEnvelope,
+  WebhookDeliveryListQueryDto,
+} from '@heidi/contracts';
+import {
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  signWebhookPayload,
+} from '../integration/webhooks';
+
+const DUE_DELIVERY_BATCH_SIZE = 50;
+const MAX_LOGGED_RESPONSE_LENGTH = 1000;
+
+@Injectable()
+export class OutboundWebhooksService {
+  private readonly logger: LoggerService;
+
+  constructor(
+    private readonly prisma: PrismaIntegrationService,
+    private readonly http: HttpService,
+    private readonly configService: ConfigService,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(OutboundWebhooksService.name);
+  }
+
+  /**
+   * Queue a platform event for every WEBHOOK integration subscribed to it and
+   * make the first delivery attempt right away.
+   */
+  async publish(event: string, data: any, cityIds: string[] = []) {
+    const integrations = await this.prisma.integration.findMany({
+      where: {
+        provider: IntegrationProvider.WEBHOOK,
+        isActive: true,
+        webhookUrl: { not: null },
+      },
+    });
+
+    const subscribers = integrations.filter((integration) =>
+      this.isSubscribed(integration.config as unknown as OutboundWebhookConfig, event, cityIds),
+    );
+    if (subscribers.length === 0) {
+      return [];
+    }
+
+    const defaultMaxAttempts = this.configService.get<number>(
+      'integration.outboundWebhooks.maxAttempts',
+      6,
+    );
+    const now = new Date();
+
+    const deliveries = await Promise.all(
+      subscribers.map((integration) => {
+        const config = integration.config as unknown as OutboundWebhookConfig;
+        const id = randomUUID();
+        const envelope: OutboundWebhookEnvelope = {
+          id,
+          event,
+          cityIds,
+          occurredAt: data?.timestamp ?? now.toISOString(),
+          data,
+        };
+
+        return this.prisma.webhookDelivery.create({
+          data: {
+            id,
+            integrationId: integration.id,
+            event,
+            payload: envelope as unknown as Prisma.InputJsonValue,
+            maxAttempts: config.maxAttempts ?? defaultMaxAttempts,
+            nextAttemptAt: now,
+          },
+        });
+      }),
+    );
+
+    this.logger.log(`Queued ${deliveries.length} webhook deliveries for event ${event}`);
+
+    for (const delivery of deliveries) {
+      await this.attemptDelivery(delivery.id);
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Retry deliveries whose backoff has elapsed.
+   */
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async processDueDeliveries() {
+    const due = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: new Date() },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: DUE_DELIVERY_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const delivery of due) {
+      await this.attemptDelivery(delivery.id);
+    }
+  }
+
+  async listDeliveries(query: WebhookDeliveryListQueryDto) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.integrationId && { integrationId: query.integrationId }),
+      ...(query.event && { event: query.event }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      items,
+      meta: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      },
+    };
+  }
+
+  /**
+   * Give a failed delivery a fresh set of attempts and send it immediately.
+   */
+  async replay(deliveryId: string) {
+    const delivery = await this.prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${deliveryId} not found`);
+    }
+    if (delivery.status === WebhookDeliveryStatus.SUCCEEDED) {
+      throw new ConflictException(`Webhook delivery ${deliveryId} already succeeded`);
+    }
+
+    await this.prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: {
+        status: WebhookDeliveryStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        lastError: null,
+        lastStatusCode: null,
+      },
+    });
+
+    this.logger.log(`Replaying webhook delivery ${deliveryId}`);
+    return (
+      (await this.attemptDelivery(deliveryId)) ??
+      this.prisma.webhookDelivery.findUnique({ where: { id: deliveryId } })
+    );
+  }
+
+  /**
+   * Send one attempt of a due delivery. The delivery is claimed by pushing
+   * nextAttemptAt past the request timeout, so concurrent pollers and instances
+   * never send the same attempt twice.
+   */
+  private async attemptDelivery(deliveryId: string): Promise<WebhookDelivery | null> {
+    const timeoutMs = this.configService.get<number>(
+      'integration.outboundWebhooks.requestTimeoutMs',
+      10000,
+    );
+    const now = new Date();
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: {
+        id: deliveryId,
+        status: WebhookDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: now },
+      },
+      data: { nextAttemptAt: new Date(now.getTime() + timeoutMs + 60000) },
+    });
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const delivery = await this.prisma.webhookDelivery.findUniqueOrThrow({
+      where: { id: deliveryId },
+      include: { integration: true },
+    });
+    const attempt = delivery.attempts + 1;
+    const body = JSON.stringify(delivery.payload);
+
+    let statusCode: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const secret = (delivery.integration.credentials as any)?.webhookSecret;
+      if (!delivery.integration.isActive || !delivery.integration.webhookUrl) {
+        throw new Error('Integration is inactive or has no webhookUrl');
+      }
+      if (!secret) {
+        throw new Error('Integration credentials are missing "webhookSecret"');
+      }
+
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await firstValueFrom(
+        this.http.post(delivery.integration.webhookUrl, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Event': delivery.event,
+            [WEBHOOK_ID_HEADER]: delivery.id,
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+          },
+          timeout: timeoutMs,
+          maxRedirects: 0,
+          responseType: 'text',
+          validateStatus: () => true,
+        }),
+      );
+
+      statusCode = response.status;
+      responseBody = String(response.data ?? '').slice(0, MAX_LOGGED_RESPONSE_LENGTH);
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Receiver responded with status ${statusCode}`;
+      }
+    } catch (err: any) {
+      error = err?.message || 'Unknown error';
+    }
+
+    await this.prisma.integrationLog.create({
+      data: {
+        integrationId: delivery.integrationId,
+        event: 'webhook_delivery',
+        payload: { deliveryId: delivery.id, event: delivery.event, attempt },
+        response: { statusCode, body: responseBody },
+        status: error ? 'FAILED' : 'SUCCESS',
+        errorMessage: error,
+      },
+    });
+
+    if (!error) {
+      return this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: WebhookDeliveryStatus.SUCCEEDED,
+          attempts: attempt,
+          lastStatusCode: statusCode,
+          lastError: null,
+          nextAttemptAt: null,
+          deliveredAt: new Date(),
+        },
+      });
+    }
+
+    if (attempt >= delivery.maxAttempts) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} (${delivery.event}) dead-lettered after ${attempt} attempts: ${error}`,
+      );
+      return this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: WebhookDeliveryStatus.DEAD_LETTER,
+          attempts: attempt,
+          lastStatusCode: statusCode,
+          lastError: error,
+          nextAttemptAt: null,
+        },
+      });
+    }
+
+    const nextAttemptAt = new Date(Date.now() + this.getBackoffMs(attempt));
+    this.logger.warn(
+      `Webhook delivery ${delivery.id} attempt ${attempt} failed, retrying at ${nextAttemptAt.toISOString()}: ${error}`,
+    );
+    return this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        attempts: attempt,
+        lastStatusCode: statusCode,
+        lastError: error,
+        nextAttemptAt,
+      },
+    });
+  }
+
+  private getBackoffMs(attempt: number): number {
+    const initial = this.configService.get<number>(
+      'integration.outboundWebhooks.initialBackoffSeconds',
+      30,
+    );
+    const max = this.configService.get<number>(
+      'integration.outboundWebhooks.maxBackoffSeconds',
+      3600,
+    );
+    return Math.min(initial * 2 ** (attempt - 1), max) * 1000;
+  }
+
+  private isSubscribed(
+    config: OutboundWebhookConfig | null,
+    event: string,
+    cityIds: string[],
+  ): boolean {
+    if (!config || config.enabled === false || !Array.isArray(config.events)) {
+      return false;
+    }
+    if (!config.events.includes(event) && !config.events.includes('*')) {
+      return false;
+    }
+    const subscribedCityIds = config.cityIds ?? [];
+    if (subscribedCityIds.length === 0) {
+      return true;
+    }
+    return cityIds.some((cityId) => subscribedCityIds.includes(cityId));
+  }
+}
@@ -5,6 +5,7 @@ import { ConfigModule, ConfigService } from '@heidi/config';
 import { PrismaNotificationModule } from '@heidi/prisma';
 import { LoggerModule } from '@heidi/logger';
 import { RmqModule } from '@heidi/rabbitmq';
+import { RedisModule } from '@heidi/redis';
 import { MetricsModule, MetricsInterceptor } from '@heidi/metrics';
 import {
   LoggingInterceptor,
@@ -16,6 +17,9 @@ import { TermsAcceptanceGuard } from '@heidi/rbac';
 import { NotificationModule } from './modules/notification/notification.module';
 import { VerificationModule } from './modules/verification/verification.module';
 import { PasswordResetModule } from './modules/password-reset/password-reset.module';
+import { NotificationPreferencesModule } from './modules/preferences/notification-preferences.module';
+import { ListingModerationModule } from './modules/listing-moderation/listing-moderation.module';
+import { AccountLockoutModule } from './modules/account-lockout/account-lockout.module';
 import { HealthController } from './health.controller';
 import { ErrorHandlingModule } from '@heidi/errors';
 
@@ -30,12 +34,17 @@ import { ErrorHandlingModule } from '@heidi/errors';
       inject: [ConfigService],
       useFactory: () => ({ serviceName: 'notification' }),
     }),
+    RedisModule,
     MetricsModule,
     I18nModule,
     ErrorHandlingModule,
+    // Registered before NotificationModule so that GET /preferences is not matched by GET /:userId
+    NotificationPreferencesModule,
     NotificationModule,
     VerificationModule,
     PasswordResetModule,
+    ListingModerationModule,
+    AccountLockoutModule,
   ],
   controllers: [HealthController],
   providers: [
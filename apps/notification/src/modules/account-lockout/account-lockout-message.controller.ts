@@ -0,0 +1,38 @@
+import { Controller } from '@nestjs/common';
+import { EventPattern, Payload } from '@nestjs/microservices';
+import { RabbitMQPatterns } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import {
+  AccountLockedEvent,
+  AccountLockoutNotificationService,
+} from './account-lockout-notification.service';
+
+@Controller()
+export class AccountLockoutMessageController {
+  private readonly logger: LoggerService;
+
+  constructor(
+    private readonly accountLockoutNotificationService: AccountLockoutNotificationService,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(AccountLockoutMessageController.name);
+  }
+
+  @EventPattern(RabbitMQPatterns.ACCOUNT_LOCKED)
+  async handleAccountLocked(@Payload() data: AccountLockedEvent) {
+    this.logger.log(
+      `Received event: ${RabbitMQPatterns.ACCOUNT_LOCKED} for userId: ${data.userId}`,
+    );
+
+    try {
+      await this.accountLockoutNotificationService.notifyLocked(data);
+    } catch (error) {
+      this.logger.error(
+        `Error processing event: ${RabbitMQPatterns.ACCOUNT_LOCKED} for userId: ${data.userId}`,
+        error,
+      );
+      // Note: For @EventPattern, errors are logged but don't NACK since it's fire-and-forget
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@heidi/config';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import { I18nService } from '@heidi/i18n';
+import { FCMTranslationService } from '../fcm/fcm-translation.service';
+import { CityEmailThemeService } from '../verification/services/city-email-theme.service';
+import { CityEmailTheme } from '../verification/config/default-email-theme.config';
+
+export interface AccountLockedEvent {
+  userId: string;
+  email: string;
+  unlockToken: string;
+  lockedUntil: string;
+  metadata?: {
+    firstName?: string | null;
+    preferredLanguage?: string | null;
+    cityId?: string | null;
+  };
+}
+
+/**
+ * Emails users whose account was locked after too many failed logins, with a
+ * link to unlock it. Security emails ignore notification preferences.
+ */
+@Injectable()
+export class AccountLockoutNotificationService {
+  private readonly linkTemplate: string;
+
+  constructor(
+    private readonly translationService: FCMTranslationService,
+    private readonly cityEmailThemeService: CityEmailThemeService,
+    private readonly i18nService: I18nService,
+    private readonly configService: ConfigService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(AccountLockoutNotificationService.name);
+    this.linkTemplate = this.configService.get<string>(
+      'notification.accountUnlockLinkTemplate',
+      'http://localhost:3000/unlock-account/{token}',
+    );
+  }
+
+  async notifyLocked(event: AccountLockedEvent): Promise<void> {
+    const language = this.translationService.resolveLanguage(event.metadata ?? {});
+    const cityTheme = await this.cityEmailThemeService.getCityTheme(event.metadata?.cityId || null);
+    const link = this.linkTemplate.replace('{token}', encodeURIComponent(event.unlockToken));
+    const appName = cityTheme.appName || 'Heidi';
+
+    const subject = this.i18nService.translate(
+      'emails.accountLocked.subject',
+      { appName },
+      language,
+    );
+    const greeting = this.i18nService.translate(
+      'emails.accountLocked.greeting',
+      {
+        firstNamePart: event.metadata?.firstName
+          ? ` ${this.escapeHtml(event.metadata.firstName)}`
+          : '',
+      },
+      language,
+    );
+
+    await this.client.emit(RabbitMQPatterns.NOTIFICATION_SEND, {
+      userId: event.userId,
+      type: 'WARNING',
+      channel: 'EMAIL',
+      subject,
+      content: this.generateEmailContent(link, subject, greeting, language, cityTheme),
+      metadata: {
+        recipientEmail: event.email,
+        lockedUntil: event.lockedUntil,
+        template: 'account-locked',
+      },
+    });
+
+    this.logger.log(`Account locked email sent to user ${event.userId}`);
+  }
+
+  private generateEmailContent(
+    link: string,
+    emailSubject: string,
+    greeting: string,
+    language: string,
+    cityTheme: CityEmailTheme,
+  ): string {
+    const intro = this.i18nService.translate('emails.accountLocked.intro', undefined, language);
+    const ctaText = this.i18nService.translate('emails.accountLocked.cta', undefined, language);
+    const securityNotice = this.i18nService.translate(
+      'emails.accountLocked.securityNotice',
+      undefined,
+      language,
+    );
+    const fallback = this.i18nService.translate(
+      'emails.accountLocked.fallback',
+      undefined,
+      language,
+    );
+
+    // Use city theme colors or defaults
+    const headerBackgroundColor =
+      cityTheme.emailTheme?.headerBackgroundColor || cityTheme.secondaryColor || '#1a1a2e';
+    const footerBackgroundColor =
+      cityTheme.emailTheme?.footerBackgroundColor || cityTheme.primaryColor || '#009EE0';
+    const buttonColor = cityTheme.emailTheme?.buttonColor || '#ffffff';
+    const buttonTextColor =
+      cityTheme.emailTheme?.buttonTextColor || cityTheme.primaryColor || '#009EE0';
+    const accentColor = cityTheme.accentColor || '#009EE0';
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${language}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="X-UA-Compatible" content="IE=edge">
+        <title>${this.escapeHtml(emailSubject)}</title>
+      </head>
+      <body style="margin: 0; padding: 0; background-color: #f5f5f5; font-family: Arial, Helvetica, sans-serif;">
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f5f5f5;">
+          <tr>
+            <td align="center" style="padding: 0;">
+              <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+                <!-- Header section -->
+                <tr>
+                  <td style="background-color: ${headerBackgroundColor}; padding: 40px 30px 60px 30px; text-align: left;">
+                    <h1 style="margin: 0 0 20px 0; color: #ffffff; font-size: 32px; font-weight: bold; line-height: 1.2; font-family: Arial, Helvetica, sans-serif;">
+                      ${greeting}
+                    </h1>
+                    <p style="margin: 0; color: #ffffff; font-size: 16px; line-height: 1.6; font-family: Arial, Helvetica, sans-serif;">
+                      ${intro}
+                    </p>
+                  </td>
+                </tr>
+                <!-- CTA section -->
+                <tr>
+                  <td style="background-color: ${footerBackgroundColor}; padding: 40px 30px; text-align: center;">
+                    <a href="${link}"
+                       style="background-color: ${buttonColor}; color: ${buttonTextColor}; padding: 16px 40px; text-decoration: none; border-radius: 30px; display: inline-block; font-weight: bold; font-size: 18px; font-family: Arial, Helvetica, sans-serif; box-shadow: 0 4px 8px rgba(0, 0, 0, 0.15); border: 2px solid ${buttonColor};">
+                      ${ctaText}
+                    </a>
+                  </td>
+                </tr>
+                <!-- Footer section -->
+                <tr>
+                  <td style="background-color: #ffffff; padding: 30px; text-align: center; border-top: 1px solid #e0e0e0;">
+                    <p style="margin: 0 0 15px 0; color: #666666; font-size: 13px; line-height: 1.5; font-family: Arial, Helvetica, sans-serif;">
+                      ${securityNotice}
+                    </p>
+                    <p style="margin: 0; color: #999999; font-size: 12px; line-height: 1.5; font-family: Arial, Helvetica, sans-serif;">
+                      ${fallback}<br>
+                      <a href="${link}" style="color: ${accentColor}; text-decoration: underline; word-break: break-all;">${link}</a>
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * First names are user input and must not inject markup
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AccountLockoutMessageController } from './account-lockout-message.controller';
+import { AccountLockoutNotificationService } from './account-lockout-notification.service';
+import { FCMModule } from '../fcm/fcm.module';
+import { CityEmailThemeService } from '../verification/services/city-email-theme.service';
+
+@Module({
+  imports: [FCMModule],
+  controllers: [AccountLockoutMessageController],
+  providers: [AccountLockoutNotificationService, CityEmailThemeService],
+})
+export class AccountLockoutModule {}
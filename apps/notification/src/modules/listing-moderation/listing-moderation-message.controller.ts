@@ -0,0 +1,38 @@
+import { Controller } from '@nestjs/common';
+import { EventPattern, Payload } from '@nestjs/microservices';
+import { RabbitMQPatterns } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import {
+  ListingModeratedEvent,
+  ListingModerationNotificationService,
+} from './listing-moderation-notification.service';
+
+@Controller()
+export class ListingModerationMessageController {
+  private readonly logger: LoggerService;
+
+  constructor(
+    private readonly listingModerationNotificationService: ListingModerationNotificationService,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(ListingModerationMessageController.name);
+  }
+
+  @EventPattern(RabbitMQPatterns.LISTING_MODERATED)
+  async handleListingModerated(@Payload() data: ListingModeratedEvent) {
+    this.logger.log(
+      `Received event: ${RabbitMQPatterns.LISTING_MODERATED} for listing: ${data.listingId}`,
+    );
+
+    try {
+      await this.listingModerationNotificationService.notifyAuthor(data);
+    } catch (error) {
+      this.logger.error(
+        `Error processing event: ${RabbitMQPatterns.LISTING_MODERATED} for listing: ${data.listingId}`,
+        error,
+      );
+      // Note: For @EventPattern, errors are logged but don't NACK since it's fire-and-forget
+    }
+  }
+}
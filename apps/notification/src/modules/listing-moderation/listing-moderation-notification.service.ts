@@ -0,0 +1,341 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@heidi/config';
+import { PrismaNotificationService } from '@heidi/prisma';
+import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import { I18nService } from '@heidi/i18n';
+import { NotificationChannel, NotificationTopic } from '@prisma/client-notification';
+import { firstValueFrom, timeout } from 'rxjs';
+import { FCMTranslationService } from '../fcm/fcm-translation.service';
+import { NotificationPreferencesService } from '../preferences/notification-preferences.service';
+import { CityEmailThemeService } from '../verification/services/city-email-theme.service';
+import { CityEmailTheme } from '../verification/config/default-email-theme.config';
+
+export interface ListingModeratedEvent {
+  listingId: string;
+  slug: string;
+  title: string;
+  createdByUserId: string | null;
+  moderationStatus: string;
+  previousModerationStatus: string;
+  reviewNotes: string | null;
+  moderatorId: string;
+  primaryCityId: string | null;
+  cityIds: string[];
+  timestamp: string;
+}
+
+interface ModerationOutcome {
+  key: 'approved' | 'changesRequested' | 'rejected';
+  type: 'SUCCESS' | 'INFO' | 'WARNING';
+}
+
+const OUTCOMES: Record<string, ModerationOutcome> = {
+  APPROVED: { key: 'approved', type: 'SUCCESS' },
+  CHANGES_REQUESTED: { key: 'changesRequested', type: 'INFO' },
+  REJECTED: { key: 'rejected', type: 'WARNING' },
+};
+
+/**
+ * Tells listing authors about moderation decisions on their listings by
+ * push, email and in-app notification, skipping channels they opted out of.
+ */
+@Injectable()
+export class ListingModerationNotificationService {
+  private readonly linkTemplate: string;
+
+  constructor(
+    private readonly prisma: PrismaNotificationService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly translationService: FCMTranslationService,
+    private readonly cityEmailThemeService: CityEmailThemeService,
+    private readonly i18nService: I18nService,
+    private readonly configService: ConfigService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(ListingModerationNotificationService.name);
+    this.linkTemplate = this.configService.get<string>(
+      'notification.listingLinkTemplate',
+      'http://localhost:3000/listings/{listingId}',
+    );
+  }
+
+  async notifyAuthor(event: ListingModeratedEvent): Promise<void> {
+    const outcome = OUTCOMES[event.moderationStatus];
+    const userId = event.createdByUserId;
+
+    // Only final decisions are notified, and never to moderators acting on their own listings
+    if (!outcome || !userId || userId === event.moderatorId) {
+      return;
+    }
+
+    const disabled = await this.preferencesService.getDisabledChannels(
+      userId,
+      NotificationTopic.LISTING_MODERATION,
+    );
+    const channels = [
+      NotificationChannel.PUSH,
+      NotificationChannel.EMAIL,
+      NotificationChannel.IN_APP,
+    ].filter((channel) => !disabled.has(channel));
+
+    if (channels.length === 0) {
+      this.logger.debug(`User ${userId} opted out of listing moderation notifications`);
+      return;
+    }
+
+    const user = await firstValueFrom(
+      this.client
+        .send<any, { id: string }>(RabbitMQPatterns.USER_FIND_BY_ID, { id: userId })
+        .pipe(timeout(10000)),
+    );
+    if (!user) {
+      this.logger.warn(`Author ${userId} of listing ${event.listingId} not found`);
+      return;
+    }
+
+    const language = this.translationService.resolveLanguage(user);
+    const cityId = event.primaryCityId || event.cityIds[0] || user.cityId || null;
+    const link = this.linkTemplate
+      .replace('{listingId}', encodeURIComponent(event.listingId))
+      .replace('{slug}', encodeURIComponent(event.slug));
+    const cityTheme = await this.cityEmailThemeService.getCityTheme(cityId);
+    const translationKey = `notifications.listingModeration.${outcome.key}`;
+    const translationParams = {
+      title: event.title,
+      firstName: user.firstName ?? '',
+      appName: cityTheme.appName || 'Heidi',
+    };
+
+    if (channels.includes(NotificationChannel.PUSH)) {
+      this.client.emit(RabbitMQPatterns.NOTIFICATION_SEND, {
+        userId,
+        type: outcome.type,
+        channel: 'PUSH',
+        content: event.title,
+        translationKey,
+        translationParams,
+        cityId,
+        fcmData: {
+          type: 'listing_moderation',
+          listingId: event.listingId,
+          moderationStatus: event.moderationStatus,
+          link,
+        },
+        metadata: { listingId: event.listingId, moderationStatus: event.moderationStatus, link },
+      });
+    }
+
+    if (channels.includes(NotificationChannel.EMAIL) && user.email) {
+      await this.sendEmail(userId, event, outcome, user, language, cityTheme, link);
+    }
+
+    if (channels.includes(NotificationChannel.IN_APP)) {
+      const title = this.i18nService.translate(
+        `${translationKey}.title`,
+        translationParams,
+        language,
+      );
+      const body = this.i18nService.translate(
+        `${translationKey}.body`,
+        translationParams,
+        language,
+      );
+      const notes = event.reviewNotes
+        ? this.i18nService.translate(
+            'notifications.listingModeration.reviewNotes',
+            { reviewNotes: event.reviewNotes },
+            language,
+          )
+        : null;
+
+      await this.prisma.notification.create({
+        data: {
+          userId,
+          type: outcome.type,
+          channel: NotificationChannel.IN_APP,
+          subject: title,
+          content: notes ? `${body}\n\n${notes}` : body,
+          status: 'SENT',
+          sentAt: new Date(),
+          metadata: {
+            listingId: event.listingId,
+            moderationStatus: event.moderationStatus,
+            reviewNotes: event.reviewNotes,
+            link,
+            translationKey,
+            resolvedLanguage: language,
+          },
+        },
+      });
+    }
+
+    this.logger.log(
+      `Notified author ${userId} about ${event.moderationStatus} of listing ${event.listingId} via ${channels.join(', ')}`,
+    );
+  }
+
+  private async sendEmail(
+    userId: string,
+    event: ListingModeratedEvent,
+    outcome: ModerationOutcome,
+    user: any,
+    language: string,
+    cityTheme: CityEmailTheme,
+    link: string,
+  ): Promise<void> {
+    const appName = cityTheme.appName || 'Heidi';
+    const title = this.escapeHtml(event.title);
+    const subject = this.i18nService.translate(
+      `emails.listingModeration.${outcome.key}.subject`,
+      { appName, title: event.title },
+      language,
+    );
+    const greeting = this.i18nService.translate(
+      'emails.listingModeration.greeting',
+      { firstNamePart: user.firstName ? ` ${this.escapeHtml(user.firstName)}` : '' },
+      language,
+    );
+
+    await this.client.emit(RabbitMQPatterns.NOTIFICATION_SEND, {
+      userId,
+      type: outcome.type,
+      channel: 'EMAIL',
+      subject,
+      content: this.generateEmailContent(
+        outcome.key,
+        title,
+        event.reviewNotes ? this.escapeHtml(event.reviewNotes) : null,
+        link,
+        subject,
+        greeting,
+        language,
+        cityTheme,
+      ),
+      metadata: {
+        recipientEmail: user.email,
+        listingId: event.listingId,
+        moderationStatus: event.moderationStatus,
+        link,
+        template: 'listing-moderation',
+      },
+    });
+  }
+
+  private generateEmailContent(
+    outcome: ModerationOutcome['key'],
+    title: string,
+    reviewNotes: string | null,
+    link: string,
+    emailSubject: string,
+    greeting: string,
+    language: string,
+    cityTheme: CityEmailTheme,
+  ): string {
+    const intro = this.i18nService.translate(
+      `emails.listingModeration.${outcome}.intro`,
+      { title },
+      language,
+    );
+    const notesHeading = this.i18nService.translate(
+      'emails.listingModeration.notesHeading',
+      undefined,
+      language,
+    );
+    const ctaText = this.i18nService.translate('emails.listingModeration.cta', undefined, language);
+    const fallback = this.i18nService.translate(
+      'emails.listingModeration.fallback',
+      undefined,
+      language,
+    );
+
+    // Use city theme colors or defaults
+    const headerBackgroundColor =
+      cityTheme.emailTheme?.headerBackgroundColor || cityTheme.secondaryColor || '#1a1a2e';
+    const footerBackgroundColor =
+      cityTheme.emailTheme?.footerBackgroundColor || cityTheme.primaryColor || '#009EE0';
+    const buttonColor = cityTheme.emailTheme?.buttonColor || '#ffffff';
+    const buttonTextColor =
+      cityTheme.emailTheme?.buttonTextColor || cityTheme.primaryColor || '#009EE0';
+    const accentColor = cityTheme.accentColor || '#009EE0';
+
+    const notesSection = reviewNotes
+      ? `
+                <tr>
+                  <td style="background-color: #ffffff; padding: 30px 30px 0 30px; text-align: left;">
+                    <p style="margin: 0 0 10px 0; color: #333333; font-size: 14px; font-weight: bold; font-family: Arial, Helvetica, sans-serif;">
+                      ${notesHeading}
+                    </p>
+                    <p style="margin: 0; padding: 15px; background-color: #f5f5f5; border-left: 4px solid ${accentColor}; color: #333333; font-size: 15px; line-height: 1.6; white-space: pre-line; font-family: Arial, Helvetica, sans-serif;">
+                      ${reviewNotes}
+                    </p>
+                  </td>
+                </tr>`
+      : '';
+
+    return `
+      <!DOCTYPE html>
+      <html lang="${language}">
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="X-UA-Compatible" content="IE=edge">
+        <title>${this.escapeHtml(emailSubject)}</title>
+      </head>
+      <body style="margin: 0; padding: 0; background-color: #f5f5f5; font-family: Arial, Helvetica, sans-serif;">
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f5f5f5;">
+          <tr>
+            <td align="center" style="padding: 0;">
+              <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+                <!-- Header section -->
+                <tr>
+                  <td style="background-color: ${headerBackgroundColor}; padding: 40px 30px 60px 30px; text-align: left;">
+                    <h1 style="margin: 0 0 20px 0; color: #ffffff; font-size: 32px; font-weight: bold; line-height: 1.2; font-family: Arial, Helvetica, sans-serif;">
+                      ${greeting}
+                    </h1>
+                    <p style="margin: 0; color: #ffffff; font-size: 16px; line-height: 1.6; font-family: Arial, Helvetica, sans-serif;">
+                      ${intro}
+                    </p>
+                  </td>
+                </tr>
+                <!-- Reviewer notes -->${notesSection}
+                <!-- CTA section -->
+                <tr>
+                  <td style="background-color: ${footerBackgroundColor}; padding: 40px 30px; text-align: center;">
+                    <a href="${link}"
+                       style="background-color: ${buttonColor}; color: ${buttonTextColor}; padding: 16px 40px; text-decoration: none; border-radius: 30px; display: inline-block; font-weight: bold; font-size: 18px; font-family: Arial, Helvetica, sans-serif; box-shadow: 0 4px 8px rgba(0, 0, 0, 0.15); border: 2px solid ${buttonColor};">
+                      ${ctaText}
+                    </a>
+                  </td>
+                </tr>
+                <!-- Footer section -->
+                <tr>
+                  <td style="background-color: #ffffff; padding: 30px; text-align: center; border-top: 1px solid #e0e0e0;">
+                    <p style="margin: 0; color: #999999; font-size: 12px; line-height: 1.5; font-family: Arial, Helvetica, sans-serif;">
+                      ${fallback}<br>
+                      <a href="${link}" style="color: ${accentColor}; text-decoration: underline; word-break: break-all;">${link}</a>
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Listing titles and reviewer notes are user input and must not inject markup
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
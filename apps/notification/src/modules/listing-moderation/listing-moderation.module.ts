@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ListingModerationMessageController } from './listing-moderation-message.controller';
+import { ListingModerationNotificationService } from './listing-moderation-notification.service';
+import { FCMModule } from '../fcm/fcm.module';
+import { NotificationPreferencesModule } from '../preferences/notification-preferences.module';
+import { CityEmailThemeService } from '../verification/services/city-email-theme.service';
+
+@Module({
+  imports: [FCMModule, NotificationPreferencesModule],
+  controllers: [ListingModerationMessageController],
+  providers: [ListingModerationNotificationService, CityEmailThemeService],
+})
+export class ListingModerationModule {}
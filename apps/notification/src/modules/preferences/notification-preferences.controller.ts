@@ -0,0 +1,45 @@
+import { Body, Controller, Get, Param, Patch, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  NotificationPreferenceDto,
+  NotificationPreferencesResponseDto,
+  UpdateNotificationPreferenceDto,
+} from '@heidi/contracts';
+import { CurrentUser, GetCurrentUser, JwtAuthGuard } from '@heidi/jwt';
+import { NotificationPreferencesService } from './notification-preferences.service';
+
+@ApiTags('notification')
+@Controller('preferences')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class NotificationPreferencesController {
+  constructor(private readonly preferencesService: NotificationPreferencesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the notification channels of the current user per topic' })
+  @ApiResponse({
+    status: 200,
+    description: 'Notification preferences',
+    type: NotificationPreferencesResponseDto,
+  })
+  async getPreferences(@GetCurrentUser() user: CurrentUser) {
+    return this.preferencesService.getPreferences(user.userId);
+  }
+
+  @Patch(':topic')
+  @ApiOperation({ summary: 'Turn notification channels of a topic on or off' })
+  @ApiParam({ name: 'topic', description: 'Notification topic', example: 'LISTING_MODERATION' })
+  @ApiResponse({
+    status: 200,
+    description: 'Notification preference updated',
+    type: NotificationPreferenceDto,
+  })
+  @ApiResponse({ status: 400, description: 'Unknown notification topic' })
+  async updatePreference(
+    @GetCurrentUser() user: CurrentUser,
+    @Param('topic') topic: string,
+    @Body() dto: UpdateNotificationPreferenceDto,
+  ) {
+    return this.preferencesService.updatePreference(user.userId, topic, dto);
+  }
+}
@@ -0,0 +1,109 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaNotificationService } from '@heidi/prisma';
+import { NotificationChannel, NotificationTopic } from '@prisma/client-notification';
+import {
+  NotificationPreferenceDto,
+  NotificationPreferencesResponseDto,
+  UpdateNotificationPreferenceDto,
+} from '@heidi/contracts';
+
+const PREFERENCE_CHANNELS = {
+  email: NotificationChannel.EMAIL,
+  push: NotificationChannel.PUSH,
+  inApp: NotificationChannel.IN_APP,
+} as const;
+
+/**
+ * Per-topic channel opt-outs. Channels are enabled unless the user turned
+ * them off, so only changed channels are stored.
+ */
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(private readonly prisma: PrismaNotificationService) {}
+
+  async getPreferences(userId: string): Promise<NotificationPreferencesResponseDto> {
+    const rows = await this.prisma.notificationPreference.findMany({ where: { userId } });
+
+    return {
+      preferences: Object.values(NotificationTopic).map((topic) =>
+        this.toDto(
+          topic,
+          rows.filter((row) => row.topic === topic),
+        ),
+      ),
+    };
+  }
+
+  async updatePreference(
+    userId: string,
+    topic: string,
+    dto: UpdateNotificationPreferenceDto,
+  ): Promise<NotificationPreferenceDto> {
+    const notificationTopic = this.parseTopic(topic);
+
+    await this.prisma.$transaction(
+      (Object.keys(PREFERENCE_CHANNELS) as Array<keyof typeof PREFERENCE_CHANNELS>)
+        .filter((key) => dto[key] !== undefined)
+        .map((key) =>
+          this.prisma.notificationPreference.upsert({
+            where: {
+              userId_topic_channel: {
+                userId,
+                topic: notificationTopic,
+                channel: PREFERENCE_CHANNELS[key],
+              },
+            },
+            create: {
+              userId,
+              topic: notificationTopic,
+              channel: PREFERENCE_CHANNELS[key],
+              enabled: dto[key] as boolean,
+            },
+            update: { enabled: dto[key] as boolean },
+          }),
+        ),
+    );
+
+    const rows = await this.prisma.notificationPreference.findMany({
+      where: { userId, topic: notificationTopic },
+    });
+    return this.toDto(notificationTopic, rows);
+  }
+
+  /**
+   * Channels the user opted out of for the topic
+   */
+  async getDisabledChannels(
+    userId: string,
+    topic: NotificationTopic,
+  ): Promise<Set<NotificationChannel>> {
+    const rows = await this.prisma.notificationPreference.findMany({
+      where: { userId, topic, enabled: false },
+      select: { channel: true },
+    });
+    return new Set(rows.map((row) => row.channel));
+  }
+
+  private parseTopic(topic: string): NotificationTopic {
+    const normalized = topic.toUpperCase().replace(/-/g, '_');
+    if (!Object.values(NotificationTopic).includes(normalized as NotificationTopic)) {
+      throw new BadRequestException(`Unknown notification topic: ${topic}`);
+    }
+    return normalized as NotificationTopic;
+  }
+
+  private toDto(
+    topic: NotificationTopic,
+    rows: Array<{ channel: NotificationChannel; enabled: boolean }>,
+  ): NotificationPreferenceDto {
+    const enabled = (channel: NotificationChannel) =>
+      rows.find((row) => row.channel === channel)?.enabled ?? true;
+
+    return {
+      topic,
+      email: enabled(NotificationChannel.EMAIL),
+      push: enabled(NotificationChannel.PUSH),
+      inApp: enabled(NotificationChannel.IN_APP),
+    };
+  }
+}
@@ -30,6 +30,7 @@ export class VerificationMessageController {
       deviceId?: string;
       devicePlatform?: string;
       preferredLanguage?: string;
+      emailVerified?: boolean;
     },
   ) {
     this.logger.log(
@@ -37,6 +38,11 @@ export class VerificationMessageController {
     );
 
     try {
+      // Social login users come with an email the provider has verified already
+      if (data.emailVerified) {
+        return { success: true, message: 'Email already verified' };
+      }
+
       // Automatically send welcome email with verification link
       if (data.email) {
         await this.verificationService.sendVerification(
@@ -8,8 +8,9 @@ import {
   HttpCode,
   HttpStatus,
   Res,
+  Req,
 } from '@nestjs/common';
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiQuery } from '@nestjs/swagger';
 import { VerificationService } from './verification.service';
 import {
@@ -290,8 +291,18 @@ export class VerificationController {
     description: 'Bad request - verification email already sent and not expired',
     type: VerificationBadRequestErrorResponseDto,
   })
-  async resendVerification(@Body() dto: ResendVerificationDto, @GetLanguage() language: string) {
-    return this.verificationService.resendVerification(dto, language);
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many requests for the identifier or IP address (TOO_MANY_ATTEMPTS, retryAfterSeconds)',
+  })
+  async resendVerification(
+    @Body() dto: ResendVerificationDto,
+    @GetLanguage() language: string,
+    @Req() req: Request,
+  ) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    return this.verificationService.resendVerification(dto, language, ipAddress as string);
   }
 
   @Get('status/:userId')
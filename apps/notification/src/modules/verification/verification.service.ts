@@ -7,6 +7,7 @@ import {
 } from '@nestjs/common';
 import { PrismaNotificationService } from '@heidi/prisma';
 import { LoggerService } from '@heidi/logger';
+import { AttemptLimiterService } from '@heidi/redis';
 import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
 import { EmailVerificationStrategy } from './strategies/email-verification.strategy';
 import { SmsVerificationStrategy } from './strategies/sms-verification.strategy';
@@ -32,6 +33,7 @@ export class VerificationService {
     @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
     private readonly logger: LoggerService,
     private readonly i18nService: I18nService,
+    private readonly attemptLimiter: AttemptLimiterService,
   ) {
     this.strategies = new Map<'EMAIL' | 'SMS', IVerificationStrategy>([
       ['EMAIL', this.emailStrategy],
@@ -337,8 +339,14 @@ export class VerificationService {
 
   /**
    * Resend verification link (if expired or user requests new one)
+   * Requests are limited per identifier and IP address like failed logins
    */
-  async resendVerification(dto: ResendVerificationDto, language?: string) {
+  async resendVerification(dto: ResendVerificationDto, language?: string, ipAddress?: string) {
+    await this.attemptLimiter.hit('verification-resend', {
+      account: `${dto.type}:${dto.identifier}`,
+      ip: ipAddress,
+    });
+
     // Check if there's a recent verification that's expired
     const existingToken = await this.prisma.verificationToken.findFirst({
       where: {
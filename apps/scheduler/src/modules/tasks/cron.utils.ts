@@ -0,0 +1,30 @@
+import { CronTime } from 'cron';
+import { CronValidationException } from '@heidi/errors';
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Parse a cron expression evaluated in the given IANA timezone.
+ * Throws CronValidationException if the expression or the timezone is invalid.
+ */
+export function parseCronExpression(
+  expression: string,
+  timezone: string = DEFAULT_TIMEZONE,
+): CronTime {
+  try {
+    return new CronTime(expression, timezone);
+  } catch (error) {
+    throw new CronValidationException(expression, { timezone, reason: error.message });
+  }
+}
+
+/**
+ * Compute the next time a cron expression fires after `from`
+ */
+export function getNextRun(
+  expression: string,
+  timezone: string = DEFAULT_TIMEZONE,
+  from: Date = new Date(),
+): Date {
+  return parseCronExpression(expression, timezone).getNextDateFrom(from, timezone).toJSDate();
+}
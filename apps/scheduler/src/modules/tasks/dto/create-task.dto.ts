@@ -11,6 +11,15 @@ export class CreateTaskDto {
   @IsString()
   cronExpression: string;
 
+  /** IANA timezone the cron expression is evaluated in (default: UTC) */
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  /**
+   * Passed to the target with `schedule.execute`. Set `reportsResult: true` when the target
+   * reports a `schedule.runResult`; other generic tasks succeed as soon as they are dispatched.
+   */
   @IsObject()
   @IsOptional()
   payload?: any;
@@ -1 +1,2 @@
 export * from './create-task.dto';
+export * from './update-task.dto';
@@ -0,0 +1,24 @@
+import { IsString, IsOptional, IsObject } from 'class-validator';
+
+export class UpdateTaskDto {
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsString()
+  @IsOptional()
+  cronExpression?: string;
+
+  /** IANA timezone the cron expression is evaluated in */
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @IsObject()
+  @IsOptional()
+  payload?: any;
+}
@@ -0,0 +1,37 @@
+import { Controller } from '@nestjs/common';
+import { EventPattern, Payload } from '@nestjs/microservices';
+import { RabbitMQPatterns } from '@heidi/rabbitmq';
+import { LoggerService } from '@heidi/logger';
+import { ScheduleRunResult } from '@heidi/contracts';
+import { TasksService } from './tasks.service';
+
+@Controller()
+export class TasksMessageController {
+  private readonly logger: LoggerService;
+
+  constructor(
+    private readonly tasksService: TasksService,
+    logger: LoggerService,
+  ) {
+    this.logger = logger;
+    this.logger.setContext(TasksMessageController.name);
+  }
+
+  @EventPattern(RabbitMQPatterns.SCHEDULE_RUN_RESULT)
+  async handleRunResult(@Payload() data: ScheduleRunResult) {
+    this.logger.log(
+      `Received event: ${RabbitMQPatterns.SCHEDULE_RUN_RESULT} for runId: ${data.runId}, status: ${data.status}`,
+    );
+
+    try {
+      await this.tasksService.handleRunResult(data);
+    } catch (error) {
+      this.logger.error(
+        `Error processing event: ${RabbitMQPatterns.SCHEDULE_RUN_RESULT} for runId: ${data.runId}`,
+        error,
+      );
+      // Note: For @EventPattern, errors are logged but don't NACK since it's fire-and-forget
+      // An unreported run is flagged TIMED_OUT once its deadline passes
+    }
+  }
+}
@@ -1,6 +1,17 @@
-import { Controller, Get, Post, Body, Param } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
 import { TasksService } from './tasks.service';
-import { CreateTaskDto } from './dto';
+import { CreateTaskDto, UpdateTaskDto } from './dto';
 
 @Controller()
 export class TasksController {
@@ -16,8 +27,41 @@ export class TasksController {
     return this.tasksService.findOne(id);
   }
 
+  @Get(':id/runs')
+  async findRuns(@Param('id') id: string, @Query('limit') limit?: string) {
+    return this.tasksService.findRuns(id, limit ? parseInt(limit, 10) : undefined);
+  }
+
   @Post()
   async create(@Body() dto: CreateTaskDto) {
     return this.tasksService.create(dto);
   }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateTaskDto) {
+    return this.tasksService.update(id, dto);
+  }
+
+  @Post(':id/enable')
+  @HttpCode(HttpStatus.OK)
+  async enable(@Param('id') id: string) {
+    return this.tasksService.enable(id);
+  }
+
+  @Post(':id/disable')
+  @HttpCode(HttpStatus.OK)
+  async disable(@Param('id') id: string) {
+    return this.tasksService.disable(id);
+  }
+
+  @Post(':id/run')
+  @HttpCode(HttpStatus.OK)
+  async runNow(@Param('id') id: string) {
+    return this.tasksService.runNow(id);
+  }
+
+  @Delete(':id')
+  async remove(@Param('id') id: string) {
+    return this.tasksService.remove(id);
+  }
 }
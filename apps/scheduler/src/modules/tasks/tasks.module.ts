@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { TasksController } from './tasks.controller';
+import { TasksMessageController } from './tasks-message.controller';
 import { TasksService } from './tasks.service';
 
 @Module({
-  controllers: [TasksController],
+  controllers: [TasksController, TasksMessageController],
   providers: [TasksService],
 })
 export class TasksModule {}
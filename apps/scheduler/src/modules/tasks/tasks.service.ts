@@ -4,51 +4,159 @@ import { PrismaSchedulerService } from '@heidi/prisma';
 import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
 import { RedisService } from '@heidi/redis';
 import { LoggerService } from '@heidi/logger';
-import { CreateTaskDto } from './dto';
+import { ConfigService } from '@heidi/config';
+import { JobNotFoundException } from '@heidi/errors';
+import { ScheduleRunResult, ScheduleRunResultStatus } from '@heidi/contracts';
+import {
+  Schedule,
+  ScheduleRun,
+  ScheduleRunStatus,
+  ScheduleRunTrigger,
+} from '@prisma/client-scheduler';
+import { CreateTaskDto, UpdateTaskDto } from './dto';
+import { DEFAULT_TIMEZONE, getNextRun, parseCronExpression } from './cron.utils';
+
+/** Payload job of the built-in task that runs listing/tile lifecycle transitions in core */
+export const CONTENT_LIFECYCLE_JOB = 'content-lifecycle';
 
 @Injectable()
 export class TasksService implements OnModuleInit {
   private readonly logger: LoggerService;
+  private readonly runResultTimeoutMinutes: number;
+  private readonly failureAlertThreshold: number;
+  private readonly contentLifecycleCron: string;
 
   constructor(
     private readonly prisma: PrismaSchedulerService,
     @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
     private readonly redis: RedisService,
+    private readonly configService: ConfigService,
     logger: LoggerService,
   ) {
     this.logger = logger;
     this.logger.setContext(TasksService.name);
+    this.runResultTimeoutMinutes = this.configService.get<number>(
+      'scheduler.runResultTimeoutMinutes',
+      60,
+    );
+    this.failureAlertThreshold = this.configService.get<number>(
+      'scheduler.failureAlertThreshold',
+      3,
+    );
+    this.contentLifecycleCron = this.configService.get<string>(
+      'scheduler.contentLifecycleCron',
+      '* * * * *',
+    );
   }
 
   async onModuleInit() {
+    await this.ensureContentLifecycleTask();
     this.logger.log('Scheduler service initialized');
   }
 
-  // Example cron job - runs every hour
-  @Cron(CronExpression.EVERY_HOUR)
-  async handleHourlyTasks() {
-    const lockKey = 'scheduler:hourly:lock';
-    const acquired = await this.redis.acquireLock(lockKey, 300);
+  // Evaluates task cron expressions every minute; the Redis lock makes sure only one
+  // replica fires due tasks per tick
+  @Cron(CronExpression.EVERY_MINUTE)
+  async handleDueTasks() {
+    const lockKey = 'scheduler:due-tasks:lock';
+    const acquired = await this.redis.acquireLock(lockKey, 55);
+
+    if (!acquired) {
+      this.logger.debug('Could not acquire lock for due tasks, another replica is running them');
+      return;
+    }
+
+    try {
+      const now = new Date();
+
+      // Tasks without nextRun (e.g. created before cron evaluation existed) only get scheduled
+      const unscheduled = await this.prisma.schedule.findMany({
+        where: { isEnabled: true, nextRun: null },
+      });
+      for (const task of unscheduled) {
+        await this.scheduleNextRun(task, now);
+      }
+
+      const dueTasks = await this.prisma.schedule.findMany({
+        where: { isEnabled: true, nextRun: { lte: now } },
+        orderBy: { nextRun: 'asc' },
+      });
+
+      if (dueTasks.length > 0) {
+        this.logger.log(`Running ${dueTasks.length} due scheduled task(s)`);
+      }
+
+      for (const task of dueTasks) {
+        // Advance nextRun before executing so a slow run can't fire twice.
+        // Missed runs (e.g. during downtime) are fired once, not caught up.
+        await this.scheduleNextRun(task, now);
+        await this.executeTask(task, ScheduleRunTrigger.SCHEDULED);
+      }
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  // Flags dispatched runs whose target service never reported a result
+  @Cron(CronExpression.EVERY_MINUTE)
+  async handleOverdueRuns() {
+    const lockKey = 'scheduler:overdue-runs:lock';
+    const acquired = await this.redis.acquireLock(lockKey, 55);
 
     if (!acquired) {
-      this.logger.warn('Could not acquire lock for hourly tasks');
       return;
     }
 
     try {
-      this.logger.log('Running hourly scheduled tasks');
-      const tasks = await this.prisma.schedule.findMany({
-        where: { isEnabled: true },
+      const overdueRuns = await this.prisma.scheduleRun.findMany({
+        where: { status: ScheduleRunStatus.DISPATCHED, deadlineAt: { lt: new Date() } },
+        include: { schedule: true },
       });
 
-      for (const task of tasks) {
-        await this.executeTask(task);
+      for (const run of overdueRuns) {
+        this.logger.warn(
+          `Run ${run.id} of task ${run.schedule.name} did not report a result before its deadline`,
+        );
+        await this.finishRun(
+          run,
+          run.schedule,
+          ScheduleRunStatus.TIMED_OUT,
+          'No result reported before deadline',
+        );
       }
     } finally {
       await this.redis.releaseLock(lockKey);
     }
   }
 
+  /**
+   * Record the result a target service reported for a dispatched run
+   */
+  async handleRunResult(report: ScheduleRunResult) {
+    const run = await this.prisma.scheduleRun.findUnique({
+      where: { id: report.runId },
+      include: { schedule: true },
+    });
+
+    if (!run) {
+      this.logger.warn(`Received result for unknown run: ${report.runId}`);
+      return;
+    }
+
+    // Redelivered messages may report again after a successful attempt
+    if (run.status === ScheduleRunStatus.SUCCESS) {
+      this.logger.debug(`Run ${run.id} already succeeded, ignoring result report`);
+      return;
+    }
+
+    const status =
+      report.status === ScheduleRunResultStatus.SUCCESS
+        ? ScheduleRunStatus.SUCCESS
+        : ScheduleRunStatus.FAILED;
+
+    await this.finishRun(run, run.schedule, status, report.error, report.counts);
+  }
+
   async findAll() {
     return this.prisma.schedule.findMany({
       orderBy: { createdAt: 'desc' },
@@ -60,36 +168,195 @@ export class TasksService implements OnModuleInit {
   }
 
   async create(dto: CreateTaskDto) {
+    const timezone = dto.timezone || DEFAULT_TIMEZONE;
+    const nextRun = getNextRun(dto.cronExpression, timezone);
+
     const task = await this.prisma.schedule.create({
       data: {
         name: dto.name,
         description: dto.description,
         cronExpression: dto.cronExpression,
+        timezone,
         payload: dto.payload || {},
         isEnabled: true,
+        nextRun,
+      },
+    });
+
+    this.logger.log(`Task created: ${task.id} (next run: ${nextRun.toISOString()})`);
+    return task;
+  }
+
+  async update(id: string, dto: UpdateTaskDto) {
+    const existing = await this.getTaskOrThrow(id);
+
+    const cronExpression = dto.cronExpression ?? existing.cronExpression;
+    const timezone = dto.timezone ?? existing.timezone;
+    const scheduleChanged =
+      cronExpression !== existing.cronExpression || timezone !== existing.timezone;
+
+    if (scheduleChanged) {
+      parseCronExpression(cronExpression, timezone);
+    }
+
+    const task = await this.prisma.schedule.update({
+      where: { id },
+      data: {
+        name: dto.name,
+        description: dto.description,
+        cronExpression,
+        timezone,
+        payload: dto.payload,
+        nextRun:
+          scheduleChanged && existing.isEnabled ? getNextRun(cronExpression, timezone) : undefined,
+      },
+    });
+
+    this.logger.log(`Task updated: ${task.id}`);
+    return task;
+  }
+
+  async enable(id: string) {
+    const existing = await this.getTaskOrThrow(id);
+
+    const task = await this.prisma.schedule.update({
+      where: { id },
+      data: {
+        isEnabled: true,
+        nextRun: getNextRun(existing.cronExpression, existing.timezone),
       },
     });
 
-    this.logger.log(`Task created: ${task.id}`);
+    this.logger.log(`Task enabled: ${task.id}`);
+    return task;
+  }
+
+  async disable(id: string) {
+    await this.getTaskOrThrow(id);
+
+    const task = await this.prisma.schedule.update({
+      where: { id },
+      data: { isEnabled: false, nextRun: null },
+    });
+
+    this.logger.log(`Task disabled: ${task.id}`);
+    return task;
+  }
+
+  async remove(id: string) {
+    await this.getTaskOrThrow(id);
+    await this.prisma.schedule.delete({ where: { id } });
+
+    this.logger.log(`Task deleted: ${id}`);
+    return { success: true };
+  }
+
+  /**
+   * Execute a task immediately, independent of its schedule
+   */
+  async runNow(id: string) {
+    const task = await this.getTaskOrThrow(id);
+    return this.executeTask(task, ScheduleRunTrigger.MANUAL);
+  }
+
+  async findRuns(id: string, limit = 50) {
+    await this.getTaskOrThrow(id);
+
+    return this.prisma.scheduleRun.findMany({
+      where: { scheduleId: id },
+      orderBy: { startedAt: 'desc' },
+      take: Math.min(limit, 200),
+    });
+  }
+
+  /**
+   * Creates the built-in content lifecycle task on first start. Once it exists
+   * it is managed like any other task (schedule, disable, run now).
+   */
+  private async ensureContentLifecycleTask() {
+    const lockKey = 'scheduler:content-lifecycle-task:lock';
+    const acquired = await this.redis.acquireLock(lockKey, 30);
+    if (!acquired) {
+      return;
+    }
+
+    try {
+      const existing = await this.prisma.schedule.findFirst({
+        where: { payload: { path: ['job'], equals: CONTENT_LIFECYCLE_JOB } },
+      });
+      if (existing) {
+        return;
+      }
+
+      const task = await this.create({
+        name: 'Content lifecycle',
+        description:
+          'Publishes, expires, unfeatures and archives listings and (de)activates tiles when their scheduled times pass',
+        cronExpression: this.contentLifecycleCron,
+        payload: { job: CONTENT_LIFECYCLE_JOB, resultTimeoutMinutes: 10 },
+      });
+      this.logger.log(`Created content lifecycle task ${task.id}`);
+    } catch (error) {
+      this.logger.error('Failed to create the content lifecycle task', error);
+    } finally {
+      await this.redis.releaseLock(lockKey);
+    }
+  }
+
+  private async getTaskOrThrow(id: string): Promise<Schedule> {
+    const task = await this.prisma.schedule.findUnique({ where: { id } });
+    if (!task) {
+      throw new JobNotFoundException(id);
+    }
     return task;
   }
 
-  private async executeTask(task: any) {
-    this.logger.log(`Executing task: ${task.name}`);
+  private async scheduleNextRun(task: Schedule, from: Date) {
+    try {
+      const nextRun = getNextRun(task.cronExpression, task.timezone, from);
+      await this.prisma.schedule.update({
+        where: { id: task.id },
+        data: { nextRun },
+      });
+    } catch (error) {
+      // Invalid expressions stored before validation existed: disable instead of retrying forever
+      this.logger.error(`Invalid cron expression for task ${task.name}, disabling it`, error);
+      await this.prisma.schedule.update({
+        where: { id: task.id },
+        data: { isEnabled: false, nextRun: null },
+      });
+    }
+  }
+
+  private async executeTask(task: Schedule, trigger: ScheduleRunTrigger) {
+    this.logger.log(`Executing task: ${task.name} (${trigger})`);
+
+    const payload = task.payload as Record<string, any> | null;
+    const run = await this.prisma.scheduleRun.create({
+      data: { scheduleId: task.id, trigger, status: ScheduleRunStatus.RUNNING },
+    });
 
     try {
       // Check if task payload contains integrationId for integration sync
-      if (task.payload && task.payload.integrationId) {
+      if (payload && payload.integrationId) {
         this.logger.log(`Task ${task.name} contains integrationId, triggering integration sync`);
         this.client.emit(RabbitMQPatterns.INTEGRATION_SYNC, {
-          integrationId: task.payload.integrationId,
+          integrationId: payload.integrationId,
+          taskId: task.id,
+          runId: run.id,
+          timestamp: new Date().toISOString(),
+        });
+      } else if (payload && payload.job === CONTENT_LIFECYCLE_JOB) {
+        this.client.emit(RabbitMQPatterns.CONTENT_LIFECYCLE_RUN, {
           taskId: task.id,
+          runId: run.id,
           timestamp: new Date().toISOString(),
         });
       } else {
         // Default task execution
         this.client.emit(RabbitMQPatterns.SCHEDULE_EXECUTE, {
           taskId: task.id,
+          runId: run.id,
           name: task.name,
           payload: task.payload,
           timestamp: new Date().toISOString(),
@@ -99,27 +366,101 @@ export class TasksService implements OnModuleInit {
       await this.prisma.schedule.update({
         where: { id: task.id },
         data: {
-          lastRun: new Date(),
-          lastRunStatus: 'SUCCESS',
+          lastRun: run.startedAt,
+          lastRunStatus: ScheduleRunStatus.DISPATCHED,
           runCount: { increment: 1 },
         },
       });
 
-      this.client.emit(RabbitMQPatterns.SCHEDULE_COMPLETED, {
-        taskId: task.id,
-        status: 'SUCCESS',
-        timestamp: new Date().toISOString(),
+      // Fire-and-forget targets never report back, so dispatching is all there is to the run
+      if (!this.reportsResult(payload)) {
+        return this.finishRun(run, task, ScheduleRunStatus.SUCCESS);
+      }
+
+      // The run is completed once the target service reports its result (handleRunResult)
+      const resultTimeoutMinutes = payload?.resultTimeoutMinutes ?? this.runResultTimeoutMinutes;
+      return await this.prisma.scheduleRun.update({
+        where: { id: run.id },
+        data: {
+          status: ScheduleRunStatus.DISPATCHED,
+          deadlineAt: new Date(run.startedAt.getTime() + resultTimeoutMinutes * 60 * 1000),
+        },
       });
     } catch (error) {
       this.logger.error(`Task execution failed: ${task.name}`, error);
 
-      await this.prisma.schedule.update({
+      return this.finishRun(run, task, ScheduleRunStatus.FAILED, error.message);
+    }
+  }
+
+  /**
+   * Integration syncs and the content lifecycle job always report a SCHEDULE_RUN_RESULT;
+   * generic tasks only do when their payload sets `reportsResult: true`
+   */
+  private reportsResult(payload: Record<string, any> | null): boolean {
+    if (payload?.integrationId || payload?.job === CONTENT_LIFECYCLE_JOB) {
+      return true;
+    }
+    return payload?.reportsResult === true;
+  }
+
+  /**
+   * Complete a run and update the task's last run status.
+   * Emits SCHEDULE_COMPLETED and logs an alert if the task keeps failing.
+   */
+  private async finishRun(
+    run: ScheduleRun,
+    task: Schedule,
+    status: ScheduleRunStatus,
+    error?: string,
+    counts?: Record<string, number>,
+  ) {
+    const finishedAt = new Date();
+    const finishedRun = await this.prisma.scheduleRun.update({
+      where: { id: run.id },
+      data: {
+        status,
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        error: error ?? null,
+        result: counts ?? undefined,
+        reportedAt: status === ScheduleRunStatus.TIMED_OUT ? undefined : finishedAt,
+      },
+    });
+
+    // Late reports for older runs must not overwrite the status of a newer run
+    const latestRun = await this.prisma.scheduleRun.findFirst({
+      where: { scheduleId: task.id },
+      orderBy: { startedAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (latestRun?.id === run.id) {
+      const succeeded = status === ScheduleRunStatus.SUCCESS;
+      const updatedTask = await this.prisma.schedule.update({
         where: { id: task.id },
         data: {
-          lastRun: new Date(),
-          lastRunStatus: 'FAILED',
+          lastRunStatus: status,
+          consecutiveFailures: succeeded ? 0 : { increment: 1 },
         },
       });
+
+      if (!succeeded && updatedTask.consecutiveFailures >= this.failureAlertThreshold) {
+        this.logger.error(
+          `ALERT: Task ${task.name} (${task.id}) failed ${updatedTask.consecutiveFailures} times in a row (last status: ${status}${error ? `, error: ${error}` : ''})`,
+        );
+      }
     }
+
+    this.client.emit(RabbitMQPatterns.SCHEDULE_COMPLETED, {
+      taskId: task.id,
+      runId: run.id,
+      status,
+      counts,
+      error,
+      timestamp: finishedAt.toISOString(),
+    });
+
+    return finishedRun;
   }
 }
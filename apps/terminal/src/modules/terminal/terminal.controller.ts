@@ -12,6 +12,7 @@ import {
 import { TerminalService } from './terminal.service';
 import { CreateTerminalDto, UpdateTerminalDto } from './dto';
 import { JwtAuthGuard } from '@heidi/jwt';
+import { PaginationMode } from '@heidi/contracts';
 
 @Controller('terminal')
 @UseGuards(JwtAuthGuard)
@@ -19,8 +20,13 @@ export class TerminalController {
   constructor(private readonly terminalService: TerminalService) {}
 
   @Get()
-  async findAll(@Query('page') page = 1, @Query('limit') limit = 10) {
-    return this.terminalService.findAll(+page, +limit);
+  async findAll(
+    @Query('page') page = 1,
+    @Query('limit') limit = 10,
+    @Query('pagination') pagination?: PaginationMode,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.terminalService.findAll(+page, +limit, { pagination, cursor });
   }
 
   @Get(':id')
@@ -1,18 +1,41 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaTerminalService } from '@heidi/prisma';
 import { LoggerService } from '@heidi/logger';
+import { ConfigService } from '@heidi/config';
+import {
+  CursorCodec,
+  CursorPaginationQueryDto,
+  CursorSort,
+  cursorOrderBy,
+  cursorWhere,
+  isCursorMode,
+} from '@heidi/contracts';
 import { CreateTerminalDto, UpdateTerminalDto } from './dto';
 
+/** Cursor pages list the newest terminals first */
+const CURSOR_SORT: CursorSort = { field: 'createdAt', direction: 'desc' };
+
 @Injectable()
 export class TerminalService {
+  private readonly cursorCodec: CursorCodec;
+
   constructor(
     private readonly prisma: PrismaTerminalService,
     private readonly logger: LoggerService,
+    private readonly configService: ConfigService,
   ) {
     this.logger.setContext('TerminalService');
+    this.cursorCodec = new CursorCodec(
+      this.configService.get<string>('pagination.cursorSecret') ??
+        this.configService.get<string>('jwt.secret', ''),
+    );
   }
 
-  async findAll(page = 1, limit = 10) {
+  async findAll(page = 1, limit = 10, paging: CursorPaginationQueryDto = {}) {
+    if (isCursorMode(paging)) {
+      return this.findAllByCursor(Math.min(Math.max(limit, 1), 100), paging.cursor);
+    }
+
     const skip = (page - 1) * limit;
     const [terminals, total] = await Promise.all([
       this.prisma.terminal.findMany({
@@ -38,6 +61,31 @@ export class TerminalService {
     return { terminals, total, page, limit, pages: Math.ceil(total / limit) };
   }
 
+  private async findAllByCursor(limit: number, cursor?: string) {
+    const position = cursor ? this.cursorCodec.decode(cursor, CURSOR_SORT, {}) : null;
+    const terminals = await this.prisma.terminal.findMany({
+      where: { deletedAt: null, ...cursorWhere(CURSOR_SORT, position) },
+      orderBy: cursorOrderBy(CURSOR_SORT),
+      take: limit + 1,
+      select: {
+        id: true,
+        name: true,
+        code: true,
+        cityId: true,
+        location: true,
+        status: true,
+        isActive: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    this.logger.log(
+      `TerminalService: Retrieved ${Math.min(terminals.length, limit)} terminals by cursor`,
+    );
+    return this.cursorCodec.page(terminals, limit, CURSOR_SORT, {});
+  }
+
   async findOne(id: string) {
     const terminal = await this.prisma.terminal.findFirst({
       where: { id, deletedAt: null },
@@ -17,6 +17,7 @@ import { I18nModule, LanguageInterceptor } from '@heidi/i18n';
 import { ErrorHandlingModule } from '@heidi/errors';
 import { TermsAcceptanceGuard } from '@heidi/rbac';
 import { StorageModule } from '@heidi/storage';
+import { RedisModule } from '@heidi/redis';
 import { UsersModule } from './modules/users/users.module';
 import { HealthController } from './health.controller';
 
@@ -32,6 +33,7 @@ import { HealthController } from './health.controller';
       inject: [ConfigService],
       useFactory: () => ({ serviceName: 'users' }),
     }),
+    RedisModule,
     JwtModule.register(),
     MetricsModule,
     I18nModule,
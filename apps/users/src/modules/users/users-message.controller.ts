@@ -127,6 +127,35 @@ export class UsersMessageController {
     }
   }
 
+  @MessagePattern(RabbitMQPatterns.USER_CREATE_OAUTH)
+  async createOAuth(
+    @Payload()
+    data: {
+      email: string;
+      firstName?: string | null;
+      lastName?: string | null;
+      provider: string;
+    },
+  ) {
+    this.logger.log(
+      `Received message: ${RabbitMQPatterns.USER_CREATE_OAUTH} for email: ${data.email} (${data.provider})`,
+    );
+
+    try {
+      const user = await this.usersService.createOAuthUser(data);
+      this.logger.debug(
+        `Successfully processed message: ${RabbitMQPatterns.USER_CREATE_OAUTH} for email: ${data.email} (will ACK)`,
+      );
+      return user;
+    } catch (error) {
+      this.logger.error(
+        `Error processing message: ${RabbitMQPatterns.USER_CREATE_OAUTH} for email: ${data.email} (will NACK)`,
+        error,
+      );
+      throw error; // Throwing error causes NestJS to NACK the message
+    }
+  }
+
   @MessagePattern(RabbitMQPatterns.USER_FIND_BY_DEVICE)
   async findByDevice(@Payload() data: { deviceId: string; devicePlatform: string }) {
     this.logger.log(
@@ -151,6 +180,27 @@ export class UsersMessageController {
     }
   }
 
+  @MessagePattern(RabbitMQPatterns.USER_FIND_BY_GUEST_ID)
+  async findByGuestId(@Payload() data: { guestId: string }) {
+    this.logger.log(
+      `Received message: ${RabbitMQPatterns.USER_FIND_BY_GUEST_ID} for guestId: ${data.guestId}`,
+    );
+
+    try {
+      const guestUser = await this.usersService.findByGuestId(data.guestId);
+      this.logger.debug(
+        `Successfully processed message: ${RabbitMQPatterns.USER_FIND_BY_GUEST_ID} for guestId: ${data.guestId} (will ACK)`,
+      );
+      return guestUser;
+    } catch (error) {
+      this.logger.error(
+        `Error processing message: ${RabbitMQPatterns.USER_FIND_BY_GUEST_ID} for guestId: ${data.guestId} (will NACK)`,
+        error,
+      );
+      throw error; // Throwing error causes NestJS to NACK the message
+    }
+  }
+
   @MessagePattern(RabbitMQPatterns.USER_CONVERT_GUEST)
   async convertGuest(
     @Payload()
@@ -158,10 +208,12 @@ export class UsersMessageController {
       guestUserId: string;
       email: string;
       username?: string | null;
-      password: string;
+      password?: string;
+      hashedPassword?: string;
       firstName?: string | null;
       lastName?: string | null;
       cityId?: string;
+      emailVerified?: boolean;
     },
   ) {
     this.logger.log(
@@ -169,14 +221,19 @@ export class UsersMessageController {
     );
 
     try {
-      const registeredUser = await this.usersService.convertGuestToUser(data.guestUserId, {
-        email: data.email,
-        username: data.username || undefined,
-        password: data.password,
-        firstName: data.firstName || undefined,
-        lastName: data.lastName || undefined,
-        cityId: data.cityId,
-      });
+      const registeredUser = await this.usersService.convertGuestToUser(
+        data.guestUserId,
+        {
+          email: data.email,
+          username: data.username || undefined,
+          password: data.password ?? '',
+          firstName: data.firstName || undefined,
+          lastName: data.lastName || undefined,
+          cityId: data.cityId,
+        },
+        data.hashedPassword,
+        data.emailVerified === true,
+      );
       this.logger.debug(
         `Successfully processed message: ${RabbitMQPatterns.USER_CONVERT_GUEST} for guestUserId: ${data.guestUserId} (will ACK)`,
       );
@@ -291,4 +348,25 @@ export class UsersMessageController {
       throw error; // Throwing error causes NestJS to NACK the message
     }
   }
+
+  @MessagePattern(RabbitMQPatterns.USER_REVERT_GUEST_CONVERSION)
+  async revertGuestConversion(@Payload() data: { userId: string }) {
+    this.logger.log(
+      `Received message: ${RabbitMQPatterns.USER_REVERT_GUEST_CONVERSION} for userId: ${data.userId}`,
+    );
+
+    try {
+      const result = await this.usersService.revertGuestConversion(data.userId);
+      this.logger.debug(
+        `Successfully processed message: ${RabbitMQPatterns.USER_REVERT_GUEST_CONVERSION} for userId: ${data.userId} (will ACK)`,
+      );
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Error processing message: ${RabbitMQPatterns.USER_REVERT_GUEST_CONVERSION} for userId: ${data.userId} (will NACK)`,
+        error,
+      );
+      throw error; // Throwing error causes NestJS to NACK the message
+    }
+  }
 }
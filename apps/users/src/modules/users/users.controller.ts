@@ -13,7 +13,9 @@ import {
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  Req,
 } from '@nestjs/common';
+import { Request } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
@@ -33,6 +35,7 @@ import {
   ChangePasswordDto,
   RegisterResponseDto,
   GetUsersResponseDto,
+  PaginationMode,
   GetUserResponseDto,
   CreateUserResponseDto,
   UpdateUserResponseDto,
@@ -112,6 +115,19 @@ export class UsersController {
     type: Number,
     description: 'Items per page (default: 10)',
   })
+  @ApiQuery({
+    name: 'pagination',
+    required: false,
+    enum: PaginationMode,
+    description:
+      'Paging mode (default: offset). Cursor mode lists the newest users first and returns nextCursor and hasMore',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description: 'Cursor from nextCursor of the previous page (implies cursor mode)',
+  })
   @ApiResponse({
     status: 200,
     description: 'List of users retrieved successfully',
@@ -127,8 +143,13 @@ export class UsersController {
     description: 'Forbidden - Admin access required',
     type: ForbiddenErrorResponseDto,
   })
-  async findAll(@Query('page') page = 1, @Query('limit') limit = 10) {
-    return this.usersService.findAll(+page, +limit);
+  async findAll(
+    @Query('page') page = 1,
+    @Query('limit') limit = 10,
+    @Query('pagination') pagination?: PaginationMode,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.usersService.findAll(+page, +limit, { pagination, cursor });
   }
 
   @Get(':id')
@@ -458,9 +479,19 @@ export class UsersController {
     status: 200,
     description: 'Password reset email sent (if account exists)',
   })
+  @ApiResponse({
+    status: 429,
+    description:
+      'Too many requests for the email or IP address (TOO_MANY_ATTEMPTS, retryAfterSeconds)',
+  })
   @HttpCode(HttpStatus.OK)
-  async requestPasswordReset(@Body() body: { email: string }, @GetLanguage() language: string) {
-    return this.usersService.requestPasswordReset(body.email, language);
+  async requestPasswordReset(
+    @Body() body: { email: string },
+    @GetLanguage() language: string,
+    @Req() req: Request,
+  ) {
+    const ipAddress = req.ip || req.headers['x-forwarded-for'] || req.socket.remoteAddress;
+    return this.usersService.requestPasswordReset(body.email, language, ipAddress as string);
   }
 
   @Post('reset-password/confirm')
@@ -3,6 +3,7 @@ import { UsersController } from './users.controller';
 import { UsersMessageController } from './users-message.controller';
 import { UsersService } from './users.service';
 import { RBACModule } from '@heidi/rbac';
+import { PrismaUsersService } from '@heidi/prisma';
 import { SagaModule } from '@heidi/saga';
 import { LoggerModule } from '@heidi/logger';
 import { StorageModule } from '@heidi/storage';
@@ -11,7 +12,7 @@ import { TermsModule } from '../terms/terms.module';
 @Module({
   imports: [
     RBACModule, // For PermissionService
-    SagaModule, // Saga orchestrator for distributed transactions
+    SagaModule.forRoot({ prismaService: PrismaUsersService }), // Saga orchestrator (sagas in own database)
     LoggerModule, // For message controller logging
     StorageModule, // For file uploads
     TermsModule, // Terms of use module
@@ -8,9 +8,11 @@ import {
 } from '@nestjs/common';
 import { firstValueFrom, timeout } from 'rxjs';
 import { PrismaUsersService } from '@heidi/prisma';
-import { PermissionService, roleToNumber } from '@heidi/rbac';
+import { PermissionService, roleToNumber, numberToRole } from '@heidi/rbac';
 import { RABBITMQ_CLIENT, RabbitMQPatterns, RmqClientWrapper } from '@heidi/rabbitmq';
 import { LoggerService } from '@heidi/logger';
+import { ConfigService } from '@heidi/config';
+import { AttemptLimiterService } from '@heidi/redis';
 import { UserRole } from '@prisma/client-core';
 import { UserType, DevicePlatform } from '@prisma/client-users';
 import * as bcrypt from 'bcrypt';
@@ -20,14 +22,24 @@ import {
   RegisterDto,
   UpdateProfileDto,
   ChangePasswordDto,
+  CursorCodec,
+  CursorPaginationQueryDto,
+  CursorSort,
+  cursorOrderBy,
+  cursorWhere,
+  isCursorMode,
 } from '@heidi/contracts';
 import { SagaOrchestratorService } from '@heidi/saga';
 import { ErrorCode } from '@heidi/errors';
 import { I18nService } from '@heidi/i18n';
 
+/** Cursor pages of users list the newest accounts first */
+const USERS_CURSOR_SORT: CursorSort = { field: 'createdAt', direction: 'desc' };
+
 @Injectable()
 export class UsersService {
   private readonly logger: LoggerService;
+  private readonly cursorCodec: CursorCodec;
 
   constructor(
     private readonly prisma: PrismaUsersService,
@@ -35,10 +47,16 @@ export class UsersService {
     @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
     private readonly sagaOrchestrator: SagaOrchestratorService,
     private readonly i18nService: I18nService,
+    private readonly configService: ConfigService,
+    private readonly attemptLimiter: AttemptLimiterService,
     logger: LoggerService,
   ) {
     this.logger = logger;
     this.logger.setContext(UsersService.name);
+    this.cursorCodec = new CursorCodec(
+      this.configService.get<string>('pagination.cursorSecret') ??
+        this.configService.get<string>('jwt.secret', ''),
+    );
   }
 
   /**
@@ -251,7 +269,11 @@ export class UsersService {
     }
   }
 
-  async findAll(page = 1, limit = 10) {
+  async findAll(page = 1, limit = 10, paging: CursorPaginationQueryDto = {}) {
+    if (isCursorMode(paging)) {
+      return this.findAllByCursor(Math.min(Math.max(limit, 1), 100), paging.cursor);
+    }
+
     const skip = (page - 1) * limit;
     const [users, total] = await Promise.all([
       this.prisma.user.findMany({
@@ -296,6 +318,38 @@ export class UsersService {
     };
   }
 
+  /**
+   * Keyset page of registered users, without counting all of them
+   */
+  private async findAllByCursor(limit: number, cursor?: string) {
+    const position = cursor ? this.cursorCodec.decode(cursor, USERS_CURSOR_SORT, {}) : null;
+    const users = await this.prisma.user.findMany({
+      where: {
+        deletedAt: null,
+        userType: UserType.REGISTERED,
+        ...cursorWhere(USERS_CURSOR_SORT, position),
+      },
+      orderBy: cursorOrderBy(USERS_CURSOR_SORT),
+      take: limit + 1,
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        firstName: true,
+        lastName: true,
+        isActive: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    return this.cursorCodec.page(users, limit, USERS_CURSOR_SORT, {}, (user) => ({
+      ...user,
+      role: roleToNumber(user.role),
+    }));
+  }
+
   /**
    * Find users by city ID
    */
@@ -494,6 +548,65 @@ export class UsersService {
     return user;
   }
 
+  /**
+   * Create a user signing in with a social login provider (for internal/RabbitMQ use).
+   * The provider verified the email address, and the account has no password.
+   */
+  async createOAuthUser(data: {
+    email: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    provider: string;
+  }) {
+    this.logger.log(`Creating user for ${data.provider} sign-in: ${data.email}`);
+
+    const existingUserByEmail = await this.prisma.user.findUnique({
+      where: { email: data.email },
+    });
+
+    if (existingUserByEmail) {
+      throw new ConflictException({ errorCode: ErrorCode.DUPLICATE_EMAIL });
+    }
+
+    const user = await this.prisma.user.create({
+      data: {
+        email: data.email,
+        password: null,
+        firstName: data.firstName || null,
+        lastName: data.lastName || null,
+        role: UserRole.CITIZEN,
+        emailVerified: true,
+      },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        role: true,
+        firstName: true,
+        lastName: true,
+        emailVerified: true,
+        isActive: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    // The email is verified already, so no verification email is sent
+    this.client.emit(RabbitMQPatterns.USER_CREATED, {
+      userId: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      cityId: null,
+      emailVerified: true,
+      provider: data.provider,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.logger.log(`User created for ${data.provider} sign-in: ${user.id}`);
+    return user;
+  }
+
   async update(id: string, dto: UpdateUserDto) {
     await this.findOne(id); // Check existence
 
@@ -820,15 +933,41 @@ export class UsersService {
     return guestUser;
   }
 
+  /**
+   * Find guest user by guest ID
+   * Used to personalize content for guests calling without a token
+   */
+  async findByGuestId(guestId: string) {
+    return this.prisma.user.findFirst({
+      where: {
+        guestId,
+        userType: UserType.GUEST,
+        deletedAt: null,
+      },
+      select: {
+        id: true,
+        guestId: true,
+        cityId: true,
+        userType: true,
+      },
+    });
+  }
+
   /**
    * Convert guest user to registered user
    * All data linked by userId automatically transfers (favorites, listings, etc.)
+   * Guests signing in with a social login provider have a verified email and no password.
    */
-  async convertGuestToUser(guestUserId: string, dto: RegisterDto) {
+  async convertGuestToUser(
+    guestUserId: string,
+    dto: RegisterDto,
+    hashedPassword?: string,
+    emailVerified = false,
+  ) {
     this.logger.log(`Converting guest user to registered: ${guestUserId}`);
 
     // Validate required fields (only email and password are required)
-    if (!dto.email || !dto.password) {
+    if (!dto.email || (!emailVerified && !dto.password && !hashedPassword)) {
       throw new ConflictException({ errorCode: ErrorCode.REGISTRATION_FIELDS_REQUIRED });
     }
 
@@ -865,8 +1004,9 @@ export class UsersService {
       }
     }
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(dto.password, 10);
+    // Hash password (callers may pass an already hashed password, e.g. from a saga)
+    const passwordHash =
+      hashedPassword ?? (dto.password ? await bcrypt.hash(dto.password, 10) : null);
 
     // Update user record (same userId, so data auto-migrates)
     const registeredUser = await this.prisma.user.update({
@@ -874,11 +1014,11 @@ export class UsersService {
       data: {
         email: dto.email,
         username: dto.username || null,
-        password: hashedPassword,
+        password: passwordHash,
         firstName: dto.firstName || null,
         lastName: dto.lastName || null,
         userType: UserType.REGISTERED,
-        emailVerified: false,
+        emailVerified,
         migratedFromGuestId: guestUser.guestId, // Store original guest ID for historical tracking
         guestId: null, // Clear guestId since user is no longer a guest
         // Keep deviceId and devicePlatform for reference, but can be cleared if needed
@@ -903,6 +1043,7 @@ export class UsersService {
       email: registeredUser.email,
       firstName: registeredUser.firstName,
       lastName: registeredUser.lastName,
+      ...(emailVerified && { emailVerified: true }),
       timestamp: new Date().toISOString(),
     });
 
@@ -947,10 +1088,13 @@ export class UsersService {
 
   /**
    * Request password reset - sends email with reset link
+   * Requests are limited per email address and IP address like failed logins
    */
-  async requestPasswordReset(email: string, language?: string) {
+  async requestPasswordReset(email: string, language?: string, ipAddress?: string) {
     this.logger.log(`Password reset requested for email: ${email}`);
 
+    await this.attemptLimiter.hit('password-reset', { account: email, ip: ipAddress });
+
     // Translate the message using i18nService
     const message =
       this.i18nService.translate('success.PASSWORD_RESET_IF_EXISTS', undefined, language) ||
@@ -1044,8 +1188,9 @@ export class UsersService {
     // Normalize role
     const normalizedRole = role.toUpperCase() as UserRole;
 
-    // Verify user exists
-    await this.findOne(userId);
+    // Verify user exists (and remember the previous role so callers can roll back)
+    const existingUser = await this.findOne(userId);
+    const previousRole = numberToRole(existingUser.role);
 
     // Update user role
     const user = await this.prisma.user.update({
@@ -1075,6 +1220,56 @@ export class UsersService {
     return {
       success: true,
       user,
+      previousRole,
     };
   }
+
+  /**
+   * Revert a guest-to-registered conversion (saga compensation for USER_CONVERT_GUEST)
+   * Restores the guest identity and clears the registration credentials.
+   */
+  async revertGuestConversion(userId: string) {
+    this.logger.log(`Reverting guest conversion for user: ${userId}`);
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // Idempotent: nothing to do if the user is (again) a guest
+    if (user.userType === UserType.GUEST) {
+      return { success: true, reverted: false };
+    }
+
+    if (!user.migratedFromGuestId) {
+      throw new ConflictException('User was not converted from a guest user');
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        email: null,
+        username: null,
+        password: null,
+        firstName: null,
+        lastName: null,
+        userType: UserType.GUEST,
+        emailVerified: false,
+        guestId: user.migratedFromGuestId,
+        migratedFromGuestId: null,
+      },
+    });
+
+    this.client.emit(RabbitMQPatterns.USER_UPDATED, {
+      userId,
+      action: 'GUEST_CONVERSION_REVERTED',
+      timestamp: new Date().toISOString(),
+    });
+
+    this.logger.log(`Guest conversion reverted for user: ${userId}`);
+    return { success: true, reverted: true };
+  }
 }
@@ -44,6 +44,57 @@ export default () => ({
   // Core microservice configuration
   core: {
     port: parseInt(process.env.CORE_PORT || '3004', 10),
+    // Archiving of imported listings that disappeared from their integration source
+    listingSync: {
+      // Hours a listing may be missing from sync runs before it is archived
+      archiveGraceHours: parseInt(process.env.CORE_LISTING_SYNC_ARCHIVE_GRACE_HOURS || '48', 10),
+      // A run is aborted when it would archive more than this share of the source's listings...
+      maxArchiveRatio: parseFloat(process.env.CORE_LISTING_SYNC_MAX_ARCHIVE_RATIO || '0.2'),
+      // ...unless no more than this many listings are affected
+      archiveSafetyMinCount: parseInt(
+        process.env.CORE_LISTING_SYNC_ARCHIVE_SAFETY_MIN_COUNT || '5',
+        10,
+      ),
+    },
+    // Moderation queue
+    moderation: {
+      // Hours a listing may wait in the queue before it is marked overdue
+      slaHours: parseInt(process.env.CORE_MODERATION_SLA_HOURS || '48', 10),
+      // Minutes after which a claim expires and the listing can be claimed by others
+      claimTtlMinutes: parseInt(process.env.CORE_MODERATION_CLAIM_TTL_MINUTES || '30', 10),
+    },
+    // Automated screening of submitted listings
+    screening: {
+      // Risk score (0-100) from which listings are rejected without human review
+      autoRejectScore: parseInt(process.env.CORE_SCREENING_AUTO_REJECT_SCORE || '80', 10),
+      // Highest risk score at which listings of trusted authors are approved automatically
+      autoApproveMaxScore: parseInt(process.env.CORE_SCREENING_AUTO_APPROVE_MAX_SCORE || '10', 10),
+      // Approved listings (and no recent rejections) that make an author trusted
+      trustedAuthorMinApproved: parseInt(
+        process.env.CORE_SCREENING_TRUSTED_AUTHOR_MIN_APPROVED || '3',
+        10,
+      ),
+      // Trigram similarity (0-1) from which titles count as near-duplicates
+      duplicateTitleSimilarity: parseFloat(
+        process.env.CORE_SCREENING_DUPLICATE_TITLE_SIMILARITY || '0.8',
+      ),
+    },
+    // Scheduled publish/expire/unfeature/archive transitions
+    lifecycle: {
+      // Hours after eventEnd before an event listing is archived
+      archiveAfterHours: parseInt(process.env.CORE_LIFECYCLE_ARCHIVE_AFTER_HOURS || '0', 10),
+    },
+    // View/like/share counters buffered in Redis
+    engagement: {
+      // Seconds in which repeated events of the same user or device count once
+      dedupWindowSeconds: parseInt(process.env.CORE_ENGAGEMENT_DEDUP_WINDOW_SECONDS || '1800', 10),
+    },
+    // Seconds public listing and tile lists are cached (0 disables caching)
+    listCacheTtlSeconds: parseInt(process.env.CORE_LIST_CACHE_TTL_SECONDS || '60', 10),
+    // Favorites calendar feeds (falls back to JWT_SECRET when no secret is set)
+    calendarFeed: {
+      secret: process.env.CORE_CALENDAR_FEED_SECRET,
+    },
     database: {
       name: process.env.CORE_DB_NAME || 'heidi_core',
       url:
@@ -61,11 +112,23 @@ export default () => ({
         process.env.NOTIFICATION_DATABASE_URL ||
         `postgresql://${process.env.POSTGRES_USER || 'heidi'}:${process.env.POSTGRES_PASSWORD || 'heidi_password'}@${process.env.POSTGRES_HOST || 'localhost'}:${process.env.POSTGRES_PORT || '5432'}/${process.env.NOTIFICATION_DB_NAME || 'heidi_notification'}`,
     },
+    listingLinkTemplate:
+      process.env.NOTIFICATION_LISTING_LINK_TEMPLATE ||
+      `${process.env.CLIENT_URL || 'http://localhost:3000'}/listings/{listingId}`,
+    accountUnlockLinkTemplate:
+      process.env.NOTIFICATION_ACCOUNT_UNLOCK_LINK_TEMPLATE ||
+      `${process.env.CLIENT_URL || 'http://localhost:3000'}/unlock-account/{token}`,
   },
 
   // Scheduler microservice configuration
   scheduler: {
     port: parseInt(process.env.SCHEDULER_PORT || '3006', 10),
+    // Minutes a dispatched run may take to report its result before it is flagged TIMED_OUT
+    runResultTimeoutMinutes: parseInt(process.env.SCHEDULER_RUN_RESULT_TIMEOUT_MINUTES || '60', 10),
+    // Consecutive failed/timed out runs after which a task is reported as failing
+    failureAlertThreshold: parseInt(process.env.SCHEDULER_FAILURE_ALERT_THRESHOLD || '3', 10),
+    // Cron expression of the built-in content lifecycle task (publish/expire/unfeature/archive)
+    contentLifecycleCron: process.env.SCHEDULER_CONTENT_LIFECYCLE_CRON || '* * * * *',
     database: {
       name: process.env.SCHEDULER_DB_NAME || 'heidi_scheduler',
       url:
@@ -83,6 +146,32 @@ export default () => ({
         process.env.INTEGRATION_DATABASE_URL ||
         `postgresql://${process.env.POSTGRES_USER || 'heidi'}:${process.env.POSTGRES_PASSWORD || 'heidi_password'}@${process.env.POSTGRES_HOST || 'localhost'}:${process.env.POSTGRES_PORT || '5432'}/${process.env.INTEGRATION_DB_NAME || 'heidi_integration'}`,
     },
+    webhooks: {
+      // Maximum clock skew accepted for signed webhook timestamps
+      toleranceSeconds: parseInt(process.env.INTEGRATION_WEBHOOK_TOLERANCE_SECONDS || '300', 10),
+      // How long delivery IDs are remembered for replay protection
+      idempotencyTtlSeconds: parseInt(
+        process.env.INTEGRATION_WEBHOOK_IDEMPOTENCY_TTL_SECONDS || '86400',
+        10,
+      ),
+    },
+    outboundWebhooks: {
+      // Attempts per delivery before it is dead-lettered (overridable per integration)
+      maxAttempts: parseInt(process.env.INTEGRATION_OUTBOUND_WEBHOOK_MAX_ATTEMPTS || '6', 10),
+      // Retry delay doubles after every failed attempt, starting here and capped at the max
+      initialBackoffSeconds: parseInt(
+        process.env.INTEGRATION_OUTBOUND_WEBHOOK_INITIAL_BACKOFF_SECONDS || '30',
+        10,
+      ),
+      maxBackoffSeconds: parseInt(
+        process.env.INTEGRATION_OUTBOUND_WEBHOOK_MAX_BACKOFF_SECONDS || '3600',
+        10,
+      ),
+      requestTimeoutMs: parseInt(
+        process.env.INTEGRATION_OUTBOUND_WEBHOOK_TIMEOUT_MS || '10000',
+        10,
+      ),
+    },
   },
 
   // Admin microservice configuration
@@ -162,6 +251,121 @@ export default () => ({
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   },
 
+  // Signing of pagination cursors (falls back to JWT_SECRET when no secret is set)
+  pagination: {
+    cursorSecret: process.env.PAGINATION_CURSOR_SECRET,
+  },
+
+  // TOTP two-factor authentication
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'HEIDI',
+    // Encrypts TOTP secrets at rest (falls back to JWT_SECRET when no key is set)
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY,
+    challengeTtlSeconds: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS || '300', 10),
+    // Roles that cannot use the API without a second factor
+    enforcedRoles: (process.env.TWO_FACTOR_ENFORCED_ROLES ?? 'SUPER_ADMIN,CITY_ADMIN')
+      .split(',')
+      .map((role) => role.trim())
+      .filter(Boolean),
+  },
+
+  // Social login (authorization code flow with PKCE). A provider is enabled when its client ID is
+  // set; the endpoint URLs can point to a mock IdP for local testing.
+  oauth: {
+    stateTtlSeconds: parseInt(process.env.OAUTH_STATE_TTL_SECONDS || '600', 10),
+    // Encrypts provider tokens in session metadata (falls back to JWT_SECRET when no key is set)
+    tokenEncryptionKey: process.env.OAUTH_TOKEN_ENCRYPTION_KEY,
+    // Callback pages of the apps the provider may redirect to
+    allowedRedirectUris: (
+      process.env.OAUTH_ALLOWED_REDIRECT_URIS ??
+      `${process.env.CLIENT_URL || 'http://localhost:3000'}/auth/callback`
+    )
+      .split(',')
+      .map((uri) => uri.trim())
+      .filter(Boolean),
+    providers: {
+      google: {
+        clientId: process.env.OAUTH_GOOGLE_CLIENT_ID,
+        clientSecret: process.env.OAUTH_GOOGLE_CLIENT_SECRET,
+        authorizationUrl:
+          process.env.OAUTH_GOOGLE_AUTHORIZATION_URL ||
+          'https://accounts.google.com/o/oauth2/v2/auth',
+        tokenUrl: process.env.OAUTH_GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+        userInfoUrl:
+          process.env.OAUTH_GOOGLE_USERINFO_URL ||
+          'https://openidconnect.googleapis.com/v1/userinfo',
+        scopes: process.env.OAUTH_GOOGLE_SCOPES || 'openid email profile',
+      },
+      github: {
+        clientId: process.env.OAUTH_GITHUB_CLIENT_ID,
+        clientSecret: process.env.OAUTH_GITHUB_CLIENT_SECRET,
+        authorizationUrl:
+          process.env.OAUTH_GITHUB_AUTHORIZATION_URL || 'https://github.com/login/oauth/authorize',
+        tokenUrl:
+          process.env.OAUTH_GITHUB_TOKEN_URL || 'https://github.com/login/oauth/access_token',
+        userInfoUrl: process.env.OAUTH_GITHUB_USERINFO_URL || 'https://api.github.com/user',
+        // Lists the addresses with their verification status
+        emailsUrl: process.env.OAUTH_GITHUB_EMAILS_URL || 'https://api.github.com/user/emails',
+        scopes: process.env.OAUTH_GITHUB_SCOPES || 'read:user user:email',
+      },
+      facebook: {
+        clientId: process.env.OAUTH_FACEBOOK_CLIENT_ID,
+        clientSecret: process.env.OAUTH_FACEBOOK_CLIENT_SECRET,
+        authorizationUrl:
+          process.env.OAUTH_FACEBOOK_AUTHORIZATION_URL ||
+          'https://www.facebook.com/v19.0/dialog/oauth',
+        tokenUrl:
+          process.env.OAUTH_FACEBOOK_TOKEN_URL ||
+          'https://graph.facebook.com/v19.0/oauth/access_token',
+        userInfoUrl:
+          process.env.OAUTH_FACEBOOK_USERINFO_URL ||
+          'https://graph.facebook.com/v19.0/me?fields=id,email,first_name,last_name',
+        scopes: process.env.OAUTH_FACEBOOK_SCOPES || 'email public_profile',
+      },
+    },
+  },
+
+  // BundID (German government eID) login via SAML 2.0; enabled when IdP URL and certificate are set
+  bundid: {
+    idpEntryPoint: process.env.BUNDID_IDP_SSO_URL,
+    idpEntityId: process.env.BUNDID_IDP_ENTITY_ID,
+    idpCert: process.env.BUNDID_IDP_CERT?.replace(/\\n/g, '\n'),
+    entityId: process.env.BUNDID_SP_ENTITY_ID || 'http://localhost:3001/bundid/metadata',
+    acsUrl: process.env.BUNDID_SP_ACS_URL || 'http://localhost:3001/bundid/acs',
+    // Signs AuthnRequests and the metadata and decrypts assertions; the certificate is published
+    // in the metadata
+    privateKey: process.env.BUNDID_SP_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    certificate: process.env.BUNDID_SP_CERT?.replace(/\\n/g, '\n'),
+    acceptedClockSkewMs: parseInt(process.env.BUNDID_CLOCK_SKEW_MS || '60000', 10),
+    stateTtlSeconds: parseInt(process.env.BUNDID_STATE_TTL_SECONDS || '600', 10),
+    // Trust level requested when the app does not ask for one (LOW, SUBSTANTIAL or HIGH)
+    defaultTrustLevel: process.env.BUNDID_DEFAULT_TRUST_LEVEL || 'LOW',
+    // Pages of the apps the login result is redirected to
+    allowedRedirectUris: (
+      process.env.BUNDID_ALLOWED_REDIRECT_URIS ??
+      `${process.env.CLIENT_URL || 'http://localhost:3000'}/auth/bundid/callback`
+    )
+      .split(',')
+      .map((uri) => uri.trim())
+      .filter(Boolean),
+  },
+
+  // Brute-force protection of login, password reset and verification resend
+  bruteForce: {
+    windowSeconds: parseInt(process.env.BRUTE_FORCE_WINDOW_SECONDS || '900', 10),
+    lockoutSeconds: parseInt(process.env.BRUTE_FORCE_LOCKOUT_SECONDS || '900', 10),
+    // Failures after which every further attempt is delayed (doubling up to the maximum)
+    delayAfter: parseInt(process.env.BRUTE_FORCE_DELAY_AFTER || '3', 10),
+    baseDelayMs: parseInt(process.env.BRUTE_FORCE_BASE_DELAY_MS || '1000', 10),
+    maxDelayMs: parseInt(process.env.BRUTE_FORCE_MAX_DELAY_MS || '30000', 10),
+    // Failures within the window that lock the account, device or IP address
+    maxFailures: {
+      account: parseInt(process.env.BRUTE_FORCE_MAX_ACCOUNT_FAILURES || '5', 10),
+      device: parseInt(process.env.BRUTE_FORCE_MAX_DEVICE_FAILURES || '10', 10),
+      ip: parseInt(process.env.BRUTE_FORCE_MAX_IP_FAILURES || '30', 10),
+    },
+  },
+
   // Terms of use configuration
   terms: {
     defaultLocale: process.env.TERMS_DEFAULT_LOCALE || 'en',
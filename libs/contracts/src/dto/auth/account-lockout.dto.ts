@@ -0,0 +1,18 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UnlockAccountDto {
+  @ApiProperty({
+    description: 'Unlock token from the account locked email',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  token: string;
+}
+
+export class UnlockAccountResultDto {
+  @ApiProperty({ example: true, description: 'Whether the account was locked' })
+  unlocked: boolean;
+}
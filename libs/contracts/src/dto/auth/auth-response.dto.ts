@@ -359,20 +359,43 @@ export class SessionDto {
   @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
   id: string;
 
-  @ApiProperty({ example: 'JWT', enum: ['JWT', 'REFRESH'] })
+  @ApiProperty({ example: 'JWT', enum: ['JWT', 'REFRESH', 'BIND_ID'] })
   tokenType: string;
 
-  @ApiProperty({ example: 'LOCAL', enum: ['LOCAL'] })
+  @ApiProperty({
+    example: 'LOCAL',
+    enum: ['LOCAL', 'OAUTH_GOOGLE', 'OAUTH_GITHUB', 'OAUTH_FACEBOOK', 'BIND_ID'],
+  })
   provider: string;
 
+  @ApiProperty({
+    example: null,
+    enum: ['LOW', 'SUBSTANTIAL', 'HIGH'],
+    nullable: true,
+    description: 'Trust level of a BundID login',
+  })
+  trustLevel: string | null;
+
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000', nullable: true })
+  deviceId: string | null;
+
+  @ApiProperty({ example: 'IOS', enum: ['IOS', 'ANDROID'], nullable: true })
+  devicePlatform: string | null;
+
   @ApiProperty({ example: '2024-01-02T00:00:00.000Z' })
   expiresAt: string;
 
-  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  @ApiProperty({
+    example: '2024-01-01T00:00:00.000Z',
+    description: 'Time of the last token refresh of the session',
+  })
   createdAt: string;
 
   @ApiProperty({ example: null, nullable: true })
   metadata: any;
+
+  @ApiProperty({ example: true, description: 'Whether this is the session of the access token' })
+  current: boolean;
 }
 
 export class GetSessionsResponseDto {
@@ -0,0 +1,107 @@
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsOptional,
+  IsBoolean,
+  IsEnum,
+  IsUrl,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TrustLevel } from '@prisma/client-auth';
+import { DevicePlatform } from './guest-login.dto';
+
+export class BundIdAuthorizeDto {
+  @ApiProperty({
+    description:
+      'Page of the app the login result is redirected to (with code or error, and state); must be one of BUNDID_ALLOWED_REDIRECT_URIS',
+    example: 'http://localhost:3000/auth/bundid/callback',
+  })
+  @IsUrl({ require_tld: false, require_protocol: true })
+  @MaxLength(500)
+  redirectUri: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Minimum trust level to request: LOW (BundID account), SUBSTANTIAL (ELSTER certificate) or HIGH (eID card). Defaults to BUNDID_DEFAULT_TRUST_LEVEL',
+    enum: TrustLevel,
+    example: TrustLevel.SUBSTANTIAL,
+  })
+  @IsOptional()
+  @IsEnum(TrustLevel)
+  trustLevel?: TrustLevel;
+
+  @ApiPropertyOptional({
+    description: 'Remember me - if true, session will be kept for 30 days instead of 7 days',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  rememberMe?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Device identifier (iOS IDFV or Android ID) shown in the session list; web clients omit it',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Device platform of the session',
+    enum: DevicePlatform,
+    example: DevicePlatform.IOS,
+  })
+  @IsOptional()
+  @IsEnum(DevicePlatform)
+  devicePlatform?: DevicePlatform;
+}
+
+export class BundIdAuthorizationDto {
+  @ApiProperty({
+    description: 'BundID page to open in the browser, carrying the signed AuthnRequest',
+    example:
+      'https://id.bund.de/idp/profile/SAML2/Redirect/SSO?SAMLRequest=...&RelayState=...&SigAlg=...&Signature=...',
+  })
+  authorizationUrl: string;
+
+  @ApiProperty({
+    description: 'Opaque state passed back to the redirect URI with the login result',
+    example: 'Jq1v0dVZxkZ0bRfQfG3m6w8yKpTn2sHc',
+  })
+  state: string;
+
+  @ApiProperty({ example: 600, description: 'Seconds until the login has to be completed' })
+  expiresIn: number;
+}
+
+/**
+ * SAML response BundID posts to the assertion consumer service (HTTP-POST binding)
+ */
+export class BundIdAssertionDto {
+  @ApiProperty({ description: 'Base64 encoded SAML response' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500000)
+  SAMLResponse: string;
+
+  @ApiPropertyOptional({ description: 'State of the login the response belongs to' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(128)
+  RelayState?: string;
+}
+
+export class BundIdLoginDto {
+  @ApiProperty({
+    description: 'One-time code passed to the redirect URI after a successful BundID login',
+    example: 'w8yKpTn2sHcJq1v0dVZxkZ0bRfQfG3m6',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  code: string;
+}
@@ -7,3 +7,7 @@ export * from './guest-login.dto';
 export * from './guest-login-response.dto';
 export * from './convert-guest.dto';
 export * from './convert-guest-response.dto';
+export * from './two-factor.dto';
+export * from './account-lockout.dto';
+export * from './oauth.dto';
+export * from './bundid.dto';
@@ -101,6 +101,13 @@ export class LoginResponseDataDto {
     description: 'Grace period end date (if within grace period)',
   })
   gracePeriodEndsAt?: string | null;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Whether the role requires 2FA that is not set up yet; until then only the /2fa endpoints are allowed',
+  })
+  twoFactorSetupRequired?: boolean;
 }
 
 export class LoginResponseDto {
@@ -1,5 +1,14 @@
-import { IsString, MinLength, IsOptional, IsBoolean, IsEmail } from 'class-validator';
+import {
+  IsString,
+  MinLength,
+  MaxLength,
+  IsOptional,
+  IsBoolean,
+  IsEmail,
+  IsEnum,
+} from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DevicePlatform } from './guest-login.dto';
 
 export class LoginDto {
   @ApiProperty({
@@ -28,4 +37,23 @@ export class LoginDto {
   @IsOptional()
   @IsBoolean()
   rememberMe?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Device identifier (iOS IDFV or Android ID) shown in the session list; web clients omit it',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Device platform of the session',
+    enum: DevicePlatform,
+    example: DevicePlatform.IOS,
+  })
+  @IsOptional()
+  @IsEnum(DevicePlatform)
+  devicePlatform?: DevicePlatform;
 }
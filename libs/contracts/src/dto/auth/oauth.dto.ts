@@ -0,0 +1,104 @@
+import {
+  IsString,
+  IsNotEmpty,
+  MaxLength,
+  IsOptional,
+  IsBoolean,
+  IsEnum,
+  IsUrl,
+  IsUUID,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DevicePlatform } from './guest-login.dto';
+
+export enum OAuthProvider {
+  GOOGLE = 'google',
+  GITHUB = 'github',
+  FACEBOOK = 'facebook',
+}
+
+export class OAuthAuthorizeDto {
+  @ApiProperty({
+    description:
+      'Callback page of the app the provider redirects to with code and state; must be one of OAUTH_ALLOWED_REDIRECT_URIS',
+    example: 'http://localhost:3000/auth/callback',
+  })
+  @IsUrl({ require_tld: false, require_protocol: true })
+  @MaxLength(500)
+  redirectUri: string;
+
+  @ApiPropertyOptional({
+    description: 'Remember me - if true, session will be kept for 30 days instead of 7 days',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  rememberMe?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Device identifier (iOS IDFV or Android ID) shown in the session list; web clients omit it',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Device platform of the session',
+    enum: DevicePlatform,
+    example: DevicePlatform.IOS,
+  })
+  @IsOptional()
+  @IsEnum(DevicePlatform)
+  devicePlatform?: DevicePlatform;
+
+  @ApiPropertyOptional({
+    description:
+      'Guest user to convert into a registered user with the provider account (like POST /guest/register)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID()
+  guestUserId?: string;
+}
+
+export class OAuthAuthorizationDto {
+  @ApiProperty({
+    description: 'Provider page to open in the browser',
+    example:
+      'https://accounts.google.com/o/oauth2/v2/auth?response_type=code&client_id=...&code_challenge=...&code_challenge_method=S256&state=...',
+  })
+  authorizationUrl: string;
+
+  @ApiProperty({
+    description: 'Opaque state the provider returns to the redirect URI',
+    example: 'Jq1v0dVZxkZ0bRfQfG3m6w8yKpTn2sHc',
+  })
+  state: string;
+
+  @ApiProperty({ example: 600, description: 'Seconds until the sign-in has to be completed' })
+  expiresIn: number;
+}
+
+export class OAuthCallbackDto {
+  @ApiProperty({
+    description: 'Authorization code the provider passed to the redirect URI',
+    example: '4/0AX4XfWh...',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2048)
+  code: string;
+
+  @ApiProperty({
+    description: 'State the provider passed to the redirect URI',
+    example: 'Jq1v0dVZxkZ0bRfQfG3m6w8yKpTn2sHc',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  state: string;
+}
@@ -0,0 +1,83 @@
+import { IsString, IsNotEmpty, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: '6-digit code of the authenticator app or an unused recovery code',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
+
+export class VerifyTwoFactorLoginDto extends TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Challenge token returned by POST /login for accounts with 2FA',
+    example: 'b2f1c4e0a9d84c6f8e7a1d3c5b9f0e2a4c6d8e0f1a3b5c7d',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  challengeToken: string;
+}
+
+export class DisableTwoFactorDto extends TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Current password of the account',
+    example: 'password123',
+    format: 'password',
+  })
+  @IsString()
+  @MinLength(6)
+  password: string;
+}
+
+export class TwoFactorSetupDto {
+  @ApiProperty({ example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP', description: 'Base32 TOTP secret' })
+  secret: string;
+
+  @ApiProperty({
+    example:
+      'otpauth://totp/HEIDI:admin%40example.com?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=HEIDI&algorithm=SHA1&digits=6&period=30',
+    description: 'URI to render as QR code for authenticator apps',
+  })
+  otpauthUri: string;
+}
+
+export class TwoFactorRecoveryCodesDto {
+  @ApiProperty({
+    example: ['k7m2-q9xd', 'p4wz-8hct'],
+    description: 'One-time recovery codes; they are shown only once',
+  })
+  recoveryCodes: string[];
+}
+
+export class TwoFactorStatusDto {
+  @ApiProperty({ example: true })
+  enabled: boolean;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z', nullable: true })
+  enabledAt: string | null;
+
+  @ApiProperty({ example: 8, description: 'Unused recovery codes' })
+  recoveryCodesRemaining: number;
+
+  @ApiProperty({ example: true, description: 'Whether the role of the user requires 2FA' })
+  required: boolean;
+}
+
+export class TwoFactorChallengeDto {
+  @ApiProperty({ example: true })
+  twoFactorRequired: boolean;
+
+  @ApiProperty({
+    example: 'b2f1c4e0a9d84c6f8e7a1d3c5b9f0e2a4c6d8e0f1a3b5c7d',
+    description: 'Pass to POST /login/2fa together with the code',
+  })
+  challengeToken: string;
+
+  @ApiProperty({ example: 300, description: 'Seconds until the challenge expires' })
+  expiresIn: number;
+}
@@ -2,3 +2,4 @@ export * from './city-response.dto';
 export * from './city-error-response.dto';
 export * from './create-city.dto';
 export * from './update-city.dto';
+export * from './nearby-cities.dto';
@@ -0,0 +1,146 @@
+import { IsBoolean, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { CityDto } from './city-response.dto';
+
+const transformBooleanParam = ({ value }: { value: unknown }) =>
+  value === undefined || value === '' ? undefined : value === true || value === 'true';
+
+export class NearbyCitiesQueryDto {
+  @ApiProperty({
+    description: 'Latitude coordinate (decimal degrees)',
+    example: 54.3233,
+    minimum: -90,
+    maximum: 90,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({
+    description: 'Longitude coordinate (decimal degrees)',
+    example: 10.1394,
+    minimum: -180,
+    maximum: 180,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+
+  @ApiPropertyOptional({
+    description: 'Search radius in kilometers',
+    example: 50,
+    default: 50,
+    minimum: 0.1,
+    maximum: 1000,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(1000)
+  radius?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only return top-level cities (cities without a parent city)',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @Transform(transformBooleanParam)
+  @IsBoolean()
+  topLevelOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Embed the active child cities of every returned city',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @Transform(transformBooleanParam)
+  @IsBoolean()
+  includeChildren?: boolean;
+
+  @ApiPropertyOptional({ description: 'Page number (1-indexed)', example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of cities per page',
+    example: 20,
+    default: 20,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  pageSize?: number;
+}
+
+export class NearbyCityDto extends CityDto {
+  @ApiProperty({
+    description: 'Distance from the requested coordinates in kilometers',
+    example: 3.2,
+  })
+  distanceKm: number;
+
+  @ApiPropertyOptional({
+    description: 'Active child cities (only with includeChildren)',
+    type: () => [NearbyCityDto],
+  })
+  childCities?: NearbyCityDto[];
+}
+
+export class NearbyCitiesPaginationMetaDto {
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 20 })
+  pageSize: number;
+
+  @ApiProperty({ example: 42, description: 'Total number of cities within the radius' })
+  total: number;
+
+  @ApiProperty({ example: 3 })
+  totalPages: number;
+}
+
+export class NearbyCityListResponseDataDto {
+  @ApiProperty({
+    description: 'Cities within the radius, nearest first',
+    type: [NearbyCityDto],
+  })
+  items: NearbyCityDto[];
+
+  @ApiProperty({ type: NearbyCitiesPaginationMetaDto })
+  meta: NearbyCitiesPaginationMetaDto;
+}
+
+export class ListNearbyCitiesResponseDto {
+  @ApiProperty({ example: true })
+  success: boolean;
+
+  @ApiProperty({ type: NearbyCityListResponseDataDto })
+  data: NearbyCityListResponseDataDto;
+
+  @ApiProperty({ example: 'Cities retrieved successfully', description: 'Success message' })
+  message: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00.000Z' })
+  timestamp: string;
+
+  @ApiProperty({ example: '/search/nearby' })
+  path: string;
+
+  @ApiProperty({ example: 200 })
+  statusCode: number;
+}
@@ -4,8 +4,10 @@ export * from './core';
 export * from './listings';
 export * from './notification';
 export * from './saga';
+export * from './scheduler';
 export * from './terms';
 export * from './tiles';
 export * from './users';
 export * from './verification';
 export * from './integrations';
+export * from './pagination';
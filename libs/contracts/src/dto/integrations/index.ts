@@ -5,3 +5,5 @@ export * from './get-integration-by-id-response.dto';
 export * from './sync-integration-response.dto';
 export * from './parking-space.dto';
 export * from './newsletter-subscription-response.dto';
+export * from './outbound-webhook.dto';
+export * from './listing-import.dto';
@@ -0,0 +1,116 @@
+import { ListingRecurrenceFreq } from '@prisma/client-core';
+
+/**
+ * Listing payload sent by integration importers with INTEGRATION_SYNC_LISTING
+ * and consumed by CoreService.syncListingFromIntegration.
+ */
+export interface IntegrationListingData {
+  title: string;
+  summary?: string;
+  content: string;
+  slug: string;
+  externalSource: string;
+  externalId: string;
+  syncHash: string;
+  sourceType: 'API_IMPORT';
+  primaryCityId: string;
+  venueName?: string;
+  address?: string;
+  geoLat?: number;
+  geoLng?: number;
+  timezone?: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  website?: string;
+  heroImageUrl?: string;
+  sourceUrl?: string;
+  languageCode?: string;
+  eventStart?: string;
+  eventEnd?: string;
+  isAllDay?: boolean;
+  categorySlugs: string[];
+  timeIntervals?: Array<{
+    weekdays: string[];
+    start: string;
+    end: string;
+    tz: string;
+    freq: ListingRecurrenceFreq;
+    interval: number;
+    repeatUntil?: string;
+  }>;
+}
+
+/**
+ * Sent with INTEGRATION_RECONCILE_LISTINGS after a complete sync run. Core
+ * archives listings of the source and city that were not among the seen IDs
+ * once their grace period has passed.
+ */
+export interface ListingReconcileRequest {
+  runId: string;
+  integrationId: string;
+  externalSource: string;
+  cityId: string;
+  seenExternalIds: string[];
+}
+
+export type ListingReconcileStatus = 'COMPLETED' | 'ABORTED' | 'SKIPPED';
+
+export interface ListingReconcileResult {
+  runId: string;
+  status: ListingReconcileStatus;
+  /** Active listings of the source that were not seen in the run */
+  unseen: number;
+  /** Unseen listings still inside the grace period */
+  withinGracePeriod: number;
+  archived: number;
+  reason?: string;
+}
+
+export type ListingImporterType = 'ical' | 'rss' | 'jsonld';
+
+/**
+ * Listing fields an importer record can be mapped onto.
+ */
+export type ListingImportField =
+  | 'title'
+  | 'summary'
+  | 'content'
+  | 'venueName'
+  | 'address'
+  | 'geoLat'
+  | 'geoLng'
+  | 'timezone'
+  | 'contactPhone'
+  | 'contactEmail'
+  | 'website'
+  | 'heroImageUrl'
+  | 'sourceUrl'
+  | 'languageCode'
+  | 'eventStart'
+  | 'eventEnd'
+  | 'isAllDay'
+  | 'categories'
+  | 'timeIntervals';
+
+/**
+ * Listing field -> dot path into the importer's record, e.g. `{ "venueName": "source.X-VENUE" }`.
+ * An empty string unmaps a field the importer would otherwise fill.
+ */
+export type ListingFieldMapping = Partial<Record<ListingImportField, string>>;
+
+/**
+ * Configuration interface for LISTING_IMPORT integrations (stored in Integration.config)
+ */
+export interface ListingImporterConfig {
+  importer: ListingImporterType;
+  urls: string[]; // Feed URLs (ical, rss) or event pages (jsonld)
+  cityId: string;
+  externalSource?: string; // Defaults to "<importer>:<integrationId>"
+  fieldMapping?: ListingFieldMapping;
+  categorySlugs?: string[]; // Added to every imported listing
+  categoryMapping?: Record<string, string>; // Source category -> category slug
+  timezone?: string; // Fallback for floating times, defaults to Europe/Berlin
+  languageCode?: string;
+  headers?: Record<string, string>;
+  enabled?: boolean;
+}
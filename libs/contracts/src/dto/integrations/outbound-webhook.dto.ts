@@ -0,0 +1,134 @@
+import { IsOptional, IsString, IsNumber, IsEnum, IsUUID, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Subscription settings stored in Integration.config for WEBHOOK integrations.
+ * Deliveries are POSTed to Integration.webhookUrl and signed with
+ * credentials.webhookSecret.
+ */
+export interface OutboundWebhookConfig {
+  events: string[]; // Event patterns, e.g. ["listing.approved", "city.updated"]; "*" for all
+  cityIds?: string[]; // Only deliver events concerning these cities; empty/omitted for all
+  maxAttempts?: number;
+  enabled?: boolean;
+}
+
+/**
+ * Body of every outbound webhook POST.
+ */
+export interface OutboundWebhookEnvelope<T = any> {
+  id: string; // Delivery ID, also sent as X-Webhook-Id
+  event: string;
+  cityIds: string[];
+  occurredAt: string;
+  data: T;
+}
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
+export class WebhookDeliveryListQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by delivery status', enum: WebhookDeliveryStatus })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by integration ID', format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  integrationId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by event pattern', example: 'listing.approved' })
+  @IsOptional()
+  @IsString()
+  event?: string;
+
+  @ApiPropertyOptional({ description: 'Page number for pagination', example: 1, minimum: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Page size for pagination',
+    example: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  pageSize?: number;
+}
+
+export class WebhookDeliveryDto {
+  @ApiProperty({ example: '8b6f2c1e-5d4a-4e3b-9c2d-1a0b9c8d7e6f' })
+  id: string;
+
+  @ApiProperty({ example: 'e2a8e3f4-1b2c-4d5e-8f9a-0b1c2d3e4f5a' })
+  integrationId: string;
+
+  @ApiProperty({ example: 'listing.approved' })
+  event: string;
+
+  @ApiProperty({ description: 'Envelope sent to the receiver' })
+  payload: Record<string, any>;
+
+  @ApiProperty({ enum: WebhookDeliveryStatus, example: WebhookDeliveryStatus.DEAD_LETTER })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ example: 6 })
+  attempts: number;
+
+  @ApiProperty({ example: 6 })
+  maxAttempts: number;
+
+  @ApiPropertyOptional({ example: '2025-01-15T10:50:00.000Z', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @ApiPropertyOptional({ example: 503, nullable: true })
+  lastStatusCode: number | null;
+
+  @ApiPropertyOptional({ example: 'Request failed with status code 503', nullable: true })
+  lastError: string | null;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  deliveredAt: Date | null;
+
+  @ApiProperty({ example: '2025-01-15T10:45:12.345Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-01-15T11:17:12.345Z' })
+  updatedAt: Date;
+}
+
+export class WebhookDeliveryPaginationMetaDto {
+  @ApiProperty({ example: 1, description: 'Current page number (1-indexed)' })
+  page: number;
+
+  @ApiProperty({ example: 20, description: 'Number of items returned per page' })
+  pageSize: number;
+
+  @ApiProperty({ example: 3, description: 'Total number of deliveries matching the filters' })
+  total: number;
+
+  @ApiProperty({ example: 1, description: 'Total number of available pages' })
+  totalPages: number;
+}
+
+export class WebhookDeliveryListResponseDto {
+  @ApiProperty({ type: [WebhookDeliveryDto] })
+  @Type(() => WebhookDeliveryDto)
+  items: WebhookDeliveryDto[];
+
+  @ApiProperty({ type: WebhookDeliveryPaginationMetaDto })
+  @Type(() => WebhookDeliveryPaginationMetaDto)
+  meta: WebhookDeliveryPaginationMetaDto;
+}
@@ -3,9 +3,17 @@ export * from './listing-update.dto';
 export * from './listing-filter.dto';
 export * from './listing-moderation.dto';
 export * from './listing-moderation-action.dto';
+export * from './listing-moderation-queue.dto';
+export * from './listing-screening.dto';
 export * from './listing-response.dto';
 export * from './listing-list-response.dto';
+export * from './listing-search.dto';
+export * from './listing-feed.dto';
+export * from './listing-engagement.dto';
+export * from './listing-occurrence.dto';
 export * from './listing-favorite.dto';
+export * from './listing-calendar.dto';
+export * from './listing-revision.dto';
 export * from './category-response.dto';
 export * from './create-category.dto';
 export * from './update-category.dto';
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class CalendarFeedQueryDto {
+  @ApiProperty({
+    example: '0f3c9a52-1d4e-4b7a-9c61-2f8e5d7b3a10.q6kM0Hn3sJ2vXy8T1bLw5p9ZcR4fGdA7uE0iYhKxNmQ',
+    description: 'Feed token issued by POST /favorites/calendar-feed',
+  })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
+
+export class CalendarFeedDto {
+  @ApiProperty({
+    example:
+      'https://api.heidi.example/api/core/favorites/calendar.ics?token=0f3c9a52-1d4e-4b7a-9c61-2f8e5d7b3a10.q6kM0Hn3sJ2vXy8T1bLw5p9ZcR4fGdA7uE0iYhKxNmQ',
+    description: 'Subscription URL for calendar apps',
+  })
+  url: string;
+
+  @ApiProperty({
+    example: '0f3c9a52-1d4e-4b7a-9c61-2f8e5d7b3a10.q6kM0Hn3sJ2vXy8T1bLw5p9ZcR4fGdA7uE0iYhKxNmQ',
+    description: 'Feed token; issuing a new one revokes the previous token',
+  })
+  token: string;
+
+  @ApiProperty({ example: '2025-01-20T09:00:00.000Z' })
+  createdAt: string;
+}
+
+export class RevokeCalendarFeedResponseDto {
+  @ApiProperty({ example: true, description: 'Whether a feed token was revoked' })
+  revoked: boolean;
+}
@@ -0,0 +1,197 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export enum EngagementType {
+  VIEW = 'view',
+  LIKE = 'like',
+  SHARE = 'share',
+}
+
+export enum EngagementMetric {
+  VIEWS = 'views',
+  LIKES = 'likes',
+  SHARES = 'shares',
+  FAVORITES_ADDED = 'favoritesAdded',
+  FAVORITES_REMOVED = 'favoritesRemoved',
+}
+
+export class EngagementEventDto {
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  @IsString()
+  listingId: string;
+
+  @ApiProperty({ enum: EngagementType, example: EngagementType.VIEW })
+  @IsEnum(EngagementType)
+  type: EngagementType;
+}
+
+export class RecordEngagementDto {
+  @ApiProperty({ type: [EngagementEventDto], maxItems: 50 })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => EngagementEventDto)
+  events: EngagementEventDto[];
+
+  @ApiPropertyOptional({
+    example: 'device-123',
+    description: 'Device identifier for callers without a token',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  deviceId?: string;
+
+  @ApiPropertyOptional({
+    example: 'guest_device-123_1737363600000',
+    description: 'Guest identifier for callers without a token',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  guestId?: string;
+}
+
+export class RecordEngagementResultDto {
+  @ApiProperty({ example: 2, description: 'Events counted' })
+  accepted: number;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Events already counted for the caller within the dedup window',
+  })
+  duplicates: number;
+
+  @ApiProperty({ example: 0, description: 'Events of unknown or unpublished listings' })
+  ignored: number;
+}
+
+export class EngagementAnalyticsQueryDto {
+  @ApiPropertyOptional({
+    example: '2025-01-01',
+    description: 'First day (UTC) of the period (defaults to 29 days before to)',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-01-30',
+    description: 'Last day (UTC) of the period (defaults to today)',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class CityEngagementAnalyticsQueryDto extends EngagementAnalyticsQueryDto {
+  @ApiPropertyOptional({
+    enum: EngagementMetric,
+    default: EngagementMetric.VIEWS,
+    description: 'Metric the top listings are ranked by',
+  })
+  @IsOptional()
+  @IsEnum(EngagementMetric)
+  metric?: EngagementMetric;
+
+  @ApiPropertyOptional({ example: 10, default: 10, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+export class EngagementMetricsDto {
+  @ApiProperty({ example: 1520 })
+  views: number;
+
+  @ApiProperty({ example: 84 })
+  likes: number;
+
+  @ApiProperty({ example: 12 })
+  shares: number;
+
+  @ApiProperty({ example: 40 })
+  favoritesAdded: number;
+
+  @ApiProperty({ example: 6 })
+  favoritesRemoved: number;
+}
+
+export class EngagementDayDto extends EngagementMetricsDto {
+  @ApiProperty({ example: '2025-01-15' })
+  date: string;
+}
+
+export class ListingEngagementAnalyticsDto {
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  listingId: string;
+
+  @ApiProperty({ example: 'Community Cleanup Day' })
+  title: string;
+
+  @ApiProperty({ example: '2025-01-01' })
+  from: string;
+
+  @ApiProperty({ example: '2025-01-30' })
+  to: string;
+
+  @ApiProperty({ type: EngagementMetricsDto })
+  @Type(() => EngagementMetricsDto)
+  totals: EngagementMetricsDto;
+
+  @ApiProperty({ type: [EngagementDayDto], description: 'One entry per day, oldest first' })
+  @Type(() => EngagementDayDto)
+  series: EngagementDayDto[];
+}
+
+export class TopListingEngagementDto extends EngagementMetricsDto {
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  listingId: string;
+
+  @ApiProperty({ example: 'community-cleanup-day' })
+  slug: string;
+
+  @ApiProperty({ example: 'Community Cleanup Day' })
+  title: string;
+}
+
+export class CityEngagementAnalyticsDto {
+  @ApiProperty({ example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59' })
+  cityId: string;
+
+  @ApiProperty({ example: '2025-01-01' })
+  from: string;
+
+  @ApiProperty({ example: '2025-01-30' })
+  to: string;
+
+  @ApiProperty({ type: EngagementMetricsDto })
+  @Type(() => EngagementMetricsDto)
+  totals: EngagementMetricsDto;
+
+  @ApiProperty({ type: [EngagementDayDto], description: 'One entry per day, oldest first' })
+  @Type(() => EngagementDayDto)
+  series: EngagementDayDto[];
+
+  @ApiProperty({ type: [TopListingEngagementDto], description: 'Best performing listings first' })
+  @Type(() => TopListingEngagementDto)
+  topListings: TopListingEngagementDto[];
+}
@@ -0,0 +1,118 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ListingResponseDto } from './listing-response.dto';
+
+const COORDINATE = '-?\\d+(\\.\\d+)?';
+
+export enum ListingFeedReason {
+  CATEGORY_AFFINITY = 'category-affinity',
+  NEARBY = 'nearby',
+  RECENT = 'recent',
+  UPCOMING = 'upcoming',
+  FEATURED = 'featured',
+}
+
+export class ListingFeedQueryDto {
+  @ApiPropertyOptional({
+    example: 'guest_device-123_1737363600000',
+    description: 'Guest identifier for callers without a token',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  guestId?: string;
+
+  @ApiPropertyOptional({
+    example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59',
+    description: 'Only listings of this city',
+  })
+  @IsOptional()
+  @IsString()
+  cityId?: string;
+
+  @ApiPropertyOptional({
+    example: '49.4521,11.0767',
+    description: 'Current position ("lat,lng"); nearby listings rank higher',
+  })
+  @IsOptional()
+  @Matches(new RegExp(`^${COORDINATE},${COORDINATE}$`), { message: 'near must be "lat,lng"' })
+  near?: string;
+
+  @ApiPropertyOptional({
+    example: 'eyJzIjowLjgxLCJpZCI6Imxz...',
+    description: 'Cursor from the previous page (nextCursor)',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+export class ListingFeedItemDto extends ListingResponseDto {
+  @ApiProperty({ example: 0.82, description: 'Personal ranking score' })
+  feedScore: number;
+
+  @ApiProperty({
+    enum: ListingFeedReason,
+    isArray: true,
+    example: [ListingFeedReason.CATEGORY_AFFINITY, ListingFeedReason.NEARBY],
+    description: 'Main reasons the listing was ranked for the caller',
+  })
+  feedReasons: ListingFeedReason[];
+}
+
+export class ListingFeedResponseDto {
+  @ApiProperty({ type: [ListingFeedItemDto], description: 'Listings, best match first' })
+  @Type(() => ListingFeedItemDto)
+  items: ListingFeedItemDto[];
+
+  @ApiPropertyOptional({
+    example: 'eyJzIjowLjQyLCJpZCI6Imxz...',
+    description: 'Cursor for the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+
+  @ApiProperty({ example: true })
+  hasMore: boolean;
+}
+
+export class MarkListingsSeenDto {
+  @ApiProperty({
+    example: ['lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4', 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW5'],
+    maxItems: 100,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  listingIds: string[];
+
+  @ApiPropertyOptional({
+    example: 'guest_device-123_1737363600000',
+    description: 'Guest identifier for callers without a token',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  guestId?: string;
+}
@@ -8,6 +8,9 @@ import {
   IsNumber,
   IsOptional,
   IsString,
+  Matches,
+  Max,
+  Min,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import {
@@ -16,6 +19,7 @@ import {
   ListingStatus,
   ListingVisibility,
 } from '@prisma/client-core';
+import { CursorPaginationQueryDto } from '../pagination/cursor-pagination.dto';
 
 const transformArrayParam = (value: unknown) => {
   if (value === undefined || value === null || value === '') {
@@ -30,6 +34,8 @@ const transformArrayParam = (value: unknown) => {
     .filter(Boolean);
 };
 
+const COORDINATE = '-?\\d+(\\.\\d+)?';
+
 const transformBooleanParam = (value: unknown) => {
   if (value === undefined || value === null || value === '') {
     return undefined;
@@ -43,10 +49,11 @@ const transformBooleanParam = (value: unknown) => {
   return Boolean(value);
 };
 
-export class ListingFilterDto {
+export class ListingFilterDto extends CursorPaginationQueryDto {
   @ApiPropertyOptional({
     example: 'cleanup',
-    description: 'Search term to filter listings by title, summary, or content',
+    description:
+      'Full-text search over title, summary, content, venue and organizer. Results are ranked by relevance unless sortBy is given and include highlights and facet counts',
   })
   @IsOptional()
   @IsString()
@@ -162,9 +169,57 @@ export class ListingFilterDto {
   @IsDateString()
   upcomingBefore?: string;
 
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Only listings that are open or taking place right now',
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => transformBooleanParam(value))
+  openNow?: boolean;
+
+  @ApiPropertyOptional({
+    example: '2025-06-14T15:00:00.000Z',
+    description: 'Only listings that are open or taking place at this time',
+  })
+  @IsOptional()
+  @IsDateString()
+  openAt?: string;
+
+  @ApiPropertyOptional({
+    example: '49.4521,11.0767',
+    description: 'Only listings within radiusKm of this point ("lat,lng")',
+  })
+  @IsOptional()
+  @Matches(new RegExp(`^${COORDINATE},${COORDINATE}$`), { message: 'near must be "lat,lng"' })
+  near?: string;
+
+  @ApiPropertyOptional({
+    example: 5,
+    description: 'Radius in kilometers around `near`',
+    default: 10,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(500)
+  @Type(() => Number)
+  radiusKm?: number;
+
+  @ApiPropertyOptional({
+    example: '10.95,49.40,11.20,49.50',
+    description: 'Only listings inside this bounding box ("minLng,minLat,maxLng,maxLat")',
+  })
+  @IsOptional()
+  @Matches(new RegExp(`^${COORDINATE}(,${COORDINATE}){3}$`), {
+    message: 'bbox must be "minLng,minLat,maxLng,maxLat"',
+  })
+  bbox?: string;
+
   @ApiPropertyOptional({
     example: 'createdAt',
-    description: 'Field to sort by (e.g., createdAt, title, publishAt)',
+    description:
+      'Field to sort by (e.g., createdAt, publishAt, eventStart, relevance when searching, or distance with near)',
   })
   @IsOptional()
   @IsString()
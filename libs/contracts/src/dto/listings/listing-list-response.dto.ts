@@ -1,6 +1,7 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import { ListingResponseDto } from './listing-response.dto';
+import { ListingSearchFacetsDto } from './listing-search.dto';
 
 export class ListingsPaginationMetaDto {
   @ApiProperty({ example: 1, description: 'Current page number (1-indexed)' })
@@ -14,6 +15,13 @@ export class ListingsPaginationMetaDto {
 
   @ApiProperty({ example: 6, description: 'Total number of available pages' })
   totalPages: number;
+
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Search and geo queries only: true if the candidate limit (1000 text matches, 5000 listings by distance) was reached, so total, totalPages and facets are lower bounds',
+  })
+  totalCapped?: boolean;
 }
 
 export class ListListingsResponseDto {
@@ -27,4 +35,12 @@ export class ListListingsResponseDto {
   @ApiProperty({ type: ListingsPaginationMetaDto })
   @Type(() => ListingsPaginationMetaDto)
   meta: ListingsPaginationMetaDto;
+
+  @ApiPropertyOptional({
+    type: ListingSearchFacetsDto,
+    description:
+      'Facet counts over all matching listings (only when searching, see meta.totalCapped)',
+  })
+  @Type(() => ListingSearchFacetsDto)
+  facets?: ListingSearchFacetsDto;
 }
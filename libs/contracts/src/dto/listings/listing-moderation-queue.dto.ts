@@ -0,0 +1,267 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ListingModerationStatus, ListingStatus } from '@prisma/client-core';
+import { ListingsPaginationMetaDto } from './listing-list-response.dto';
+import { ScreeningFindingDto } from './listing-screening.dto';
+
+const transformBooleanParam = ({ value }: { value: unknown }) =>
+  value === undefined || value === '' ? undefined : value === true || value === 'true';
+
+export enum ModerationQueueClaimFilter {
+  ALL = 'all',
+  MINE = 'mine',
+  UNCLAIMED = 'unclaimed',
+}
+
+export enum BulkModerationAction {
+  APPROVE = 'approve',
+  REJECT = 'reject',
+  REQUEST_CHANGES = 'request-changes',
+}
+
+export class ModerationQueueQueryDto {
+  @ApiPropertyOptional({
+    example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59',
+    description: 'Only listings of this city (must be managed by the moderator)',
+  })
+  @IsOptional()
+  @IsString()
+  cityId?: string;
+
+  @ApiPropertyOptional({
+    enum: ModerationQueueClaimFilter,
+    default: ModerationQueueClaimFilter.ALL,
+  })
+  @IsOptional()
+  @IsEnum(ModerationQueueClaimFilter)
+  claim?: ModerationQueueClaimFilter;
+
+  @ApiPropertyOptional({ example: false, description: 'Only listings past their SLA' })
+  @IsOptional()
+  @Transform(transformBooleanParam)
+  @IsBoolean()
+  overdueOnly?: boolean;
+
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  pageSize?: number;
+}
+
+export class ModerationQueueItemDto {
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  listingId: string;
+
+  @ApiProperty({ example: 'community-cleanup-day' })
+  slug: string;
+
+  @ApiProperty({ example: 'Community Cleanup Day' })
+  title: string;
+
+  @ApiPropertyOptional({ example: 'Join neighbours to clean up the park.', nullable: true })
+  summary: string | null;
+
+  @ApiProperty({ enum: ListingModerationStatus, example: ListingModerationStatus.PENDING })
+  moderationStatus: ListingModerationStatus;
+
+  @ApiPropertyOptional({ example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59', nullable: true })
+  primaryCityId: string | null;
+
+  @ApiProperty({ example: ['b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59'] })
+  cityIds: string[];
+
+  @ApiPropertyOptional({ example: 'user_01HZXTY0YK3H2V4C5B6N7P8Q', nullable: true })
+  createdByUserId: string | null;
+
+  @ApiProperty({ example: '2025-01-20T09:00:00.000Z', description: 'When it entered the queue' })
+  queuedAt: string;
+
+  @ApiProperty({ example: 1520, description: 'Minutes spent in the queue so far' })
+  timeInQueueMinutes: number;
+
+  @ApiProperty({ example: '2025-01-22T09:00:00.000Z', description: 'End of the moderation SLA' })
+  dueAt: string;
+
+  @ApiProperty({ example: false })
+  isOverdue: boolean;
+
+  @ApiPropertyOptional({ example: 'user_01HZXTY0YK3H2V4C5B6N7P8Q', nullable: true })
+  claimedBy: string | null;
+
+  @ApiPropertyOptional({ example: '2025-01-21T10:00:00.000Z', nullable: true })
+  claimedAt: string | null;
+
+  @ApiPropertyOptional({ example: '2025-01-21T10:30:00.000Z', nullable: true })
+  claimExpiresAt: string | null;
+
+  @ApiPropertyOptional({
+    example: 15,
+    description: 'Risk score (0-100) from automated screening; null if not screened',
+    nullable: true,
+  })
+  riskScore: number | null;
+
+  @ApiProperty({ type: [ScreeningFindingDto], description: 'Reasons behind the risk score' })
+  @Type(() => ScreeningFindingDto)
+  riskReasons: ScreeningFindingDto[];
+}
+
+export class ModerationQueueResponseDto {
+  @ApiProperty({ type: [ModerationQueueItemDto], description: 'Listings, longest waiting first' })
+  @Type(() => ModerationQueueItemDto)
+  items: ModerationQueueItemDto[];
+
+  @ApiProperty({ type: ListingsPaginationMetaDto })
+  @Type(() => ListingsPaginationMetaDto)
+  meta: ListingsPaginationMetaDto;
+}
+
+export class BulkModerationDto {
+  @ApiProperty({
+    example: ['lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4', 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW5'],
+    maxItems: 100,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  listingIds: string[];
+
+  @ApiProperty({ enum: BulkModerationAction, example: BulkModerationAction.APPROVE })
+  @IsEnum(BulkModerationAction)
+  action: BulkModerationAction;
+
+  @ApiPropertyOptional({
+    example: 'Approved in weekly review.',
+    description: 'Reviewer notes shared by all listings',
+  })
+  @IsOptional()
+  @IsString()
+  reviewNotes?: string;
+
+  @ApiPropertyOptional({ enum: ListingStatus, description: 'Publish status for approvals' })
+  @IsOptional()
+  @IsEnum(ListingStatus)
+  publishStatus?: ListingStatus;
+}
+
+export class BulkModerationItemResultDto {
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  listingId: string;
+
+  @ApiProperty({ example: true })
+  success: boolean;
+
+  @ApiPropertyOptional({ example: 'Listing is claimed by another moderator' })
+  error?: string;
+}
+
+export class BulkModerationResultDto {
+  @ApiProperty({ example: 2 })
+  succeeded: number;
+
+  @ApiProperty({ example: 0 })
+  failed: number;
+
+  @ApiProperty({ type: [BulkModerationItemResultDto] })
+  @Type(() => BulkModerationItemResultDto)
+  results: BulkModerationItemResultDto[];
+}
+
+export class ModerationStatsQueryDto {
+  @ApiPropertyOptional({
+    example: '2025-01-01T00:00:00.000Z',
+    description: 'Start of the period (defaults to 30 days before to)',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-01-31T00:00:00.000Z',
+    description: 'End of the period (defaults to now)',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class ModerationQueueSummaryDto {
+  @ApiProperty({ example: 42, description: 'Listings waiting for review' })
+  pending: number;
+
+  @ApiProperty({ example: 5, description: 'Waiting listings past their SLA' })
+  overdue: number;
+
+  @ApiProperty({ example: 3, description: 'Waiting listings with an active claim' })
+  claimed: number;
+}
+
+export class ModeratorStatsDto {
+  @ApiProperty({ example: 'user_01HZXTY0YK3H2V4C5B6N7P8Q' })
+  moderatorId: string;
+
+  @ApiProperty({ example: 120 })
+  approved: number;
+
+  @ApiProperty({ example: 8 })
+  rejected: number;
+
+  @ApiProperty({ example: 15 })
+  changesRequested: number;
+
+  @ApiProperty({ example: 2 })
+  archived: number;
+
+  @ApiProperty({ example: 145 })
+  total: number;
+
+  @ApiPropertyOptional({
+    example: 9.5,
+    description: 'Average hours the decided listings waited in the queue',
+    nullable: true,
+  })
+  averageTimeInQueueHours: number | null;
+}
+
+export class ModerationStatsDto {
+  @ApiProperty({ example: '2025-01-01T00:00:00.000Z' })
+  from: string;
+
+  @ApiProperty({ example: '2025-01-31T00:00:00.000Z' })
+  to: string;
+
+  @ApiProperty({ example: 48 })
+  slaHours: number;
+
+  @ApiProperty({ type: ModerationQueueSummaryDto })
+  @Type(() => ModerationQueueSummaryDto)
+  queue: ModerationQueueSummaryDto;
+
+  @ApiProperty({ type: [ModeratorStatsDto], description: 'Moderators, most decisions first' })
+  @Type(() => ModeratorStatsDto)
+  moderators: ModeratorStatsDto[];
+}
@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ListingFilterDto } from './listing-filter.dto';
+import { ListingsPaginationMetaDto } from './listing-list-response.dto';
+
+export class ListingOccurrenceWindowDto {
+  @ApiPropertyOptional({
+    example: '2025-06-13T00:00:00.000Z',
+    description: 'Start of the window (defaults to now)',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-06-16T00:00:00.000Z',
+    description: 'End of the window (defaults to 7 days after from, at most 366 days)',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class ListingOccurrencesFilterDto extends OmitType(ListingFilterDto, [
+  'pagination',
+  'cursor',
+] as const) {
+  @ApiPropertyOptional({
+    example: '2025-06-13T00:00:00.000Z',
+    description: 'Start of the window (defaults to now)',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-06-16T00:00:00.000Z',
+    description: 'End of the window (defaults to 7 days after from, at most 366 days)',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class ListingOccurrenceDto {
+  @ApiProperty({
+    example: '2025-06-14T10:00:00.000+02:00',
+    description: 'Start in the timezone of the listing',
+  })
+  start: string;
+
+  @ApiProperty({ example: '2025-06-14T18:00:00.000+02:00' })
+  end: string;
+
+  @ApiPropertyOptional({
+    example: 'lti1a2b3c4-d5e6-7890-abcd-ef1234567890',
+    description: 'Time interval the occurrence was expanded from',
+    nullable: true,
+  })
+  intervalId: string | null;
+
+  @ApiProperty({
+    example: false,
+    description: 'Whether the occurrence comes from an exception (special opening hours)',
+  })
+  isException: boolean;
+}
+
+export class ListingOccurrencesDto {
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  listingId: string;
+
+  @ApiProperty({ example: 'community-cleanup-day' })
+  slug: string;
+
+  @ApiProperty({ example: 'Community Cleanup Day' })
+  title: string;
+
+  @ApiProperty({ example: 'Europe/Berlin' })
+  timezone: string;
+
+  @ApiProperty({ type: [ListingOccurrenceDto] })
+  @Type(() => ListingOccurrenceDto)
+  occurrences: ListingOccurrenceDto[];
+}
+
+export class ListListingOccurrencesResponseDto {
+  @ApiProperty({
+    type: [ListingOccurrencesDto],
+    description: 'Listings with at least one occurrence in the window',
+  })
+  @Type(() => ListingOccurrencesDto)
+  items: ListingOccurrencesDto[];
+
+  @ApiProperty({ type: ListingsPaginationMetaDto })
+  @Type(() => ListingsPaginationMetaDto)
+  meta: ListingsPaginationMetaDto;
+}
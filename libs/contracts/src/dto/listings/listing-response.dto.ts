@@ -10,6 +10,7 @@ import {
   ListingVisibility,
 } from '@prisma/client-core';
 import { Weekday } from './listing-create.dto';
+import { ListingSearchHighlightDto } from './listing-search.dto';
 
 export class ListingCategoryDto {
   @ApiProperty({ example: 'lc1a2b3c4-d5e6-7890-abcd-ef1234567890' })
@@ -308,6 +309,25 @@ export class ListingResponseDto {
   })
   @Type(() => ListingTimeIntervalExceptionDto)
   timeIntervalExceptions: ListingTimeIntervalExceptionDto[];
+
+  @ApiPropertyOptional({
+    example: 0.42,
+    description: 'Relevance of the listing for the search term (only when searching)',
+  })
+  searchRank?: number;
+
+  @ApiPropertyOptional({
+    type: ListingSearchHighlightDto,
+    description: 'Highlighted title and snippet (only when searching)',
+  })
+  @Type(() => ListingSearchHighlightDto)
+  highlight?: ListingSearchHighlightDto;
+
+  @ApiPropertyOptional({
+    example: 1.8,
+    description: 'Distance in kilometers from the `near` point (only when filtering by near)',
+  })
+  distanceKm?: number;
 }
 
 export class ListingNotFoundErrorResponseDto {
@@ -0,0 +1,140 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ListingRevisionAction } from '@prisma/client-core';
+import { ListingsPaginationMetaDto } from './listing-list-response.dto';
+
+export class ListingRevisionsQueryDto {
+  @ApiPropertyOptional({ example: 1, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ example: 20, default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  pageSize?: number;
+}
+
+export class ListingRevisionDiffQueryDto {
+  @ApiPropertyOptional({
+    example: 3,
+    description: 'Older revision (defaults to the revision before `to`)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from?: number;
+
+  @ApiPropertyOptional({ example: 4, description: 'Newer revision (defaults to the latest)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to?: number;
+}
+
+export class RestoreListingRevisionDto {
+  @ApiPropertyOptional({
+    example: 'Reverting unapproved changes to the opening hours',
+    description: 'Reason recorded with the restore revision',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class ListingRevisionSummaryDto {
+  @ApiProperty({ example: 'c1f0b1e2-3d4c-4b5a-8f6e-7d8c9b0a1f2e' })
+  id: string;
+
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  listingId: string;
+
+  @ApiProperty({ example: 4, description: 'Revision number, counting up from 1 per listing' })
+  revision: number;
+
+  @ApiProperty({ enum: ListingRevisionAction, example: ListingRevisionAction.UPDATE })
+  action: ListingRevisionAction;
+
+  @ApiProperty({
+    example: ['title', 'timeIntervals'],
+    description: 'Fields that differ from the previous revision',
+  })
+  changedFields: string[];
+
+  @ApiPropertyOptional({ example: 'user_01HZXTY0YK3H2V4C5B6N7P8Q', nullable: true })
+  actorUserId: string | null;
+
+  @ApiPropertyOptional({
+    example: 'integration',
+    description: 'Service that made the change, for integration syncs',
+    nullable: true,
+  })
+  actorService: string | null;
+
+  @ApiPropertyOptional({ example: 'Please add the opening hours', nullable: true })
+  note: string | null;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Revision that was restored (RESTORE revisions only)',
+    nullable: true,
+  })
+  restoredFromRevision: number | null;
+
+  @ApiProperty({ example: '2025-01-20T09:15:00.000Z' })
+  createdAt: string;
+}
+
+export class ListingRevisionDto extends ListingRevisionSummaryDto {
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: true,
+    description: 'Listing fields, categories, cities, media and time intervals at this revision',
+  })
+  snapshot: Record<string, unknown>;
+}
+
+export class ListListingRevisionsResponseDto {
+  @ApiProperty({ type: [ListingRevisionSummaryDto], description: 'Revisions, newest first' })
+  @Type(() => ListingRevisionSummaryDto)
+  items: ListingRevisionSummaryDto[];
+
+  @ApiProperty({ type: ListingsPaginationMetaDto })
+  @Type(() => ListingsPaginationMetaDto)
+  meta: ListingsPaginationMetaDto;
+}
+
+export class ListingRevisionFieldChangeDto {
+  @ApiProperty({ example: 'title' })
+  field: string;
+
+  @ApiPropertyOptional({ example: 'Community Cleanup', nullable: true })
+  before: unknown;
+
+  @ApiPropertyOptional({ example: 'Community Cleanup Day', nullable: true })
+  after: unknown;
+}
+
+export class ListingRevisionDiffDto {
+  @ApiProperty({ example: 'lst_01J3MJG0YX6FT5PB9SJ9Y2KQW4' })
+  listingId: string;
+
+  @ApiProperty({ example: 3 })
+  fromRevision: number;
+
+  @ApiProperty({ example: 4 })
+  toRevision: number;
+
+  @ApiProperty({ type: [ListingRevisionFieldChangeDto] })
+  @Type(() => ListingRevisionFieldChangeDto)
+  changes: ListingRevisionFieldChangeDto[];
+}
@@ -0,0 +1,97 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { IsEnum, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ScreeningRuleType } from '@prisma/client-core';
+
+export class ScreeningFindingDto {
+  @ApiProperty({ example: 'term-list', description: 'Check that reported the finding' })
+  check: string;
+
+  @ApiProperty({ example: 'profanity' })
+  code: string;
+
+  @ApiProperty({ example: 15, description: 'Points added to the risk score' })
+  score: number;
+
+  @ApiProperty({ example: 'Profanity: damn' })
+  message: string;
+
+  @ApiPropertyOptional({ example: { terms: ['damn'] } })
+  details?: Record<string, unknown>;
+}
+
+export class ScreeningRulesQueryDto {
+  @ApiPropertyOptional({ enum: ScreeningRuleType })
+  @IsOptional()
+  @IsEnum(ScreeningRuleType)
+  type?: ScreeningRuleType;
+
+  @ApiPropertyOptional({
+    example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59',
+    description: 'Only rules of this city; global rules are always included',
+  })
+  @IsOptional()
+  @IsString()
+  cityId?: string;
+}
+
+export class CreateScreeningRuleDto {
+  @ApiProperty({ enum: ScreeningRuleType, example: ScreeningRuleType.PROFANITY })
+  @IsEnum(ScreeningRuleType)
+  type: ScreeningRuleType;
+
+  @ApiProperty({
+    example: 'damn',
+    description: 'Term (matched as whole word) or domain (matches subdomains as well)',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  value: string;
+
+  @ApiPropertyOptional({
+    example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59',
+    description: 'City the rule applies to; omit for a global rule (Super Admin only)',
+  })
+  @IsOptional()
+  @IsString()
+  cityId?: string;
+
+  @ApiPropertyOptional({
+    example: 'en',
+    description: 'Language of a term; omit to match listings in any language',
+  })
+  @IsOptional()
+  @IsString()
+  languageCode?: string;
+}
+
+export class ScreeningRuleDto {
+  @ApiProperty({ example: 'c4a760a8-dbcf-4e14-9f39-645a8e933d74' })
+  id: string;
+
+  @ApiProperty({ enum: ScreeningRuleType, example: ScreeningRuleType.PROFANITY })
+  type: ScreeningRuleType;
+
+  @ApiProperty({ example: 'damn' })
+  value: string;
+
+  @ApiPropertyOptional({ example: 'b8d0c7f2-4c1e-4a0f-9a8e-6f1d2c3b4a59', nullable: true })
+  cityId: string | null;
+
+  @ApiPropertyOptional({ example: 'en', nullable: true })
+  languageCode: string | null;
+
+  @ApiPropertyOptional({ example: 'user_01HZXTY0YK3H2V4C5B6N7P8Q', nullable: true })
+  createdByUserId: string | null;
+
+  @ApiProperty({ example: '2025-01-20T09:00:00.000Z' })
+  createdAt: string;
+}
+
+export class ScreeningRuleListDto {
+  @ApiProperty({ type: [ScreeningRuleDto] })
+  @Type(() => ScreeningRuleDto)
+  items: ScreeningRuleDto[];
+}
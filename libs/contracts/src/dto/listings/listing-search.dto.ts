@@ -0,0 +1,57 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+export enum ListingDateBucket {
+  PAST = 'past',
+  TODAY = 'today',
+  NEXT_7_DAYS = 'next7Days',
+  NEXT_30_DAYS = 'next30Days',
+  LATER = 'later',
+  UNDATED = 'undated',
+}
+
+export class ListingSearchHighlightDto {
+  @ApiProperty({
+    example: 'Spring <mark>Cleanup</mark> Day',
+    description: 'Title with matched terms wrapped in <mark>',
+  })
+  title: string;
+
+  @ApiProperty({
+    example: 'Join neighbours for the annual park <mark>cleanup</mark> along the river',
+    description: 'Fragments of the summary and content around the matched terms',
+  })
+  snippet: string;
+}
+
+export class ListingFacetBucketDto {
+  @ApiProperty({ example: 'c1a2b3c4-d5e6-7890-abcd-ef1234567890' })
+  value: string;
+
+  @ApiPropertyOptional({ example: 'Community Events' })
+  label?: string;
+
+  @ApiProperty({ example: 12 })
+  count: number;
+}
+
+export class ListingSearchFacetsDto {
+  @ApiProperty({ type: [ListingFacetBucketDto] })
+  @Type(() => ListingFacetBucketDto)
+  categories: ListingFacetBucketDto[];
+
+  @ApiProperty({ type: [ListingFacetBucketDto] })
+  @Type(() => ListingFacetBucketDto)
+  cities: ListingFacetBucketDto[];
+
+  @ApiProperty({ type: [ListingFacetBucketDto] })
+  @Type(() => ListingFacetBucketDto)
+  sourceTypes: ListingFacetBucketDto[];
+
+  @ApiProperty({
+    type: [ListingFacetBucketDto],
+    description: `Event start buckets: ${Object.values(ListingDateBucket).join(', ')}`,
+  })
+  @Type(() => ListingFacetBucketDto)
+  dateBuckets: ListingFacetBucketDto[];
+}
@@ -1,3 +1,4 @@
 export * from './send-notification.dto';
 export * from './bulk-notification.dto';
 export * from './firebase-project.dto';
+export * from './notification-preference.dto';
@@ -0,0 +1,48 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class NotificationPreferenceDto {
+  @ApiProperty({
+    description: 'Notification topic',
+    enum: ['LISTING_MODERATION'],
+    example: 'LISTING_MODERATION',
+  })
+  topic: 'LISTING_MODERATION';
+
+  @ApiProperty({ description: 'Whether emails are sent for this topic', example: true })
+  email: boolean;
+
+  @ApiProperty({ description: 'Whether push notifications are sent for this topic', example: true })
+  push: boolean;
+
+  @ApiProperty({
+    description: 'Whether in-app notifications are created for this topic',
+    example: true,
+  })
+  inApp: boolean;
+}
+
+export class NotificationPreferencesResponseDto {
+  @ApiProperty({ type: [NotificationPreferenceDto] })
+  preferences: NotificationPreferenceDto[];
+}
+
+export class UpdateNotificationPreferenceDto {
+  @ApiPropertyOptional({ description: 'Receive emails for this topic', example: false })
+  @IsBoolean()
+  @IsOptional()
+  email?: boolean;
+
+  @ApiPropertyOptional({ description: 'Receive push notifications for this topic', example: true })
+  @IsBoolean()
+  @IsOptional()
+  push?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Receive in-app notifications for this topic',
+    example: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  inApp?: boolean;
+}
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export enum PaginationMode {
+  OFFSET = 'offset',
+  CURSOR = 'cursor',
+}
+
+/**
+ * Query parameters of list endpoints that can page by cursor as well as by
+ * offset. Offset paging stays the default; passing a cursor implies cursor
+ * mode.
+ */
+export class CursorPaginationQueryDto {
+  @ApiPropertyOptional({
+    enum: PaginationMode,
+    default: PaginationMode.OFFSET,
+    description:
+      'Paging mode. Cursor mode returns nextCursor and hasMore instead of page counts and stays consistent while data changes',
+  })
+  @IsOptional()
+  @IsEnum(PaginationMode)
+  pagination?: PaginationMode;
+
+  @ApiPropertyOptional({
+    example: 'eyJzIjoiY3JlYXRlZEF0IiwiZCI6ImRlc2MiLC4uLn0.Xk2vQ1l8',
+    description: 'Opaque cursor from nextCursor of the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  cursor?: string;
+}
+
+/**
+ * Paging fields added next to `data` in the response envelope when a list is
+ * paged by cursor; `data` then holds the items of the page.
+ */
+export class CursorPageMetaDto {
+  @ApiPropertyOptional({
+    example: 'eyJzIjoiY3JlYXRlZEF0IiwiZCI6ImRlc2MiLC4uLn0.Xk2vQ1l8',
+    description: 'Cursor of the next page; null on the last page',
+    nullable: true,
+  })
+  nextCursor: string | null;
+
+  @ApiProperty({ example: true })
+  hasMore: boolean;
+}
@@ -0,0 +1,112 @@
+import { BadRequestException } from '@nestjs/common';
+import { CursorCodec, CursorSort, cursorWhere } from './cursor-pagination';
+
+describe('CursorCodec', () => {
+  const codec = new CursorCodec('cursor-secret');
+  const sort: CursorSort = { field: 'createdAt', direction: 'desc' };
+  const filters = { cityId: 'city-1', status: 'ACTIVE', pageSize: 20 };
+  const position = { value: '2026-10-18T12:00:00.000Z', id: 'listing-42' };
+
+  it('decodes the position of a cursor it issued', () => {
+    const cursor = codec.encode(sort, filters, position);
+
+    expect(codec.decode(cursor, sort, filters)).toEqual(position);
+  });
+
+  it('ignores paging parameters and key order when matching filters', () => {
+    const cursor = codec.encode(sort, filters, position);
+
+    expect(
+      codec.decode(cursor, sort, { status: 'ACTIVE', cityId: 'city-1', cursor, pageSize: 50 }),
+    ).toEqual(position);
+  });
+
+  it('rejects a cursor whose position was modified', () => {
+    const [body, signature] = codec.encode(sort, filters, position).split('.');
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    const forged = Buffer.from(JSON.stringify({ ...payload, id: 'listing-1' })).toString(
+      'base64url',
+    );
+
+    expect(() => codec.decode(`${forged}.${signature}`, sort, filters)).toThrow('Invalid cursor');
+  });
+
+  it('rejects a cursor signed with another secret', () => {
+    const cursor = new CursorCodec('other-secret').encode(sort, filters, position);
+
+    expect(() => codec.decode(cursor, sort, filters)).toThrow(BadRequestException);
+  });
+
+  it.each(['', 'not-a-cursor', 'abc.', '.abc', 'abc.def.ghi'])(
+    'rejects the malformed cursor "%s"',
+    (cursor) => {
+      expect(() => codec.decode(cursor, sort, filters)).toThrow('Invalid cursor');
+    },
+  );
+
+  it('rejects a cursor issued for another sort order', () => {
+    const cursor = codec.encode(sort, filters, position);
+
+    expect(() => codec.decode(cursor, { ...sort, direction: 'asc' }, filters)).toThrow(
+      'Cursor does not match the sort order or filters of the query',
+    );
+    expect(() => codec.decode(cursor, { ...sort, field: 'updatedAt' }, filters)).toThrow(
+      'Cursor does not match the sort order or filters of the query',
+    );
+  });
+
+  it('rejects a cursor issued for other filters', () => {
+    const cursor = codec.encode(sort, filters, position);
+
+    expect(() => codec.decode(cursor, sort, { ...filters, cityId: 'city-2' })).toThrow(
+      'Cursor does not match the sort order or filters of the query',
+    );
+  });
+
+  it('pages rows fetched with one extra row', () => {
+    const rows = [
+      { id: 'a', createdAt: new Date('2026-10-18T12:00:00.000Z') },
+      { id: 'b', createdAt: new Date('2026-10-18T11:00:00.000Z') },
+      { id: 'c', createdAt: new Date('2026-10-18T10:00:00.000Z') },
+    ];
+
+    const page = codec.page(rows, 2, sort, filters);
+
+    expect(page.items.map((row) => row.id)).toEqual(['a', 'b']);
+    expect(page.hasMore).toBe(true);
+    expect(codec.decode(page.nextCursor!, sort, filters)).toEqual({
+      value: '2026-10-18T11:00:00.000Z',
+      id: 'b',
+    });
+    expect(codec.page(rows.slice(0, 2), 2, sort, filters)).toMatchObject({
+      hasMore: false,
+      nextCursor: null,
+    });
+  });
+});
+
+describe('cursorWhere', () => {
+  it('selects the rows after the position with the ID as tie-breaker', () => {
+    expect(
+      cursorWhere(
+        { field: 'eventStart', direction: 'asc', nullable: true },
+        { value: '2026-10-18T12:00:00.000Z', id: 'listing-42' },
+      ),
+    ).toEqual({
+      OR: [
+        { eventStart: { gt: '2026-10-18T12:00:00.000Z' } },
+        { eventStart: '2026-10-18T12:00:00.000Z', id: { gt: 'listing-42' } },
+        { eventStart: null },
+      ],
+    });
+  });
+
+  it('continues within the trailing nulls', () => {
+    expect(
+      cursorWhere(
+        { field: 'eventStart', direction: 'desc', nullable: true },
+        { value: null, id: 'listing-42' },
+      ),
+    ).toEqual({ eventStart: null, id: { gt: 'listing-42' } });
+  });
+});
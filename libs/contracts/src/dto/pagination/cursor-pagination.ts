@@ -0,0 +1,195 @@
+import { BadRequestException } from '@nestjs/common';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { CursorPaginationQueryDto, PaginationMode } from './cursor-pagination.dto';
+
+export type CursorSortDirection = 'asc' | 'desc';
+
+export type CursorValue = string | number | null;
+
+/** A page of a list paged by cursor */
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface CursorSort {
+  field: string;
+  direction: CursorSortDirection;
+  /** Nullable fields sort their nulls last in both directions */
+  nullable?: boolean;
+}
+
+/** Position after the last item of a page, bound to the sort and filters it was issued for */
+interface CursorPayload {
+  s: string;
+  d: CursorSortDirection;
+  f: string;
+  v: CursorValue;
+  id: string;
+}
+
+export interface CursorPosition {
+  value: CursorValue;
+  id: string;
+}
+
+const QUERY_PAGING_FIELDS = ['cursor', 'pagination', 'page', 'pageSize', 'limit'];
+
+export function isCursorMode(query: Pick<CursorPaginationQueryDto, 'pagination' | 'cursor'>) {
+  return query.pagination === PaginationMode.CURSOR || Boolean(query.cursor);
+}
+
+/**
+ * Whether a handler result is a cursor page, also after it went through a
+ * JSON cache and lost its prototype
+ */
+export function isCursorPage(value: unknown): value is CursorPage<unknown> {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const page = value as Record<string, unknown>;
+  return (
+    Array.isArray(page.items) &&
+    typeof page.hasMore === 'boolean' &&
+    (page.nextCursor === null || typeof page.nextCursor === 'string') &&
+    !('meta' in page)
+  );
+}
+
+/**
+ * Issues and verifies opaque cursors. A cursor carries the sort value and ID
+ * of the last item, signed with HMAC-SHA256 so clients cannot forge positions,
+ * and is only accepted for the sort and filters it was issued for.
+ */
+export class CursorCodec {
+  constructor(private readonly secret: string) {}
+
+  encode(sort: CursorSort, filters: object, position: CursorPosition): string {
+    const payload: CursorPayload = {
+      s: sort.field,
+      d: sort.direction,
+      f: this.fingerprint(filters),
+      v: position.value,
+      id: position.id,
+    };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  decode(cursor: string, sort: CursorSort, filters: object): CursorPosition {
+    const [body, signature] = cursor.split('.');
+    const expected = body ? this.sign(body) : '';
+    if (
+      !body ||
+      !signature ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    let payload: CursorPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (
+      payload.s !== sort.field ||
+      payload.d !== sort.direction ||
+      payload.f !== this.fingerprint(filters)
+    ) {
+      throw new BadRequestException('Cursor does not match the sort order or filters of the query');
+    }
+    return { value: payload.v, id: payload.id };
+  }
+
+  /**
+   * Builds the page from rows fetched with `take: limit + 1`
+   */
+  page<T extends { id: string }, R = T>(
+    rows: T[],
+    limit: number,
+    sort: CursorSort,
+    filters: object,
+    map: (row: T) => R = (row) => row as unknown as R,
+  ): CursorPage<R> {
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+      items: items.map(map),
+      nextCursor:
+        hasMore && last
+          ? this.encode(sort, filters, {
+              value: toCursorValue((last as Record<string, unknown>)[sort.field]),
+              id: last.id,
+            })
+          : null,
+      hasMore,
+    };
+  }
+
+  private sign(body: string): string {
+    return createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  /** Hash of the filters, without the paging parameters */
+  private fingerprint(filters: object): string {
+    const entries = Object.entries(filters)
+      .filter(([key, value]) => !QUERY_PAGING_FIELDS.includes(key) && value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return createHash('sha1').update(JSON.stringify(entries)).digest('base64url').slice(0, 16);
+  }
+}
+
+/**
+ * Prisma order of a cursor-paged list: the sort field, then the ID as tie-breaker
+ */
+export function cursorOrderBy(sort: CursorSort): Record<string, unknown>[] {
+  return [
+    {
+      [sort.field]: sort.nullable ? { sort: sort.direction, nulls: 'last' } : sort.direction,
+    },
+    { id: 'asc' },
+  ];
+}
+
+/**
+ * Prisma condition selecting the items after the cursor position in
+ * `cursorOrderBy` order
+ */
+export function cursorWhere(
+  sort: CursorSort,
+  position: CursorPosition | null,
+): Record<string, unknown> {
+  if (!position) {
+    return {};
+  }
+
+  const { field, direction, nullable } = sort;
+  if (position.value === null) {
+    return { [field]: null, id: { gt: position.id } };
+  }
+
+  return {
+    OR: [
+      { [field]: { [direction === 'desc' ? 'lt' : 'gt']: position.value } },
+      { [field]: position.value, id: { gt: position.id } },
+      ...(nullable ? [{ [field]: null }] : []),
+    ],
+  };
+}
+
+function toCursorValue(value: unknown): CursorValue {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return value;
+  }
+  return null;
+}
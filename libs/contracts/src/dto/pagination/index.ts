@@ -0,0 +1,2 @@
+export * from './cursor-pagination.dto';
+export * from './cursor-pagination';
@@ -1 +1,2 @@
 export * from './saga-step.dto';
+export * from './saga-admin.dto';
@@ -0,0 +1,136 @@
+import { IsOptional, IsString, IsBoolean, IsNumber, IsEnum, Min, Max } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SagaStatus } from './saga-step.dto';
+
+export class SagaListQueryDto {
+  @ApiPropertyOptional({ description: 'Filter by saga status', enum: SagaStatus })
+  @IsOptional()
+  @IsEnum(SagaStatus)
+  status?: SagaStatus;
+
+  @ApiPropertyOptional({ description: 'Filter by transaction type', example: 'GUEST_CONVERSION' })
+  @IsOptional()
+  @IsString()
+  transactionType?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Only return stuck sagas (in progress without activity for stuckAfterMinutes, or failed during compensation)',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Transform(({ value }) => value === true || value === 'true')
+  stuck?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Minutes without progress after which an in-progress saga counts as stuck',
+    example: 5,
+    default: 5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  stuckAfterMinutes?: number;
+
+  @ApiPropertyOptional({ description: 'Page number for pagination', example: 1, minimum: 1 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Type(() => Number)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Page size for pagination',
+    example: 20,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  pageSize?: number;
+}
+
+export class SagaStepResponseDto {
+  @ApiProperty({ example: 'CONVERT_GUEST' })
+  stepId: string;
+
+  @ApiProperty({ example: 'users' })
+  service: string;
+
+  @ApiProperty({ example: 'user.convertGuest', description: 'Action or RabbitMQ pattern' })
+  action: string;
+
+  @ApiProperty({ enum: SagaStatus, example: SagaStatus.COMPLETED })
+  status: SagaStatus;
+
+  @ApiPropertyOptional({ example: 1 })
+  attempts?: number;
+
+  @ApiPropertyOptional({ example: 'Timeout has occurred' })
+  error?: string;
+}
+
+export class SagaResponseDto {
+  @ApiProperty({ example: '3f1c7e8a-4b2d-4c6e-9a1f-2b3c4d5e6f70' })
+  sagaId: string;
+
+  @ApiProperty({ example: 'GUEST_CONVERSION' })
+  transactionType: string;
+
+  @ApiProperty({ enum: SagaStatus, example: SagaStatus.COMPENSATING })
+  status: SagaStatus;
+
+  @ApiProperty({ example: 1, description: 'Index of the step currently being executed' })
+  currentStep: number;
+
+  @ApiProperty({
+    example: true,
+    description: 'Whether the orchestrator dispatches the steps itself (required for resume)',
+  })
+  orchestrated: boolean;
+
+  @ApiProperty({ type: [SagaStepResponseDto] })
+  steps: SagaStepResponseDto[];
+
+  @ApiPropertyOptional({ example: 'Timeout has occurred' })
+  lastError?: string;
+
+  @ApiProperty({ example: '2025-01-15T10:45:12.345Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2025-01-15T10:45:14.012Z' })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({ example: '2025-01-15T10:45:14.012Z' })
+  completedAt?: Date;
+}
+
+export class SagaPaginationMetaDto {
+  @ApiProperty({ example: 1, description: 'Current page number (1-indexed)' })
+  page: number;
+
+  @ApiProperty({ example: 20, description: 'Number of items returned per page' })
+  pageSize: number;
+
+  @ApiProperty({ example: 3, description: 'Total number of sagas matching the filters' })
+  total: number;
+
+  @ApiProperty({ example: 1, description: 'Total number of available pages' })
+  totalPages: number;
+}
+
+export class SagaListResponseDto {
+  @ApiProperty({ type: [SagaResponseDto] })
+  @Type(() => SagaResponseDto)
+  items: SagaResponseDto[];
+
+  @ApiProperty({ type: SagaPaginationMetaDto })
+  @Type(() => SagaPaginationMetaDto)
+  meta: SagaPaginationMetaDto;
+}
@@ -9,14 +9,26 @@ export enum SagaStatus {
 export interface SagaStep {
   stepId: string;
   service: string;
+  /**
+   * Action to perform. For orchestrated sagas this is the RabbitMQ pattern
+   * the orchestrator sends the payload to (e.g. 'user.convertGuest').
+   */
   action: string;
   payload: any;
   status: SagaStatus;
   result?: any;
   error?: string;
+  /** Per-attempt timeout in milliseconds (orchestrated sagas only) */
+  timeoutMs?: number;
+  /** Number of retries after the first failed attempt (orchestrated sagas only) */
+  maxRetries?: number;
+  /** Number of attempts made so far */
+  attempts?: number;
   compensation?: {
     action: string;
     payload: any;
+    timeoutMs?: number;
+    maxRetries?: number;
   };
 }
 
@@ -27,6 +39,9 @@ export interface SagaState {
   currentStep: number;
   status: SagaStatus;
   createdAt: Date;
+  updatedAt?: Date;
   completedAt?: Date;
+  orchestrated?: boolean;
+  lastError?: string;
   metadata?: Record<string, any>;
 }
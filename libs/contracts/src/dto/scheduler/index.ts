@@ -0,0 +1 @@
+export * from './schedule-run-result.dto';
@@ -0,0 +1,19 @@
+export enum ScheduleRunResultStatus {
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Payload of the `schedule.runResult` event.
+ * Services triggered by the scheduler (via `integration.sync` or `schedule.execute`)
+ * emit it with the `runId` they received once the work has actually finished.
+ */
+export interface ScheduleRunResult {
+  runId: string;
+  taskId?: string;
+  status: ScheduleRunResultStatus;
+  /** Outcome counters, e.g. { created: 10, updated: 2, skipped: 0 } */
+  counts?: Record<string, number>;
+  error?: string;
+  timestamp: string;
+}
@@ -9,6 +9,7 @@ import {
 } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 import { ApiPropertyOptional } from '@nestjs/swagger';
+import { CursorPaginationQueryDto } from '../pagination/cursor-pagination.dto';
 
 export enum TileSortBy {
   CREATED_AT = 'createdAt',
@@ -35,7 +36,7 @@ const transformBooleanParam = (value: unknown) => {
   return Boolean(value);
 };
 
-export class TileFilterDto {
+export class TileFilterDto extends CursorPaginationQueryDto {
   @ApiPropertyOptional({
     description: 'Search term to filter tiles by header, subheader, or description',
     example: 'gift card',
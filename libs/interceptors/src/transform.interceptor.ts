@@ -3,6 +3,7 @@ import { Reflector } from '@nestjs/core';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
 import { I18nService } from '@heidi/i18n';
+import { isCursorPage } from '@heidi/contracts';
 import { SuccessMessageService } from './success-message.service';
 import { SUCCESS_MESSAGE_KEY } from './decorators/success-message.decorator';
 import { Request } from 'express';
@@ -14,6 +15,9 @@ export interface Response<T> {
   timestamp: string;
   path: string;
   statusCode: number;
+  // Only for lists paged by cursor
+  nextCursor?: string | null;
+  hasMore?: boolean;
 }
 
 @Injectable()
@@ -52,6 +56,20 @@ export class TransformInterceptor<T> implements NestInterceptor<T, Response<T>>
             ? translatedMessage
             : 'Operation completed successfully';
 
+        // Cursor pages return their items as data and the paging fields next to it
+        if (isCursorPage(data)) {
+          return {
+            success: true,
+            data: data.items as T,
+            nextCursor: data.nextCursor,
+            hasMore: data.hasMore,
+            message,
+            timestamp: new Date().toISOString(),
+            path: request.url,
+            statusCode: response.statusCode,
+          };
+        }
+
         return {
           success: true,
           data,
@@ -0,0 +1,32 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REQUIRED_TRUST_LEVEL_KEY = 'requiredTrustLevel';
+
+/**
+ * Assurance level of a government (BundID) login, from low to high (eIDAS). Declared like
+ * the Prisma enum stored on auth sessions, so values of both are interchangeable.
+ */
+export const TrustLevel = {
+  LOW: 'LOW',
+  SUBSTANTIAL: 'SUBSTANTIAL',
+  HIGH: 'HIGH',
+} as const;
+
+export type TrustLevel = (typeof TrustLevel)[keyof typeof TrustLevel];
+
+const TRUST_LEVEL_ORDER: TrustLevel[] = [TrustLevel.LOW, TrustLevel.SUBSTANTIAL, TrustLevel.HIGH];
+
+/**
+ * Whether a session's trust level is at least the required one; sessions without a
+ * government login have none
+ */
+export function meetsTrustLevel(actual: TrustLevel | undefined, required: TrustLevel): boolean {
+  return !!actual && TRUST_LEVEL_ORDER.indexOf(actual) >= TRUST_LEVEL_ORDER.indexOf(required);
+}
+
+/**
+ * Restricts the route to sessions signed in with BundID at the given trust level or higher
+ * (e.g. e-government services that need an identified citizen)
+ */
+export const RequireTrustLevel = (level: TrustLevel) =>
+  SetMetadata(REQUIRED_TRUST_LEVEL_KEY, level);
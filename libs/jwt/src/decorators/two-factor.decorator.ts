@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_WITHOUT_TWO_FACTOR_KEY = 'allowWithoutTwoFactor';
+
+/**
+ * Lets users whose role requires two-factor authentication call the route before
+ * they signed in with a second factor (e.g. to enrol)
+ */
+export const AllowWithoutTwoFactor = () => SetMetadata(ALLOW_WITHOUT_TWO_FACTOR_KEY, true);
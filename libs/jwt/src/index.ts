@@ -3,5 +3,7 @@ export * from './jwt.service';
 export * from './jwt.strategy';
 export * from './jwt-auth.guard';
 export * from './decorators/public.decorator';
+export * from './decorators/two-factor.decorator';
+export * from './decorators/trust-level.decorator';
 export * from './decorators/roles.decorator';
 export * from './decorators/current-user.decorator';
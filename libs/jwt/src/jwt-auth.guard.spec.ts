@@ -0,0 +1,71 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@heidi/config';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { RequireTrustLevel, TrustLevel } from './decorators/trust-level.decorator';
+
+class CitizenServicesController {
+  list() {
+    return [];
+  }
+
+  @RequireTrustLevel(TrustLevel.SUBSTANTIAL)
+  apply() {
+    return {};
+  }
+}
+
+function contextFor(handler: keyof CitizenServicesController): ExecutionContext {
+  return {
+    getHandler: () => CitizenServicesController.prototype[handler],
+    getClass: () => CitizenServicesController,
+  } as unknown as ExecutionContext;
+}
+
+describe('JwtAuthGuard', () => {
+  const guard = new JwtAuthGuard(new Reflector(), {
+    get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+  } as unknown as ConfigService);
+
+  describe('trust level', () => {
+    it.each([TrustLevel.SUBSTANTIAL, TrustLevel.HIGH])(
+      'lets %s sessions through a route requiring SUBSTANTIAL',
+      (trustLevel) => {
+        const user = { userId: 'user-1', trustLevel };
+
+        expect(guard.handleRequest(null, user, null, contextFor('apply'))).toBe(user);
+      },
+    );
+
+    it.each([TrustLevel.LOW, undefined])(
+      'rejects %s sessions on a route requiring SUBSTANTIAL',
+      (trustLevel) => {
+        const user = { userId: 'user-1', trustLevel };
+
+        expect(() => guard.handleRequest(null, user, null, contextFor('apply'))).toThrow(
+          ForbiddenException,
+        );
+      },
+    );
+
+    it('names the required level in the error', () => {
+      let error: unknown;
+      try {
+        guard.handleRequest(null, { userId: 'user-1' }, null, contextFor('apply'));
+      } catch (thrown) {
+        error = thrown;
+      }
+
+      expect((error as ForbiddenException).getResponse()).toMatchObject({
+        errorCode: 'TRUST_LEVEL_INSUFFICIENT',
+        requiredTrustLevel: TrustLevel.SUBSTANTIAL,
+      });
+    });
+
+    it('does not require a trust level on undecorated routes', () => {
+      const user = { userId: 'user-1' };
+
+      expect(guard.handleRequest(null, user, null, contextFor('list'))).toBe(user);
+    });
+  });
+});
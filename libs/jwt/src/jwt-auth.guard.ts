@@ -1,13 +1,36 @@
-import { Injectable, ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
 import { Observable, of } from 'rxjs';
 import { catchError, map } from 'rxjs/operators';
+import { ConfigService } from '@heidi/config';
+import { roleToNumber } from '@heidi/rbac';
+import { UserRole } from '@prisma/client-core';
+import { ALLOW_WITHOUT_TWO_FACTOR_KEY } from './decorators/two-factor.decorator';
+import {
+  REQUIRED_TRUST_LEVEL_KEY,
+  TrustLevel,
+  meetsTrustLevel,
+} from './decorators/trust-level.decorator';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+  private readonly twoFactorRoles: number[];
+
+  constructor(
+    private reflector: Reflector,
+    configService: ConfigService,
+  ) {
     super();
+    this.twoFactorRoles = configService
+      .get<string[]>('twoFactor.enforcedRoles', [])
+      .filter((role) => Object.values(UserRole).includes(role as UserRole))
+      .map((role) => roleToNumber(role));
   }
 
   canActivate(context: ExecutionContext): boolean | Promise<boolean> | Observable<boolean> {
@@ -71,9 +94,46 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       });
     }
 
+    if (this.requiresTwoFactor(user) && !user.twoFactorVerified) {
+      const allowWithoutTwoFactor = this.reflector.getAllAndOverride<boolean>(
+        ALLOW_WITHOUT_TWO_FACTOR_KEY,
+        [context.getHandler(), context.getClass()],
+      );
+      if (!allowWithoutTwoFactor) {
+        throw new ForbiddenException({
+          errorCode: 'TWO_FACTOR_REQUIRED',
+          message:
+            'Two-factor authentication is required for your role. Set it up at /auth/2fa and sign in again.',
+        });
+      }
+    }
+
+    const requiredTrustLevel = this.reflector.getAllAndOverride<TrustLevel>(
+      REQUIRED_TRUST_LEVEL_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (requiredTrustLevel && !meetsTrustLevel(user.trustLevel, requiredTrustLevel)) {
+      throw new ForbiddenException({
+        errorCode: 'TRUST_LEVEL_INSUFFICIENT',
+        message: 'This service requires signing in with BundID at a higher trust level.',
+        requiredTrustLevel,
+      });
+    }
+
     return user;
   }
 
+  /**
+   * Whether the user's role or one of their city assignments is subject to the 2FA policy
+   */
+  private requiresTwoFactor(user: any): boolean {
+    const roles: unknown[] = [
+      user.role,
+      ...(user.cityAssignments ?? []).map((assignment: { role: unknown }) => assignment.role),
+    ];
+    return roles.some((role) => this.twoFactorRoles.includes(Number(role)));
+  }
+
   private isObservable<T = unknown>(value: any): value is Observable<T> {
     return value && typeof value.subscribe === 'function';
   }
@@ -3,6 +3,7 @@ import { JwtService as NestJwtService } from '@nestjs/jwt';
 import { LoggerService } from '@heidi/logger';
 import { ConfigService } from '@heidi/config';
 import { roleToNumber } from '@heidi/rbac';
+import { TrustLevel } from './decorators/trust-level.decorator';
 
 export interface CityAssignment {
   cityId: string;
@@ -17,6 +18,9 @@ export interface TokenPayload {
   type: 'access' | 'refresh';
   isGuest?: boolean; // Flag to indicate guest user
   deviceId?: string; // Device ID for guest users
+  sid?: string; // Auth session the token was issued for
+  mfa?: boolean; // Session was authenticated with a second factor
+  acr?: TrustLevel; // Trust level of a government (BundID) login
   cityId?: string; // Current/selected city ID (for UI)
   cityIds?: string[]; // All city IDs user has access to (deprecated, use cityAssignments)
   selectedCityId?: string; // Currently selected city in UI
@@ -64,6 +68,9 @@ export class JwtTokenService {
       selectedCityId?: string;
       cityAssignments?: CityAssignment[];
       permissions?: string[];
+      sessionId?: string;
+      twoFactorVerified?: boolean;
+      trustLevel?: TrustLevel;
     },
   ): Promise<string> {
     // Convert role to number if it's a string
@@ -82,6 +89,9 @@ export class JwtTokenService {
       type: 'access',
       ...(options?.isGuest && { isGuest: options.isGuest }),
       ...(options?.deviceId && { deviceId: options.deviceId }),
+      ...(options?.sessionId && { sid: options.sessionId }),
+      ...(options?.twoFactorVerified && { mfa: true }),
+      ...(options?.trustLevel && { acr: options.trustLevel }),
       ...(options?.cityId && { cityId: options.cityId }),
       ...(options?.cityIds && { cityIds: options.cityIds }),
       ...(options?.selectedCityId && { selectedCityId: options.selectedCityId }),
@@ -110,6 +120,9 @@ export class JwtTokenService {
       selectedCityId?: string;
       cityAssignments?: CityAssignment[];
       permissions?: string[];
+      sessionId?: string;
+      twoFactorVerified?: boolean;
+      trustLevel?: TrustLevel;
     },
   ): Promise<string> {
     // Convert role to number if it's a string
@@ -128,6 +141,9 @@ export class JwtTokenService {
       type: 'refresh',
       ...(options?.isGuest && { isGuest: options.isGuest }),
       ...(options?.deviceId && { deviceId: options.deviceId }),
+      ...(options?.sessionId && { sid: options.sessionId }),
+      ...(options?.twoFactorVerified && { mfa: true }),
+      ...(options?.trustLevel && { acr: options.trustLevel }),
       ...(options?.cityId && { cityId: options.cityId }),
       ...(options?.cityIds && { cityIds: options.cityIds }),
       ...(options?.selectedCityId && { selectedCityId: options.selectedCityId }),
@@ -156,6 +172,9 @@ export class JwtTokenService {
       selectedCityId?: string;
       cityAssignments?: CityAssignment[];
       permissions?: string[];
+      sessionId?: string;
+      twoFactorVerified?: boolean;
+      trustLevel?: TrustLevel;
     },
   ): Promise<TokenPair> {
     const [accessToken, refreshToken] = await Promise.all([
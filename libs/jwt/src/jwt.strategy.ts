@@ -66,6 +66,9 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       email: payload.email,
       role: payload.role, // Keep as number
       sub: payload.sub, // For compatibility
+      sessionId: payload.sid,
+      twoFactorVerified: payload.mfa === true,
+      trustLevel: payload.acr,
       cityId: payload.selectedCityId || payload.cityId,
       selectedCityId: payload.selectedCityId || payload.cityId,
       cityIds: cityIds.length > 0 ? cityIds : payload.cityIds || [],
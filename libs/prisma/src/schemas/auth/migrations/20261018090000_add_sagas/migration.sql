@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "SagaStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED', 'COMPENSATING', 'COMPENSATED');
+
+-- CreateTable
+CREATE TABLE "sagas" (
+    "id" TEXT NOT NULL,
+    "transactionType" TEXT NOT NULL,
+    "status" "SagaStatus" NOT NULL DEFAULT 'PENDING',
+    "orchestrated" BOOLEAN NOT NULL DEFAULT false,
+    "currentStep" INTEGER NOT NULL DEFAULT 0,
+    "steps" JSONB NOT NULL,
+    "metadata" JSONB,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "sagas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sagas_status_idx" ON "sagas"("status");
+
+-- CreateIndex
+CREATE INDEX "sagas_transactionType_idx" ON "sagas"("transactionType");
+
+-- CreateIndex
+CREATE INDEX "sagas_status_updatedAt_idx" ON "sagas"("status", "updatedAt");
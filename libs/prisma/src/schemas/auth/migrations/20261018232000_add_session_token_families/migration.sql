@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "familyId" TEXT,
+ADD COLUMN     "replacedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "sessions_familyId_idx" ON "sessions"("familyId");
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "AuthAction" ADD VALUE 'ACCOUNT_LOCK';
+ALTER TYPE "AuthAction" ADD VALUE 'ACCOUNT_UNLOCK';
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "oauth_identities" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "provider" "AuthProvider" NOT NULL,
+    "providerUserId" TEXT NOT NULL,
+    "email" TEXT,
+    "lastLoginAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "oauth_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "oauth_identities_userId_idx" ON "oauth_identities"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_identities_provider_providerUserId_key" ON "oauth_identities"("provider", "providerUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oauth_identities_userId_provider_key" ON "oauth_identities"("userId", "provider");
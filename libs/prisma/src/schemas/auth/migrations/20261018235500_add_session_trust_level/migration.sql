@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "TrustLevel" AS ENUM ('LOW', 'SUBSTANTIAL', 'HIGH');
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "trustLevel" "TrustLevel";
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "cities" ADD COLUMN "location" point GENERATED ALWAYS AS (
+    point("longitude", "latitude")
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "cities_location_idx" ON "cities" USING GIST ("location");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "listings" ADD COLUMN     "lastSeenAt" TIMESTAMP(3),
+ADD COLUMN     "lastSyncRunId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "listings_externalSource_primaryCityId_idx" ON "listings"("externalSource", "primaryCityId");
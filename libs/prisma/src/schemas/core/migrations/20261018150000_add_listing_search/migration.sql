@@ -0,0 +1,40 @@
+-- Text search configuration for a listing language code ("de", "de-DE", ...).
+-- Keep in sync with LISTING_SEARCH_CONFIGS in listing-search.service.ts.
+CREATE OR REPLACE FUNCTION listing_search_config(language_code TEXT)
+RETURNS regconfig
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT CASE lower(split_part(replace(coalesce(language_code, ''), '_', '-'), '-', 1))
+    WHEN 'de' THEN 'german'::regconfig
+    WHEN 'en' THEN 'english'::regconfig
+    WHEN 'da' THEN 'danish'::regconfig
+    WHEN 'dk' THEN 'danish'::regconfig
+    WHEN 'no' THEN 'norwegian'::regconfig
+    WHEN 'nb' THEN 'norwegian'::regconfig
+    WHEN 'nn' THEN 'norwegian'::regconfig
+    WHEN 'sv' THEN 'swedish'::regconfig
+    WHEN 'se' THEN 'swedish'::regconfig
+    WHEN 'ru' THEN 'russian'::regconfig
+    WHEN 'tr' THEN 'turkish'::regconfig
+    WHEN 'ar' THEN 'arabic'::regconfig
+    WHEN 'fr' THEN 'french'::regconfig
+    WHEN 'es' THEN 'spanish'::regconfig
+    WHEN 'it' THEN 'italian'::regconfig
+    WHEN 'nl' THEN 'dutch'::regconfig
+    ELSE 'simple'::regconfig
+  END
+$$;
+
+-- AlterTable
+-- Title weighs most (A), then summary, venue and organizer (B), then content (C).
+ALTER TABLE "listings" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector(listing_search_config("languageCode"), coalesce("title", '')), 'A') ||
+    setweight(to_tsvector(listing_search_config("languageCode"), coalesce("summary", '')), 'B') ||
+    setweight(to_tsvector(listing_search_config("languageCode"), coalesce("venueName", '') || ' ' || coalesce("organizerName", '')), 'B') ||
+    setweight(to_tsvector(listing_search_config("languageCode"), coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "listings_searchVector_idx" ON "listings" USING GIN ("searchVector");
@@ -0,0 +1,9 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+-- Substring fallback of the listing search ("markt" finds "Weihnachtsmarkt").
+-- Keep the expression in sync with SEARCH_TEXT in listing-search.service.ts.
+CREATE INDEX "listings_search_text_trgm_idx" ON "listings" USING GIN (
+    (coalesce("title", '') || ' ' || coalesce("summary", '') || ' ' || coalesce("venueName", '')) gin_trgm_ops
+);
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "listings" ADD COLUMN "geoPoint" point GENERATED ALWAYS AS (
+    point("geoLng"::double precision, "geoLat"::double precision)
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "listings_geoPoint_idx" ON "listings" USING GIST ("geoPoint");
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "ListingRevisionAction" AS ENUM ('CREATE', 'UPDATE', 'MODERATION', 'SYNC', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "listing_revisions" (
+    "id" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "action" "ListingRevisionAction" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "changedFields" TEXT[],
+    "actorUserId" TEXT,
+    "actorService" TEXT,
+    "note" TEXT,
+    "restoredFromRevision" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "listing_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "listing_revisions_listingId_revision_key" ON "listing_revisions"("listingId", "revision");
+
+-- CreateIndex
+CREATE INDEX "listing_revisions_listingId_createdAt_idx" ON "listing_revisions"("listingId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "listing_revisions" ADD CONSTRAINT "listing_revisions_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "listings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "listings" ADD COLUMN     "moderationQueuedAt" TIMESTAMP(3),
+ADD COLUMN     "moderationClaimedBy" TEXT,
+ADD COLUMN     "moderationClaimedAt" TIMESTAMP(3);
+
+-- Listings already waiting for moderation entered the queue with their last change
+UPDATE "listings" SET "moderationQueuedAt" = "updatedAt" WHERE "moderationStatus" = 'PENDING';
+
+-- CreateIndex
+CREATE INDEX "listings_moderationStatus_moderationQueuedAt_idx" ON "listings"("moderationStatus", "moderationQueuedAt");
+
+-- CreateTable
+CREATE TABLE "listing_moderation_decisions" (
+    "id" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "moderatorId" TEXT NOT NULL,
+    "decision" "ListingModerationStatus" NOT NULL,
+    "cityIds" TEXT[],
+    "queuedAt" TIMESTAMP(3),
+    "queueMinutes" INTEGER,
+    "decidedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "listing_moderation_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "listing_moderation_decisions_listingId_idx" ON "listing_moderation_decisions"("listingId");
+
+-- CreateIndex
+CREATE INDEX "listing_moderation_decisions_moderatorId_decidedAt_idx" ON "listing_moderation_decisions"("moderatorId", "decidedAt");
+
+-- CreateIndex
+CREATE INDEX "listing_moderation_decisions_decidedAt_idx" ON "listing_moderation_decisions"("decidedAt");
+
+-- AddForeignKey
+ALTER TABLE "listing_moderation_decisions" ADD CONSTRAINT "listing_moderation_decisions_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "listings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateEnum
+CREATE TYPE "ScreeningRuleType" AS ENUM ('BLOCKED_TERM', 'PROFANITY', 'BLOCKED_DOMAIN', 'SUSPICIOUS_DOMAIN', 'TRUSTED_DOMAIN');
+
+-- AlterTable
+ALTER TABLE "listings" ADD COLUMN     "riskScore" INTEGER,
+ADD COLUMN     "riskReasons" JSONB,
+ADD COLUMN     "screenedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "listings_title_trgm_idx" ON "listings" USING GIN ("title" gin_trgm_ops);
+
+-- CreateTable
+CREATE TABLE "screening_rules" (
+    "id" TEXT NOT NULL,
+    "type" "ScreeningRuleType" NOT NULL,
+    "value" TEXT NOT NULL,
+    "cityId" TEXT,
+    "languageCode" TEXT,
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "screening_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "screening_rules_type_cityId_idx" ON "screening_rules"("type", "cityId");
+
+-- CreateIndex
+CREATE INDEX "screening_rules_cityId_idx" ON "screening_rules"("cityId");
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "ListingStatus" ADD VALUE 'EXPIRED';
+
+-- AlterEnum
+ALTER TYPE "ListingRevisionAction" ADD VALUE 'LIFECYCLE';
+
+-- DropIndex
+DROP INDEX "listings_isFeatured_idx";
+
+-- CreateIndex
+CREATE INDEX "listings_isFeatured_featuredUntil_idx" ON "listings"("isFeatured", "featuredUntil");
+
+-- CreateIndex
+CREATE INDEX "listings_eventEnd_idx" ON "listings"("eventEnd");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "listing_engagement_daily" (
+    "listingId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "views" INTEGER NOT NULL DEFAULT 0,
+    "likes" INTEGER NOT NULL DEFAULT 0,
+    "shares" INTEGER NOT NULL DEFAULT 0,
+    "favoritesAdded" INTEGER NOT NULL DEFAULT 0,
+    "favoritesRemoved" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "listing_engagement_daily_pkey" PRIMARY KEY ("listingId","date")
+);
+
+-- CreateIndex
+CREATE INDEX "listing_engagement_daily_date_idx" ON "listing_engagement_daily"("date");
+
+-- AddForeignKey
+ALTER TABLE "listing_engagement_daily" ADD CONSTRAINT "listing_engagement_daily_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "listings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "IntegrationProvider" ADD VALUE 'LISTING_IMPORT';
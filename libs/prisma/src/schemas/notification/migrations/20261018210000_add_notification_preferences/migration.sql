@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "NotificationTopic" AS ENUM ('LISTING_MODERATION');
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "topic" "NotificationTopic" NOT NULL,
+    "channel" "NotificationChannel" NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_preferences_userId_idx" ON "notification_preferences"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_preferences_userId_topic_channel_key" ON "notification_preferences"("userId", "topic", "channel");
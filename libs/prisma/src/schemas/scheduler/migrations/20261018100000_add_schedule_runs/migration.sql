@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ScheduleRunStatus" AS ENUM ('RUNNING', 'SUCCESS', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ScheduleRunTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- CreateTable
+CREATE TABLE "schedule_runs" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "trigger" "ScheduleRunTrigger" NOT NULL DEFAULT 'SCHEDULED',
+    "status" "ScheduleRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "schedule_runs_scheduleId_startedAt_idx" ON "schedule_runs"("scheduleId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "schedule_runs_status_idx" ON "schedule_runs"("status");
+
+-- AddForeignKey
+ALTER TABLE "schedule_runs" ADD CONSTRAINT "schedule_runs_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
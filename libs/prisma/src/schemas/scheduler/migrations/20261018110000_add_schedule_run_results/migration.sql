@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "ScheduleRunStatus" ADD VALUE 'DISPATCHED';
+ALTER TYPE "ScheduleRunStatus" ADD VALUE 'TIMED_OUT';
+
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN     "consecutiveFailures" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "schedule_runs" ADD COLUMN     "deadlineAt" TIMESTAMP(3),
+ADD COLUMN     "reportedAt" TIMESTAMP(3),
+ADD COLUMN     "result" JSONB;
+
+-- CreateIndex
+CREATE INDEX "schedule_runs_status_deadlineAt_idx" ON "schedule_runs"("status", "deadlineAt");
@@ -92,8 +92,23 @@ export class RmqSetupService implements OnModuleInit {
         'notification.*',
         'verification.*',
         'passwordReset.*',
+        'listing.moderated',
+        'account.locked',
+      ],
+      integration: [
+        'integration.*',
+        // Platform events forwarded to outbound webhook subscriptions
+        'listing.approved',
+        'listing.published',
+        'listing.expired',
+        'listing.unfeatured',
+        'listing.archived',
+        'tile.published',
+        'tile.expired',
+        'city.updated',
+        'user.created',
+        'parking.updated',
       ],
-      integration: ['integration.*'],
       scheduler: ['schedule.*'],
       auth: ['user.*'],
       // terminal and admin don't have specific routing keys yet
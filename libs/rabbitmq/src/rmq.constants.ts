@@ -60,11 +60,14 @@ export const RabbitMQPatterns = {
   USER_FIND_BY_ID: 'user.findById',
   USER_GET_PROFILE: 'user.getProfile',
   USER_CREATE_GUEST: 'user.createGuest',
+  USER_CREATE_OAUTH: 'user.createOAuth',
   USER_FIND_BY_DEVICE: 'user.findByDevice',
+  USER_FIND_BY_GUEST_ID: 'user.findByGuestId',
   USER_CONVERT_GUEST: 'user.convertGuest',
   USER_FIND_BY_CITY: 'user.findByCity',
   USER_FIND_ALL_ACTIVE: 'user.findAllActive',
   USER_UPDATE_ROLE: 'user.updateRole',
+  USER_REVERT_GUEST_CONVERSION: 'user.revertGuestConversion',
 
   // Core request-response patterns
   CORE_GET_USER_CITIES: 'core.getUserCities',
@@ -89,6 +92,21 @@ export const RabbitMQPatterns = {
   CITY_UPDATED: 'city.updated',
   CITY_DELETED: 'city.deleted',
 
+  // Listing events (fire and forget)
+  LISTING_APPROVED: 'listing.approved',
+  LISTING_MODERATED: 'listing.moderated',
+  LISTING_PUBLISHED: 'listing.published',
+  LISTING_EXPIRED: 'listing.expired',
+  LISTING_UNFEATURED: 'listing.unfeatured',
+  LISTING_ARCHIVED: 'listing.archived',
+
+  // Tile events (fire and forget)
+  TILE_PUBLISHED: 'tile.published',
+  TILE_EXPIRED: 'tile.expired',
+
+  // Parking events (fire and forget)
+  PARKING_UPDATED: 'parking.updated',
+
   // City request-response patterns
   CITY_FIND_BY_ID: 'city.findById',
 
@@ -97,11 +115,14 @@ export const RabbitMQPatterns = {
   INTEGRATION_SYNC: 'integration.sync',
   INTEGRATION_SYNC_LISTING: 'core.syncListing',
   INTEGRATION_SYNC_CATEGORIES: 'core.syncCategories',
+  INTEGRATION_RECONCILE_LISTINGS: 'core.reconcileListings',
   PARKING_SPACE_SYNC: 'core.syncParkingSpace',
+  CONTENT_LIFECYCLE_RUN: 'core.runContentLifecycle',
 
   // Scheduler events
   SCHEDULE_EXECUTE: 'schedule.execute',
   SCHEDULE_COMPLETED: 'schedule.completed',
+  SCHEDULE_RUN_RESULT: 'schedule.runResult',
 
   // Core events (fire and forget)
   CORE_OPERATION: 'core.operation',
@@ -111,6 +132,9 @@ export const RabbitMQPatterns = {
   TERMS_CHECK_ACCEPTANCE: 'terms.checkAcceptance',
   TERMS_GET_USER_VERSION: 'terms.getUserVersion',
 
+  // Account security events
+  ACCOUNT_LOCKED: 'account.locked',
+
   // Password reset events
   PASSWORD_RESET_REQUESTED: 'passwordReset.requested',
   PASSWORD_RESET_SENT: 'passwordReset.sent',
@@ -0,0 +1,226 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@heidi/config';
+import { LoggerService } from '@heidi/logger';
+import { createHash, randomUUID } from 'crypto';
+import { RedisService } from './redis.service';
+
+export type AttemptSubject = 'account' | 'device' | 'ip';
+
+/** Who an attempt is counted against; missing subjects are not counted */
+export type AttemptSubjects = Partial<Record<AttemptSubject, string | null>>;
+
+export interface AttemptBlock {
+  reason: 'locked' | 'delayed';
+  subject: AttemptSubject;
+  retryAfterSeconds: number;
+}
+
+export interface AttemptLockout {
+  subject: AttemptSubject;
+  failures: number;
+  lockedUntil: Date;
+}
+
+interface AttemptLimits {
+  windowSeconds: number;
+  lockoutSeconds: number;
+  delayAfter: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxFailures: Record<AttemptSubject, number>;
+}
+
+const SUBJECTS: AttemptSubject[] = ['account', 'device', 'ip'];
+
+/**
+ * Brute-force protection shared by login and other abusable endpoints. Failed
+ * attempts are kept per scope and subject in a sliding window (a sorted set of
+ * timestamps). Past `delayAfter` failures every further attempt has to wait an
+ * exponentially growing delay; reaching the subject's maximum locks it for
+ * `lockoutSeconds`. Subject values are hashed so no email or IP is stored.
+ */
+@Injectable()
+export class AttemptLimiterService {
+  private readonly limits: AttemptLimits;
+
+  constructor(
+    private readonly redis: RedisService,
+    private readonly configService: ConfigService,
+    private readonly logger: LoggerService,
+  ) {
+    this.logger.setContext(AttemptLimiterService.name);
+    this.limits = {
+      windowSeconds: this.configService.get<number>('bruteForce.windowSeconds', 900),
+      lockoutSeconds: this.configService.get<number>('bruteForce.lockoutSeconds', 900),
+      delayAfter: this.configService.get<number>('bruteForce.delayAfter', 3),
+      baseDelayMs: this.configService.get<number>('bruteForce.baseDelayMs', 1000),
+      maxDelayMs: this.configService.get<number>('bruteForce.maxDelayMs', 30000),
+      maxFailures: {
+        account: this.configService.get<number>('bruteForce.maxFailures.account', 5),
+        device: this.configService.get<number>('bruteForce.maxFailures.device', 10),
+        ip: this.configService.get<number>('bruteForce.maxFailures.ip', 30),
+      },
+    };
+  }
+
+  get lockoutSeconds(): number {
+    return this.limits.lockoutSeconds;
+  }
+
+  /**
+   * Returns why the next attempt is not allowed yet, or null. When Redis is
+   * unavailable attempts are allowed rather than locking everybody out.
+   */
+  async check(scope: string, subjects: AttemptSubjects): Promise<AttemptBlock | null> {
+    try {
+      const client = this.redis.getClient();
+      let delayed: AttemptBlock | null = null;
+
+      for (const [subject, key] of this.keys(scope, subjects)) {
+        const lockTtl = await client.pttl(`${key}:lock`);
+        if (lockTtl > 0) {
+          return { reason: 'locked', subject, retryAfterSeconds: Math.ceil(lockTtl / 1000) };
+        }
+
+        const delayTtl = await client.pttl(`${key}:delay`);
+        if (delayTtl > 0 && (!delayed || delayed.retryAfterSeconds * 1000 < delayTtl)) {
+          delayed = { reason: 'delayed', subject, retryAfterSeconds: Math.ceil(delayTtl / 1000) };
+        }
+      }
+      return delayed;
+    } catch (error) {
+      this.logger.warn(`Could not check attempts of ${scope}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /** Throws a 429 if the next attempt is not allowed yet */
+  async assertAllowed(scope: string, subjects: AttemptSubjects): Promise<void> {
+    const block = await this.check(scope, subjects);
+    if (block) {
+      throw this.toException(block);
+    }
+  }
+
+  /**
+   * Counts a failed attempt against every subject. Returns the subjects this
+   * failure locked, so callers can notify and audit a lockout exactly once.
+   */
+  async recordFailure(scope: string, subjects: AttemptSubjects): Promise<AttemptLockout[]> {
+    const lockouts: AttemptLockout[] = [];
+
+    try {
+      const client = this.redis.getClient();
+      const now = Date.now();
+
+      for (const [subject, key] of this.keys(scope, subjects)) {
+        const [, , [, failures]] = (await client
+          .multi()
+          .zremrangebyscore(`${key}:failures`, 0, now - this.limits.windowSeconds * 1000)
+          .zadd(`${key}:failures`, now, `${now}:${randomUUID()}`)
+          .zcard(`${key}:failures`)
+          .expire(`${key}:failures`, this.limits.windowSeconds)
+          .exec()) as [Error | null, number][];
+
+        if (failures >= this.limits.maxFailures[subject]) {
+          const locked = await client.set(
+            `${key}:lock`,
+            String(failures),
+            'EX',
+            this.limits.lockoutSeconds,
+            'NX',
+          );
+          // The count starts over once the lockout has ended
+          await client.del(`${key}:failures`, `${key}:delay`);
+          if (locked === 'OK') {
+            lockouts.push({
+              subject,
+              failures,
+              lockedUntil: new Date(now + this.limits.lockoutSeconds * 1000),
+            });
+          }
+        } else if (failures >= this.limits.delayAfter) {
+          const delayMs = Math.min(
+            this.limits.baseDelayMs * 2 ** (failures - this.limits.delayAfter),
+            this.limits.maxDelayMs,
+          );
+          await client.set(`${key}:delay`, '1', 'PX', delayMs);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Could not record failed attempt of ${scope}: ${error.message}`);
+    }
+
+    return lockouts;
+  }
+
+  /**
+   * For endpoints where every request counts, e.g. sending emails: throws if
+   * the request is not allowed, otherwise counts it
+   */
+  async hit(scope: string, subjects: AttemptSubjects): Promise<void> {
+    await this.assertAllowed(scope, subjects);
+    await this.recordFailure(scope, subjects);
+  }
+
+  /** Forgets the failures of the subjects after a successful attempt */
+  async reset(scope: string, subjects: AttemptSubjects): Promise<void> {
+    try {
+      const keys = this.keys(scope, subjects).flatMap(([, key]) => [
+        `${key}:failures`,
+        `${key}:delay`,
+      ]);
+      if (keys.length > 0) {
+        await this.redis.getClient().del(...keys);
+      }
+    } catch (error) {
+      this.logger.warn(`Could not reset attempts of ${scope}: ${error.message}`);
+    }
+  }
+
+  /** Ends a lockout early. Returns false if none of the subjects was locked. */
+  async unlock(scope: string, subjects: AttemptSubjects): Promise<boolean> {
+    const keys = this.keys(scope, subjects).flatMap(([, key]) => [
+      `${key}:lock`,
+      `${key}:failures`,
+      `${key}:delay`,
+    ]);
+    if (keys.length === 0) {
+      return false;
+    }
+
+    const client = this.redis.getClient();
+    const locked = await client.exists(...keys.filter((key) => key.endsWith(':lock')));
+    await client.del(...keys);
+    return locked > 0;
+  }
+
+  toException(block: AttemptBlock): HttpException {
+    return new HttpException(
+      block.reason === 'locked' && block.subject === 'account'
+        ? {
+            errorCode: 'ACCOUNT_LOCKED',
+            message:
+              'This account is temporarily locked after too many failed attempts. Please try again later.',
+            retryAfterSeconds: block.retryAfterSeconds,
+          }
+        : {
+            errorCode: 'TOO_MANY_ATTEMPTS',
+            message: 'Too many attempts. Please wait before trying again.',
+            retryAfterSeconds: block.retryAfterSeconds,
+          },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private keys(scope: string, subjects: AttemptSubjects): [AttemptSubject, string][] {
+    return SUBJECTS.flatMap((subject) => {
+      const value = subjects[subject]?.trim().toLowerCase();
+      if (!value) {
+        return [];
+      }
+      const hash = createHash('sha256').update(value).digest('hex');
+      return [[subject, `attempts:${scope}:${subject}:${hash}`] as [AttemptSubject, string]];
+    });
+  }
+}
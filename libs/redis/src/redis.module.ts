@@ -2,11 +2,12 @@ import { Global, Module } from '@nestjs/common';
 import { LoggerModule } from '@heidi/logger';
 import { ConfigModule } from '@heidi/config';
 import { RedisService } from './redis.service';
+import { AttemptLimiterService } from './attempt-limiter.service';
 
 @Global()
 @Module({
   imports: [ConfigModule, LoggerModule],
-  providers: [RedisService],
-  exports: [RedisService],
+  providers: [RedisService, AttemptLimiterService],
+  exports: [RedisService, AttemptLimiterService],
 })
 export class RedisModule {}
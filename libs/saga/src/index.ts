@@ -1,2 +1,6 @@
 export * from './saga-orchestrator.service';
+export * from './saga-execution.error';
+export * from './saga.controller';
+export * from './saga.constants';
+export * from './saga.interfaces';
 export * from './saga.module';
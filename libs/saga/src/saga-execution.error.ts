@@ -0,0 +1,18 @@
+import { SagaState } from '@heidi/contracts';
+
+/**
+ * Thrown by SagaOrchestratorService.execute() when a saga did not complete.
+ * `saga` holds the final persisted state (COMPENSATED, or FAILED if compensation
+ * itself failed) and `cause` the error returned by the failing step.
+ */
+export class SagaExecutionError extends Error {
+  constructor(
+    public readonly saga: SagaState,
+    public readonly cause?: any,
+  ) {
+    super(
+      `Saga ${saga.sagaId} (${saga.transactionType}) failed: ${saga.lastError ?? 'unknown error'}`,
+    );
+    this.name = 'SagaExecutionError';
+  }
+}
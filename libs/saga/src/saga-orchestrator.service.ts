@@ -1,36 +1,209 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { ConflictException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { firstValueFrom, timeout } from 'rxjs';
+import { Prisma, Saga } from '@prisma/client-core';
 import { RedisService } from '@heidi/redis';
-import { SagaState, SagaStep, SagaStatus } from '@heidi/contracts';
+import { RABBITMQ_CLIENT, RmqClientWrapper } from '@heidi/rabbitmq';
+import { SagaState, SagaStep, SagaStatus, SagaListQueryDto } from '@heidi/contracts';
+import { SagaExecutionError } from './saga-execution.error';
+import { SagaLocalAction, SagaPrismaClient } from './saga.interfaces';
+import { SAGA_PRISMA } from './saga.constants';
+
+/**
+ * Step definition as passed to createSaga()/execute()
+ */
+export type SagaStepDefinition = Omit<SagaStep, 'status' | 'result' | 'error' | 'attempts'>;
+
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const DEFAULT_STUCK_AFTER_MINUTES = 5;
+const SAGA_LOCK_TTL_SECONDS = 300;
 
 @Injectable()
 export class SagaOrchestratorService {
   private readonly logger = new Logger(SagaOrchestratorService.name);
+  private readonly localActions = new Map<string, SagaLocalAction>();
 
-  constructor(private readonly redis: RedisService) {}
+  constructor(
+    @Inject(SAGA_PRISMA) private readonly prisma: SagaPrismaClient,
+    private readonly redis: RedisService,
+    @Inject(RABBITMQ_CLIENT) private readonly client: RmqClientWrapper,
+  ) {}
+
+  /**
+   * Run an action of the host service in-process instead of sending it over RabbitMQ,
+   * so a service does not message its own queue from inside one of its handlers.
+   * Register on module init, before sagas using the action are executed or resumed.
+   */
+  registerLocalAction(action: string, handler: SagaLocalAction): void {
+    this.localActions.set(action, handler);
+  }
 
   /**
-   * Create a new saga transaction
+   * Create a new saga transaction.
+   * The caller drives the steps itself via executeStep()/failStep()/compensate().
    */
   async createSaga(
     transactionType: string,
-    steps: Omit<SagaStep, 'status' | 'result' | 'error'>[],
+    steps: SagaStepDefinition[],
+    metadata?: Record<string, any>,
   ): Promise<string> {
-    const sagaId = `saga:${Date.now()}:${Math.random().toString(36).substr(2, 9)}`;
-
-    const saga: SagaState = {
-      sagaId,
-      transactionType,
-      steps: steps.map((step) => ({ ...step, status: SagaStatus.PENDING })),
-      currentStep: 0,
-      status: SagaStatus.PENDING,
-      createdAt: new Date(),
-    };
+    const saga = await this.persistSaga(transactionType, steps, metadata, false);
+
+    this.logger.log(`Created saga: ${saga.sagaId} for transaction: ${transactionType}`);
+    return saga.sagaId;
+  }
+
+  /**
+   * Create and run an orchestrated saga.
+   * Each step's action is sent over RabbitMQ (with per-step timeout and retries) or run
+   * in-process if registered via registerLocalAction(); if a step fails, completed steps are compensated in reverse order and a
+   * SagaExecutionError is thrown.
+   */
+  async execute(
+    transactionType: string,
+    steps: SagaStepDefinition[],
+    metadata?: Record<string, any>,
+  ): Promise<SagaState> {
+    const saga = await this.persistSaga(transactionType, steps, metadata, true);
+    this.logger.log(`Executing saga: ${saga.sagaId} for transaction: ${transactionType}`);
+
+    // Also fails while Redis is unreachable; the saga then stays PENDING and is listed as stuck
+    const locked = await this.redis.acquireLock(this.lockKey(saga.sagaId), SAGA_LOCK_TTL_SECONDS);
+    if (!locked) {
+      throw new ConflictException(`Saga ${saga.sagaId} is currently being executed`);
+    }
+
+    try {
+      const { error } = await this.runForward(saga);
+      if (saga.status !== SagaStatus.COMPLETED) {
+        throw new SagaExecutionError(saga, error);
+      }
+      return saga;
+    } finally {
+      await this.redis.releaseLock(this.lockKey(saga.sagaId));
+    }
+  }
+
+  /**
+   * Roll back an orchestrated saga whose steps all succeeded but whose local
+   * follow-up work failed (e.g. issuing tokens after a remote conversion).
+   */
+  async abort(sagaId: string, reason: string): Promise<SagaState> {
+    const saga = await this.getSaga(sagaId);
+    if (!saga) {
+      throw new Error(`Saga not found: ${sagaId}`);
+    }
+
+    const locked = await this.redis.acquireLock(this.lockKey(sagaId), SAGA_LOCK_TTL_SECONDS);
+    if (!locked) {
+      throw new ConflictException(`Saga ${sagaId} is currently being executed`);
+    }
+
+    try {
+      this.logger.warn(`Aborting saga ${sagaId}: ${reason}`);
+      saga.status = SagaStatus.COMPENSATING;
+      saga.lastError = reason;
+      saga.completedAt = undefined;
+      await this.saveSaga(saga);
+
+      await this.runCompensation(saga);
+      return saga;
+    } finally {
+      await this.redis.releaseLock(this.lockKey(sagaId));
+    }
+  }
+
+  /**
+   * Resume a stuck orchestrated saga: continue forward execution if it was
+   * interrupted, or retry compensation if it was compensating or failed.
+   */
+  async resume(sagaId: string): Promise<SagaState> {
+    const saga = await this.getSaga(sagaId);
+    if (!saga) {
+      throw new NotFoundException(`Saga not found: ${sagaId}`);
+    }
 
-    // Store saga state in Redis with 1 hour TTL
-    await this.redis.set(`saga:${sagaId}`, JSON.stringify(saga), 3600);
+    if (!saga.orchestrated) {
+      throw new ConflictException(
+        `Saga ${sagaId} is driven by its caller and cannot be resumed by the orchestrator`,
+      );
+    }
+
+    if (saga.status === SagaStatus.COMPLETED || saga.status === SagaStatus.COMPENSATED) {
+      throw new ConflictException(`Saga ${sagaId} is already ${saga.status}`);
+    }
+
+    const locked = await this.redis.acquireLock(this.lockKey(sagaId), SAGA_LOCK_TTL_SECONDS);
+    if (!locked) {
+      throw new ConflictException(`Saga ${sagaId} is currently being executed`);
+    }
+
+    try {
+      this.logger.log(`Resuming saga ${sagaId} in status ${saga.status}`);
+
+      if (saga.status === SagaStatus.PENDING) {
+        await this.runForward(saga);
+      } else {
+        saga.status = SagaStatus.COMPENSATING;
+        await this.saveSaga(saga);
+        await this.runCompensation(saga);
+      }
 
-    this.logger.log(`Created saga: ${sagaId} for transaction: ${transactionType}`);
-    return sagaId;
+      return saga;
+    } finally {
+      await this.redis.releaseLock(this.lockKey(sagaId));
+    }
+  }
+
+  /**
+   * List sagas, optionally only the stuck ones
+   */
+  async listSagas(query: SagaListQueryDto) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+    const where: Prisma.SagaWhereInput = {};
+
+    if (query.status) {
+      where.status = query.status;
+    }
+
+    if (query.transactionType) {
+      where.transactionType = query.transactionType;
+    }
+
+    if (query.stuck) {
+      const stuckAfterMinutes = query.stuckAfterMinutes ?? DEFAULT_STUCK_AFTER_MINUTES;
+      const cutoff = new Date(Date.now() - stuckAfterMinutes * 60 * 1000);
+      where.OR = [
+        {
+          status: { in: [SagaStatus.PENDING, SagaStatus.COMPENSATING] },
+          orchestrated: true,
+          updatedAt: { lt: cutoff },
+        },
+        { status: SagaStatus.FAILED },
+      ];
+    }
+
+    const [rows, total] = await Promise.all([
+      this.prisma.saga.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      this.prisma.saga.count({ where }),
+    ]);
+
+    return {
+      items: rows.map((row) => this.toState(row)),
+      meta: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    };
   }
 
   /**
@@ -88,6 +261,7 @@ export class SagaOrchestratorService {
     }
 
     saga.status = SagaStatus.COMPENSATING;
+    saga.lastError = error;
     await this.saveSaga(saga);
 
     this.logger.warn(
@@ -138,6 +312,7 @@ export class SagaOrchestratorService {
     });
 
     saga.status = SagaStatus.COMPENSATED;
+    saga.completedAt = new Date();
     await this.saveSaga(saga);
 
     this.logger.log(`Saga ${sagaId} compensation completed`);
@@ -147,25 +322,238 @@ export class SagaOrchestratorService {
    * Get saga state
    */
   async getSaga(sagaId: string): Promise<SagaState | null> {
-    const sagaJson = await this.redis.get<string>(`saga:${sagaId}`);
-    if (!sagaJson) {
-      return null;
+    const row = await this.prisma.saga.findUnique({ where: { id: sagaId } });
+    return row ? this.toState(row) : null;
+  }
+
+  /**
+   * Dispatch the remaining steps of an orchestrated saga.
+   * On failure the completed steps are compensated before returning.
+   */
+  private async runForward(saga: SagaState): Promise<{ error?: any }> {
+    while (saga.currentStep < saga.steps.length) {
+      const step = saga.steps[saga.currentStep];
+      const payload = this.resolvePayload(step.payload, saga);
+
+      try {
+        step.result = await this.dispatch(saga, step, step.action, payload, step);
+        step.status = SagaStatus.COMPLETED;
+        step.error = undefined;
+        saga.currentStep++;
+        await this.saveSaga(saga);
+      } catch (error) {
+        const message = this.errorMessage(error);
+        step.status = SagaStatus.FAILED;
+        step.error = message;
+        saga.status = SagaStatus.COMPENSATING;
+        saga.lastError = `Step ${step.stepId} failed: ${message}`;
+        await this.saveSaga(saga);
+
+        this.logger.warn(
+          `Saga ${saga.sagaId} failed at step ${saga.currentStep + 1} (${step.stepId}), starting compensation`,
+        );
+        await this.runCompensation(saga);
+        return { error };
+      }
+    }
+
+    saga.status = SagaStatus.COMPLETED;
+    saga.completedAt = new Date();
+    await this.saveSaga(saga);
+    this.logger.log(`Saga completed: ${saga.sagaId}`);
+    return {};
+  }
+
+  /**
+   * Dispatch compensations for completed steps in reverse order.
+   * Stops at the first failing compensation and marks the saga FAILED so it
+   * can be resumed once the cause is fixed.
+   */
+  private async runCompensation(saga: SagaState): Promise<void> {
+    const lastCompleted = Math.min(saga.currentStep, saga.steps.length) - 1;
+
+    for (let i = lastCompleted; i >= 0; i--) {
+      const step = saga.steps[i];
+      const pending =
+        step.status === SagaStatus.COMPLETED || step.status === SagaStatus.COMPENSATING;
+      if (!pending || !step.compensation) {
+        continue;
+      }
+
+      step.status = SagaStatus.COMPENSATING;
+      await this.saveSaga(saga);
+
+      try {
+        const payload = this.resolvePayload(step.compensation.payload, saga, step.result);
+        await this.dispatch(saga, step, step.compensation.action, payload, step.compensation);
+        step.status = SagaStatus.COMPENSATED;
+        await this.saveSaga(saga);
+      } catch (error) {
+        const message = this.errorMessage(error);
+        step.error = `Compensation failed: ${message}`;
+        saga.status = SagaStatus.FAILED;
+        saga.lastError = `Compensation of step ${step.stepId} failed: ${message}`;
+        await this.saveSaga(saga);
+
+        this.logger.error(
+          `Saga ${saga.sagaId} compensation failed at step ${step.stepId}, manual resume required`,
+        );
+        return;
+      }
+    }
+
+    saga.status = SagaStatus.COMPENSATED;
+    saga.completedAt = new Date();
+    await this.saveSaga(saga);
+    this.logger.log(`Saga ${saga.sagaId} compensation completed`);
+  }
+
+  /**
+   * Run a local action or send a message, with timeout and retries (exponential backoff)
+   */
+  private async dispatch(
+    saga: SagaState,
+    step: SagaStep,
+    pattern: string,
+    payload: any,
+    options: { timeoutMs?: number; maxRetries?: number },
+  ): Promise<any> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_STEP_TIMEOUT_MS;
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const localAction = this.localActions.get(pattern);
+
+    for (let attempt = 0; ; attempt++) {
+      step.attempts = (step.attempts ?? 0) + 1;
+
+      try {
+        if (localAction) {
+          return await localAction(payload);
+        }
+        return await firstValueFrom(this.client.send(pattern, payload).pipe(timeout(timeoutMs)));
+      } catch (error) {
+        if (attempt >= maxRetries) {
+          throw error;
+        }
+
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+        this.logger.warn(
+          `Saga ${saga.sagaId} step ${step.stepId}: ${pattern} failed (${this.errorMessage(error)}), retrying in ${delay}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Replace {{...}} placeholders in a payload.
+   * Supported roots: `steps.<stepId>.result...`, `result...` (the step's own
+   * result, for compensations) and `metadata...`.
+   */
+  private resolvePayload(payload: any, saga: SagaState, ownResult?: any): any {
+    if (typeof payload === 'string') {
+      const whole = payload.match(/^\{\{\s*([\w.]+)\s*\}\}$/);
+      if (whole) {
+        return this.lookup(whole[1], saga, ownResult);
+      }
+      return payload.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) =>
+        String(this.lookup(path, saga, ownResult) ?? ''),
+      );
+    }
+
+    if (Array.isArray(payload)) {
+      return payload.map((item) => this.resolvePayload(item, saga, ownResult));
+    }
+
+    if (payload && typeof payload === 'object') {
+      return Object.fromEntries(
+        Object.entries(payload).map(([key, value]) => [
+          key,
+          this.resolvePayload(value, saga, ownResult),
+        ]),
+      );
     }
 
-    const saga = JSON.parse(sagaJson) as SagaState;
-    // Parse dates
-    saga.createdAt = new Date(saga.createdAt);
-    if (saga.completedAt) {
-      saga.completedAt = new Date(saga.completedAt);
+    return payload;
+  }
+
+  private lookup(path: string, saga: SagaState, ownResult?: any): any {
+    const [root, ...rest] = path.split('.');
+    let value: any;
+    let keys = rest;
+
+    if (root === 'result') {
+      value = ownResult;
+    } else if (root === 'steps') {
+      const [stepId, ...tail] = rest;
+      value = saga.steps.find((s) => s.stepId === stepId);
+      keys = tail;
+    } else if (root === 'metadata') {
+      value = saga.metadata;
     }
 
-    return saga;
+    return keys.reduce((acc, key) => (acc == null ? undefined : acc[key]), value);
+  }
+
+  private errorMessage(error: any): string {
+    return error?.message ?? (typeof error === 'string' ? error : JSON.stringify(error));
+  }
+
+  private lockKey(sagaId: string): string {
+    return `saga:lock:${sagaId}`;
+  }
+
+  private async persistSaga(
+    transactionType: string,
+    steps: SagaStepDefinition[],
+    metadata: Record<string, any> | undefined,
+    orchestrated: boolean,
+  ): Promise<SagaState> {
+    const row = await this.prisma.saga.create({
+      data: {
+        transactionType,
+        orchestrated,
+        steps: this.toJson(steps.map((step) => ({ ...step, status: SagaStatus.PENDING }))),
+        metadata: metadata ? this.toJson(metadata) : undefined,
+      },
+    });
+
+    return this.toState(row);
   }
 
   /**
    * Save saga state
    */
   private async saveSaga(saga: SagaState): Promise<void> {
-    await this.redis.set(`saga:${saga.sagaId}`, JSON.stringify(saga), 3600);
+    await this.prisma.saga.update({
+      where: { id: saga.sagaId },
+      data: {
+        status: saga.status,
+        currentStep: saga.currentStep,
+        steps: this.toJson(saga.steps),
+        lastError: saga.lastError ?? null,
+        completedAt: saga.completedAt ?? null,
+      },
+    });
+  }
+
+  private toState(row: Saga): SagaState {
+    return {
+      sagaId: row.id,
+      transactionType: row.transactionType,
+      steps: row.steps as unknown as SagaStep[],
+      currentStep: row.currentStep,
+      status: row.status as SagaStatus,
+      orchestrated: row.orchestrated,
+      lastError: row.lastError ?? undefined,
+      metadata: (row.metadata as Record<string, any>) ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      completedAt: row.completedAt ?? undefined,
+    };
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    // Round-trip through JSON so step results (Dates, class instances) are storable
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
   }
 }
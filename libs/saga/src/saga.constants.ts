@@ -0,0 +1,5 @@
+/**
+ * Injection token of the Prisma client the orchestrator stores sagas with
+ * (the host service's own database)
+ */
+export const SAGA_PRISMA = 'SAGA_PRISMA';
@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { SagaListQueryDto, SagaListResponseDto, SagaResponseDto } from '@heidi/contracts';
+import { JwtAuthGuard } from '@heidi/jwt';
+import { AdminOnlyGuard, SuperAdminOnly } from '@heidi/rbac';
+import { SagaOrchestratorService } from './saga-orchestrator.service';
+
+@ApiTags('sagas')
+@ApiBearerAuth('JWT-auth')
+@Controller('sagas')
+@UseGuards(JwtAuthGuard, AdminOnlyGuard)
+export class SagaController {
+  constructor(private readonly sagaOrchestrator: SagaOrchestratorService) {}
+
+  @Get()
+  @SuperAdminOnly()
+  @ApiOperation({
+    summary: 'List sagas',
+    description:
+      'List persisted sagas. Use stuck=true to only return sagas that stopped making progress or failed during compensation.',
+  })
+  @ApiResponse({ status: 200, description: 'List of sagas', type: SagaListResponseDto })
+  @HttpCode(HttpStatus.OK)
+  async list(@Query() query: SagaListQueryDto) {
+    return this.sagaOrchestrator.listSagas(query);
+  }
+
+  @Get(':sagaId')
+  @SuperAdminOnly()
+  @ApiOperation({ summary: 'Get saga', description: 'Get the persisted state of a saga' })
+  @ApiParam({ name: 'sagaId', description: 'Saga ID' })
+  @ApiResponse({ status: 200, description: 'Saga state', type: SagaResponseDto })
+  @ApiResponse({ status: 404, description: 'Saga not found' })
+  @HttpCode(HttpStatus.OK)
+  async findOne(@Param('sagaId') sagaId: string) {
+    const saga = await this.sagaOrchestrator.getSaga(sagaId);
+    if (!saga) {
+      throw new NotFoundException(`Saga not found: ${sagaId}`);
+    }
+    return saga;
+  }
+
+  @Post(':sagaId/resume')
+  @SuperAdminOnly()
+  @ApiOperation({
+    summary: 'Resume saga',
+    description:
+      'Resume a stuck orchestrated saga: continue pending steps, or retry compensation if it was compensating or failed.',
+  })
+  @ApiParam({ name: 'sagaId', description: 'Saga ID' })
+  @ApiResponse({ status: 200, description: 'Saga state after resuming', type: SagaResponseDto })
+  @ApiResponse({ status: 404, description: 'Saga not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Saga is finished, not orchestrated or currently running',
+  })
+  @HttpCode(HttpStatus.OK)
+  async resume(@Param('sagaId') sagaId: string) {
+    return this.sagaOrchestrator.resume(sagaId);
+  }
+}
@@ -0,0 +1,23 @@
+import { Type } from '@nestjs/common';
+import { PrismaCoreService } from '@heidi/prisma';
+
+/**
+ * Prisma client with a `Saga` model. Every schema that hosts sagas declares the same
+ * model, so the core client's delegate describes all of them.
+ */
+export type SagaPrismaClient = Pick<PrismaCoreService, 'saga'>;
+
+/**
+ * Saga module configuration options
+ */
+export interface SagaModuleOptions {
+  /**
+   * Prisma service of the host service's own database (e.g. PrismaAuthService)
+   */
+  prismaService: Type<unknown>;
+}
+
+/**
+ * In-process handler for a saga action of the host service
+ */
+export type SagaLocalAction = (payload: any) => Promise<any>;
@@ -1,11 +1,32 @@
-import { Global, Module } from '@nestjs/common';
+import { DynamicModule, Global, Module } from '@nestjs/common';
 import { RedisModule } from '@heidi/redis';
 import { SagaOrchestratorService } from './saga-orchestrator.service';
+import { SagaController } from './saga.controller';
+import { SagaModuleOptions } from './saga.interfaces';
+import { SAGA_PRISMA } from './saga.constants';
 
 @Global()
-@Module({
-  imports: [RedisModule],
-  providers: [SagaOrchestratorService],
-  exports: [SagaOrchestratorService],
-})
-export class SagaModule {}
+@Module({})
+export class SagaModule {
+  /**
+   * Provide SagaOrchestratorService, storing sagas in the `sagas` table of the host
+   * service's own database, and serve the super-admin `/sagas` endpoints for them
+   *
+   * @example
+   * ```typescript
+   * SagaModule.forRoot({ prismaService: PrismaAuthService })
+   * ```
+   */
+  static forRoot(options: SagaModuleOptions): DynamicModule {
+    return {
+      module: SagaModule,
+      imports: [RedisModule],
+      controllers: [SagaController],
+      providers: [
+        { provide: SAGA_PRISMA, useExisting: options.prismaService },
+        SagaOrchestratorService,
+      ],
+      exports: [SagaOrchestratorService],
+    };
+  }
+}